@@ -1,41 +1,30 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { DrawingCanvas } from './components/DrawingCanvas';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { DrawingCanvas, type DrawingCanvasHandle } from './components/DrawingCanvas';
 import { CameraControls } from './components/CameraControls';
 import { GeneratedImage } from './components/GeneratedImage';
 import { generateCharacterImage, analyzeScene, simpleChat, translateToEnglish, editImageWithChat } from './services/geminiService';
-import type { PoseImage, PerspectiveData, HistoryItem, ChatMessage, CameraOptions } from './types';
-import { GithubIcon, MagicWandIcon, CloseIcon, TrashIcon, ResetIcon, DownloadIcon, ZoomInIcon, ZoomOutIcon, ExpandIcon, CompareIcon, UserIcon as UserIconSingle, UsersIcon, SendIcon, LockIcon, UnlockIcon } from './components/Icons';
+import type { PoseImage, PerspectiveData, HistoryItem, ChatMessage, CameraOptions, CanvasDocument, Cut, GenerationRecipe, OutputStyle, PromptTemplateLibrary, PromptTemplateVersion, SceneAnalysisResult, Sequence, WorkMode } from './types';
+import { GithubIcon, MagicWandIcon, TargetIcon, RotateCcwIcon, CloseIcon, TrashIcon, ResetIcon, DownloadIcon, ZoomInIcon, ZoomOutIcon, ExpandIcon, CompareIcon, UserIcon as UserIconSingle, UsersIcon, SendIcon, LockIcon, UnlockIcon, SaveIcon, UploadIcon, BotIcon } from './components/Icons';
 import { SceneAnalysis } from './components/SceneAnalysis';
 import { MasterDashboard } from './components/MasterDashboard'; // Import the new MasterDashboard
+import { createProjectFile, readProjectFile } from './services/projectFile';
+import { loadHistory, saveHistory, clearHistory, saveCanvasDocument, clearCanvasDocument, loadSequence, saveSequence, getStorageUsage, subscribeToStorageWrites, type StorageUsage } from './services/storage';
+import { createCut, nextCutNumber, isCutPending, DEFAULT_CAMERA_OPTIONS, DEFAULT_NEGATIVE_DIRECTIVE } from './services/sequence';
+import { documentToSceneInput, type SceneInput } from './services/sceneInput';
+import { SequencePanel } from './components/SequencePanel';
+import { OUTPUT_STYLES, OUTPUT_STYLE_LABELS } from './services/outputStyles';
+import { GenerationQueuePanel } from './components/GenerationQueuePanel';
+import { VariationSheet, type VariationEntry } from './components/VariationSheet';
+import { createGenerationQueue, isJobFinished, type QueueJob } from './services/generationQueue';
+import { PromptTemplateManager } from './components/PromptTemplateManager';
+import { DEFAULT_PROMPT_TEMPLATES, addTemplateVersion, createDefaultPromptLibrary, getActiveTemplateVersion, getTemplateOverride, normalizePromptLibrary, setActiveTemplateVersion } from './services/promptTemplates';
 
 interface AppProps {
   userMode: 'master' | 'guest'; // Add userMode prop
   onMasterLogout?: () => void; // Optional logout prop for master mode
 }
 
-const LoadingOverlay: React.FC = () => (
-  <div 
-    className="fixed inset-0 bg-black/50 backdrop-blur-sm flex flex-col items-center justify-center z-50 text-center p-4" 
-    aria-modal="true" 
-    role="dialog" 
-    aria-labelledby="loading-heading"
-  >
-    <svg className="animate-spin h-10 w-10 text-neutral-200 mb-4" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-      <path d="M12 2.75V5.25" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"/>
-      <path d="M18.364 5.63604L16.5858 7.41421" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"/>
-      <path d="M21.25 12H18.75" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"/>
-      <path d="M18.364 18.364L16.5858 16.5858" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" opacity="0.6"/>
-      <path d="M12 21.25V18.75" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" opacity="0.4"/>
-      <path d="M5.63604 18.364L7.41421 16.5858" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" opacity="0.2"/>
-      <path d="M2.75 12H5.25" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" opacity="0.1"/>
-      <path d="M5.63604 5.63604L7.41421 7.41421" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round" opacity="0.8"/>
-    </svg>
-    <h2 id="loading-heading" className="text-2xl font-semibold text-neutral-100 mb-2">이미지 생성 중...</h2>
-    <p className="text-neutral-300 max-w-sm">이 작업은 최대 1분 정도 소요될 수 있습니다. 페이지를 닫거나 새로고침하지 마세요.</p>
-  </div>
-);
-
 // --- Reset Modal Component ---
 interface ResetOptions {
   inputs: boolean;
@@ -210,9 +199,11 @@ interface HistoryPanelProps {
   onView: (item: HistoryItem) => void;
   onCompare: (item: HistoryItem) => void;
   onDelete: (id: number) => void;
+  onPinSeed: (seed: number) => void;
+  onRestoreInputs: (item: HistoryItem) => void;
 }
 
-const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onView, onCompare, onDelete }) => {
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onView, onCompare, onDelete, onPinSeed, onRestoreInputs }) => {
   if (history.length === 0) {
     return null; // Don't render anything if there's no history
   }
@@ -238,8 +229,36 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onView, onCompare,
                 <p className="text-xs text-white text-center line-clamp-2" title={item.prompt}>
                   {item.prompt || "프롬프트 없음"}
                 </p>
+                {item.seed !== undefined && (
+                  <p className="text-[10px] text-neutral-300 font-mono mt-1">seed {item.seed}</p>
+                )}
+                {item.recipe && (
+                  <p className="text-[10px] text-neutral-400 mt-0.5 truncate max-w-full">{item.recipe.model}</p>
+                )}
               </div>
               <div className="absolute top-1 right-1 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity z-10">
+                {item.recipe && (
+                  <button
+                    type="button"
+                    onClick={(e) => { e.stopPropagation(); onRestoreInputs(item); }}
+                    className="p-1 bg-black/50 text-white rounded-full hover:bg-blue-500 transition-all"
+                    aria-label="이 결과의 입력 복원"
+                    title="이 결과의 입력 복원"
+                  >
+                    <RotateCcwIcon width="14" height="14" />
+                  </button>
+                )}
+                {item.seed !== undefined && (
+                  <button
+                    type="button"
+                    onClick={(e) => { e.stopPropagation(); onPinSeed(item.seed!); }}
+                    className="p-1 bg-black/50 text-white rounded-full hover:bg-blue-500 transition-all"
+                    aria-label="이 시드로 고정"
+                    title="이 시드로 고정"
+                  >
+                    <TargetIcon width="14" height="14" />
+                  </button>
+                )}
                  <button
                     type="button"
                     onClick={(e) => { e.stopPropagation(); onCompare(item); }}
@@ -267,6 +286,56 @@ const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onView, onCompare,
   );
 };
 
+// --- Storage Usage Indicator Component ---
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const StorageUsageIndicator: React.FC = () => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [writeError, setWriteError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      getStorageUsage()
+        .then(setUsage)
+        .catch(e => console.error("저장소 사용량 확인 실패", e));
+    };
+    refresh();
+    return subscribeToStorageWrites(error => {
+      setWriteError(error);
+      refresh();
+    });
+  }, []);
+
+  if (!usage && !writeError) return null;
+
+  const ratio = usage && usage.quota > 0 ? usage.usage / usage.quota : 0;
+  const isNearlyFull = ratio > 0.9;
+
+  return (
+    <div
+      className={`text-xs flex items-center gap-2 ${writeError || isNearlyFull ? 'text-red-400' : 'text-neutral-400'}`}
+      title={writeError ? `자동 저장 실패: ${writeError.message}` : '브라우저 저장소(IndexedDB) 사용량'}
+    >
+      {usage && (
+        <>
+          <div className="w-16 h-1.5 bg-neutral-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${isNearlyFull ? 'bg-red-500' : 'bg-blue-500'}`}
+              style={{ width: `${Math.max(2, Math.min(100, ratio * 100))}%` }}
+            />
+          </div>
+          <span>{formatBytes(usage.usage)} / {formatBytes(usage.quota)}</span>
+        </>
+      )}
+      {writeError && <span className="font-medium">자동 저장 실패</span>}
+    </div>
+  );
+};
+
 // --- Image Viewer Component ---
 interface ImageViewerProps {
   imageUrl: string;
@@ -505,6 +574,7 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, onClose }) => {
 // --- Main App Component ---
 
 const MIN_PANEL_FR = 8; // Minimum fractional unit for a panel
+const MAX_HISTORY_SIZE = 100; // Generation history kept in IndexedDB
 
 const createThumbnail = (imageUrl: string, size = 128): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -569,10 +639,233 @@ const compressImageForStorage = (imageUrl: string, quality = 0.9, maxSize = 1280
 };
 
 
+// --- Generation helpers ---
+
+/**
+ * Checks that a scene has enough input for the work mode. Returns the error message to show, or null.
+ */
+const validateScene = (poseImages: PoseImage[], globalReferenceImage: { imageDataUrl: string } | null, workMode: WorkMode): string | null => {
+  const layersWithContent = poseImages.filter(p => p.imageDataUrl || (p.points && p.points.length > 0) || (p.setteiImages && p.setteiImages.length > 0) || (p.skeletons && p.skeletons.length > 0));
+
+  if (layersWithContent.length === 0 && !globalReferenceImage) {
+    return '최소 하나의 장면 구성(스케치, 포즈, 포인트, 또는 설정 이미지)을 제공해야 합니다.';
+  }
+  
+  const layersWithSettei = poseImages.filter(p => p.setteiImages && p.setteiImages.length > 0);
+
+  if (workMode === 'single') {
+      if (layersWithSettei.length === 0) {
+          return '싱글 캐릭터 모드에서는 최소 하나의 레이어에 설정 이미지를 업로드해야 합니다.';
+      }
+      if (layersWithSettei.length > 1) {
+          return '싱글 캐릭터 모드에서는 하나의 레이어에만 설정 이미지를 지정할 수 있습니다. 불필요한 설정 이미지를 제거해주세요.';
+      }
+  } else { // multi-character logic
+      const pointCharacterNames = new Set(
+          poseImages.flatMap(p => p.points || []).map(point => point.characterName)
+      );
+      
+      const layerNamesWithSettei = new Set(layersWithSettei.map(l => l.name));
+      
+      const pointsMissingSettei = [...pointCharacterNames].filter(name => !layerNamesWithSettei.has(name));
+      if (pointsMissingSettei.length > 0) {
+          return `포인트로 지정된 캐릭터("${pointsMissingSettei.join(', ')}")에 대한 설정 이미지가 레이어에 없습니다. 해당 이름의 레이어에 설정 이미지를 추가하세요.`;
+      }
+  }
+  return null;
+};
+
+const describeGenerationError = (err: unknown): string => {
+  if (err instanceof Error) {
+    if (err.message.includes('RESOURCE_EXHAUSTED') || err.message.includes('quota')) {
+      return 'API 사용량 한도를 초과했습니다. 잠시 후 다시 시도해 주세요. 문제가 계속되면 Google Cloud에서 API 할당량을 확인하거나 결제 설정을 검토해야 할 수 있습니다.';
+    }
+    return err.message;
+  }
+  return '이미지 생성 중 알 수 없는 오류가 발생했습니다.';
+};
+
+// The prompts recorded with a history item, in the user's own words
+const collectHistoryPrompts = (chatHistory: ChatMessage[], directiveInput: string, negativeDirectiveInput: string): { prompt: string; negativePrompt: string } => {
+  const userMessagesFromHistory = chatHistory
+      .filter(msg => msg.role === 'user')
+      .flatMap(msg => msg.parts.map(part => part.text.trim()));
+
+  let originalPositive: string[] = [];
+  let originalNegative: string[] = [];
+  
+  const negativeKeywords = [
+    'negative prompt:', '네거티브 프롬프트:', '제외:', 'avoid:',
+    'don\'t include:', 'without:', '하지마세요:', '그리지 마세요:',
+    'exclude:',
+  ];
+  const uniqueNegativeKeywords = [...new Set(negativeKeywords.map(k => k.toLowerCase()))];
+
+  userMessagesFromHistory.forEach(msg => {
+      let isNegative = false;
+      for (const keyword of uniqueNegativeKeywords) {
+          if (msg.toLowerCase().startsWith(keyword)) {
+              originalNegative.push(msg.substring(keyword.length).trim());
+              isNegative = true;
+              break;
+          }
+      }
+      if (!isNegative) {
+          originalPositive.push(msg);
+      }
+  });
+  
+  if (directiveInput.trim()) {
+      originalPositive.push(directiveInput.trim());
+  }
+  if (negativeDirectiveInput.trim()) {
+      originalNegative.push(negativeDirectiveInput.trim());
+  }
+
+  return { prompt: originalPositive.join(', '), negativePrompt: originalNegative.join(', ') };
+};
+
+const createHistoryItem = async (imageUrl: string, prompt: string, negativePrompt: string, details: Pick<HistoryItem, 'seed' | 'recipe'> = {}): Promise<HistoryItem> => {
+  const compressedUrl = await compressImageForStorage(imageUrl);
+  const thumbnailUrl = await createThumbnail(compressedUrl);
+  return {
+    id: Date.now(),
+    imageUrl: compressedUrl,
+    thumbnailUrl,
+    prompt,
+    negativePrompt,
+    ...details,
+  };
+};
+
+const appendToHistory = (items: HistoryItem[], item: HistoryItem): HistoryItem[] => {
+  const updatedHistory = [...items, item];
+  if (updatedHistory.length > MAX_HISTORY_SIZE) {
+      return updatedHistory.slice(updatedHistory.length - MAX_HISTORY_SIZE);
+  }
+  return updatedHistory;
+};
+
+// The active cut's canvas and history have their own stores, so the sequence record leaves them out
+const withoutActiveCutContent = (sequence: Sequence): Sequence => ({
+  ...sequence,
+  cuts: sequence.cuts.map(cut => (cut.id === sequence.activeCutId ? { ...cut, canvas: null, history: [] } : cut)),
+});
+
+// Everything a generation needs, captured when it is queued so later edits do not leak into it
+interface GenerationJob {
+  cutId: number;
+  scene: SceneInput;
+  cameraOptions: CameraOptions;
+  directiveInput: string;
+  negativeDirectiveInput: string;
+  outputStyle: OutputStyle;
+  workMode: WorkMode;
+  editBaseImage: { imageDataUrl: string } | null;
+  chatHistory: ChatMessage[];
+  canvas: CanvasDocument | null; // The canvas the scene was taken from, kept in the result's recipe
+  seed: number;
+  promptTemplate: { version: number; text: string }; // The generation template, sent only when it is not the default
+  sheet: { id: number; key: string } | null; // Set for variations, whose results go to the contact sheet first
+}
+
+interface GenerationResult {
+  imageUrl: string;
+  historyItem: HistoryItem | null; // Null if the entry could not be made
+}
+
+// One batch of variations for a cut, kept until the user has picked from it
+interface VariationSheetState {
+  id: number;
+  cutId: number;
+  title: string;
+  entries: GenerationVariant[];
+  results: Record<string, GenerationResult>;
+  promotedKeys: string[];
+}
+
+// One job of a batch: a seed, and for template A/B runs also a template version
+interface GenerationVariant {
+  key: string;
+  label: string;
+  seed: number;
+  promptTemplate: { version: number; text: string };
+}
+
+const VARIATION_COUNTS = [1, 2, 4, 6, 8];
+const MAX_SEED = 2 ** 31 - 1;
+
+// Random seeds, or consecutive ones from a pinned seed so the whole batch can be reproduced
+const createSeeds = (count: number, pinnedSeed: number | null): number[] => {
+  if (pinnedSeed !== null) {
+    return Array.from({ length: count }, (_, i) => (pinnedSeed + i) % (MAX_SEED + 1));
+  }
+  const seeds = new Set<number>();
+  while (seeds.size < count) {
+    seeds.add(Math.floor(Math.random() * MAX_SEED));
+  }
+  return [...seeds];
+};
+
+const runGenerationJob = async (job: GenerationJob, signal: AbortSignal): Promise<GenerationResult> => {
+  const [translatedDirective, translatedNegativeDirective] = await Promise.all([
+      translateToEnglish(job.directiveInput.trim()),
+      translateToEnglish(job.negativeDirectiveInput.trim()),
+  ]);
+  signal.throwIfAborted();
+
+  const { imageUrl, model } = await generateCharacterImage({
+    poseImages: job.scene.poses,
+    globalReferenceImage: job.scene.globalReferenceImage,
+    editBaseImage: job.editBaseImage,
+    prompt: translatedDirective,
+    negativePrompt: translatedNegativeDirective,
+    perspectiveData: job.scene.perspective,
+    outputStyle: job.outputStyle,
+    canvasDimensions: job.scene.dimensions,
+    sketchBoundingBox: job.scene.sketchBoundingBox,
+    workMode: job.workMode,
+    cameraOptions: job.cameraOptions,
+    chatHistory: job.chatHistory,
+    seed: job.seed,
+    systemInstructionTemplate: job.promptTemplate.text === DEFAULT_PROMPT_TEMPLATES.generation ? undefined : job.promptTemplate.text,
+  }, signal);
+
+  try {
+    const { prompt, negativePrompt } = collectHistoryPrompts(job.chatHistory, job.directiveInput, job.negativeDirectiveInput);
+    const poseNames = new Set(job.scene.poses.map(pose => pose.name));
+    const recipe: GenerationRecipe = {
+      model,
+      outputStyle: job.outputStyle,
+      workMode: job.workMode,
+      cameraOptions: job.cameraOptions,
+      perspectiveData: job.scene.perspective,
+      canvasDimensions: job.scene.dimensions,
+      sketchBoundingBox: job.scene.sketchBoundingBox,
+      directiveInput: job.directiveInput,
+      negativeDirectiveInput: job.negativeDirectiveInput,
+      translatedPrompt: translatedDirective,
+      translatedNegativePrompt: translatedNegativeDirective,
+      chatHistory: job.chatHistory,
+      inputLayers: (job.canvas?.layers ?? [])
+        .filter(layer => layer.isVisible && poseNames.has(layer.name))
+        .map(layer => ({ id: layer.id, name: layer.name })),
+      canvas: job.canvas,
+      editBaseImageUrl: job.editBaseImage?.imageDataUrl ?? null,
+      promptTemplate: job.promptTemplate,
+    };
+    return { imageUrl, historyItem: await createHistoryItem(imageUrl, prompt, negativePrompt, { seed: job.seed, recipe }) };
+  } catch (historyError) {
+    console.error("기록 항목 생성 실패:", historyError);
+    return { imageUrl, historyItem: null };
+  }
+};
+
+
 export default function App({ userMode, onMasterLogout }: AppProps) { // Receive onMasterLogout prop
   const [poseImages, setPoseImages] = useState<PoseImage[]>([]);
-  const [outputStyle, setOutputStyle] = useState<'genga_style' | 'clean_lineart'>('genga_style');
-  const [workMode, setWorkMode] = useState<'single' | 'multi'>('single');
+  const [outputStyle, setOutputStyle] = useState<OutputStyle>('genga_style');
+  const [workMode, setWorkMode] = useState<WorkMode>('single');
   
   const [panelWidths, setPanelWidths] = useState<[number, number, number]>(() => {
     try {
@@ -588,46 +881,42 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
     }
     return [14, 60, 26]; // Default widths: ~14%, 60%, ~26%
   });
-  
-  const [history, setHistory] = useState<HistoryItem[]>(() => {
+
+  const [promptLibrary, setPromptLibrary] = useState<PromptTemplateLibrary>(() => {
     try {
-      const saved = localStorage.getItem('character-poser-history');
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-          return parsed;
-        }
-      }
+      const saved = localStorage.getItem('layout-assistant-prompt-templates');
+      if (saved) return normalizePromptLibrary(JSON.parse(saved));
     } catch (e) {
-      console.error("생성 기록 로딩 실패", e);
+      console.error("프롬프트 템플릿 로딩 실패", e);
     }
-    return [];
+    return normalizePromptLibrary(null);
   });
+  // The proxy accepts custom templates only from the master, so guests always use the built-in ones
+  const requestPromptLibrary = useMemo(
+    () => (userMode === 'master' ? promptLibrary : createDefaultPromptLibrary()),
+    [userMode, promptLibrary],
+  );
+  const [isPromptManagerOpen, setIsPromptManagerOpen] = useState(false);
+  
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  // History is saved only after the stored copy has been loaded, so the empty initial state never overwrites it
+  const [isHistoryLoaded, setIsHistoryLoaded] = useState(false);
 
   const [perspectiveData, setPerspectiveData] = useState<PerspectiveData>({ vanishingPoints: [] });
   const [canvasDimensions, setCanvasDimensions] = useState({ width: 1000, height: 619 });
   const [sketchBoundingBox, setSketchBoundingBox] = useState<{ x: number, y: number, width: number, height: number } | null>(null);
   const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
   const [comparisonImage, setComparisonImage] = useState<HistoryItem | null>(null);
-  const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [canvasResetKey, setCanvasResetKey] = useState(0);
+  // Canvas to restore when DrawingCanvas remounts (an opened project or a newly selected cut)
+  const [pendingCanvasDocument, setPendingCanvasDocument] = useState<CanvasDocument | null>(null);
+  const [isProjectBusy, setIsProjectBusy] = useState(false);
   const [isResetModalOpen, setIsResetModalOpen] = useState(false);
   const [viewerImageUrl, setViewerImageUrl] = useState<string | null>(null);
   const [globalReferenceImage, setGlobalReferenceImage] = useState<{ imageDataUrl: string } | null>(null);
   
-  const [cameraOptions, setCameraOptions] = useState<CameraOptions>({
-    shotType: 'none',
-    angleType: 'none',
-    lens: '50mm',
-    verticalAngle: 0,
-    horizontalAngle: 0,
-    rollAngle: 0,
-    horizontalShift: 0,
-    verticalShift: 0,
-    dolly: 0,
-    zoomLevel: 1.0,
-  });
+  const [cameraOptions, setCameraOptions] = useState<CameraOptions>(DEFAULT_CAMERA_OPTIONS);
 
   // Edit mode state management
   const [isEditMode, setIsEditMode] = useState<boolean>(false);
@@ -635,14 +924,39 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
   
   // Scene Analysis State
   const [analysisChatHistory, setAnalysisChatHistory] = useState<ChatMessage[]>([]);
+  const [sceneAnalysis, setSceneAnalysis] = useState<SceneAnalysisResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [directiveInput, setDirectiveInput] = useState('');
-  const [negativeDirectiveInput, setNegativeDirectiveInput] = useState('배경 삭제, 컬러링 금지,창작금지.콘티 랜더링 금지');
+  const [negativeDirectiveInput, setNegativeDirectiveInput] = useState(DEFAULT_NEGATIVE_DIRECTIVE);
+
+  // Cut sequence
+  const [sequence, setSequence] = useState<Sequence>(() => {
+    const firstCut = createCut('C001');
+    return { activeCutId: firstCut.id, cuts: [firstCut] };
+  });
+  const [isSequenceLoaded, setIsSequenceLoaded] = useState(false);
+  const activeCutId = sequence.activeCutId;
+  // Read by queued jobs when they finish, to tell whether their cut is still the one on screen
+  const activeCutIdRef = useRef(activeCutId);
+  activeCutIdRef.current = activeCutId;
+
+  // Generation queue. Results are delivered through a ref so the queue, created once, always sees current state.
+  const deliverGenerationResultRef = useRef<(job: QueueJob<GenerationJob, GenerationResult>) => void>(() => {});
+  const [generationQueue] = useState(() => createGenerationQueue<GenerationJob, GenerationResult>({
+    run: runGenerationJob,
+    onSucceeded: job => deliverGenerationResultRef.current(job),
+    describeError: describeGenerationError,
+  }));
+  const [generationJobs, setGenerationJobs] = useState(generationQueue.getJobs());
+  const [variationCount, setVariationCount] = useState(1);
+  const [pinnedSeed, setPinnedSeed] = useState<number | null>(null);
+  const [variationSheet, setVariationSheet] = useState<VariationSheetState | null>(null);
 
   const canvasChangeTimeout = useRef<number | null>(null);
-  const isGeneratingRef = useRef(false);
   const mainContainerRef = useRef<HTMLElement>(null);
+  const drawingCanvasRef = useRef<DrawingCanvasHandle>(null);
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
 
   // Master mode specific state
   const [activeMasterTab, setActiveMasterTab] = useState<'ai-layout' | 'dashboard'>('ai-layout');
@@ -655,14 +969,65 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
       console.error("패널 너비 저장 실패", e);
     }
   }, [panelWidths]);
-  
+
   useEffect(() => {
     try {
-      localStorage.setItem('character-poser-history', JSON.stringify(history));
+      localStorage.setItem('layout-assistant-prompt-templates', JSON.stringify(promptLibrary));
     } catch (e) {
-      console.error("생성 기록 저장 실패", e);
+      console.error("프롬프트 템플릿 저장 실패", e);
     }
-  }, [history]);
+  }, [promptLibrary]);
+  
+  useEffect(() => {
+    const unsubscribe = generationQueue.subscribe(setGenerationJobs);
+    // Nothing should keep generating for a screen that is gone (e.g. after logout)
+    return () => {
+      unsubscribe();
+      generationQueue.cancelWhere(() => true);
+    };
+  }, [generationQueue]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadHistory()
+      .then(items => { if (!cancelled) setHistory(prev => [...items, ...prev].slice(-MAX_HISTORY_SIZE)); })
+      .catch(e => console.error("생성 기록 로딩 실패", e))
+      .finally(() => { if (!cancelled) setIsHistoryLoaded(true); });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isHistoryLoaded) return;
+    saveHistory(history).catch(e => console.error("생성 기록 저장 실패", e));
+  }, [history, isHistoryLoaded]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSequence()
+      .then(stored => {
+        const activeCut = stored?.cuts.find(cut => cut.id === stored.activeCutId);
+        if (cancelled || !stored || !activeCut) return;
+        setSequence(stored);
+        setCameraOptions(activeCut.cameraOptions);
+        setDirectiveInput(activeCut.directiveInput);
+        setNegativeDirectiveInput(activeCut.negativeDirectiveInput);
+      })
+      .catch(e => console.error("컷 시퀀스 로딩 실패", e))
+      .finally(() => { if (!cancelled) setIsSequenceLoaded(true); });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isSequenceLoaded) return;
+    const timer = window.setTimeout(() => {
+      const cuts = sequence.cuts.map(cut => (
+        cut.id === sequence.activeCutId ? { ...cut, cameraOptions, directiveInput, negativeDirectiveInput } : cut
+      ));
+      saveSequence(withoutActiveCutContent({ ...sequence, cuts }))
+        .catch(e => console.error("컷 시퀀스 저장 실패", e));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [sequence, cameraOptions, directiveInput, negativeDirectiveInput, isSequenceLoaded]);
   
   useEffect(() => {
     if (!globalReferenceImage) {
@@ -676,18 +1041,7 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
   }, []);
 
   const handleCameraReset = useCallback(() => {
-    setCameraOptions({
-      shotType: 'none',
-      angleType: 'none',
-      lens: '50mm',
-      verticalAngle: 0,
-      horizontalAngle: 0,
-      rollAngle: 0,
-      horizontalShift: 0,
-      verticalShift: 0,
-      dolly: 0,
-      zoomLevel: 1.0,
-    });
+    setCameraOptions(DEFAULT_CAMERA_OPTIONS);
   }, []);
 
   const handleResize = useCallback((handleIndex: number, startX: number, initialWidths: [number, number, number]) => {
@@ -768,13 +1122,15 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
       setCanvasDimensions({ width: 1000, height: 619 });
       handleCameraReset();
       setAnalysisChatHistory([]);
+      setSceneAnalysis(null);
       setAnalysisError(null);
       setDirectiveInput('');
-      setNegativeDirectiveInput('배경 삭제, 컬러링 금지,창작금지.콘티 랜더링 금지');
+      setNegativeDirectiveInput(DEFAULT_NEGATIVE_DIRECTIVE);
       setGlobalReferenceImage(null);
       setEditBaseImage(null);
       setIsEditMode(false);
-      localStorage.removeItem('character-poser-canvas');
+      clearCanvasDocument().catch(e => console.error("캔버스 상태 삭제 실패", e));
+      setPendingCanvasDocument(null);
       setCanvasResetKey(key => key + 1);
     }
     if (options.renderingStyle) {
@@ -786,11 +1142,160 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
       setComparisonImage(null);
       setError(null);
       setHistory([]);
-      localStorage.removeItem('character-poser-history');
+      if (variationSheet) closeVariationSheet(variationSheet.id);
+      clearHistory().catch(e => console.error("생성 기록 삭제 실패", e));
     }
     setIsResetModalOpen(false);
   };
 
+  // The active cut as it is right now, including the live canvas
+  const captureActiveCut = useCallback((): Cut => {
+    const activeCut = sequence.cuts.find(cut => cut.id === sequence.activeCutId)!;
+    return {
+      ...activeCut,
+      cameraOptions,
+      directiveInput,
+      negativeDirectiveInput,
+      canvas: drawingCanvasRef.current?.getDocument() ?? activeCut.canvas,
+      history,
+    };
+  }, [sequence, cameraOptions, directiveInput, negativeDirectiveInput, history]);
+
+  // Makes `nextSequence.activeCutId` the cut on screen. Callers put the outgoing cut's captured state into `nextSequence`.
+  const activateCut = useCallback((nextSequence: Sequence) => {
+    const target = nextSequence.cuts.find(cut => cut.id === nextSequence.activeCutId)!;
+    activeCutIdRef.current = nextSequence.activeCutId;
+    setSequence(nextSequence);
+    setCameraOptions(target.cameraOptions);
+    setDirectiveInput(target.directiveInput);
+    setNegativeDirectiveInput(target.negativeDirectiveInput);
+    setHistory(target.history);
+
+    setPoseImages([]);
+    setPerspectiveData({ vanishingPoints: [] });
+    setSketchBoundingBox(null);
+    setGlobalReferenceImage(null);
+    setEditBaseImage(null);
+    setIsEditMode(false);
+    setGeneratedImageUrl(target.history[target.history.length - 1]?.imageUrl ?? null);
+    setComparisonImage(null);
+    setError(null);
+
+    setPendingCanvasDocument(target.canvas);
+    setCanvasResetKey(key => key + 1);
+
+    // Persist right away, so the stores never pair one cut's canvas with another cut's entry
+    saveSequence(withoutActiveCutContent(nextSequence)).catch(e => console.error("컷 시퀀스 저장 실패", e));
+    (target.canvas ? saveCanvasDocument(target.canvas) : clearCanvasDocument()).catch(e => console.error("캔버스 상태 저장 실패", e));
+    saveHistory(target.history).catch(e => console.error("생성 기록 저장 실패", e));
+  }, []);
+
+  const handleSelectCut = useCallback((id: number) => {
+    if (id === activeCutId) return;
+    const current = captureActiveCut();
+    activateCut({
+      activeCutId: id,
+      cuts: sequence.cuts.map(cut => (cut.id === current.id ? current : cut)),
+    });
+  }, [activeCutId, sequence, captureActiveCut, activateCut]);
+
+  const handleAddCut = useCallback(() => {
+    const current = captureActiveCut();
+    const newCut = createCut(nextCutNumber(sequence.cuts));
+    const cuts = sequence.cuts.map(cut => (cut.id === current.id ? current : cut));
+    cuts.splice(cuts.findIndex(cut => cut.id === current.id) + 1, 0, newCut);
+    activateCut({ activeCutId: newCut.id, cuts });
+  }, [sequence, captureActiveCut, activateCut]);
+
+  const handleDeleteCut = useCallback((id: number) => {
+    if (sequence.cuts.length <= 1) return;
+    const index = sequence.cuts.findIndex(cut => cut.id === id);
+    const cut = id === activeCutId ? captureActiveCut() : sequence.cuts[index];
+    const hasContent = cut.history.length > 0 || (cut.canvas?.layers.length ?? 0) > 0;
+    if (hasContent && !window.confirm(`${cut.cutNumber} 컷을 삭제하시겠습니까? 레이어와 생성 기록도 함께 삭제됩니다.`)) {
+      return;
+    }
+
+    generationQueue.cancelWhere(job => job.input.cutId === id);
+    setVariationSheet(prev => (prev?.cutId === id ? null : prev));
+    const cuts = sequence.cuts.filter(c => c.id !== id);
+    if (id === activeCutId) {
+      const neighbor = sequence.cuts[index + 1] ?? sequence.cuts[index - 1];
+      activateCut({ activeCutId: neighbor.id, cuts });
+    } else {
+      setSequence(prev => ({ ...prev, cuts: prev.cuts.filter(c => c.id !== id) }));
+    }
+  }, [sequence, activeCutId, captureActiveCut, activateCut, generationQueue]);
+
+  const handleMoveCut = useCallback((id: number, direction: -1 | 1) => {
+    setSequence(prev => {
+      const index = prev.cuts.findIndex(cut => cut.id === id);
+      const target = index + direction;
+      if (index < 0 || target < 0 || target >= prev.cuts.length) return prev;
+      const cuts = [...prev.cuts];
+      [cuts[index], cuts[target]] = [cuts[target], cuts[index]];
+      return { ...prev, cuts };
+    });
+  }, []);
+
+  const handleUpdateCut = useCallback((id: number, changes: Partial<Pick<Cut, 'cutNumber' | 'durationFrames' | 'notes'>>) => {
+    setSequence(prev => ({ ...prev, cuts: prev.cuts.map(cut => (cut.id === id ? { ...cut, ...changes } : cut)) }));
+  }, []);
+
+  const handleSaveProject = useCallback(() => {
+    if (!drawingCanvasRef.current) return;
+
+    setIsProjectBusy(true);
+    try {
+      const current = captureActiveCut();
+      const blob = createProjectFile({
+        settings: { outputStyle, workMode, panelWidths, promptTemplates: promptLibrary },
+        sequence: { activeCutId, cuts: sequence.cuts.map(cut => (cut.id === current.id ? current : cut)) },
+        analysisChatHistory,
+      });
+      const timestamp = new Date().toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `layout-project-${timestamp}.zip`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch (err) {
+      console.error("프로젝트 저장 실패:", err);
+      setError(err instanceof Error ? `프로젝트를 저장하지 못했습니다: ${err.message}` : '프로젝트를 저장하지 못했습니다.');
+    } finally {
+      setIsProjectBusy(false);
+    }
+  }, [outputStyle, workMode, panelWidths, promptLibrary, activeCutId, sequence, analysisChatHistory, captureActiveCut]);
+
+  const handleProjectFileSelected = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-opening the same file
+    if (!file) return;
+
+    setIsProjectBusy(true);
+    try {
+      const project = await readProjectFile(file);
+      const { settings } = project;
+      setOutputStyle(settings.outputStyle);
+      setWorkMode(settings.workMode);
+      setPanelWidths(settings.panelWidths);
+      setPromptLibrary(settings.promptTemplates);
+      setAnalysisChatHistory(project.analysisChatHistory);
+      setSceneAnalysis(null);
+      setAnalysisError(null);
+      // The opened cuts replace every cut the queued jobs were made for
+      generationQueue.cancelWhere(() => true);
+      setVariationSheet(null);
+      activateCut(project.sequence);
+    } catch (err) {
+      console.error("프로젝트 열기 실패:", err);
+      setError(err instanceof Error ? `프로젝트를 열지 못했습니다: ${err.message}` : '프로젝트를 열지 못했습니다.');
+    } finally {
+      setIsProjectBusy(false);
+    }
+  }, [activateCut, generationQueue]);
+
   const handleViewHistoryItem = useCallback((item: HistoryItem) => {
     setGeneratedImageUrl(item.imageUrl);
     setComparisonImage(null); // Clear comparison when viewing a new primary image
@@ -823,6 +1328,7 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
     setComparisonImage(null);
     setError(null);
     setAnalysisChatHistory([]);
+    setSceneAnalysis(null);
     setAnalysisError(null);
 
     setIsEditMode(true);
@@ -832,6 +1338,8 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
   const handleAnalyzeScene = useCallback(async () => {
     setIsAnalyzing(true);
     setAnalysisError(null);
+    // The cut before this one is the reference for continuity warnings
+    const previousCut = sequence.cuts[sequence.cuts.findIndex(cut => cut.id === activeCutId) - 1];
 
     const params = {
         poseImages,
@@ -844,11 +1352,19 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
         sketchBoundingBox,
         workMode,
         cameraOptions,
+        systemInstructionTemplate: getTemplateOverride(requestPromptLibrary, 'analysis'),
+        previousCut: previousCut && {
+          cutNumber: previousCut.cutNumber,
+          notes: previousCut.notes,
+          cameraOptions: previousCut.cameraOptions,
+          imageDataUrl: previousCut.history[previousCut.history.length - 1]?.imageUrl ?? null,
+        },
     };
 
     try {
-        const { analysisReport } = await analyzeScene(params);
-        setAnalysisChatHistory([{ role: 'model', parts: [{ text: analysisReport }] }]);
+        const analysis = await analyzeScene(params);
+        setSceneAnalysis(analysis);
+        setAnalysisChatHistory([{ role: 'model', parts: [{ text: analysis.summary }] }]);
     } catch (err) {
         console.error(err);
         const errorMessage = err instanceof Error ? err.message : '장면 분석 중 알 수 없는 오류가 발생했습니다.';
@@ -856,7 +1372,7 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
     } finally {
         setIsAnalyzing(false);
     }
-  }, [poseImages, perspectiveData, canvasDimensions, sketchBoundingBox, globalReferenceImage, editBaseImage, workMode, cameraOptions]);
+  }, [poseImages, perspectiveData, canvasDimensions, sketchBoundingBox, globalReferenceImage, editBaseImage, workMode, cameraOptions, requestPromptLibrary, sequence, activeCutId]);
   
   const handleContinueAnalysisChat = useCallback(async (newMessage: string) => {
     const newHistory: ChatMessage[] = [...analysisChatHistory, { role: 'user', parts: [{ text: newMessage }] }];
@@ -904,6 +1420,7 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
                 chatHistory: newHistory,
                 newMessage: newMessage,
                 cameraOptions,
+                systemInstructionTemplate: getTemplateOverride(requestPromptLibrary, 'edit'),
             });
 
             setAnalysisChatHistory(prev => [...prev, { role: 'model', parts: [{ text: textResponse }] }]);
@@ -914,25 +1431,8 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
             setEditBaseImage(null);
 
             try {
-              const compressedUrl = await compressImageForStorage(newImageUrl);
-              const thumbnailUrl = await createThumbnail(compressedUrl);
-
-              const newHistoryItem: HistoryItem = {
-                id: Date.now(),
-                imageUrl: compressedUrl,
-                thumbnailUrl,
-                prompt: `Edit: ${newMessage}`,
-                negativePrompt: '',
-              };
-
-              setHistory(prev => {
-                  const updatedHistory = [...prev, newHistoryItem];
-                  const MAX_HISTORY_SIZE = 25; 
-                  if (updatedHistory.length > MAX_HISTORY_SIZE) {
-                      return updatedHistory.slice(updatedHistory.length - MAX_HISTORY_SIZE);
-                  }
-                  return updatedHistory;
-              });
+              const newHistoryItem = await createHistoryItem(newImageUrl, `Edit: ${newMessage}`, '');
+              setHistory(prev => appendToHistory(prev, newHistoryItem));
             } catch (historyError) {
               console.error("Failed to create history item for edited image:", historyError);
             }
@@ -947,7 +1447,7 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
         }
     } else {
         try {
-            const responseText = await simpleChat(newHistory);
+            const responseText = await simpleChat(newHistory, getTemplateOverride(requestPromptLibrary, 'chat'));
             setAnalysisChatHistory(prev => [...prev, { role: 'model', parts: [{ text: responseText }] }]);
         } catch (err) {
             console.error(err);
@@ -958,161 +1458,250 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
             setIsAnalyzing(false);
         }
     }
-  }, [analysisChatHistory, globalReferenceImage, poseImages, canvasDimensions, isEditMode, editBaseImage, cameraOptions]);
+  }, [analysisChatHistory, globalReferenceImage, poseImages, canvasDimensions, isEditMode, editBaseImage, cameraOptions, requestPromptLibrary]);
 
 
-  const handleGenerate = useCallback(async () => {
-    if (isGeneratingRef.current) {
-      return;
+  // Puts a result where it belongs: on screen for the active cut, into the stored history for any other
+  const applyGenerationResult = useCallback((cutId: number, { imageUrl, historyItem }: GenerationResult, endsEditMode: boolean) => {
+    if (cutId === activeCutIdRef.current) {
+      setGeneratedImageUrl(imageUrl);
+      setComparisonImage(null);
+      setError(null);
+      if (endsEditMode) {
+        setEditBaseImage(null);
+        setIsEditMode(false);
+      }
+      if (historyItem) setHistory(prev => appendToHistory(prev, historyItem));
+    } else if (historyItem) {
+      // A cut deleted in the meantime is simply not found
+      setSequence(prev => ({
+        ...prev,
+        cuts: prev.cuts.map(c => (c.id === cutId ? { ...c, history: appendToHistory(c.history, historyItem) } : c)),
+      }));
     }
+  }, []);
 
-    const layersWithContent = poseImages.filter(p => p.imageDataUrl || (p.points && p.points.length > 0) || (p.setteiImages && p.setteiImages.length > 0));
-
-    if (layersWithContent.length === 0 && !globalReferenceImage) {
-      setError('최소 하나의 장면 구성(스케치, 포인트, 또는 설정 이미지)을 제공해야 합니다.');
+  deliverGenerationResultRef.current = (job) => {
+    const { cutId, editBaseImage: jobEditBaseImage, sheet } = job.input;
+    const result = job.result!;
+    if (sheet === null) {
+      applyGenerationResult(cutId, result, !!jobEditBaseImage);
       return;
     }
-    
-    const layersWithSettei = poseImages.filter(p => p.setteiImages && p.setteiImages.length > 0);
+    setVariationSheet(prev => (
+      prev && prev.id === sheet.id ? { ...prev, results: { ...prev.results, [sheet.key]: result } } : prev
+    ));
+  };
 
-    if (workMode === 'single') {
-        if (layersWithSettei.length === 0) {
-            setError('싱글 캐릭터 모드에서는 최소 하나의 레이어에 설정 이미지를 업로드해야 합니다.');
-            return;
-        }
-        if (layersWithSettei.length > 1) {
-            setError('싱글 캐릭터 모드에서는 하나의 레이어에만 설정 이미지를 지정할 수 있습니다. 불필요한 설정 이미지를 제거해주세요.');
-            return;
-        }
-    } else { // multi-character logic
-        const pointCharacterNames = new Set(
-            poseImages.flatMap(p => p.points || []).map(point => point.characterName)
-        );
-        
-        const layerNamesWithSettei = new Set(layersWithSettei.map(l => l.name));
-        
-        const pointsMissingSettei = [...pointCharacterNames].filter(name => !layerNamesWithSettei.has(name));
-        if (pointsMissingSettei.length > 0) {
-            setError(`포인트로 지정된 캐릭터("${pointsMissingSettei.join(', ')}")에 대한 설정 이미지가 레이어에 없습니다. 해당 이름의 레이어에 설정 이미지를 추가하세요.`);
-            return;
-        }
+  const enqueueGeneration = useCallback((cut: Cut, job: GenerationJob) => {
+    const template = job.promptTemplate.text === DEFAULT_PROMPT_TEMPLATES.generation ? '' : ` · 템플릿 v${job.promptTemplate.version}`;
+    generationQueue.enqueue(`${cut.cutNumber} · ${OUTPUT_STYLE_LABELS[job.outputStyle]} · seed ${job.seed}${template}`, job);
+  }, [generationQueue]);
+
+  const closeVariationSheet = useCallback((sheetId: number) => {
+    generationQueue.cancelWhere(job => job.input.sheet?.id === sheetId);
+    setVariationSheet(prev => (prev?.id === sheetId ? null : prev));
+  }, [generationQueue]);
+
+  // Queues one job per variant. More than one variant opens a contact sheet, titled after the cut and `sheetTitle`.
+  const startGeneration = useCallback((variants: GenerationVariant[], sheetTitle: string) => {
+    const validationError = validateScene(poseImages, globalReferenceImage, workMode);
+    if (validationError) {
+      setError(validationError);
+      return;
     }
-
-
-    isGeneratingRef.current = true;
-    setIsLoading(true);
     setError(null);
-    setGeneratedImageUrl(null);
-    setComparisonImage(null);
 
-    try {
-      const [translatedDirective, translatedNegativeDirective] = await Promise.all([
-          translateToEnglish(directiveInput.trim()),
-          translateToEnglish(negativeDirectiveInput.trim()),
-      ]);
+    const cut = sequence.cuts.find(c => c.id === activeCutId)!;
+    let sheetId: number | null = null;
+    if (variants.length > 1) {
+      // A new batch replaces the sheet on screen; its unfinished jobs would have nowhere to go
+      if (variationSheet) closeVariationSheet(variationSheet.id);
+      sheetId = Date.now();
+      setVariationSheet({
+        id: sheetId,
+        cutId: activeCutId,
+        title: `${cut.cutNumber} · ${sheetTitle}`,
+        entries: variants,
+        results: {},
+        promotedKeys: [],
+      });
+    }
 
-      const finalPrompt = translatedDirective;
-      const finalNegativePrompt = translatedNegativeDirective;
-      
-      const imageUrl = await generateCharacterImage({
-        poseImages,
-        globalReferenceImage,
-        editBaseImage,
-        prompt: finalPrompt,
-        negativePrompt: finalNegativePrompt,
-        perspectiveData,
+    const canvas = drawingCanvasRef.current?.getDocument({ editHistory: false }) ?? null;
+    for (const variant of variants) {
+      enqueueGeneration(cut, {
+        cutId: activeCutId,
+        scene: { poses: poseImages, perspective: perspectiveData, dimensions: canvasDimensions, sketchBoundingBox, globalReferenceImage },
+        cameraOptions,
+        directiveInput,
+        negativeDirectiveInput,
         outputStyle,
-        canvasDimensions,
-        sketchBoundingBox,
         workMode,
-        cameraOptions,
+        editBaseImage,
         chatHistory: analysisChatHistory,
+        canvas,
+        seed: variant.seed,
+        promptTemplate: variant.promptTemplate,
+        sheet: sheetId === null ? null : { id: sheetId, key: variant.key },
       });
-      
-      setGeneratedImageUrl(imageUrl);
-      setEditBaseImage(null);
-      setIsEditMode(false);
-
-      try {
-        const userMessagesFromHistory = analysisChatHistory
-            .filter(msg => msg.role === 'user')
-            .flatMap(msg => msg.parts.map(part => part.text.trim()));
+    }
+  }, [poseImages, perspectiveData, canvasDimensions, sketchBoundingBox, directiveInput, negativeDirectiveInput, globalReferenceImage, outputStyle, workMode, cameraOptions, editBaseImage, analysisChatHistory, sequence, activeCutId, variationSheet, closeVariationSheet, enqueueGeneration]);
+
+  const handleGenerate = useCallback(() => {
+    const { version, text } = getActiveTemplateVersion(requestPromptLibrary, 'generation');
+    startGeneration(
+      createSeeds(variationCount, pinnedSeed).map(seed => ({ key: String(seed), label: `seed ${seed}`, seed, promptTemplate: { version, text } })),
+      OUTPUT_STYLE_LABELS[outputStyle],
+    );
+  }, [requestPromptLibrary, variationCount, pinnedSeed, outputStyle, startGeneration]);
+
+  // Runs two generation template versions with the same seed, side by side on a contact sheet
+  const handleCompareTemplates = useCallback((a: PromptTemplateVersion, b: PromptTemplateVersion) => {
+    const seed = createSeeds(1, pinnedSeed)[0];
+    startGeneration(
+      [a, b].map(({ version, text }) => ({ key: `v${version}`, label: `v${version} · seed ${seed}`, seed, promptTemplate: { version, text } })),
+      `템플릿 v${a.version} / v${b.version}`,
+    );
+    setIsPromptManagerOpen(false);
+  }, [pinnedSeed, startGeneration]);
+
+  const handlePromoteVariation = useCallback((key: string) => {
+    if (!variationSheet || !variationSheet.results[key]) return;
+    applyGenerationResult(variationSheet.cutId, variationSheet.results[key], false);
+    setVariationSheet(prev => (prev ? { ...prev, promotedKeys: [...prev.promotedKeys, key] } : prev));
+  }, [variationSheet, applyGenerationResult]);
+
+  // Pinning is for reproducing one result, so it also goes back to a single generation
+  const handlePinSeed = useCallback((seed: number) => {
+    setPinnedSeed(seed);
+    setVariationCount(1);
+  }, []);
 
-        let originalPositive: string[] = [];
-        let originalNegative: string[] = [];
-        
-        const negativeKeywords = [
-          'negative prompt:', '네거티브 프롬프트:', '제외:', 'avoid:',
-          'don\'t include:', 'without:', '하지마세요:', '그리지 마세요:',
-          'exclude:',
-        ];
-        const uniqueNegativeKeywords = [...new Set(negativeKeywords.map(k => k.toLowerCase()))];
-
-        userMessagesFromHistory.forEach(msg => {
-            let isNegative = false;
-            for (const keyword of uniqueNegativeKeywords) {
-                if (msg.toLowerCase().startsWith(keyword)) {
-                    originalNegative.push(msg.substring(keyword.length).trim());
-                    isNegative = true;
-                    break;
-                }
-            }
-            if (!isNegative) {
-                originalPositive.push(msg);
-            }
-        });
-        
-        if (directiveInput.trim()) {
-            originalPositive.push(directiveInput.trim());
-        }
-        if (negativeDirectiveInput.trim()) {
-            originalNegative.push(negativeDirectiveInput.trim());
-        }
+  // Queues every cut that has no results yet and nothing on the way, in sequence order
+  const handleGenerateAllPending = useCallback(async () => {
+    const busyCutIds = new Set(generationJobs.filter(job => !isJobFinished(job.status)).map(job => job.input.cutId));
+    const pendingCuts = sequence.cuts
+      .map(cut => (cut.id === activeCutId ? { ...cut, history } : cut))
+      .filter(cut => isCutPending(cut) && !busyCutIds.has(cut.id));
+    if (pendingCuts.length === 0) return;
 
-        const compressedUrl = await compressImageForStorage(imageUrl);
-        const thumbnailUrl = await createThumbnail(compressedUrl);
+    setError(null);
+    const failures: string[] = [];
+    const activeTemplate = getActiveTemplateVersion(requestPromptLibrary, 'generation');
 
-        const newHistoryItem: HistoryItem = {
-          id: Date.now(),
-          imageUrl: compressedUrl,
-          thumbnailUrl,
-          prompt: originalPositive.join(', '),
-          negativePrompt: originalNegative.join(', '),
-        };
+    for (const cut of pendingCuts) {
+      try {
+        const isActive = cut.id === activeCutId;
+        const scene: SceneInput | null = isActive
+          ? { poses: poseImages, perspective: perspectiveData, dimensions: canvasDimensions, sketchBoundingBox, globalReferenceImage }
+          : cut.canvas && await documentToSceneInput(cut.canvas);
+        const validationError = scene
+          ? validateScene(scene.poses, scene.globalReferenceImage, workMode)
+          : '캔버스가 비어 있습니다.';
+        if (validationError || !scene) {
+          failures.push(`${cut.cutNumber}: ${validationError}`);
+          continue;
+        }
 
-        setHistory(prev => {
-            const updatedHistory = [...prev, newHistoryItem];
-            const MAX_HISTORY_SIZE = 25; 
-            if (updatedHistory.length > MAX_HISTORY_SIZE) {
-                return updatedHistory.slice(updatedHistory.length - MAX_HISTORY_SIZE);
-            }
-            return updatedHistory;
+        enqueueGeneration(cut, {
+          cutId: cut.id,
+          scene,
+          cameraOptions: isActive ? cameraOptions : cut.cameraOptions,
+          directiveInput: isActive ? directiveInput : cut.directiveInput,
+          negativeDirectiveInput: isActive ? negativeDirectiveInput : cut.negativeDirectiveInput,
+          outputStyle,
+          workMode,
+          editBaseImage: null,
+          chatHistory: analysisChatHistory,
+          canvas: isActive
+            ? drawingCanvasRef.current?.getDocument({ editHistory: false }) ?? null
+            : cut.canvas && { ...cut.canvas, editHistory: undefined },
+          seed: createSeeds(1, pinnedSeed)[0],
+          promptTemplate: { version: activeTemplate.version, text: activeTemplate.text },
+          sheet: null,
         });
-      } catch (historyError) {
-        console.error("기록 항목 생성 실패:", historyError);
-      }
-      
-    } catch (err) {
-      console.error(err);
-      let errorMessage = '이미지 생성 중 알 수 없는 오류가 발생했습니다.';
-      if (err instanceof Error) {
-        if (err.message.includes('RESOURCE_EXHAUSTED') || err.message.includes('quota')) {
-          errorMessage = 'API 사용량 한도를 초과했습니다. 잠시 후 다시 시도해 주세요. 문제가 계속되면 Google Cloud에서 API 할당량을 확인하거나 결제 설정을 검토해야 할 수 있습니다.';
-        } else {
-          errorMessage = err.message;
-        }
+      } catch (err) {
+        console.error(err);
+        failures.push(`${cut.cutNumber}: ${err instanceof Error ? err.message : '캔버스를 읽지 못했습니다.'}`);
       }
-      setError(errorMessage);
-    } finally {
-      setIsLoading(false);
-      isGeneratingRef.current = false;
     }
-  }, [poseImages, perspectiveData, outputStyle, canvasDimensions, sketchBoundingBox, analysisChatHistory, directiveInput, negativeDirectiveInput, globalReferenceImage, editBaseImage, workMode, cameraOptions]);
-  
+    if (failures.length > 0) {
+      setError(`일부 컷을 대기열에 넣지 못했습니다.\n${failures.join('\n')}`);
+    }
+  }, [generationJobs, sequence, activeCutId, history, poseImages, perspectiveData, canvasDimensions, sketchBoundingBox, globalReferenceImage, outputStyle, workMode, cameraOptions, directiveInput, negativeDirectiveInput, analysisChatHistory, pinnedSeed, requestPromptLibrary, enqueueGeneration]);
+
+  // Puts back every input of a recorded generation, replacing the canvas and settings on screen
+  const handleRestoreInputs = useCallback((item: HistoryItem) => {
+    const { recipe } = item;
+    if (!recipe) return;
+    if (!window.confirm('현재 캔버스와 설정을 이 결과를 만들 때의 입력으로 바꾸시겠습니까?')) return;
+
+    setOutputStyle(recipe.outputStyle);
+    setWorkMode(recipe.workMode);
+    setCameraOptions(recipe.cameraOptions);
+    setDirectiveInput(recipe.directiveInput);
+    setNegativeDirectiveInput(recipe.negativeDirectiveInput);
+    setAnalysisChatHistory(recipe.chatHistory);
+    setSceneAnalysis(null);
+    setAnalysisError(null);
+    setPinnedSeed(item.seed ?? null);
+    setVariationCount(1);
+    if (recipe.promptTemplate) {
+      const { text } = recipe.promptTemplate;
+      // The version number may mean something else in this library, so the text decides
+      setPromptLibrary(prev => {
+        const match = prev.generation.versions.find(version => version.text === text);
+        if (match) return setActiveTemplateVersion(prev, 'generation', match.version);
+        return addTemplateVersion(prev, 'generation', text, `생성 기록에서 복원 (원래 v${recipe.promptTemplate!.version})`);
+      });
+    }
+    setGeneratedImageUrl(item.imageUrl);
+    setComparisonImage(null);
+    setError(null);
+
+    if (recipe.canvas) {
+      setPoseImages([]);
+      setPerspectiveData({ vanishingPoints: [] });
+      setSketchBoundingBox(null);
+      // Clearing the conti also leaves edit mode; the edit base stays on record in the recipe
+      setGlobalReferenceImage(null);
+      setPendingCanvasDocument(recipe.canvas);
+      setCanvasResetKey(key => key + 1);
+      saveCanvasDocument(recipe.canvas).catch(e => console.error("캔버스 상태 저장 실패", e));
+    }
+  }, []);
+
+  const isActiveCutGenerating = generationJobs.some(job => job.input.cutId === activeCutId && !isJobFinished(job.status));
+  // Variations fill the contact sheet, not the main result
+  const isMainResultPending = generationJobs.some(job => (
+    job.input.cutId === activeCutId && job.input.sheet === null && !isJobFinished(job.status)
+  ));
+  const variationEntries: VariationEntry[] = variationSheet ? variationSheet.entries.map(({ key, label, seed }) => {
+    const result = variationSheet.results[key];
+    const job = generationJobs.find(j => j.input.sheet?.id === variationSheet.id && j.input.sheet.key === key);
+    return {
+      key,
+      label,
+      seed,
+      status: result ? 'succeeded' : job?.status ?? 'cancelled',
+      imageUrl: result?.imageUrl ?? null,
+      error: job?.error ?? null,
+      isPromoted: variationSheet.promotedKeys.includes(key),
+    };
+  }) : [];
 
   return (
     <div className="h-screen w-screen bg-[#1e1e1e] text-neutral-200 flex flex-col overflow-hidden">
-      {isLoading && <LoadingOverlay />}
+      {userMode === 'master' && (
+        <PromptTemplateManager
+          isOpen={isPromptManagerOpen}
+          library={promptLibrary}
+          onClose={() => setIsPromptManagerOpen(false)}
+          onChange={setPromptLibrary}
+          onCompareGenerate={handleCompareTemplates}
+        />
+      )}
       <ResetModal 
         isOpen={isResetModalOpen}
         onClose={() => setIsResetModalOpen(false)}
@@ -1131,6 +1720,7 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
           AI 애니메이션 레이아웃 어시스턴트 <span className="text-sm font-normal text-neutral-400">({userMode === 'master' ? '마스터 모드' : '게스트 모드'})</span>
         </h1>
         <div className="flex items-center gap-4">
+          <StorageUsageIndicator />
            {userMode === 'master' && (
             <>
               <div className="flex bg-neutral-700/70 p-1 rounded-lg space-x-1">
@@ -1157,6 +1747,15 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
                   마스터 대시보드
                 </button>
               </div>
+              <button
+                type="button"
+                onClick={() => setIsPromptManagerOpen(true)}
+                className="text-neutral-200 hover:text-white transition-colors flex items-center gap-2 px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 rounded-md text-sm font-medium"
+                title="생성·분석·대화 시스템 지시 템플릿 편집"
+              >
+                <BotIcon />
+                프롬프트 템플릿
+              </button>
               <button
                 type="button"
                 onClick={onMasterLogout} // Use the onMasterLogout prop
@@ -1167,11 +1766,41 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
                 로그아웃
               </button>
             </>
+          )}
+          {!(userMode === 'master' && activeMasterTab === 'dashboard') && (
+            <>
+              <input
+                ref={projectFileInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                onChange={handleProjectFileSelected}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={handleSaveProject}
+                disabled={isProjectBusy}
+                className="text-neutral-200 hover:text-white transition-colors flex items-center gap-2 px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 rounded-md text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                title="현재 장면을 프로젝트 파일(.zip)로 저장"
+              >
+                <SaveIcon />
+                프로젝트 저장
+              </button>
+              <button
+                type="button"
+                onClick={() => projectFileInputRef.current?.click()}
+                disabled={isProjectBusy}
+                className="text-neutral-200 hover:text-white transition-colors flex items-center gap-2 px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 rounded-md text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                title="프로젝트 파일 열기 (현재 장면을 대체합니다)"
+              >
+                <UploadIcon />
+                프로젝트 열기
+              </button>
+            </>
           )}
            <button
             type="button"
             onClick={handleResetClick}
-            disabled={isLoading}
             className="text-neutral-200 hover:text-white transition-colors flex items-center gap-2 px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 rounded-md text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed"
             title="모두 초기화"
           >
@@ -1198,32 +1827,35 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
           <>
             {/* 입력 섹션 */}
             <div className="flex flex-col gap-6 overflow-y-auto pr-2">
+              <SequencePanel
+                cuts={sequence.cuts.map(cut => (cut.id === activeCutId ? { ...cut, history } : cut))}
+                activeCutId={activeCutId}
+                onSelect={handleSelectCut}
+                onAdd={handleAddCut}
+                onDelete={handleDeleteCut}
+                onMove={handleMoveCut}
+                onUpdate={handleUpdateCut}
+                onGenerateAllPending={handleGenerateAllPending}
+                disabled={isProjectBusy}
+              />
               <div className="bg-[#282828] rounded-xl p-5 shadow-md border border-neutral-700/50">
                 <h2 className="text-lg font-semibold text-neutral-100 mb-3">1. 렌더링 스타일</h2>
-                <p className="text-sm text-neutral-400 mb-4">'원화 스타일'은 캐릭터 설정(Settei) 이미지의 화풍을 100% 복사-붙여넣기 한 것처럼 완벽히 동일한 스타일로 생성합니다. AI는 원작자의 모든 선 특징(굵기, 질감, 스타일)을 그대로 모방해야 합니다.</p>
-                <div className="flex bg-neutral-700/70 p-1 rounded-lg space-x-1">
-                  <button
-                    type="button"
-                    onClick={() => setOutputStyle('genga_style')}
-                    className={`w-full text-center px-4 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 ${
-                      outputStyle === 'genga_style'
-                        ? 'bg-neutral-500 text-white shadow-sm'
-                        : 'text-neutral-300 hover:bg-neutral-600/50'
-                    }`}
-                  >
-                    원화 스타일
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setOutputStyle('clean_lineart')}
-                    className={`w-full text-center px-4 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 ${
-                      outputStyle === 'clean_lineart'
-                        ? 'bg-neutral-500 text-white shadow-sm'
-                        : 'text-neutral-300 hover:bg-neutral-600/50'
-                    }`}
-                  >
-                    클린업 라인아트
-                  </button>
+                <p className="text-sm text-neutral-400 mb-4">{OUTPUT_STYLES.find(style => style.id === outputStyle)?.description}</p>
+                <div className="grid grid-cols-2 gap-1 bg-neutral-700/70 p-1 rounded-lg">
+                  {OUTPUT_STYLES.map(style => (
+                    <button
+                      key={style.id}
+                      type="button"
+                      onClick={() => setOutputStyle(style.id)}
+                      className={`w-full text-center px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 ${
+                        outputStyle === style.id
+                          ? 'bg-neutral-500 text-white shadow-sm'
+                          : 'text-neutral-300 hover:bg-neutral-600/50'
+                      }`}
+                    >
+                      {style.label}
+                    </button>
+                  ))}
                 </div>
               </div>
               <div className="bg-[#282828] rounded-xl p-5 shadow-md border border-neutral-700/50">
@@ -1269,15 +1901,20 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
             <div className="flex flex-col gap-6 overflow-y-auto pr-2">
               <DrawingCanvas 
                 key={`canvas-${canvasResetKey}`}
+                ref={drawingCanvasRef}
                 title="4. 레이아웃 스케치" 
                 description="장면의 레이아웃을 스케치하세요. 각 레이어에 캐릭터의 설정(Settei) 이미지를 직접 업로드하고 포즈를 그립니다. 레이어 이름이 곧 캐릭터 이름이 됩니다." 
                 onCanvasChange={handleCanvasChange}
                 initialGlobalReferenceUrl={globalReferenceImage?.imageDataUrl}
                 editBaseImageUrl={editBaseImage?.imageDataUrl}
+                initialDocument={pendingCanvasDocument}
               />
               <div className="grid grid-cols-2 gap-6">
                     <SceneAnalysis
                         chatHistory={analysisChatHistory}
+                        analysis={sceneAnalysis}
+                        onApplyCamera={handleCameraChange}
+                        onApplyPerspective={points => drawingCanvasRef.current?.placeVanishingPoints(points)}
                         isLoading={isAnalyzing}
                         error={analysisError}
                         onAnalyze={handleAnalyzeScene}
@@ -1298,7 +1935,6 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
                                 value={directiveInput}
                                 onChange={(e) => setDirectiveInput(e.target.value)}
                                 placeholder="연출 지시사항을 입력하세요... (예: 슬픈 표정으로 변경)"
-                                disabled={isLoading}
                                 className="w-full p-2 bg-neutral-700/80 border border-neutral-600/80 rounded-md text-neutral-200 placeholder-neutral-500 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none h-24"
                             />
                         </div>
@@ -1311,7 +1947,6 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
                                 value={negativeDirectiveInput}
                                 onChange={(e) => setNegativeDirectiveInput(e.target.value)}
                                 placeholder="제외할 요소를 입력하세요... (예: 6개의 손가락)"
-                                disabled={isLoading}
                                 className="w-full p-2 bg-neutral-700/80 border border-neutral-600/80 rounded-md text-neutral-200 placeholder-neutral-500 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none h-24"
                             />
                         </div>
@@ -1323,34 +1958,81 @@ export default function App({ userMode, onMasterLogout }: AppProps) { // Receive
 
             {/* 생성 및 결과 섹션 */}
             <div className="flex flex-col gap-6 overflow-y-auto pr-2">
+              <div className="flex items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 text-neutral-300">
+                  배리에이션
+                  <select
+                    value={variationCount}
+                    onChange={(e) => setVariationCount(Number(e.target.value))}
+                    className="p-1 bg-neutral-700/80 border border-neutral-600/80 rounded-md text-neutral-200 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    {VARIATION_COUNTS.map(count => <option key={count} value={count}>{count}장</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-neutral-300 flex-grow min-w-0">
+                  시드
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_SEED}
+                    value={pinnedSeed ?? ''}
+                    onChange={(e) => {
+                      const value = parseInt(e.target.value, 10);
+                      setPinnedSeed(Number.isNaN(value) ? null : Math.min(MAX_SEED, Math.max(0, value)));
+                    }}
+                    placeholder="무작위"
+                    className="w-full min-w-0 p-1 bg-neutral-700/80 border border-neutral-600/80 rounded-md text-neutral-200 placeholder-neutral-500 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    title="비워두면 매번 새 시드를 씁니다. 시드를 고정하면 같은 입력으로 같은 결과를 다시 만들 수 있습니다."
+                  />
+                </label>
+                {pinnedSeed !== null && (
+                  <button type="button" onClick={() => setPinnedSeed(null)} className="p-1 text-neutral-400 hover:text-white" title="시드 고정 해제">
+                    <CloseIcon />
+                  </button>
+                )}
+              </div>
               <button
                 type="button"
                 onClick={handleGenerate}
-                disabled={isLoading}
-                className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-900/50 disabled:text-neutral-400 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 shadow-md"
+                className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-lg transition-all duration-300 transform hover:scale-105 shadow-md"
+                title="현재 설정으로 생성 작업을 대기열에 추가합니다. 생성 중에도 계속 작업할 수 있습니다."
               >
-                {isLoading ? (
-                  <>
-                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                    </svg>
-                    생성 중...
-                  </>
-                ) : (
-                  '포즈생성기'
+                {isActiveCutGenerating && (
+                  <svg className="animate-spin -ml-1 mr-1 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
                 )}
+                포즈생성기{variationCount > 1 && ` ×${variationCount}`}
               </button>
+              <GenerationQueuePanel
+                jobs={generationJobs}
+                onCancel={generationQueue.cancel}
+                onRetry={generationQueue.retry}
+                onClearFinished={generationQueue.clearFinished}
+              />
+              {variationSheet && (
+                <VariationSheet
+                  title={variationSheet.title}
+                  entries={variationEntries}
+                  onPromote={handlePromoteVariation}
+                  onPinSeed={handlePinSeed}
+                  onView={handleViewImage}
+                  onClose={() => closeVariationSheet(variationSheet.id)}
+                />
+              )}
               <HistoryPanel
                 history={history}
                 onView={handleViewHistoryItem}
                 onCompare={handleSetComparisonImage}
                 onDelete={handleDeleteHistoryItem}
+                onPinSeed={handlePinSeed}
+                onRestoreInputs={handleRestoreInputs}
               />
               <GeneratedImage 
                 imageUrl={generatedImageUrl} 
                 comparisonImageUrl={comparisonImage?.imageUrl ?? null}
-                isLoading={isLoading} 
+                isLoading={isMainResultPending && !generatedImageUrl}
                 error={error} 
                 onView={handleViewImage}
                 onClearComparison={handleClearComparison}
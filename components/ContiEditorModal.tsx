@@ -9,6 +9,7 @@ import {
   EllipseIcon,
   EraserIcon,
   ExpandIcon,
+  HistoryIcon,
   LineIcon,
   MarkerIcon,
   OpacityIcon,
@@ -25,6 +26,13 @@ import {
   ZoomInIcon,
   ZoomOutIcon,
 } from './Icons';
+import { PressureCurveSelect } from './PressureCurveSelect';
+import { HistoryPanel } from './HistoryPanel';
+import type { StrokePoint } from '../types';
+import { drawVariableWidthPath } from '../services/vectorShapes';
+import { addTimelineNode, createThumbnail, createTimeline, moveTimeline, redoTargetId, timelineNode, type Timeline } from '../services/historyTimeline';
+import { correctStroke, createStabilizer, DEFAULT_STABILIZER_SETTINGS, STABILIZER_MODE_OPTIONS, type Stabilizer, type StabilizerMode, type StabilizerSettings } from '../services/strokeStabilizer';
+import { loadPressureCurves, pointerSamples, pressureScale, savePressureCurves, subscribePressureCurves, tiltDirection, toStrokePoint, type PressureCurve, type PressureCurves, type PressureTool } from '../services/pointerInput';
 
 type Point = { x: number; y: number };
 
@@ -37,10 +45,17 @@ interface ContiEditorModalProps {
 
 type Tool = 'pen' | 'marker' | 'eraser' | 'line' | 'curve' | 'ellipse' | 'mask_pen' | 'crop';
 
+// A step of the history: both canvases as the step left them. Steps that did not crop share the base with their parent.
+type ContiSnapshot = { drawing: ImageData; base: ImageData };
+
+const TOOL_HISTORY_LABELS: Partial<Record<Tool, string>> = {
+  pen: '펜', marker: '마커', eraser: '지우개', mask_pen: '마스크', line: '직선', curve: '곡선', ellipse: '타원',
+};
+
 const MAX_ZOOM = 8;
 const MIN_ZOOM = 0.2;
 const ZOOM_STEP = 1.2;
-const MAX_HISTORY_STATES = 50;
+const MAX_HISTORY_BYTES = 256 * 1024 * 1024; // Steps are whole canvases, so the history is bounded by memory
 
 const MASK_COLOR_MAP: Record<string, string> = {
   red: '255, 0, 0',
@@ -48,106 +63,32 @@ const MASK_COLOR_MAP: Record<string, string> = {
   blue: '0, 0, 255',
 };
 
-const drawPath = (ctx: CanvasRenderingContext2D, points: Point[]) => {
-  if (points.length === 0) return;
-  ctx.beginPath();
-  ctx.moveTo(points[0].x, points[0].y);
-  if (points.length < 3) {
-    ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
-  } else {
-    let i = 1;
-    for (; i < points.length - 2; i++) {
-      const xc = (points[i].x + points[i + 1].x) / 2;
-      const yc = (points[i].y + points[i + 1].y) / 2;
-      ctx.quadraticCurveTo(points[i].x, points[i].y, xc, yc);
-    }
-    ctx.quadraticCurveTo(points[i].x, points[i].y, points[i + 1].x, points[i + 1].y);
-  }
-  ctx.stroke();
-};
-
-const drawVariableWidthPath = (ctx: CanvasRenderingContext2D, points: Point[], baseSize: number, sensitivity: number) => {
-    if (sensitivity === 0 || points.length < 2) {
-        drawPath(ctx, points);
-        return;
-    }
-
-    // --- Increased smoothing factors ---
-    const widthSmoothingFactor = 0.8; // More smoothing
-    const velocitySensitivity = 25; // More responsive
-
-    let lastWidth = baseSize;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    if (points.length < 3) {
-        ctx.lineWidth = baseSize;
-        drawPath(ctx, points); // Use original for short lines
-        return;
-    }
-
-    let p1 = points[0];
-    let p2 = points[1];
-    let midPoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
-
-    ctx.beginPath();
-    ctx.moveTo(p1.x, p1.y);
-    ctx.lineTo(midPoint.x, midPoint.y);
-
-    for (let i = 1; i < points.length - 1; i++) {
-        p1 = points[i];
-        p2 = points[i + 1];
-        const nextMidPoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
-
-        // Calculate velocity at p1
-        const distance = Math.hypot(p1.x - points[i-1].x, p1.y - points[i-1].y);
-        const velocity = Math.min(distance / velocitySensitivity, 1.0);
-        
-        const targetWidth = baseSize - (baseSize * 0.9) * velocity * sensitivity;
-        const currentWidth = lastWidth * widthSmoothingFactor + targetWidth * (1 - widthSmoothingFactor);
-        
-        // Stroke the previous segment with the calculated width
-        ctx.lineWidth = Math.max(baseSize * 0.1, currentWidth);
-        ctx.quadraticCurveTo(p1.x, p1.y, nextMidPoint.x, nextMidPoint.y);
-        ctx.stroke();
-        
-        ctx.beginPath();
-        ctx.moveTo(nextMidPoint.x, nextMidPoint.y);
-        
-        lastWidth = currentWidth;
-        midPoint = nextMidPoint;
-    }
-
-    // Draw last line segment
-    ctx.lineWidth = lastWidth;
-    ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
-    ctx.stroke();
-};
-
-const drawMarkerPath = (ctx: CanvasRenderingContext2D, points: Point[], color: string, size: number, opacity: number, shape: 'rectangle' | 'circle', rotation: number) => {
+const drawMarkerPath = (ctx: CanvasRenderingContext2D, points: StrokePoint[], color: string, size: number, opacity: number, shape: 'rectangle' | 'circle', rotation: number) => {
     if (points.length === 0) return;
     ctx.fillStyle = color;
     ctx.globalAlpha = opacity;
     
     const angleInRadians = rotation * (Math.PI / 180);
 
-    const stamp = (x: number, y: number) => {
+    // A pen's pressure sizes the stamp, and its lean turns it
+    const stamp = (x: number, y: number, point: StrokePoint) => {
+        const stampSize = size * pressureScale(point);
         ctx.save();
         ctx.translate(x, y);
-        ctx.rotate(angleInRadians);
+        ctx.rotate(tiltDirection(point) ?? angleInRadians);
         ctx.beginPath();
         if (shape === 'rectangle') {
-            const width = size / 3; const height = size;
+            const width = stampSize / 3; const height = stampSize;
             ctx.rect(-width / 2, -height / 2, width, height);
         } else {
-            ctx.arc(0, 0, size / 2, 0, 2 * Math.PI);
+            ctx.arc(0, 0, stampSize / 2, 0, 2 * Math.PI);
         }
         ctx.fill();
         ctx.restore();
     };
 
     let lastPoint = points[0];
-    stamp(lastPoint.x, lastPoint.y);
+    stamp(lastPoint.x, lastPoint.y, lastPoint);
     for (let i = 1; i < points.length; i++) {
         const currentPoint = points[i];
         const dist = Math.hypot(currentPoint.x - lastPoint.x, currentPoint.y - lastPoint.y);
@@ -156,14 +97,34 @@ const drawMarkerPath = (ctx: CanvasRenderingContext2D, points: Point[], color: s
         for (let d = step; d < dist; d += step) {
             const x = lastPoint.x + Math.cos(angle) * d;
             const y = lastPoint.y + Math.sin(angle) * d;
-            stamp(x, y);
+            stamp(x, y, currentPoint);
         }
-        stamp(currentPoint.x, currentPoint.y);
+        stamp(currentPoint.x, currentPoint.y, currentPoint);
         lastPoint = currentPoint;
     }
     ctx.globalAlpha = 1.0;
 };
 
+let maskScratchCanvas: HTMLCanvasElement | null = null;
+
+// Pressure strokes are stroked piece by piece, so a translucent mask stroke is drawn opaque off screen and laid down at its opacity
+const drawMaskPath = (ctx: CanvasRenderingContext2D, points: StrokePoint[], rgb: string, size: number, opacity: number) => {
+    maskScratchCanvas ??= document.createElement('canvas');
+    maskScratchCanvas.width = ctx.canvas.width;
+    maskScratchCanvas.height = ctx.canvas.height;
+    const scratchCtx = maskScratchCanvas.getContext('2d');
+    if (!scratchCtx) return;
+    scratchCtx.strokeStyle = `rgb(${rgb})`;
+    scratchCtx.lineWidth = size;
+    scratchCtx.lineCap = 'round';
+    scratchCtx.lineJoin = 'round';
+    drawVariableWidthPath(scratchCtx, points, size, 0);
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    ctx.drawImage(maskScratchCanvas, 0, 0);
+    ctx.restore();
+};
+
 const drawEllipse = (ctx: CanvasRenderingContext2D, start: Point, end: Point) => {
     const radiusX = Math.abs(end.x - start.x) / 2;
     const radiusY = Math.abs(end.y - start.y) / 2;
@@ -205,7 +166,7 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
   const previewLineCanvasRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const pointsRef = useRef<Point[]>([]);
+  const pointsRef = useRef<StrokePoint[]>([]);
   const isDrawing = useRef(false);
 
   const [tool, setTool] = useState<Tool>('pen');
@@ -221,6 +182,9 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
   const [maskPenColor, setMaskPenColor] = useState<'red' | 'green' | 'blue'>('red');
   const [maskPenSize, setMaskPenSize] = useState<number>(30);
   const [maskPenOpacity, setMaskPenOpacity] = useState<number>(0.5);
+  const [pressureCurves, setPressureCurves] = useState<PressureCurves>(loadPressureCurves);
+  const [stabilizerSettings, setStabilizerSettings] = useState<StabilizerSettings>(DEFAULT_STABILIZER_SETTINGS);
+  const stabilizerRef = useRef<Stabilizer | null>(null); // The pen stroke in progress
   
   const [lineStartPoint, setLineStartPoint] = useState<Point | null>(null);
   const [curvePoints, setCurvePoints] = useState<Point[]>([]);
@@ -237,54 +201,80 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
   const [isScrubbyZooming, setIsScrubbyZooming] = useState(false);
   const panStartRef = useRef({ x: 0, y: 0 });
   
-  const [history, setHistory] = useState<{ stack: ImageData[], index: number }>({ stack: [], index: -1 });
+  const [history, setHistory] = useState<Timeline<ContiSnapshot>>(createTimeline);
+  const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false);
   
   const [canvasSize, setCanvasSize] = useState({ width: 100, height: 100 });
   const [baseImageOpacity, setBaseImageOpacity] = useState(1);
   
-  const canUndo = history.index > 0;
-  const canRedo = history.index < history.stack.length - 1;
+  const resetView = useCallback(() => { setZoom(1); setPan({x:0, y:0}); setRotation(0); }, []);
 
-  const saveState = useCallback(() => {
-    const drawingCanvas = drawingCanvasRef.current;
-    if (!drawingCanvas) return;
-    const ctx = drawingCanvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) return;
+  const clearPreview = useCallback(() => {
+    const previewCtx = previewLineCanvasRef.current?.getContext('2d');
+    if (previewCtx && previewLineCanvasRef.current) {
+        previewCtx.clearRect(0, 0, previewLineCanvasRef.current.width, previewLineCanvasRef.current.height);
+    }
+  }, []);
+
+  const canUndo = timelineNode<ContiSnapshot>(history, history.currentId)?.parentId != null;
+  const canRedo = redoTargetId<ContiSnapshot>(history) !== null;
+
+  const snapshotThumbnail = () => {
+    const canvases = [baseCanvasRef.current, drawingCanvasRef.current].filter((c): c is HTMLCanvasElement => !!c);
+    return canvases.length > 0 ? createThumbnail(canvases, canvases[0].width, canvases[0].height) : null;
+  };
 
-    const imageData = ctx.getImageData(0, 0, drawingCanvas.width, drawingCanvas.height);
+  // Adds the canvases as they are now as a step after the current one; `baseChanged` when the step changed the base image too
+  const recordState = useCallback((label: string, baseChanged = false) => {
+    const drawingCanvas = drawingCanvasRef.current;
+    const baseCanvas = baseCanvasRef.current;
+    const drawing = drawingCanvas?.getContext('2d', { willReadFrequently: true })?.getImageData(0, 0, drawingCanvas.width, drawingCanvas.height);
+    if (!drawing || !baseCanvas) return;
+    const changedBase = baseChanged ? baseCanvas.getContext('2d', { willReadFrequently: true })?.getImageData(0, 0, baseCanvas.width, baseCanvas.height) : undefined;
+    const thumbnail = snapshotThumbnail();
     setHistory(prev => {
-        const newStack = prev.stack.slice(0, prev.index + 1);
-        newStack.push(imageData);
-        if (newStack.length > MAX_HISTORY_STATES) newStack.shift();
-        return { stack: newStack, index: newStack.length - 1 };
+      const base = changedBase ?? timelineNode<ContiSnapshot>(prev, prev.currentId)?.data.base;
+      if (!base) return prev;
+      const bytes = drawing.data.length + (changedBase ? changedBase.data.length : 0);
+      return addTimelineNode(prev, { label, data: { drawing, base }, bytes, thumbnail }, MAX_HISTORY_BYTES);
     });
   }, []);
-  
-  const restoreState = useCallback((index: number) => {
-      const drawingCanvas = drawingCanvasRef.current;
-      if (!drawingCanvas || !history.stack[index]) return;
-      const ctx = drawingCanvas.getContext('2d');
-      if (!ctx) return;
-      ctx.putImageData(history.stack[index], 0, 0);
-  }, [history.stack]);
 
-  const handleUndo = useCallback(() => {
-    if (canUndo) {
-      const newIndex = history.index - 1;
-      setHistory(prev => ({...prev, index: newIndex }));
-      restoreState(newIndex);
+  // Puts both canvases back as a step left them, resizing them when a crop came between
+  const restoreState = useCallback(({ drawing, base }: ContiSnapshot) => {
+    const canvases = [baseCanvasRef.current, drawingCanvasRef.current, previewLineCanvasRef.current];
+    if (canvases.some(c => c && (c.width !== drawing.width || c.height !== drawing.height))) {
+      canvases.forEach(c => {
+        if (c) {
+          c.width = drawing.width;
+          c.height = drawing.height;
+        }
+      });
+      setCanvasSize({ width: drawing.width, height: drawing.height });
+      resetView();
     }
-  }, [canUndo, history.index, restoreState]);
+    baseCanvasRef.current?.getContext('2d')?.putImageData(base, 0, 0);
+    drawingCanvasRef.current?.getContext('2d')?.putImageData(drawing, 0, 0);
+    clearPreview();
+    setLineStartPoint(null); setCurvePoints([]); setEllipseStartPoint(null); setCropRect(null);
+  }, [resetView, clearPreview]);
+
+  const jumpToState = useCallback((targetId: number | null) => {
+    const target = timelineNode<ContiSnapshot>(history, targetId);
+    if (!target) return;
+    restoreState(target.data);
+    setHistory(prev => moveTimeline(prev, target.id));
+  }, [history, restoreState]);
+
+  const handleUndo = useCallback(() => {
+    const current = timelineNode<ContiSnapshot>(history, history.currentId);
+    if (current && current.parentId !== null) jumpToState(current.parentId);
+  }, [history, jumpToState]);
 
   const handleRedo = useCallback(() => {
-    if (canRedo) {
-      const newIndex = history.index + 1;
-      setHistory(prev => ({...prev, index: newIndex }));
-      restoreState(newIndex);
-    }
-  }, [canRedo, history.index, restoreState]);
-  
-  const resetView = useCallback(() => { setZoom(1); setPan({x:0, y:0}); setRotation(0); }, []);
+    const targetId = redoTargetId<ContiSnapshot>(history);
+    if (targetId !== null) jumpToState(targetId);
+  }, [history, jumpToState]);
   
   const loadImage = useCallback((url: string) => {
     const img = new Image();
@@ -309,15 +299,16 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
         const drawingCtx = drawingCanvasRef.current?.getContext('2d', { willReadFrequently: true });
         if(drawingCtx && drawingCanvasRef.current) {
             drawingCtx.clearRect(0,0, drawingCanvasRef.current.width, drawingCanvasRef.current.height);
-            const initialImageData = drawingCtx.getImageData(0,0, drawingCanvasRef.current.width, drawingCanvasRef.current.height);
-            setHistory({ stack: [initialImageData], index: 0 });
+            // The image as opened is the first step, so every later step can be undone back to it
+            setHistory(createTimeline<ContiSnapshot>());
+            recordState('원본', true);
         }
         
         resetView();
         setTool('pen');
     };
     img.src = url;
-  }, [resetView]);
+  }, [resetView, recordState]);
 
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -342,12 +333,10 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
     }
   }, [isOpen, imageUrl, loadImage]);
 
-  const getCoords = useCallback((e: MouseEvent | TouchEvent): { x: number; y: number } | null => {
+  const getCoords = useCallback(({ clientX, clientY }: { clientX: number; clientY: number }): { x: number; y: number } | null => {
       const container = containerRef.current;
       if (!container) return null;
       const rect = container.getBoundingClientRect();
-      const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
-      const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
       const mouseX = (clientX - rect.left - pan.x) / zoom;
       const mouseY = (clientY - rect.top - pan.y) / zoom;
       const rad = -rotation * (Math.PI / 180);
@@ -359,18 +348,17 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
       return { x: unrotatedX + cx, y: unrotatedY + cy };
   }, [zoom, pan, rotation, canvasSize]);
 
-  const clearPreview = useCallback(() => {
-    const previewCtx = previewLineCanvasRef.current?.getContext('2d');
-    if (previewCtx && previewLineCanvasRef.current) {
-        previewCtx.clearRect(0, 0, previewLineCanvasRef.current.width, previewLineCanvasRef.current.height);
-    }
-  }, []);
+  useEffect(() => subscribePressureCurves(setPressureCurves), []);
+
+  const pressureTool: PressureTool | null = tool === 'mask_pen' ? 'mask' : tool === 'pen' || tool === 'marker' || tool === 'eraser' ? tool : null;
+
+  const updatePressureCurve = (curveTool: PressureTool, curve: PressureCurve) => {
+    savePressureCurves({ ...pressureCurves, [curveTool]: curve });
+  };
 
   const handleApplyCrop = useCallback(() => {
     if (!cropRect) return;
 
-    saveState();
-
     const { x, y, width, height } = cropRect;
     
     if (width < 1 || height < 1) {
@@ -421,13 +409,10 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
     setCropRect(null);
     clearPreview();
     setTool('pen');
+    recordState('자르기', true);
+  }, [cropRect, recordState, resetView, clearPreview]);
 
-    setTimeout(() => {
-        saveState();
-    }, 100);
-  }, [cropRect, saveState, resetView, clearPreview]);
-
-  const handleMouseMove = useCallback((e: MouseEvent) => {
+  const handlePointerMove = useCallback((e: PointerEvent) => {
       if (isScrubbyZooming) {
         const dx = e.clientX - panStartRef.current.x;
         panStartRef.current = { x: e.clientX, y: e.clientY };
@@ -490,10 +475,27 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
       previewCtx.clearRect(0, 0, previewLineCanvasRef.current.width, previewLineCanvasRef.current.height);
 
       if (isDrawing.current) {
-          pointsRef.current.push(coords);
+          const curve = pressureTool ? pressureCurves[pressureTool] : 'off';
+          const stabilizer = stabilizerRef.current;
+          pointerSamples(e).forEach(sample => {
+              const sampleCoords = getCoords(sample);
+              if (!sampleCoords) return;
+              const point = toStrokePoint(sampleCoords, sample, curve);
+              pointsRef.current.push(...(stabilizer ? stabilizer.push(point) : [point]));
+          });
           if (tool === 'pen') {
               previewCtx.strokeStyle = penColor;
               drawVariableWidthPath(previewCtx, pointsRef.current, penSize, penSensitivity);
+              // The lazy brush's rope, from the line's end to the pointer
+              const brush = stabilizer?.brushPosition();
+              if (brush) {
+                  previewCtx.save();
+                  previewCtx.strokeStyle = 'rgba(160, 160, 160, 0.8)';
+                  previewCtx.lineWidth = 1 / zoom;
+                  previewCtx.setLineDash([3 / zoom, 3 / zoom]);
+                  previewCtx.beginPath(); previewCtx.moveTo(brush.x, brush.y); previewCtx.lineTo(coords.x, coords.y); previewCtx.stroke();
+                  previewCtx.restore();
+              }
           } else if (tool === 'marker') {
               drawMarkerPath(previewCtx, pointsRef.current, markerColor, markerSize, markerOpacity, markerShape, markerRotation);
           } else if (tool === 'eraser') {
@@ -501,13 +503,9 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
               previewCtx.lineWidth = eraserSize;
               previewCtx.lineCap = 'round';
               previewCtx.lineJoin = 'round';
-              drawPath(previewCtx, pointsRef.current);
+              drawVariableWidthPath(previewCtx, pointsRef.current, eraserSize, 0);
           } else if (tool === 'mask_pen') {
-              previewCtx.strokeStyle = `rgba(${MASK_COLOR_MAP[maskPenColor]}, ${maskPenOpacity})`;
-              previewCtx.lineWidth = maskPenSize;
-              previewCtx.lineCap = 'round';
-              previewCtx.lineJoin = 'round';
-              drawPath(previewCtx, pointsRef.current);
+              drawMaskPath(previewCtx, pointsRef.current, MASK_COLOR_MAP[maskPenColor], maskPenSize, maskPenOpacity);
           }
       } else if (tool === 'line' && lineStartPoint) {
           previewCtx.strokeStyle = penColor;
@@ -566,9 +564,9 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
             previewCtx.beginPath(); previewCtx.moveTo(p1.x, p1.y); previewCtx.bezierCurveTo(cp1.x, cp1.y, cp2.x, cp2.y, p2.x, p2.y); previewCtx.stroke();
         }
       }
-  }, [getCoords, tool, penColor, penSize, penSensitivity, eraserSize, markerColor, markerSize, markerOpacity, markerShape, markerRotation, lineStartPoint, curvePoints, ellipseStartPoint, isPanning, zoom, isScrubbyZooming, maskPenColor, maskPenOpacity, maskPenSize]);
+  }, [getCoords, tool, penColor, penSize, penSensitivity, eraserSize, markerColor, markerSize, markerOpacity, markerShape, markerRotation, lineStartPoint, curvePoints, ellipseStartPoint, isPanning, zoom, isScrubbyZooming, maskPenColor, maskPenOpacity, maskPenSize, pressureTool, pressureCurves]);
 
-  const handleMouseDown = useCallback((e: MouseEvent) => {
+  const handlePointerDown = useCallback((e: PointerEvent) => {
       if (e.altKey && e.button === 2) {
           e.preventDefault();
           setIsScrubbyZooming(true);
@@ -593,12 +591,11 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
 
       const isBrushTool = tool === 'pen' || tool === 'marker' || tool === 'eraser' || tool === 'mask_pen';
       if (isBrushTool) {
-          saveState();
           isDrawing.current = true;
-          pointsRef.current = [coords];
+          pointsRef.current = [toStrokePoint(coords, e, pressureTool ? pressureCurves[pressureTool] : 'off')];
+          stabilizerRef.current = tool === 'pen' ? createStabilizer(stabilizerSettings, pointsRef.current[0], zoom) : null;
       } else if (tool === 'line') {
           if (!lineStartPoint) {
-              saveState();
               setLineStartPoint(coords);
           } else {
               const drawingCtx = drawingCanvasRef.current?.getContext('2d');
@@ -607,12 +604,11 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
                   drawingCtx.beginPath(); drawingCtx.moveTo(lineStartPoint.x, lineStartPoint.y); drawingCtx.lineTo(coords.x, coords.y); drawingCtx.stroke();
               }
               setLineStartPoint(null);
+              recordState(TOOL_HISTORY_LABELS.line!);
           }
       } else if (tool === 'ellipse') {
-          saveState();
           setEllipseStartPoint(coords);
       } else if (tool === 'curve') {
-          saveState();
           if (curvePoints.length < 3) { // Collect p1, p2, cp1
               setCurvePoints(prev => [...prev, coords]);
           } else { // on 4th click for cp2, draw the curve
@@ -631,11 +627,12 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
               setCurvePoints([]);
               const previewCtx = previewLineCanvasRef.current?.getContext('2d');
               previewCtx?.clearRect(0,0, previewCtx.canvas.width, previewCtx.canvas.height);
+              recordState(TOOL_HISTORY_LABELS.curve!);
           }
       }
-  }, [tool, getCoords, saveState, lineStartPoint, curvePoints, penColor, penSize, isSpacePressed]);
+  }, [tool, getCoords, recordState, lineStartPoint, curvePoints, penColor, penSize, isSpacePressed, pressureTool, pressureCurves, stabilizerSettings, zoom]);
 
-  const handleMouseUp = useCallback((e: MouseEvent) => {
+  const handlePointerUp = useCallback((e: PointerEvent) => {
       if (isScrubbyZooming) {
           setIsScrubbyZooming(false);
           return;
@@ -671,6 +668,13 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
       
       const isBrushTool = tool === 'pen' || tool === 'marker' || tool === 'eraser' || tool === 'mask_pen';
       if (isBrushTool && isDrawing.current) {
+          if (stabilizerRef.current) {
+              pointsRef.current.push(...stabilizerRef.current.finish());
+              stabilizerRef.current = null;
+          }
+          if (tool === 'pen' && stabilizerSettings.lineCorrection) {
+              pointsRef.current = correctStroke(pointsRef.current, stabilizerSettings.strength);
+          }
           const drawingCtx = drawingCanvasRef.current?.getContext('2d');
           if (drawingCtx) {
               if (tool === 'pen') {
@@ -679,18 +683,15 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
               } else if (tool === 'marker') {
                   drawMarkerPath(drawingCtx, pointsRef.current, markerColor, markerSize, markerOpacity, markerShape, markerRotation);
               } else if (tool === 'mask_pen') {
-                  drawingCtx.strokeStyle = `rgba(${MASK_COLOR_MAP[maskPenColor]}, ${maskPenOpacity})`;
-                  drawingCtx.lineWidth = maskPenSize;
-                  drawingCtx.lineCap = 'round';
-                  drawingCtx.lineJoin = 'round';
-                  drawPath(drawingCtx, pointsRef.current);
+                  drawMaskPath(drawingCtx, pointsRef.current, MASK_COLOR_MAP[maskPenColor], maskPenSize, maskPenOpacity);
               } else { // eraser
                   drawingCtx.globalCompositeOperation = 'destination-out';
                   drawingCtx.lineWidth = eraserSize; drawingCtx.lineCap = 'round'; drawingCtx.lineJoin = 'round';
-                  drawPath(drawingCtx, pointsRef.current);
+                  drawVariableWidthPath(drawingCtx, pointsRef.current, eraserSize, 0);
                   drawingCtx.globalCompositeOperation = 'source-over';
               }
           }
+          recordState(TOOL_HISTORY_LABELS[tool]!);
       } else if (tool === 'ellipse' && ellipseStartPoint) {
           const drawingCtx = drawingCanvasRef.current?.getContext('2d');
           if(drawingCtx) {
@@ -698,12 +699,13 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
               drawEllipse(drawingCtx, ellipseStartPoint, coords);
           }
           setEllipseStartPoint(null);
+          recordState(TOOL_HISTORY_LABELS.ellipse!);
       }
       
       clearPreview();
       isDrawing.current = false;
       pointsRef.current = [];
-  }, [tool, getCoords, ellipseStartPoint, penColor, penSize, penSensitivity, eraserSize, markerColor, markerSize, markerOpacity, markerShape, markerRotation, isScrubbyZooming, maskPenColor, maskPenOpacity, maskPenSize, clearPreview]);
+  }, [tool, getCoords, ellipseStartPoint, penColor, penSize, penSensitivity, eraserSize, markerColor, markerSize, markerOpacity, markerShape, markerRotation, isScrubbyZooming, maskPenColor, maskPenOpacity, maskPenSize, clearPreview, stabilizerSettings, recordState]);
 
   const handleWheel = useCallback((e: React.WheelEvent<HTMLDivElement>) => {
       e.preventDefault();
@@ -743,10 +745,9 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
     if (!drawingCanvas) return;
     const ctx = drawingCanvas.getContext('2d');
     if (!ctx) return;
-    saveState();
     ctx.clearRect(0, 0, drawingCanvas.width, drawingCanvas.height);
-    saveState();
-  }, [saveState]);
+    recordState('전체 지우기');
+  }, [recordState]);
 
   const handleZoom = useCallback((direction: 'in' | 'out') => {
     const container = containerRef.current;
@@ -850,26 +851,28 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
   useEffect(() => {
     const container = containerRef.current;
     if (!container) return;
-    const handleNativeEvent = (e: MouseEvent) => handleMouseMove(e);
-    const handleMouseDownEvent = (e: MouseEvent) => handleMouseDown(e);
+    const handleNativeEvent = (e: PointerEvent) => handlePointerMove(e);
+    const handlePointerDownEvent = (e: PointerEvent) => handlePointerDown(e);
     
-    container.addEventListener('mousemove', handleNativeEvent);
-    container.addEventListener('mousedown', handleMouseDownEvent);
+    container.addEventListener('pointermove', handleNativeEvent);
+    container.addEventListener('pointerdown', handlePointerDownEvent);
     
-    const handleMouseUpOnWindow = (e: MouseEvent) => {
+    const handlePointerUpOnWindow = (e: PointerEvent) => {
       if (isDrawing.current || isPanning || isScrubbyZooming || cropStartPointRef.current) {
-        handleMouseUp(e);
+        handlePointerUp(e);
       }
     };
 
-    window.addEventListener('mouseup', handleMouseUpOnWindow);
+    window.addEventListener('pointerup', handlePointerUpOnWindow);
+    window.addEventListener('pointercancel', handlePointerUpOnWindow);
 
     return () => {
-        container.removeEventListener('mousemove', handleNativeEvent);
-        container.removeEventListener('mousedown', handleMouseDownEvent);
-        window.removeEventListener('mouseup', handleMouseUpOnWindow);
+        container.removeEventListener('pointermove', handleNativeEvent);
+        container.removeEventListener('pointerdown', handlePointerDownEvent);
+        window.removeEventListener('pointerup', handlePointerUpOnWindow);
+        window.removeEventListener('pointercancel', handlePointerUpOnWindow);
     };
-  }, [handleMouseMove, handleMouseDown, handleMouseUp, isDrawing, isPanning, isScrubbyZooming]);
+  }, [handlePointerMove, handlePointerDown, handlePointerUp, isDrawing, isPanning, isScrubbyZooming]);
 
   useEffect(() => {
     clearPreview();
@@ -916,6 +919,21 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
                   <label className="text-xs">감도: {penSensitivity.toFixed(2)}</label>
                   <input type="range" min="0" max="1" step="0.05" value={penSensitivity} onChange={e => setPenSensitivity(Number(e.target.value))} className="w-full"/>
                 </div>}
+                {tool === 'pen' && <PressureCurveSelect id="conti-pen-pressure" curve={pressureCurves.pen} onChange={curve => updatePressureCurve('pen', curve)} />}
+                {tool === 'pen' && <div className="space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <label htmlFor="conti-pen-stabilizer" className="text-xs">손떨림 보정</label>
+                    <select id="conti-pen-stabilizer" value={stabilizerSettings.mode} onChange={e => setStabilizerSettings(prev => ({ ...prev, mode: e.target.value as StabilizerMode }))} className="p-1 text-xs bg-neutral-700 border border-neutral-600 rounded-md">
+                      {STABILIZER_MODE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                    </select>
+                  </div>
+                  <label className="text-xs">보정 강도: {Math.round(stabilizerSettings.strength * 100)}%</label>
+                  <input type="range" min="0" max="1" step="0.05" value={stabilizerSettings.strength} onChange={e => setStabilizerSettings(prev => ({ ...prev, strength: Number(e.target.value) }))} disabled={stabilizerSettings.mode === 'off' && !stabilizerSettings.lineCorrection} className="w-full disabled:opacity-50"/>
+                  <label className="flex items-center gap-2 text-xs">
+                    <input type="checkbox" checked={stabilizerSettings.lineCorrection} onChange={e => setStabilizerSettings(prev => ({ ...prev, lineCorrection: e.target.checked }))} />
+                    선 보정 (펜을 뗀 뒤 선을 다듬기)
+                  </label>
+                </div>}
               </div>
             )}
             {tool === 'marker' && (
@@ -930,6 +948,7 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
                   <label className="text-xs">투명도: {Math.round(markerOpacity*100)}%</label>
                   <input type="range" min="0.01" max="1" step="0.01" value={markerOpacity} onChange={e => setMarkerOpacity(Number(e.target.value))} className="w-full"/>
                 </div>
+                <PressureCurveSelect id="conti-marker-pressure" curve={pressureCurves.marker} onChange={curve => updatePressureCurve('marker', curve)} />
               </div>
             )}
             {tool === 'eraser' && (
@@ -939,6 +958,7 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
                   <label className="text-xs">크기: {eraserSize}px</label>
                   <input type="range" min="1" max="200" value={eraserSize} onChange={e => setEraserSize(Number(e.target.value))} className="w-full"/>
                 </div>
+                <PressureCurveSelect id="conti-eraser-pressure" curve={pressureCurves.eraser} onChange={curve => updatePressureCurve('eraser', curve)} />
               </div>
             )}
             {tool === 'mask_pen' && (
@@ -957,6 +977,7 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
                   <label className="text-xs">투명도: {Math.round(maskPenOpacity*100)}%</label>
                   <input type="range" min="0.01" max="1" step="0.01" value={maskPenOpacity} onChange={e => setMaskPenOpacity(Number(e.target.value))} className="w-full"/>
                 </div>
+                <PressureCurveSelect id="conti-mask-pressure" curve={pressureCurves.mask} onChange={curve => updatePressureCurve('mask', curve)} />
                 <button
                   type="button"
                   onClick={handleClearCanvas}
@@ -1026,7 +1047,7 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
             ref={containerRef} 
             onWheel={handleWheel} 
             onContextMenu={e => { if (isScrubbyZooming) e.preventDefault() }}
-            className="flex-grow relative overflow-hidden" 
+            className="flex-grow relative overflow-hidden touch-none" 
             style={{ 
               cursor: isScrubbyZooming ? 'ew-resize' : isSpacePressed ? 'grab' : 'crosshair',
               backgroundColor: '#4f4f4f',
@@ -1051,6 +1072,12 @@ export const ContiEditorModal: React.FC<ContiEditorModalProps> = ({ isOpen, imag
             <div className="flex items-center gap-1">
               <button onClick={handleUndo} disabled={!canUndo} className="p-2 text-neutral-300 hover:bg-neutral-600 rounded-md disabled:opacity-50" title="실행 취소 (Ctrl+Z)"><UndoIcon /></button>
               <button onClick={handleRedo} disabled={!canRedo} className="p-2 text-neutral-300 hover:bg-neutral-600 rounded-md disabled:opacity-50" title="다시 실행 (Ctrl+Y/Shift+Ctrl+Z)"><RedoIcon /></button>
+              <div className="relative">
+                <button onClick={() => setIsHistoryPanelOpen(prev => !prev)} className={`p-2 rounded-md ${isHistoryPanelOpen ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={isHistoryPanelOpen} aria-expanded={isHistoryPanelOpen} title="작업 기록"><HistoryIcon /></button>
+                {isHistoryPanelOpen && (
+                  <HistoryPanel timeline={history} onJump={jumpToState} className="absolute bottom-full left-0 mb-2 z-30 w-64" />
+                )}
+              </div>
               <button onClick={handleClearCanvas} className="p-2 text-red-400 hover:bg-neutral-600 rounded-md" title="캔버스 지우기"><TrashIcon /></button>
             </div>
             <div className="w-px h-6 bg-neutral-600" />
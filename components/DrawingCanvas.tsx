@@ -1,11 +1,13 @@
 
-import React, { useRef, useEffect, useState, useCallback, useLayoutEffect } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useLayoutEffect, useImperativeHandle, useMemo } from 'react';
 import {
   AngleIcon,
   ArrowDownIcon,
   ArrowUpIcon,
   CircleIcon,
+  ChevronRightIcon,
   CloseIcon,
+  CornerDownRightIcon,
   CropIcon,
   CurveIcon,
   EditIcon,
@@ -14,32 +16,171 @@ import {
   ExpandIcon,
   EyeIcon,
   EyeOffIcon,
+  FlipHorizontalIcon,
+  FlipVerticalIcon,
+  FolderIcon,
+  HistoryIcon,
   ImageIcon,
+  LassoIcon,
   LayersIcon,
   LineIcon,
   LockIcon,
+  MagnetIcon,
   MarkerIcon,
   MergeDownIcon,
+  MousePointerIcon,
   OpacityIcon,
   PenIcon,
+  PersonStandingIcon,
   PlusIcon,
   RectangleIcon,
   RedoIcon,
   ResetIcon,
   RotateCcwIcon,
   RotateCwIcon,
+  SelectRectIcon,
   TargetIcon,
   TrashIcon,
   UndoIcon,
+  UnlockIcon,
   UploadIcon,
   ZoomInIcon,
   ZoomOutIcon,
   RectangleHorizontalIcon,
   PencilIcon,
 } from './Icons';
-import type { PoseImage, PerspectiveData, CharacterPoint } from '../types';
+import type { PoseImage, PerspectiveData, PerspectiveGuideSet, PerspectiveMode, CharacterPoint, CanvasDocument, SerializedEditHistory, SerializedLayer, SerializedLayerRecord, LayerType, PoseBoneName, PoseProportionPreset, PoseSkeleton, StrokePoint, VectorShape } from '../types';
 import { SetteiEditorModal } from './SetteiEditorModal';
 import { ContiEditorModal } from './ContiEditorModal';
+import { PressureCurveSelect } from './PressureCurveSelect';
+import { HistoryPanel } from './HistoryPanel';
+import { loadCanvasDocument, saveCanvasContent, saveCanvasEditHistory } from '../services/storage';
+import { getContentBoundingBox } from '../services/sceneInput';
+import { correctStroke, createStabilizer, DEFAULT_STABILIZER_SETTINGS, STABILIZER_MODE_OPTIONS, type Stabilizer, type StabilizerMode, type StabilizerSettings } from '../services/strokeStabilizer';
+import { loadPressureCurves, pointerSamples, pressureScale, savePressureCurves, subscribePressureCurves, tiltDirection, toStrokePoint, type PressureCurve, type PressureCurves, type PressureTool } from '../services/pointerInput';
+import { detectVanishingPoints } from '../services/vanishingPointDetector';
+import type { VanishingPointProposal } from '../services/vanishingPointDetection';
+import {
+  MAX_GRID_DENSITY,
+  MAX_VANISHING_POINTS,
+  MIN_GRID_DENSITY,
+  buildGuidePaths,
+  createGuideSet,
+  effectiveVanishingPoints,
+  horizonAt,
+  horizonLine,
+  horizonPointsFirst,
+  moveHorizon,
+  normalizeGuideSets,
+  perspectiveDataFor,
+  withPointCount,
+  withVanishingPoints,
+  type GuideRole,
+} from '../services/perspectiveGrid';
+import {
+  DEFAULT_SNAP_SETTINGS,
+  applyConstraint,
+  findConstraint,
+  perspectiveEllipse,
+  type SnapConstraint,
+  type SnapSettings,
+  type SnapTargets,
+} from '../services/perspectiveSnap';
+import {
+  drawPath,
+  drawVariableWidthPath,
+  findShapeAt,
+  moveShape,
+  moveShapeHandle,
+  rasterizeVectorShapes,
+  renderVectorShapes,
+  scaleShapes,
+  shapeBounds,
+  shapeHandles,
+  shapesTouchedBy,
+} from '../services/vectorShapes';
+import {
+  MAX_FORESHORTENING,
+  POSE_BONE_LABELS,
+  POSE_PRESET_OPTIONS,
+  DEFAULT_POSE_BONES,
+  createSkeleton,
+  findSkeletonJointAt,
+  mirrorSkeleton,
+  moveSkeleton,
+  pointBoneAt,
+  rasterizeSkeletons,
+  renderSkeletons,
+  scaleSkeletons,
+  setSkeletonBone,
+  skeletonHandles,
+  skeletonKeypoints,
+} from '../services/poseSkeleton';
+import {
+  FACING_OPTIONS,
+  createCharacterMarker,
+  dragCharacterMarker,
+  eyeLineEnd,
+  moveCharacterMarker,
+  nextMarkerDepth,
+  resolveCharacterMarker,
+  snapEyeLineTarget,
+  type CharacterMarker,
+  type MarkerHandle,
+} from '../services/characterMarkers';
+import {
+  childrenOf,
+  clipStackMembers,
+  clipStacks,
+  compositeLayerTree,
+  descendantIds,
+  flattenClipStack,
+  flattenLayerTree,
+  isLayerLocked,
+  isLayerShown,
+  moveLayerInTree,
+  orderLayerTree,
+  siblingAbove,
+  siblingBelow,
+  stepLayerInTree,
+  type LayerDropPlacement,
+} from '../services/layerTree';
+import {
+  SELECTION_TRANSFORM_MODE_OPTIONS,
+  clearSelectionPixels,
+  copySelectionPixels,
+  drawFloatingSelection,
+  drawSelectionOutline,
+  drawTransformFrame,
+  findSelectionHandle,
+  flipCorners,
+  floatSelection,
+  isUsableSelection,
+  liftSelection,
+  pointInPolygon,
+  rectanglePath,
+  renderFloatingSelection,
+  transformCorners,
+  type FloatingSelection,
+  type SelectionHandle,
+  type SelectionTransformMode,
+} from '../services/selectionTransform';
+import {
+  applyLayerCommand,
+  contentPatch,
+  createEditHistory,
+  deserializeEditHistory,
+  diffLayers,
+  diffPixels,
+  loadPersistEditHistory,
+  pushEdit,
+  savePersistEditHistory,
+  serializeEditHistory,
+  type EditCommand,
+  type EditHistory,
+  type PixelPatch,
+} from '../services/editHistory';
+import { createThumbnail, moveTimeline, redoTargetId, setTimelineThumbnail, timelineNode, timelinePath } from '../services/historyTimeline';
 
 interface DrawingCanvasProps {
   title: string;
@@ -54,6 +195,17 @@ interface DrawingCanvasProps {
   }) => void;
   initialGlobalReferenceUrl?: string | null;
   editBaseImageUrl?: string | null;
+  // Restored on mount instead of the autosaved state (e.g. an opened project file)
+  initialDocument?: CanvasDocument | null;
+  ref?: React.Ref<DrawingCanvasHandle>;
+}
+
+export interface DrawingCanvasHandle {
+  // Serializes the canvas as it is right now, bypassing the autosave debounce. The edit
+  // history comes along when it is set to be saved, unless `editHistory` is false.
+  getDocument: (options?: { editHistory?: boolean }) => CanvasDocument;
+  // Replaces the active guide set's vanishing points; positions are fractions of the canvas, as in PerspectiveData
+  placeVanishingPoints: (points: { x: number; y: number }[]) => void;
 }
 
 interface SetteiImage {
@@ -69,9 +221,15 @@ interface Layer {
   isVisible: boolean;
   blendMode: GlobalCompositeOperation;
   opacity: number;
-  type: 'sketch';
+  type: LayerType;
   points?: CharacterPoint[];
   setteiImages?: SetteiImage[];
+  shapes?: VectorShape[];
+  skeletons?: PoseSkeleton[];
+  parentId?: number | null;
+  isLocked?: boolean;
+  isClipped?: boolean;
+  isCollapsed?: boolean;
 }
 
 interface GlobalReference {
@@ -82,11 +240,6 @@ interface GlobalReference {
   isVisible: boolean;
 }
 
-interface HistoryState {
-  stack: ImageData[];
-  index: number;
-}
-
 interface VanishingPoint {
     id: number;
     x: number;
@@ -95,11 +248,47 @@ interface VanishingPoint {
 
 type Point = { x: number; y: number };
 
+// A detected proposal mapped onto the canvas (pixels), waiting to be accepted or rejected
+interface VPProposal {
+    points: { x: number; y: number; support: number; included: boolean }[];
+    horizon: { leftY: number; rightY: number } | null; // Canvas y at the left and right edges
+    segments: { x1: number; y1: number; x2: number; y2: number; vanishingPointIndex: number | null }[];
+}
+
+const VP_PROPOSAL_COLORS = ['#f59e0b', '#10b981', '#a855f7']; // Tailwind amber-500, emerald-500, purple-500
+
+const DEFAULT_CANVAS_DIMENSIONS = { width: 1000, height: 619 };
+const NO_VANISHING_POINTS: VanishingPoint[] = [];
+
+const PERSPECTIVE_MODES: { value: PerspectiveMode; label: string }[] = [
+    { value: 'linear', label: '직선 (1·2·3점)' },
+    { value: 'curvilinear4', label: '곡선 4점' },
+    { value: 'curvilinear5', label: '곡선 5점' },
+];
+
+// Stroke style per guide role; inactive sets draw fainter
+const GUIDE_STYLES: Record<GuideRole, { color: string; width: number; alpha: number; dash?: number[] }> = {
+    horizon: { color: '#ef4444', width: 1.5, alpha: 0.9, dash: [6, 4] }, // Tailwind red-500
+    ray: { color: '#60a5fa', width: 0.75, alpha: 0.5 }, // Tailwind blue-400
+    parallel: { color: '#60a5fa', width: 0.75, alpha: 0.3 },
+    ground: { color: '#34d399', width: 0.75, alpha: 0.5 }, // Tailwind emerald-400
+    boundary: { color: '#a78bfa', width: 1, alpha: 0.6, dash: [4, 4] }, // Tailwind violet-400
+};
+
+// Snapping distances are in screen pixels and scaled by the zoom
+const SNAP_TOLERANCE = 10; // How close a stroke must start to a guide line to follow it
+const STROKE_SNAP_DISTANCE = 12; // How far a stroke travels before its direction is judged
+const SHAPE_HIT_TOLERANCE = 6; // Screen pixels around a vector shape's line that still select it
+const SHAPE_HANDLE_RADIUS = 5; // Screen pixels
+const MARKER_SNAP_DISTANCE = 24; // Screen pixels from a character's head that an eye-line snaps to it
+
 const MAX_ZOOM = 8;
 const MIN_ZOOM = 0.2;
 const ZOOM_STEP = 1.2;
-const MAX_HISTORY_STATES = 30; // Increased history states for more complex edits
 const MIN_CANVAS_DIM = 200;
+const THUMBNAIL_DELAY_MS = 500; // How long the canvas stays still before an edit's history thumbnail is made
+const AUTOSAVE_DELAY_MS = 1500;
+const EDIT_HISTORY_SAVE_DELAY_MS = 5000; // The edit history can hold tens of MB, so it is saved less often
 
 const BLEND_MODES: { value: GlobalCompositeOperation; label: string }[] = [
     { value: 'source-over', label: 'Normal' },
@@ -120,7 +309,7 @@ const BLEND_MODES: { value: GlobalCompositeOperation; label: string }[] = [
     { value: 'luminosity', label: 'Luminosity' },
 ];
 
-type Tool = 'pen' | 'marker' | 'eraser' | 'line' | 'perspective' | 'curve' | 'ellipse' | 'point_placer' | 'point_deleter';
+type Tool = 'pen' | 'marker' | 'eraser' | 'line' | 'perspective' | 'curve' | 'ellipse' | 'point_placer' | 'point_deleter' | 'shape_select' | 'select_rect' | 'select_lasso' | 'pose';
 
 const generateRandomColor = () => {
   const h = Math.floor(Math.random() * 360);
@@ -184,79 +373,76 @@ const loadImageFromBase64 = (base64: string): Promise<HTMLImageElement> => {
     });
 };
 
-const getSketchesBoundingBox = (sketchLayers: Layer[], canvases: Record<number, HTMLCanvasElement | null>): { x: number, y: number, width: number, height: number } | null => {
-    let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1;
-    let hasContent = false;
-
-    for (const layer of sketchLayers) {
-        // Layers passed here are already pre-filtered for visibility.
-        const canvas = canvases[layer.id];
-        if (!canvas) continue;
+// Layers in the edit history and in saved documents, without the loaded image elements
+const serializeLayerRecord = (record: Partial<Layer>): SerializedLayerRecord => {
+    const { setteiImages, ...rest } = record;
+    if (!setteiImages) return rest;
+    return { ...rest, setteiImages: setteiImages.map(({ imageElement, maskImageElement, ...image }) => image) };
+};
 
-        const ctx = canvas.getContext('2d', { willReadFrequently: true });
-        if (!ctx) continue;
-        
-        try {
-            const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-            const data = imageData.data;
-            
-            for (let y = 0; y < canvas.height; y++) {
-                for (let x = 0; x < canvas.width; x++) {
-                    const alpha = data[(y * canvas.width + x) * 4 + 3];
-                    if (alpha > 0) {
-                        hasContent = true;
-                        if (x < minX) minX = x;
-                        if (x > maxX) maxX = x;
-                        if (y < minY) minY = y;
-                        if (y > maxY) maxY = y;
-                    }
-                }
-            }
-        } catch (e) {
-            console.error("Error getting image data for bounding box:", e);
-        }
-    }
-    
-    if (!hasContent) {
-        return null;
-    }
-    
+const hydrateLayerRecord = async (record: SerializedLayerRecord): Promise<Partial<Layer>> => {
+    const { setteiImages, ...rest } = record;
+    if (!setteiImages) return rest;
     return {
-        x: minX,
-        y: minY,
-        width: maxX - minX + 1,
-        height: maxY - minY + 1,
+        ...rest,
+        setteiImages: await Promise.all(setteiImages.map(async img => ({
+            dataUrl: img.dataUrl,
+            imageElement: await loadImageFromBase64(img.dataUrl),
+            maskDataUrl: img.maskDataUrl,
+            maskImageElement: img.maskDataUrl ? await loadImageFromBase64(img.maskDataUrl) : undefined,
+        }))),
     };
 };
 
-const drawPath = (ctx: CanvasRenderingContext2D, points: Point[]) => {
-  if (points.length === 0) return;
-
-  ctx.beginPath();
-  ctx.moveTo(points[0].x, points[0].y);
-
-  if (points.length < 3) {
-    // If 1 point, draw a dot. If 2, a straight line.
-    const toPoint = points.length > 1 ? points[1] : points[0];
-    ctx.lineTo(toPoint.x, toPoint.y);
-  } else {
-    // Draw a smooth curve through the points
-    let i = 1;
-    for (; i < points.length - 2; i++) {
-      const xc = (points[i].x + points[i + 1].x) / 2;
-      const yc = (points[i].y + points[i + 1].y) / 2;
-      ctx.quadraticCurveTo(points[i].x, points[i].y, xc, yc);
-    }
-    // For the last 2 points, finish the curve
-    ctx.quadraticCurveTo(
-      points[i].x,
-      points[i].y,
-      points[i + 1].x,
-      points[i + 1].y
-    );
-  }
-  
-  ctx.stroke();
+// Names for the edit history, by the layer property an edit changed
+const LAYER_EDIT_LABELS: [keyof Layer, string][] = [
+    ['points', '캐릭터 포인트'],
+    ['shapes', '벡터 편집'],
+    ['skeletons', '포즈 편집'],
+    ['setteiImages', '설정화 변경'],
+    ['name', '이름 변경'],
+    ['blendMode', '블렌드 모드'],
+    ['opacity', '불투명도'],
+    ['isVisible', '보이기 전환'],
+    ['isLocked', '잠금 전환'],
+    ['isClipped', '클리핑 전환'],
+    ['parentId', '레이어 이동'],
+];
+
+const TOOL_EDIT_LABELS: Partial<Record<Tool, string>> = {
+    pen: '펜',
+    marker: '마커',
+    eraser: '지우개',
+    line: '직선',
+    curve: '곡선',
+    ellipse: '타원',
+};
+
+const describeEdit = (command: EditCommand<Layer>): string => {
+    if (command.kind === 'pixels') return '그리기';
+    if (command.kind === 'guides') return '원근 가이드';
+    if (command.kind === 'batch') return describeEdit(command.commands[command.commands.length - 1]);
+    const added = command.changes.filter(change => change.before === null);
+    const removed = command.changes.filter(change => change.after === null);
+    if (added.length > 0) return added[0].after?.type === 'group' ? '그룹 추가' : '레이어 추가';
+    if (removed.length > 0) return '레이어 삭제';
+    const label = LAYER_EDIT_LABELS.find(([key]) => command.changes.some(change => change.after && key in change.after));
+    return label ? label[1] : '레이어 순서 변경';
+};
+
+// Edits of the same properties of the same layers within one gesture merge
+const editMergeKey = (command: EditCommand<Layer>): string | null => {
+    if (command.kind === 'guides') return 'guides';
+    if (command.kind !== 'layers' || command.orderAfter) return null;
+    return command.changes.map(change => `${change.id}:${Object.keys(change.after ?? {}).sort().join(',')}`).join(';');
+};
+
+const getSketchesBoundingBox = (sketchLayers: Layer[], canvases: Record<number, HTMLCanvasElement | null>): { x: number, y: number, width: number, height: number } | null => {
+    // Layers passed here are already pre-filtered for visibility.
+    const layerCanvases = sketchLayers
+        .map(layer => canvases[layer.id])
+        .filter((canvas): canvas is HTMLCanvasElement => !!canvas);
+    return getContentBoundingBox(layerCanvases);
 };
 
 interface SelectOption {
@@ -568,70 +754,7 @@ const ReferenceImageEditorModal: React.FC<ReferenceImageEditorModalProps> = ({ i
   );
 };
 
-const drawVariableWidthPath = (
-    ctx: CanvasRenderingContext2D,
-    points: Point[],
-    baseSize: number,
-    sensitivity: number
-) => {
-    if (sensitivity === 0 || points.length < 2) {
-        drawPath(ctx, points);
-        return;
-    }
-
-    // --- Increased smoothing factors ---
-    const widthSmoothingFactor = 0.8; // More smoothing
-    const velocitySensitivity = 25; // More responsive
-
-    let lastWidth = baseSize;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    if (points.length < 3) {
-        ctx.lineWidth = baseSize;
-        drawPath(ctx, points); // Use original for short lines
-        return;
-    }
-
-    let p1 = points[0];
-    let p2 = points[1];
-    let midPoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
-
-    ctx.beginPath();
-    ctx.moveTo(p1.x, p1.y);
-    ctx.lineTo(midPoint.x, midPoint.y);
-
-    for (let i = 1; i < points.length - 1; i++) {
-        p1 = points[i];
-        p2 = points[i + 1];
-        const nextMidPoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
-
-        // Calculate velocity at p1
-        const distance = Math.hypot(p1.x - points[i-1].x, p1.y - points[i-1].y);
-        const velocity = Math.min(distance / velocitySensitivity, 1.0);
-        
-        const targetWidth = baseSize - (baseSize * 0.9) * velocity * sensitivity;
-        const currentWidth = lastWidth * widthSmoothingFactor + targetWidth * (1 - widthSmoothingFactor);
-        
-        // Stroke the previous segment with the calculated width
-        ctx.lineWidth = Math.max(baseSize * 0.1, currentWidth);
-        ctx.quadraticCurveTo(p1.x, p1.y, nextMidPoint.x, nextMidPoint.y);
-        ctx.stroke();
-        
-        ctx.beginPath();
-        ctx.moveTo(nextMidPoint.x, nextMidPoint.y);
-        
-        lastWidth = currentWidth;
-        midPoint = nextMidPoint;
-    }
-
-    // Draw last line segment
-    ctx.lineWidth = lastWidth;
-    ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
-    ctx.stroke();
-};
-
-export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description, onCanvasChange, initialGlobalReferenceUrl, editBaseImageUrl }) => {
+export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description, onCanvasChange, initialGlobalReferenceUrl, editBaseImageUrl, initialDocument, ref }) => {
   const canvasContainerRef = useRef<HTMLDivElement>(null);
   const previewCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const previewLineCanvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -640,7 +763,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
   const globalRefFileInputRef = useRef<HTMLInputElement>(null);
 
   const canvasRefs = useRef<Record<number, HTMLCanvasElement | null>>({});
-  const pointsRef = useRef<Point[]>([]);
+  const pointsRef = useRef<StrokePoint[]>([]);
   
   const [isDrawing, setIsDrawing] = useState(false);
   const [layers, setLayers] = useState<Layer[]>([]);
@@ -648,6 +771,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
   const [editBase, setEditBase] = useState<GlobalReference | null>(null);
   const [activeLayerId, setActiveLayerId] = useState<number | null>(null);
   const [editingLayerId, setEditingLayerId] = useState<number | null>(null);
+  const [layerDrag, setLayerDrag] = useState<{ id: number; targetId: number | null; placement: LayerDropPlacement } | null>(null);
   const [layerCounter, setLayerCounter] = useState(1);
   
   const [tool, setTool] = useState<Tool>('pen');
@@ -659,7 +783,8 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
   const [isSpacePressed, setIsSpacePressed] = useState(false);
   const [isScrubbyZooming, setIsScrubbyZooming] = useState(false);
   const panStartRef = useRef({ x: 0, y: 0 });
-  const lastTouchesRef = useRef<TouchList | null>(null);
+  // Touch contacts on the canvas by pointer ID, at their last client position, for pinch zoom
+  const touchPointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
 
   const [penColor, setPenColor] = useState<string>('#000000');
   const [penSize, setPenSize] = useState<number>(3);
@@ -670,28 +795,63 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
   const [markerOpacity, setMarkerOpacity] = useState<number>(0.2);
   const [markerRotation, setMarkerRotation] = useState<number>(0);
   const [markerShape, setMarkerShape] = useState<'rectangle' | 'circle'>('rectangle');
+  const [pressureCurves, setPressureCurves] = useState<PressureCurves>(loadPressureCurves);
   
-  const [draggingPoint, setDraggingPoint] = useState<{ layerId: number; pointId: number } | null>(null);
-  const [resizingPoint, setResizingPoint] = useState<{
-    layerId: number;
-    pointId: number;
-    startMouseX: number;
-    startRadiusPixels: number;
-  } | null>(null);
+  // A character marker, or one of its parts, being dragged
+  const [draggingPoint, setDraggingPoint] = useState<{ layerId: number; pointId: number; handle: MarkerHandle } | null>(null);
+  const [selectedPointId, setSelectedPointId] = useState<number | null>(null); // The marker the point tool's options edit
   const [targetLayerForSettei, setTargetLayerForSettei] = useState<number | null>(null);
 
-  const [history, setHistory] = useState<Record<number, HistoryState>>({});
+  // EDIT HISTORY
+  // Layer and guide edits are found by comparing the state with how it was at the last recorded edit;
+  // pixel edits are captured around the drawing that makes them
+  const [editHistory, setEditHistory] = useState<EditHistory<Layer>>(createEditHistory);
+  const [persistEditHistory, setPersistEditHistory] = useState(loadPersistEditHistory);
+  const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false);
+  const [historyFlush, setHistoryFlush] = useState(0); // Bumped to record pending pixel edits
+  const historySnapshotRef = useRef<{ layers: Layer[]; guideSets: PerspectiveGuideSet[] } | null>(null); // null: take the next state as the start
+  const pixelEditsRef = useRef<Map<number, { before: ImageData; label: string }>>(new Map());
+  const pendingPixelCommandsRef = useRef<{ label: string; command: EditCommand<Layer> }[]>([]);
+  const editLabelRef = useRef<string | null>(null); // Names the next recorded edit
+  const gestureRef = useRef(0); // Counts pointer presses and key presses
   const [lineStartPoint, setLineStartPoint] = useState<{ x: number; y: number; label?: string; } | null>(null);
   const [ellipseStartPoint, setEllipseStartPoint] = useState<{ x: number; y: number } | null>(null);
   const [curvePoints, setCurvePoints] = useState<{ x: number; y: number }[]>([]);
   
   // Guide states
-  const [vanishingPoints, setVanishingPoints] = useState<VanishingPoint[]>([]);
+  const [guideSets, setGuideSets] = useState<PerspectiveGuideSet[]>(() => [createGuideSet(1, '가이드 1', DEFAULT_CANVAS_DIMENSIONS.height / 2)]);
+  const [activeGuideSetId, setActiveGuideSetId] = useState<number | null>(1);
+  const [isDraggingHorizon, setIsDraggingHorizon] = useState(false);
   const [activeVPId, setActiveVPId] = useState<number | null>(null);
   const [draggingVPId, setDraggingVPId] = useState<number | null>(null);
+  const [vpProposal, setVpProposal] = useState<VPProposal | null>(null);
+  const [isDetectingVPs, setIsDetectingVPs] = useState(false);
+  const [vpDetectionMessage, setVpDetectionMessage] = useState<string | null>(null);
+  const vpDetectionAbortRef = useRef<AbortController | null>(null);
+  const [snapSettings, setSnapSettings] = useState<SnapSettings>(DEFAULT_SNAP_SETTINGS);
+  const [stabilizerSettings, setStabilizerSettings] = useState<StabilizerSettings>(DEFAULT_STABILIZER_SETTINGS);
+  const stabilizerRef = useRef<Stabilizer | null>(null); // The pen stroke in progress
+  // undefined until the stroke's direction is judged, then its constraint (null: free)
+  const strokeConstraintRef = useRef<SnapConstraint | null | undefined>(undefined);
+  const [selectedShapeId, setSelectedShapeId] = useState<number | null>(null);
+  // A shape being moved (handleIndex null) or reshaped by one of its handles
+  const shapeDragRef = useRef<{ shapeId: number; handleIndex: number | null; last: Point } | null>(null);
+  // The mannequin and bone being posed on a pose layer (bone null: the whole figure, by its pelvis)
+  const [selectedSkeletonId, setSelectedSkeletonId] = useState<number | null>(null);
+  const [selectedPoseBone, setSelectedPoseBone] = useState<PoseBoneName | null>(null);
+  const poseDragRef = useRef<{ skeletonId: number; bone: PoseBoneName | null; last: Point } | null>(null);
+  // Selection on sketch layers: the marquee outline, and the pixels lifted out of it while they are transformed
+  const [selectionPath, setSelectionPath] = useState<Point[] | null>(null);
+  const [floatingSelection, setFloatingSelection] = useState<FloatingSelection | null>(null);
+  const [selectionTransformMode, setSelectionTransformMode] = useState<SelectionTransformMode>('scale');
+  // A marquee being drawn (handle null) or the floating selection being dragged by a handle, from its corners at the start
+  const selectionDragRef = useRef<{ handle: SelectionHandle | null; start: Point; corners: Point[] } | null>(null);
+  // Pixels copied or cut, with where they were on the canvas; pasting works on any sketch layer
+  const selectionClipboardRef = useRef<{ image: HTMLCanvasElement; origin: Point } | null>(null);
+  const isSelectionTool = tool === 'select_rect' || tool === 'select_lasso';
   
   // Canvas Dimensions State
-  const [canvasDimensions, setCanvasDimensions] = useState({ width: 1000, height: 619 });
+  const [canvasDimensions, setCanvasDimensions] = useState(DEFAULT_CANVAS_DIMENSIONS);
   const resizeDataRef = useRef<{
     layerData: Map<number, ImageData | null>;
     globalRef: GlobalReference | null;
@@ -701,14 +861,69 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
   const [isResizing, setIsResizing] = useState(false);
   const resizeStartDataRef = useRef<{ startX: number; startY: number; startW: number; startH: number; direction: 'r' | 'b' | 'br'; } | null>(null);
 
+  // The active guide set is the one being edited; its vanishing points drive the perspective tool
+  const activeGuideSet = guideSets.find(set => set.id === activeGuideSetId) ?? null;
+  const vanishingPoints = activeGuideSet?.mode === 'linear' ? activeGuideSet.vanishingPoints : NO_VANISHING_POINTS;
+
+  // Snapping follows the active set's points and the lines of every visible set
+  const snapTargets = useMemo<SnapTargets>(() => ({
+    vanishingPoints: activeGuideSet?.isVisible ? effectiveVanishingPoints(activeGuideSet, canvasDimensions, lens) : [],
+    guides: guideSets.filter(set => set.isVisible).flatMap(set => buildGuidePaths(set, canvasDimensions, lens)),
+  }), [activeGuideSet, guideSets, canvasDimensions, lens]);
+
+  const updateActiveGuideSet = useCallback((update: (set: PerspectiveGuideSet) => PerspectiveGuideSet) => {
+    setGuideSets(prev => prev.map(set => (set.id === activeGuideSetId && !set.isLocked ? update(set) : set)));
+  }, [activeGuideSetId]);
+
+  const setVanishingPoints = useCallback((update: VanishingPoint[] | ((prev: VanishingPoint[]) => VanishingPoint[])) => {
+    updateActiveGuideSet(set => withVanishingPoints(set, typeof update === 'function' ? update(set.vanishingPoints) : update, canvasDimensions.width));
+  }, [updateActiveGuideSet, canvasDimensions.width]);
+
+  // Points placed from outside (scene analysis, detection) make the active set linear
+  const placeOnActiveGuideSet = useCallback((points: { x: number; y: number }[]) => {
+    const baseId = Date.now();
+    const ordered = horizonPointsFirst(points).slice(0, MAX_VANISHING_POINTS);
+    updateActiveGuideSet(set => withVanishingPoints(
+        { ...set, mode: 'linear' },
+        ordered.map((point, index) => ({ id: baseId + index, x: point.x, y: point.y })),
+        canvasDimensions.width,
+    ));
+    setActiveVPId(null);
+  }, [updateActiveGuideSet, canvasDimensions.width]);
+
+  const addGuideSet = () => {
+    const newSet = createGuideSet(Date.now(), `가이드 ${guideSets.length + 1}`, activeGuideSet?.horizonY ?? canvasDimensions.height / 2);
+    setGuideSets(prev => [...prev, newSet]);
+    setActiveGuideSetId(newSet.id);
+    setActiveVPId(null);
+  };
+
+  const deleteGuideSet = (id: number) => {
+    const remaining = guideSets.filter(set => set.id !== id);
+    if (remaining.length === 0) return;
+    setGuideSets(remaining);
+    if (id === activeGuideSetId) setActiveGuideSetId(remaining[0].id);
+    setActiveVPId(null);
+  };
+
+  const toggleGuideSetFlag = (id: number, flag: 'isVisible' | 'isLocked') => {
+    setGuideSets(prev => prev.map(set => (set.id === id ? { ...set, [flag]: !set[flag] } : set)));
+  };
+
   // Editor Modals State
   const [editingReference, setEditingReference] = useState<{ type: 'editBase'; dataUrl: string; } | null>(null);
   const [isContiEditorOpen, setIsContiEditorOpen] = useState(false);
   const [editingSettei, setEditingSettei] = useState<{ layerId: number; imageIndex: number; imageUrl: string; maskUrl?: string; } | null>(null);
 
   // State persistence refs
-  const loadedStateRef = useRef<{layers: any, sketches: any, globalRef: any} | null>(null);
+  const loadedStateRef = useRef<{layers: any, sketches: any, globalRef: any, editHistory?: SerializedEditHistory} | null>(null);
   const saveTimeoutRef = useRef<number | null>(null);
+  // Until the saved edit history is back, the empty one must not be saved over it
+  const isEditHistoryRestoredRef = useRef(false);
+  // Used for the first initialization only; later re-initializations read the autosave
+  const initialDocumentRef = useRef(initialDocument ?? null);
+  // Pixels for sketch layers made by flattening, drawn once their canvas is mounted
+  const pendingSketchesRef = useRef<Map<number, PixelPatch[]>>(new Map()); // Pixels, in order, for layers whose canvas is about to be created
   const onCanvasChangeTimeoutRef = useRef<number | null>(null);
   
   const getActiveContext = useCallback((): CanvasRenderingContext2D | null => {
@@ -717,6 +932,25 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     const canvas = canvasRefs.current[activeLayerId!];
     return canvas ? canvas.getContext('2d', { willReadFrequently: true }) : null;
   }, [activeLayerId, layers]);
+
+  const isVectorLayerActive = layers.find(l => l.id === activeLayerId)?.type === 'vector';
+  const isPoseLayerActive = layers.find(l => l.id === activeLayerId)?.type === 'pose';
+  const isSketchLayerActive = layers.find(l => l.id === activeLayerId)?.type === 'sketch';
+  const isActiveLayerLocked = activeLayerId !== null && isLayerLocked(layers, activeLayerId);
+
+  const setLayerShapes = useCallback((layerId: number, update: (shapes: VectorShape[]) => VectorShape[]) => {
+    setLayers(prev => prev.map(l => (l.id === layerId && l.type === 'vector' ? { ...l, shapes: update(l.shapes ?? []) } : l)));
+  }, []);
+
+  const setLayerSkeletons = useCallback((layerId: number, update: (skeletons: PoseSkeleton[]) => PoseSkeleton[]) => {
+    setLayers(prev => prev.map(l => (l.id === layerId && l.type === 'pose' ? { ...l, skeletons: update(l.skeletons ?? []) } : l)));
+  }, []);
+
+  const addShapeToActiveLayer = useCallback((shape: Omit<VectorShape, 'id'>) => {
+    if (!activeLayerId) return;
+    editLabelRef.current = TOOL_EDIT_LABELS[tool] ?? null;
+    setLayerShapes(activeLayerId, shapes => [...shapes, { ...shape, id: Date.now() }]);
+  }, [activeLayerId, tool, setLayerShapes]);
   
   const redrawPreview = useCallback(() => {
     const previewCanvas = previewCanvasRef.current;
@@ -751,55 +985,142 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                 drawImageFit(editBase.imageElement);
             }
 
-            // 2. Draw Sketch Layers
-            [...layers].forEach(layer => {
-                if (!layer.isVisible) return;
-                previewCtx.globalAlpha = layer.opacity;
-                previewCtx.globalCompositeOperation = layer.blendMode;
-                const layerCanvas = canvasRefs.current[layer.id];
-                if (layerCanvas) {
-                    previewCtx.drawImage(layerCanvas, 0, 0);
-                }
-            });
-
+            // 2. Draw Sketch Layers, through their groups and clipping
             previewCtx.globalAlpha = 1;
             previewCtx.globalCompositeOperation = 'source-over';
+            compositeLayerTree(previewCtx, layers, layer => canvasRefs.current[layer.id], canvasDimensions);
         }
     }
-  }, [layers, globalReference, editBase]);
+  }, [layers, globalReference, editBase, canvasDimensions]);
 
 
   useEffect(() => {
     redrawPreview();
   }, [layers, globalReference, editBase, redrawPreview]);
 
-  const saveState = useCallback(() => {
-    if (!activeLayerId) return;
-    const sketchCtx = getActiveContext();
-    const sketchCanvas = canvasRefs.current[activeLayerId];
-    if (!sketchCtx || !sketchCanvas) return;
+  // Vector and pose layers are drawn from their shapes and mannequins; resizing the canvas clears them, so they are drawn again
+  useLayoutEffect(() => {
+    let rendered = false;
+    layers.forEach(layer => {
+        if (layer.type !== 'vector' && layer.type !== 'pose') return;
+        const ctx = canvasRefs.current[layer.id]?.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return;
+        if (layer.type === 'pose') renderSkeletons(ctx, layer.skeletons ?? []);
+        else renderVectorShapes(ctx, layer.shapes ?? []);
+        rendered = true;
+    });
+    pendingSketchesRef.current.forEach((patches, layerId) => {
+        const ctx = canvasRefs.current[layerId]?.getContext('2d', { willReadFrequently: true });
+        if (!ctx) return;
+        patches.forEach(patch => ctx.putImageData(patch.image, patch.x, patch.y));
+        pendingSketchesRef.current.delete(layerId);
+        rendered = true;
+    });
+    if (rendered) redrawPreview();
+  }, [layers, canvasDimensions, redrawPreview]);
+
+  // Captures a sketch layer before an edit; an edit already under way keeps its first capture
+  const beginPixelEdit = useCallback((layerId: number, label: string) => {
+    if (pixelEditsRef.current.has(layerId)) return;
+    const canvas = canvasRefs.current[layerId];
+    const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+    if (!canvas || !ctx) return;
+    pixelEditsRef.current.set(layerId, { before: ctx.getImageData(0, 0, canvas.width, canvas.height), label });
+  }, []);
 
-    const sketchImageData = sketchCtx.getImageData(0, 0, sketchCanvas.width, sketchCanvas.height);
+  // Records what the edits under way changed; layers that came out the same are let go
+  const commitPixelEdits = useCallback(() => {
+    if (pixelEditsRef.current.size === 0) return;
+    pixelEditsRef.current.forEach(({ before, label }, layerId) => {
+        const canvas = canvasRefs.current[layerId];
+        const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+        if (!canvas || !ctx) return;
+        const diff = diffPixels(before, ctx.getImageData(0, 0, canvas.width, canvas.height));
+        if (diff) pendingPixelCommandsRef.current.push({ label, command: { kind: 'pixels', layerId, ...diff } });
+    });
+    pixelEditsRef.current.clear();
+    setHistoryFlush(prev => prev + 1);
+  }, []);
 
-    setHistory(prev => {
-        const layerHistory = prev[activeLayerId] ?? { stack: [], index: -1 };
-        const newStack = layerHistory.stack.slice(0, layerHistory.index + 1);
-        newStack.push(sketchImageData);
+  // Puts a layer back as it was when its edit began; false when no edit was under way
+  const revertPixelEdit = useCallback((layerId: number): boolean => {
+    const edit = pixelEditsRef.current.get(layerId);
+    if (!edit) return false;
+    canvasRefs.current[layerId]?.getContext('2d', { willReadFrequently: true })?.putImageData(edit.before, 0, 0);
+    pixelEditsRef.current.delete(layerId);
+    return true;
+  }, []);
 
-        // Truncate the stack if it's too long
-        while (newStack.length > MAX_HISTORY_STATES) {
-          newStack.shift();
-        }
+  // Starts the history over from the state of the next render, e.g. after loading a document
+  const resetEditHistory = useCallback((history: EditHistory<Layer> = createEditHistory()) => {
+    historySnapshotRef.current = null;
+    pixelEditsRef.current.clear();
+    pendingPixelCommandsRef.current = [];
+    editLabelRef.current = null;
+    setEditHistory(history);
+    setHistoryFlush(prev => prev + 1);
+  }, []);
 
-        return {
-            ...prev,
-            [activeLayerId]: {
-                stack: newStack,
-                index: newStack.length - 1,
-            },
-        };
-    });
-  }, [activeLayerId, getActiveContext]);
+  // Records everything that changed since the last edit as one entry
+  useEffect(() => {
+    const snapshot = historySnapshotRef.current;
+    historySnapshotRef.current = { layers, guideSets };
+    const pixelCommands = pendingPixelCommandsRef.current;
+    pendingPixelCommandsRef.current = [];
+    if (!snapshot) { // Starting over: canvases of layers that are gone are not needed any more
+        const ids = new Set<number>(layers.map(l => l.id));
+        Object.keys(canvasRefs.current).forEach(id => { if (!ids.has(Number(id))) delete canvasRefs.current[Number(id)]; });
+        return;
+    }
+
+    const commands = pixelCommands.map(pending => pending.command);
+    const layerCommand = snapshot.layers === layers ? null : diffLayers<Layer>(snapshot.layers, layers, ['isCollapsed']);
+    if (layerCommand) {
+        // Added and removed sketch layers keep their pixels; a removed layer's canvas is still held here
+        layerCommand.changes.forEach(change => {
+            if ((change.before === null) === (change.after === null)) return;
+            const canvas = canvasRefs.current[change.id];
+            const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+            if ((change.before ?? change.after)?.type === 'sketch' && canvas && ctx) {
+                change.sketch = contentPatch(ctx.getImageData(0, 0, canvas.width, canvas.height));
+            }
+            if (change.after === null) delete canvasRefs.current[change.id];
+        });
+        commands.push(layerCommand);
+    }
+    const guidesChanged = snapshot.guideSets.length !== guideSets.length || snapshot.guideSets.some((set, i) => set !== guideSets[i]);
+    if (guidesChanged) commands.push({ kind: 'guides', before: snapshot.guideSets, after: guideSets });
+    if (commands.length === 0) return;
+
+    const command: EditCommand<Layer> = commands.length === 1 ? commands[0] : { kind: 'batch', commands };
+    const label = editLabelRef.current ?? pixelCommands[0]?.label ?? describeEdit(command);
+    const mergeKey = pixelCommands.length === 0 && !editLabelRef.current ? editMergeKey(command) : null;
+    editLabelRef.current = null;
+    setEditHistory(prev => pushEdit(prev, { label, command, mergeKey: mergeKey && `${gestureRef.current}|${mergeKey}` }));
+  }, [layers, guideSets, historyFlush]);
+
+  // Pictures the canvas for the history panel once an edit has settled
+  useEffect(() => {
+    const current = timelineNode<EditCommand<Layer>>(editHistory, editHistory.currentId);
+    if (!current || current.thumbnail || isDrawing) return;
+    const timeout = window.setTimeout(() => {
+        const flattened = flattenLayerTree(layers, layer => canvasRefs.current[layer.id], canvasDimensions);
+        const thumbnail = createThumbnail([flattened], flattened.width, flattened.height);
+        if (thumbnail) setEditHistory(prev => setTimelineThumbnail(prev, current.id, thumbnail));
+    }, THUMBNAIL_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [editHistory, layers, canvasDimensions, isDrawing]);
+
+  // Edits merge only within one press of the pointer or a key
+  useEffect(() => {
+    const nextGesture = () => { gestureRef.current++; };
+    window.addEventListener('pointerdown', nextGesture, true);
+    window.addEventListener('keydown', nextGesture, true);
+    return () => {
+        window.removeEventListener('pointerdown', nextGesture, true);
+        window.removeEventListener('keydown', nextGesture, true);
+    };
+  }, []);
 
   const debouncedOnCanvasChange = useCallback(() => {
     if (onCanvasChangeTimeoutRef.current) {
@@ -807,46 +1128,54 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     }
     onCanvasChangeTimeoutRef.current = window.setTimeout(() => {
         const outputs: PoseImage[] = [];
-        const visibleLayers = layers.filter(l => l.isVisible);
-        
-        visibleLayers.forEach(layer => {
-            const getSketchDataUrl = (layerId: number): string => {
-                const layerCanvas = canvasRefs.current[layerId];
-                if (!layerCanvas) return '';
+        // Vector layers are rasterized here, from their shapes. Pose layers are left out
+        // of the sketch and sent as a guide image of their own, with their keypoints.
+        const layerSource = (layer: Layer) => (layer.type === 'vector'
+            ? rasterizeVectorShapes(layer.shapes ?? [], canvasDimensions)
+            : layer.type === 'pose' ? null : canvasRefs.current[layer.id]);
+
+        // One pose per top-level layer or group, with the layers clipped to it drawn in
+        clipStacks(childrenOf<Layer>(layers, null)).forEach(stack => {
+            if (!stack.base.isVisible) return;
+            const getSketchDataUrl = (): string => {
+                const layerCanvas = flattenClipStack(layers, stack, layerSource, canvasDimensions);
+                if (!(layerCanvas instanceof HTMLCanvasElement)) return '';
                 const ctx = layerCanvas.getContext('2d', { willReadFrequently: true });
                 if (!ctx) return '';
                 const buffer = ctx.getImageData(0, 0, layerCanvas.width, layerCanvas.height).data;
                 return buffer.some(channel => channel !== 0) ? layerCanvas.toDataURL('image/png') : '';
             };
 
-            const sketchDataUrl = getSketchDataUrl(layer.id);
-            const hasContent = sketchDataUrl || (layer.points && layer.points.length > 0) || (layer.setteiImages && layer.setteiImages.length > 0);
+            const members = clipStackMembers(layers, stack);
+            const setteiImages = members.flatMap(layer => layer.setteiImages ?? []);
+            const points = members.flatMap(layer => layer.points ?? []);
+            const skeletons = members.flatMap(layer => (layer.type === 'pose' ? layer.skeletons ?? [] : []));
+            const sketchDataUrl = getSketchDataUrl();
+            const hasContent = sketchDataUrl || points.length > 0 || setteiImages.length > 0 || skeletons.length > 0;
 
             if (hasContent) {
                 outputs.push({
-                    name: layer.name,
+                    name: stack.base.name,
                     imageDataUrl: sketchDataUrl,
-                    setteiImages: layer.setteiImages?.map(img => ({
+                    setteiImages: setteiImages.map(img => ({
                         imageUrl: img.dataUrl,
                         maskUrl: img.maskDataUrl,
-                    })) || [],
-                    points: layer.points,
+                    })),
+                    points,
+                    ...(skeletons.length > 0 ? {
+                        skeletonImageDataUrl: rasterizeSkeletons(skeletons, canvasDimensions).toDataURL('image/png'),
+                        skeletons: skeletons.map(skeletonKeypoints),
+                    } : {}),
                 });
             }
         });
         
-        const normalizedVPs = vanishingPoints.map(vp => ({
-            id: vp.id,
-            x: vp.x / canvasDimensions.width,
-            y: vp.y / canvasDimensions.height,
-        }));
-        
-        const subjectLayersForBBox = layers.filter(l => l.isVisible);
+        const subjectLayersForBBox = layers.filter(l => l.type !== 'group' && isLayerShown(layers, l));
         const sketchBoundingBox = getSketchesBoundingBox(subjectLayersForBBox, canvasRefs.current);
 
         onCanvasChange({
           poses: outputs,
-          perspective: { vanishingPoints: normalizedVPs },
+          perspective: perspectiveDataFor(activeGuideSet, canvasDimensions, lens),
           dimensions: canvasDimensions,
           sketchBoundingBox,
           lens,
@@ -855,57 +1184,180 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             : null,
         });
     }, 300);
-  }, [layers, onCanvasChange, vanishingPoints, canvasDimensions, lens, globalReference]);
+  }, [layers, onCanvasChange, activeGuideSet, canvasDimensions, lens, globalReference]);
 
   useEffect(() => {
     debouncedOnCanvasChange();
   }, [lens, debouncedOnCanvasChange]);
 
-  const handleUndo = useCallback(() => {
-    if (!activeLayerId) return;
-    const layerHistory = history[activeLayerId];
-    if (layerHistory && layerHistory.index > 0) {
-        const newIndex = layerHistory.index - 1;
-        const stateToRestore = layerHistory.stack[newIndex];
-        
-        const sketchCtx = getActiveContext();
-        if (sketchCtx) {
-            sketchCtx.clearRect(0, 0, canvasDimensions.width, canvasDimensions.height);
-            sketchCtx.putImageData(stateToRestore, 0, 0);
-        }
+  // SELECTION
+  // Draws the floating pixels into their layer where they are now; the selection follows them
+  const commitFloatingSelection = useCallback(() => {
+    if (!floatingSelection) return;
+    const ctx = canvasRefs.current[floatingSelection.layerId]?.getContext('2d', { willReadFrequently: true });
+    if (ctx) {
+        drawFloatingSelection(ctx, floatingSelection);
+        commitPixelEdits();
+    }
+    setFloatingSelection(null);
+    setSelectionPath(floatingSelection.corners);
+    redrawPreview();
+    debouncedOnCanvasChange();
+  }, [floatingSelection, commitPixelEdits, redrawPreview, debouncedOnCanvasChange]);
+
+  // Puts lifted pixels back where they came from; pasted ones are dropped
+  const cancelFloatingSelection = useCallback(() => {
+    if (!floatingSelection) return;
+    const { layerId, image, origin } = floatingSelection;
+    const ctx = canvasRefs.current[layerId]?.getContext('2d', { willReadFrequently: true });
+    if (!revertPixelEdit(layerId) && ctx && origin) {
+        ctx.save();
+        ctx.globalAlpha = 1;
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.drawImage(image, origin.x, origin.y);
+        ctx.restore();
+    }
+    setFloatingSelection(null);
+    redrawPreview();
+  }, [floatingSelection, revertPixelEdit, redrawPreview]);
+
+  // The floating selection, lifting the selected pixels of the active sketch layer first if needed
+  const liftActiveSelection = useCallback((): FloatingSelection | null => {
+    if (floatingSelection) return floatingSelection;
+    if (!selectionPath || !activeLayerId || !isSketchLayerActive || isActiveLayerLocked) return null;
+    const canvas = canvasRefs.current[activeLayerId];
+    if (!canvas) return null;
+    beginPixelEdit(activeLayerId, '선택 영역 변형');
+    const floating = liftSelection(activeLayerId, canvas, selectionPath);
+    if (floating) {
+        setFloatingSelection(floating);
+        redrawPreview();
+    }
+    return floating;
+  }, [floatingSelection, selectionPath, activeLayerId, isSketchLayerActive, isActiveLayerLocked, beginPixelEdit, redrawPreview]);
 
-        setHistory(prev => ({
-            ...prev,
-            [activeLayerId]: { ...layerHistory, index: newIndex }
-        }));
+  const flipSelection = useCallback((axis: 'horizontal' | 'vertical') => {
+    const floating = liftActiveSelection();
+    if (floating) setFloatingSelection({ ...floating, corners: flipCorners(floating.corners, axis) });
+  }, [liftActiveSelection]);
+
+  const deselect = useCallback(() => {
+    commitFloatingSelection();
+    setSelectionPath(null);
+  }, [commitFloatingSelection]);
+
+  const copySelection = useCallback((): boolean => {
+    const canvas = activeLayerId ? canvasRefs.current[activeLayerId] : null;
+    const copied = floatingSelection
+        ? renderFloatingSelection(floatingSelection)
+        : selectionPath && canvas && isSketchLayerActive ? copySelectionPixels(canvas, selectionPath) : null;
+    if (copied) selectionClipboardRef.current = copied;
+    return copied !== null;
+  }, [activeLayerId, floatingSelection, selectionPath, isSketchLayerActive]);
+
+  const deleteSelection = useCallback(() => {
+    if (floatingSelection) { // The lifted pixels are already off the layer
+        setFloatingSelection(null);
+        editLabelRef.current = '선택 영역 삭제';
+        commitPixelEdits();
+        setSelectionPath(null);
         redrawPreview();
         debouncedOnCanvasChange();
+        return;
     }
-  }, [activeLayerId, history, getActiveContext, canvasDimensions, redrawPreview, debouncedOnCanvasChange]);
-  
-  const handleRedo = useCallback(() => {
-    if (!activeLayerId) return;
-    const layerHistory = history[activeLayerId];
-    if (layerHistory && layerHistory.index < layerHistory.stack.length - 1) {
-        const newIndex = layerHistory.index + 1;
-        const stateToRestore = layerHistory.stack[newIndex];
-        
-        const sketchCtx = getActiveContext();
-        if (sketchCtx) {
-            sketchCtx.clearRect(0, 0, canvasDimensions.width, canvasDimensions.height);
-            sketchCtx.putImageData(stateToRestore, 0, 0);
+    const ctx = getActiveContext();
+    if (!selectionPath || !ctx || !isSketchLayerActive || isActiveLayerLocked) return;
+    beginPixelEdit(activeLayerId, '선택 영역 삭제');
+    clearSelectionPixels(ctx, selectionPath);
+    commitPixelEdits();
+    redrawPreview();
+    debouncedOnCanvasChange();
+  }, [floatingSelection, selectionPath, activeLayerId, getActiveContext, isSketchLayerActive, isActiveLayerLocked, beginPixelEdit, commitPixelEdits, redrawPreview, debouncedOnCanvasChange]);
+
+  // Pastes onto the active sketch layer as a floating selection, where the pixels were copied from
+  const pasteSelection = useCallback(() => {
+    const clipboard = selectionClipboardRef.current;
+    if (!clipboard || !activeLayerId || !isSketchLayerActive || isActiveLayerLocked) return;
+    commitFloatingSelection();
+    beginPixelEdit(activeLayerId, '붙여넣기');
+    setFloatingSelection(floatSelection(activeLayerId, clipboard.image, clipboard.origin, false));
+    setSelectionPath(null);
+    if (tool !== 'select_rect' && tool !== 'select_lasso') setTool('select_rect');
+  }, [activeLayerId, isSketchLayerActive, isActiveLayerLocked, commitFloatingSelection, beginPixelEdit, tool]);
+
+  // Applies one side of an edit: pixels go straight onto their layers (or wait for the canvas of a
+  // layer that comes back), layer and guide changes into `state`
+  const applyEdit = useCallback((command: EditCommand<Layer>, side: 'before' | 'after', state: { layers: Layer[]; guideSets: PerspectiveGuideSet[] }) => {
+    switch (command.kind) {
+        case 'pixels': {
+            const patch = command[side];
+            const pending = pendingSketchesRef.current.get(command.layerId);
+            const ctx = canvasRefs.current[command.layerId]?.getContext('2d', { willReadFrequently: true });
+            if (pending || !ctx) pendingSketchesRef.current.set(command.layerId, [...(pending ?? []), patch]);
+            else ctx.putImageData(patch.image, patch.x, patch.y);
+            break;
         }
-        
-        setHistory(prev => ({
-            ...prev,
-            [activeLayerId]: { ...layerHistory, index: newIndex }
-        }));
-        redrawPreview();
-        debouncedOnCanvasChange();
+        case 'layers':
+            state.layers = applyLayerCommand<Layer>(state.layers, command, side);
+            command.changes.forEach(change => {
+                const other = side === 'before' ? change.after : change.before;
+                if (change[side] === null) { // Gone again; its pixels are in the history
+                    delete canvasRefs.current[change.id];
+                    pendingSketchesRef.current.delete(change.id);
+                } else if (other === null && change[side]?.type !== 'group') {
+                    pendingSketchesRef.current.set(change.id, change.sketch ? [change.sketch] : []);
+                }
+            });
+            break;
+        case 'guides':
+            state.guideSets = command[side];
+            break;
+        case 'batch':
+            (side === 'before' ? [...command.commands].reverse() : command.commands).forEach(part => applyEdit(part, side, state));
+            break;
     }
-  }, [activeLayerId, history, getActiveContext, canvasDimensions, redrawPreview, debouncedOnCanvasChange]);
-  
-  const addSketchLayer = () => {
+  }, []);
+
+  // Goes to any entry of the history (null: the start), undoing back to where its branch leaves the current one
+  const jumpToEdit = useCallback((targetId: number | null) => {
+    if (targetId === editHistory.currentId) return;
+    const { undo, redo } = timelinePath<EditCommand<Layer>>(editHistory, targetId);
+    const state = { layers, guideSets };
+    undo.forEach(entry => applyEdit(entry.data, 'before', state));
+    redo.forEach(entry => applyEdit(entry.data, 'after', state));
+    historySnapshotRef.current = state; // Not an edit of its own
+    setEditHistory(prev => moveTimeline(prev, targetId));
+    if (state.layers !== layers) setLayers(state.layers);
+    if (state.guideSets !== guideSets) setGuideSets(state.guideSets);
+    if (!state.layers.some(l => l.id === activeLayerId)) setActiveLayerId(state.layers[state.layers.length - 1]?.id ?? null);
+    if (!state.guideSets.some(set => set.id === activeGuideSetId)) setActiveGuideSetId(state.guideSets[0]?.id ?? null);
+    setSelectedShapeId(null);
+    redrawPreview();
+    debouncedOnCanvasChange();
+  }, [editHistory, layers, guideSets, activeLayerId, activeGuideSetId, applyEdit, redrawPreview, debouncedOnCanvasChange]);
+
+  const handleUndo = useCallback(() => {
+    // Undo while transforming cancels the transform
+    if (floatingSelection) {
+        cancelFloatingSelection();
+        return;
+    }
+    const current = timelineNode<EditCommand<Layer>>(editHistory, editHistory.currentId);
+    if (current) jumpToEdit(current.parentId);
+  }, [floatingSelection, cancelFloatingSelection, editHistory, jumpToEdit]);
+
+  const handleRedo = useCallback(() => {
+    const next = redoTargetId<EditCommand<Layer>>(editHistory);
+    if (!floatingSelection && next !== null) jumpToEdit(next);
+  }, [floatingSelection, editHistory, jumpToEdit]);
+
+  // A floating selection is dropped first, as undo would
+  const handleHistoryJump = useCallback((targetId: number | null) => {
+    cancelFloatingSelection();
+    jumpToEdit(targetId);
+  }, [cancelFloatingSelection, jumpToEdit]);
+
+  const addLayer = (type: Exclude<LayerType, 'group'>) => {
     const newId = Date.now();
     const newLayer: Layer = { 
         id: newId, 
@@ -913,33 +1365,60 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         isVisible: true, 
         blendMode: 'source-over', 
         opacity: 1, 
-        type: 'sketch',
+        type,
         points: [],
         setteiImages: [],
+        ...(type === 'vector' ? { shapes: [] } : {}),
+        // A pose layer starts with one mannequin, standing in the middle and named after the layer
+        ...(type === 'pose' ? {
+            skeletons: [createSkeleton({
+                characterName: `레이어 ${layerCounter}`,
+                preset: 'adult',
+                center: { x: canvasDimensions.width / 2, y: canvasDimensions.height / 2 },
+                height: canvasDimensions.height * 0.8,
+                color: generateRandomColor(),
+            })],
+        } : {}),
     };
     
     setLayers(prevLayers => {
-        const activeIndex = prevLayers.findIndex(l => l.id === activeLayerId);
+        const active = prevLayers.find(l => l.id === activeLayerId);
         const newLayers = [...prevLayers];
-        newLayers.splice(activeIndex + 1, 0, newLayer);
+        if (active?.type === 'group') { // At the top of the active group
+            newLayers.splice(prevLayers.indexOf(active), 0, { ...newLayer, parentId: active.id });
+        } else { // Above the active layer, in its group
+            const activeIndex = prevLayers.findIndex(l => l.id === activeLayerId);
+            newLayers.splice(activeIndex + 1, 0, { ...newLayer, parentId: active?.parentId ?? null });
+        }
         return newLayers;
     });
 
     setLayerCounter(prev => prev + 1);
     setActiveLayerId(newId);
-    
-    setTimeout(() => {
-        const newCanvas = canvasRefs.current[newId];
-        const newCtx = newCanvas?.getContext('2d', { willReadFrequently: true });
-        if (newCanvas && newCtx) {
-            newCtx.clearRect(0, 0, newCanvas.width, newCanvas.height);
-            const imageData = newCtx.getImageData(0, 0, newCanvas.width, newCanvas.height);
-            setHistory(prev => ({
-                ...prev,
-                [newId]: { stack: [imageData], index: 0 }
-            }));
-        }
-    }, 0);
+    if (type === 'pose') setTool('pose');
+  };
+
+  // Puts the active layer (or group) into a new group, in its place
+  const addGroup = () => {
+    const newId = Date.now();
+    const group: Layer = {
+        id: newId,
+        name: `그룹 ${layers.filter(l => l.type === 'group').length + 1}`,
+        isVisible: true,
+        blendMode: 'source-over',
+        opacity: 1,
+        type: 'group',
+        points: [],
+        setteiImages: [],
+    };
+    setLayers(prevLayers => {
+        const active = prevLayers.find(l => l.id === activeLayerId);
+        if (!active) return [...prevLayers, group];
+        const newLayers = [...prevLayers];
+        newLayers.splice(prevLayers.indexOf(active) + 1, 0, { ...group, parentId: active.parentId ?? null });
+        return orderLayerTree(newLayers.map(l => (l.id === active.id ? { ...l, parentId: newId, isClipped: false } : l)));
+    });
+    setActiveLayerId(newId);
   };
 
   const handleSetteiUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -1066,18 +1545,92 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     setIsContiEditorOpen(false);
   };
 
-  // Load state from localStorage on mount
+  // Maps a proposal from conti image fractions to canvas pixels, where the conti is drawn contain-fitted
+  const mapProposalToCanvas = (proposal: VanishingPointProposal, img: HTMLImageElement): VPProposal => {
+    const ratio = Math.min(canvasDimensions.width / img.width, canvasDimensions.height / img.height);
+    const drawnWidth = img.width * ratio;
+    const drawnHeight = img.height * ratio;
+    const offsetX = (canvasDimensions.width - drawnWidth) / 2;
+    const offsetY = (canvasDimensions.height - drawnHeight) / 2;
+    const toCanvas = (x: number, y: number) => ({ x: offsetX + x * drawnWidth, y: offsetY + y * drawnHeight });
+
+    let horizon: VPProposal['horizon'] = null;
+    if (proposal.horizon) {
+        const left = toCanvas(0, proposal.horizon.leftY);
+        const right = toCanvas(1, proposal.horizon.rightY);
+        const slope = (right.y - left.y) / (right.x - left.x);
+        horizon = { leftY: left.y - slope * left.x, rightY: left.y + slope * (canvasDimensions.width - left.x) };
+    }
+
+    return {
+        points: proposal.vanishingPoints.map(vp => ({ ...toCanvas(vp.x, vp.y), support: vp.support, included: true })),
+        horizon,
+        segments: proposal.segments.map(segment => {
+            const start = toCanvas(segment.x1, segment.y1);
+            const end = toCanvas(segment.x2, segment.y2);
+            return { x1: start.x, y1: start.y, x2: end.x, y2: end.y, vanishingPointIndex: segment.vanishingPointIndex };
+        }),
+    };
+  };
+
+  const handleDetectVanishingPoints = async () => {
+    if (!globalReference) return;
+    vpDetectionAbortRef.current?.abort();
+    const controller = new AbortController();
+    vpDetectionAbortRef.current = controller;
+    setIsDetectingVPs(true);
+    setVpDetectionMessage(null);
+    setVpProposal(null);
+
+    try {
+        const img = globalReference.imageElement;
+        const proposal = await detectVanishingPoints(img, controller.signal);
+        if (proposal.vanishingPoints.length === 0) {
+            setVpDetectionMessage('직선이 충분하지 않아 소실점을 찾지 못했습니다.');
+        } else {
+            setVpProposal(mapProposalToCanvas(proposal, img));
+        }
+    } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Vanishing point detection failed:', err);
+        setVpDetectionMessage('소실점 감지 중 오류가 발생했습니다.');
+    } finally {
+        if (vpDetectionAbortRef.current === controller) {
+            vpDetectionAbortRef.current = null;
+            setIsDetectingVPs(false);
+        }
+    }
+  };
+
+  const cancelVanishingPointDetection = () => {
+    vpDetectionAbortRef.current?.abort();
+    vpDetectionAbortRef.current = null;
+    setIsDetectingVPs(false);
+  };
+
+  const toggleProposedVP = (index: number) => {
+    setVpProposal(prev => prev ? { ...prev, points: prev.points.map((point, i) => i === index ? { ...point, included: !point.included } : point) } : null);
+  };
+
+  // Accepted points become ordinary vanishing points; the perspective tool lets the user drag them into place
+  const acceptVPProposal = () => {
+    if (!vpProposal) return;
+    placeOnActiveGuideSet(vpProposal.points.filter(point => point.included));
+    setTool('perspective');
+    setVpProposal(null);
+  };
+
+  // Load state from the given document, or from the autosave, on mount
   useEffect(() => {
     const initializeCanvas = async () => {
-        let savedState: any = null;
-        try {
-            const savedStateJSON = localStorage.getItem('character-poser-canvas');
-            if (savedStateJSON) {
-                savedState = JSON.parse(savedStateJSON);
+        let savedState: any = initialDocumentRef.current;
+        initialDocumentRef.current = null;
+        if (!savedState) {
+            try {
+                savedState = await loadCanvasDocument();
+            } catch (e) {
+                console.error("캔버스 상태 로딩 실패", e);
             }
-        } catch (e) {
-            console.error("캔버스 상태 로딩 실패", e);
-            localStorage.removeItem('character-poser-canvas');
         }
 
         let initialGlobalRef = null;
@@ -1087,15 +1640,19 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         }
 
         if (savedState) {
-            const loadedDimensions = savedState.canvasDimensions || { width: 1000, height: 619 };
+            const loadedDimensions = savedState.canvasDimensions || DEFAULT_CANVAS_DIMENSIONS;
             setCanvasDimensions(loadedDimensions);
-            setVanishingPoints(savedState.vanishingPoints || []);
+            const loadedGuides = normalizeGuideSets({ ...savedState, canvasDimensions: loadedDimensions });
+            setGuideSets(loadedGuides.guideSets);
+            setActiveGuideSetId(loadedGuides.activeGuideSetId);
+            if (savedState.lens) setLens(savedState.lens);
             setLayerCounter(savedState.layerCounter || 1);
             
             loadedStateRef.current = {
                 layers: savedState.layers || [],
                 sketches: savedState.layerSketches || {},
                 globalRef: initialGlobalRef || savedState.globalReference || null,
+                editHistory: savedState.editHistory,
             };
         } else {
             const previewCanvas = previewCanvasRef.current;
@@ -1130,16 +1687,8 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             setLayers([firstLayer]);
             setActiveLayerId(initialId);
             setLayerCounter(2);
-
-            setTimeout(() => {
-                const canvas = canvasRefs.current[initialId];
-                const ctx = canvas?.getContext('2d', { willReadFrequently: true });
-                if (canvas && ctx) {
-                    ctx.clearRect(0, 0, canvas.width, canvas.height);
-                    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-                    setHistory({ [initialId]: { stack: [imageData], index: 0 } });
-                }
-            }, 0);
+            resetEditHistory();
+            isEditHistoryRestoredRef.current = true;
         }
     };
     
@@ -1164,19 +1713,13 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             
             // Clear all sketch layers for the new edit session.
             setLayers(prev => {
-                const newHistory: Record<number, HistoryState> = {};
                 prev.forEach(l => {
                     const canvas = canvasRefs.current[l.id];
-                    const ctx = canvas?.getContext('2d', { willReadFrequently: true });
-                    if (ctx && canvas) {
-                        ctx.clearRect(0, 0, canvas.width, canvas.height);
-                        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-                        newHistory[l.id] = { stack: [imageData], index: 0 };
-                    }
+                    if (l.type === 'sketch' && canvas) canvas.getContext('2d', { willReadFrequently: true })?.clearRect(0, 0, canvas.width, canvas.height);
                 });
-                setHistory(newHistory);
-                return prev;
+                return prev.map(l => (l.type === 'vector' ? { ...l, shapes: [] } : l.type === 'pose' ? { ...l, skeletons: [] } : l));
             });
+            resetEditHistory();
             
         } else {
             // Exiting edit mode
@@ -1191,11 +1734,9 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
   useLayoutEffect(() => {
     if (!loadedStateRef.current) return;
     
-    const { layers: layersToLoad, sketches, globalRef } = loadedStateRef.current;
+    const { layers: layersToLoad, sketches, globalRef, editHistory: savedHistory } = loadedStateRef.current;
 
     const restoreCanvases = async () => {
-        const newHistory: Record<number, HistoryState> = {};
-
         if (globalRef && globalRef.dataUrl) {
             try {
                 const imageElement = await loadImageFromBase64(globalRef.dataUrl);
@@ -1237,10 +1778,17 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                 radius: p.radius === undefined ? 15 : p.radius,
                 color: p.color || generateRandomColor(),
             }));
-            l.type = 'sketch';
+            if (l.type === 'vector') {
+                l.shapes = l.shapes ?? [];
+            } else if (l.type === 'pose') {
+                l.skeletons = l.skeletons ?? [];
+            } else if (l.type !== 'group') {
+                l.type = 'sketch';
+            }
             return l;
         }));
-        setLayers(loadedLayers);
+        setLayers(orderLayerTree(loadedLayers));
+        resetEditHistory();
 
         const restorationPromises = loadedLayers.map(async (layer: Layer) => {
             if (layer.type === 'sketch') {
@@ -1248,33 +1796,27 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                 const sketchCanvas = canvasRefs.current[layerId];
                 if (!sketchCanvas) return;
                 const sketchCtx = sketchCanvas.getContext('2d', { willReadFrequently: true });
-
-                if (sketchCtx) {
-                    if (sketches[layerId]) {
-                        try {
-                            const img = await loadImageFromBase64(sketches[layerId]);
-                            sketchCtx.clearRect(0, 0, sketchCanvas.width, sketchCanvas.height);
-                            sketchCtx.drawImage(img, 0, 0);
-                        } catch (err) {
-                            console.error(`레이어 ${layerId}의 스케치 로딩 실패:`, err);
-                        }
-                    }
+                if (sketchCtx && sketches[layerId]) {
                     try {
-                        const sketchImageData = sketchCtx.getImageData(0, 0, sketchCanvas.width, sketchCanvas.height);
-                        newHistory[layerId] = {
-                            stack: [sketchImageData],
-                            index: 0
-                        };
-                    } catch (e) {
-                        console.error("Failed to getImageData during restore:", e);
+                        const img = await loadImageFromBase64(sketches[layerId]);
+                        sketchCtx.clearRect(0, 0, sketchCanvas.width, sketchCanvas.height);
+                        sketchCtx.drawImage(img, 0, 0);
+                    } catch (err) {
+                        console.error(`레이어 ${layerId}의 스케치 로딩 실패:`, err);
                     }
                 }
             }
         });
         
         await Promise.all(restorationPromises);
-        
-        setHistory(newHistory);
+
+        if (savedHistory) {
+            try {
+                resetEditHistory(await deserializeEditHistory<Layer>(savedHistory, hydrateLayerRecord));
+            } catch (e) {
+                console.error("편집 기록 로딩 실패:", e);
+            }
+        }
         
         if (loadedLayers.length > 0) {
             const lastLayer = loadedLayers[loadedLayers.length - 1];
@@ -1282,63 +1824,85 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         }
         
         loadedStateRef.current = null;
+        isEditHistoryRestoredRef.current = true;
         redrawPreview();
         debouncedOnCanvasChange();
     };
 
     restoreCanvases();
-  }, [redrawPreview, debouncedOnCanvasChange]);
+  }, [redrawPreview, debouncedOnCanvasChange, resetEditHistory]);
+
+  const serializeDocument = useCallback((options?: { editHistory?: boolean }): CanvasDocument => {
+    const layerSketches: Record<number, string> = {};
+    const layersToSave = layers.map(l => {
+        const serializableLayer = serializeLayerRecord(l) as SerializedLayer;
+        // Vector and pose layers are saved as their shapes and mannequins
+        const canvas = canvasRefs.current[l.id];
+        if (canvas && l.type !== 'vector' && l.type !== 'pose') {
+            layerSketches[l.id] = compressCanvasForStorage(canvas);
+        }
+        return serializableLayer;
+    });
+    
+    let serializableGlobalRef = null;
+    if (globalReference) {
+        const { imageElement, ...rest } = globalReference;
+        serializableGlobalRef = rest;
+    }
 
-  // Save state to localStorage with debounce
+    return {
+        layers: layersToSave,
+        layerSketches,
+        globalReference: serializableGlobalRef,
+        vanishingPoints,
+        guideSets,
+        activeGuideSetId,
+        lens,
+        canvasDimensions,
+        layerCounter,
+        ...(persistEditHistory && options?.editHistory !== false && editHistory.nodes.length > 0
+            ? { editHistory: serializeEditHistory(editHistory, serializeLayerRecord) }
+            : {}),
+    };
+  }, [layers, vanishingPoints, guideSets, activeGuideSetId, lens, canvasDimensions, layerCounter, globalReference, persistEditHistory, editHistory]);
+
+  // Autosave with debounce. The edit history is saved by the next effect.
   useEffect(() => {
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     if (layers.length === 0 && !globalReference) return;
 
     saveTimeoutRef.current = window.setTimeout(async () => {
         try {
-            const layerSketches: Record<number, string> = {};
-            const layersToSave = layers.map(l => {
-                const { setteiImages, ...restOfLayer } = l;
-                const serializableLayer: any = { ...restOfLayer };
-                
-                if (setteiImages) {
-                    serializableLayer.setteiImages = setteiImages.map(img => {
-                        const { imageElement, maskImageElement, ...rest } = img;
-                        return rest;
-                    });
-                }
-                const canvas = canvasRefs.current[l.id];
-                if (canvas) {
-                    layerSketches[l.id] = compressCanvasForStorage(canvas);
-                }
-                return serializableLayer;
-            });
-            
-            let serializableGlobalRef = null;
-            if (globalReference) {
-                const { imageElement, ...rest } = globalReference;
-                serializableGlobalRef = rest;
-            }
-
-            const stateToSave = {
-                layers: layersToSave,
-                layerSketches,
-                globalReference: serializableGlobalRef,
-                vanishingPoints,
-                canvasDimensions,
-                layerCounter,
-            };
-            
-            localStorage.setItem('character-poser-canvas', JSON.stringify(stateToSave));
+            await saveCanvasContent(serializeDocument({ editHistory: false }));
         } catch (e) {
             console.error("캔버스 상태 저장 실패", e);
         }
-    }, 1500);
+    }, AUTOSAVE_DELAY_MS);
 
     return () => {
         if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
     };
-  }, [layers, vanishingPoints, canvasDimensions, layerCounter, globalReference]);
+  }, [layers, guideSets, activeGuideSetId, lens, canvasDimensions, layerCounter, globalReference, editHistory, serializeDocument]);
+
+  // Autosave the edit history; storage writes only the steps made or dropped since the last save
+  useEffect(() => {
+    if (!isEditHistoryRestoredRef.current || loadedStateRef.current) return;
+    const timer = window.setTimeout(() => {
+        const saved = persistEditHistory && editHistory.nodes.length > 0 ? serializeEditHistory(editHistory, serializeLayerRecord) : null;
+        saveCanvasEditHistory(saved).catch(e => console.error("편집 기록 저장 실패", e));
+    }, EDIT_HISTORY_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [persistEditHistory, editHistory]);
+
+  useImperativeHandle(ref, () => ({
+    getDocument: serializeDocument,
+    placeVanishingPoints: (points) => {
+      placeOnActiveGuideSet(points.map(point => ({
+        x: point.x * canvasDimensions.width,
+        y: point.y * canvasDimensions.height,
+      })));
+    },
+  }), [serializeDocument, placeOnActiveGuideSet, canvasDimensions]);
 
   useEffect(() => {
     const ctx = getActiveContext();
@@ -1369,6 +1933,11 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     setCurvePoints([]);
     setLineStartPoint(null);
     setEllipseStartPoint(null);
+    setSelectedShapeId(null);
+    shapeDragRef.current = null;
+    setSelectedSkeletonId(null);
+    setSelectedPoseBone(null);
+    poseDragRef.current = null;
     
     const previewLineCtx = previewLineCanvasRef.current?.getContext('2d');
     if (previewLineCtx && previewLineCanvasRef.current) {
@@ -1376,6 +1945,144 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     }
   }, [tool, activeLayerId]);
 
+  const selectedShape = layers.find(l => l.id === activeLayerId)?.shapes?.find(shape => shape.id === selectedShapeId) ?? null;
+
+  // Outline and handles of the selected vector shape
+  useEffect(() => {
+    const canvas = previewLineCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (tool !== 'shape_select' || !canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (!selectedShape) return;
+
+    ctx.save();
+    ctx.strokeStyle = '#3b82f6';
+    ctx.lineWidth = 1 / zoom;
+    ctx.setLineDash([4 / zoom, 3 / zoom]);
+    const bounds = shapeBounds(selectedShape);
+    ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    if (selectedShape.kind === 'curve') { // Control point arms
+        const [p1, cp1, cp2, p2] = selectedShape.points;
+        ctx.beginPath(); ctx.moveTo(p1.x, p1.y); ctx.lineTo(cp1.x, cp1.y); ctx.stroke();
+        ctx.beginPath(); ctx.moveTo(p2.x, p2.y); ctx.lineTo(cp2.x, cp2.y); ctx.stroke();
+    }
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#fff';
+    ctx.lineWidth = 1.5 / zoom;
+    shapeHandles(selectedShape).forEach(p => {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, SHAPE_HANDLE_RADIUS / zoom, 0, 2 * Math.PI);
+        ctx.fill();
+        ctx.stroke();
+    });
+    ctx.restore();
+  }, [tool, selectedShape, zoom, canvasDimensions]);
+
+  const activePoseSkeletons: PoseSkeleton[] = layers.find(l => l.id === activeLayerId && l.type === 'pose')?.skeletons ?? [];
+  const selectedSkeleton = activePoseSkeletons.find(skeleton => skeleton.id === selectedSkeletonId) ?? null;
+
+  // Joint handles of the active pose layer's mannequins; the selected figure's are larger
+  useEffect(() => {
+    const canvas = previewLineCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (tool !== 'pose' || !canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    ctx.save();
+    ctx.strokeStyle = '#3b82f6';
+    activePoseSkeletons.forEach(skeleton => {
+        const isSelected = skeleton.id === selectedSkeletonId;
+        ctx.lineWidth = (isSelected ? 1.5 : 1) / zoom;
+        skeletonHandles(skeleton).forEach(({ bone, point }) => {
+            ctx.fillStyle = isSelected && bone === selectedPoseBone ? '#3b82f6' : bone === null ? '#fbbf24' : '#fff';
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, (isSelected ? SHAPE_HANDLE_RADIUS : SHAPE_HANDLE_RADIUS - 1.5) / zoom, 0, 2 * Math.PI);
+            ctx.fill();
+            ctx.stroke();
+        });
+    });
+    ctx.restore();
+  }, [tool, activePoseSkeletons, selectedSkeletonId, selectedPoseBone, zoom, canvasDimensions]);
+
+  const addSkeleton = useCallback(() => {
+    const layer = layers.find(l => l.id === activeLayerId);
+    if (!layer || layer.type !== 'pose' || isActiveLayerLocked) return;
+    const skeleton = createSkeleton({
+        characterName: layer.name,
+        preset: 'adult',
+        center: { x: canvasDimensions.width / 2, y: canvasDimensions.height / 2 },
+        height: canvasDimensions.height * 0.8,
+        color: generateRandomColor(),
+    });
+    editLabelRef.current = '마네킹 추가';
+    setLayerSkeletons(layer.id, skeletons => [...skeletons, skeleton]);
+    setSelectedSkeletonId(skeleton.id);
+    setSelectedPoseBone(null);
+    debouncedOnCanvasChange();
+  }, [layers, activeLayerId, isActiveLayerLocked, canvasDimensions, setLayerSkeletons, debouncedOnCanvasChange]);
+
+  const updateSelectedSkeleton = useCallback((update: (skeleton: PoseSkeleton) => PoseSkeleton) => {
+    if (!activeLayerId || selectedSkeletonId === null || isActiveLayerLocked) return;
+    setLayerSkeletons(activeLayerId, skeletons => skeletons.map(skeleton => (skeleton.id === selectedSkeletonId ? update(skeleton) : skeleton)));
+    debouncedOnCanvasChange();
+  }, [activeLayerId, selectedSkeletonId, isActiveLayerLocked, setLayerSkeletons, debouncedOnCanvasChange]);
+
+  const deleteSelectedSkeleton = useCallback(() => {
+    if (!activeLayerId || selectedSkeletonId === null || isActiveLayerLocked) return;
+    editLabelRef.current = '마네킹 삭제';
+    setLayerSkeletons(activeLayerId, skeletons => skeletons.filter(skeleton => skeleton.id !== selectedSkeletonId));
+    setSelectedSkeletonId(null);
+    setSelectedPoseBone(null);
+    debouncedOnCanvasChange();
+  }, [activeLayerId, selectedSkeletonId, isActiveLayerLocked, setLayerSkeletons, debouncedOnCanvasChange]);
+
+  // Leaving the selection tools, or the layer the pixels float over, puts them down
+  useEffect(() => {
+    if (floatingSelection && (!isSelectionTool || floatingSelection.layerId !== activeLayerId)) {
+        commitFloatingSelection();
+    }
+    if (!isSelectionTool) setSelectionPath(null);
+  }, [isSelectionTool, activeLayerId, floatingSelection, commitFloatingSelection]);
+
+  // The marquee, or the floating pixels with their transform handles
+  useEffect(() => {
+    const canvas = previewLineCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!isSelectionTool || !canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (floatingSelection) {
+        drawFloatingSelection(ctx, floatingSelection);
+        drawTransformFrame(ctx, floatingSelection.corners, zoom);
+    } else if (selectionPath) {
+        drawSelectionOutline(ctx, selectionPath, zoom);
+    }
+  }, [isSelectionTool, activeLayerId, floatingSelection, selectionPath, zoom, canvasDimensions]);
+
+  const updateSelectedShape = useCallback((changes: Partial<Pick<VectorShape, 'color' | 'width'>>) => {
+    if (!activeLayerId || selectedShapeId === null) return;
+    setLayerShapes(activeLayerId, shapes => shapes.map(shape => (shape.id === selectedShapeId ? { ...shape, ...changes } : shape)));
+    debouncedOnCanvasChange();
+  }, [activeLayerId, selectedShapeId, setLayerShapes, debouncedOnCanvasChange]);
+
+  const deleteSelectedShape = useCallback(() => {
+    if (!activeLayerId || selectedShapeId === null || isActiveLayerLocked) return;
+    editLabelRef.current = '선 삭제';
+    setLayerShapes(activeLayerId, shapes => shapes.filter(shape => shape.id !== selectedShapeId));
+    setSelectedShapeId(null);
+    debouncedOnCanvasChange();
+  }, [activeLayerId, selectedShapeId, isActiveLayerLocked, setLayerShapes, debouncedOnCanvasChange]);
+
+  // A proposal is only valid for the conti and canvas size it was detected on
+  useEffect(() => {
+    vpDetectionAbortRef.current?.abort();
+    vpDetectionAbortRef.current = null;
+    setIsDetectingVPs(false);
+    setVpProposal(null);
+    setVpDetectionMessage(null);
+  }, [globalReference?.imageElement, canvasDimensions]);
+
+  useEffect(() => () => vpDetectionAbortRef.current?.abort(), []);
+
   // Draw Perspective Guides
   useEffect(() => {
     const perspectiveCanvas = perspectiveCanvasRef.current;
@@ -1385,57 +2092,84 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
 
     ctx.clearRect(0, 0, perspectiveCanvas.width, perspectiveCanvas.height);
 
-    vanishingPoints.forEach(vp => {
-        ctx.strokeStyle = '#60a5fa'; // Lighter blue (Tailwind blue-400)
-        ctx.lineWidth = 0.75;
-        ctx.globalAlpha = 0.5;
-        
-        const corners = [ {x: 0, y: 0}, {x: canvasDimensions.width, y: 0}, {x: canvasDimensions.width, y: canvasDimensions.height}, {x: 0, y: canvasDimensions.height}, ];
-        corners.forEach(corner => {
-            ctx.beginPath(); ctx.moveTo(vp.x, vp.y); ctx.lineTo(corner.x, corner.y); ctx.stroke();
+    // Visible guide sets, the active one on top; an empty linear set shows only its horizon
+    const visibleSets = guideSets.filter(set => set.isVisible && set.id !== activeGuideSetId);
+    if (activeGuideSet?.isVisible) visibleSets.push(activeGuideSet);
+    visibleSets.forEach(set => {
+        const fade = set.id === activeGuideSetId ? 1 : 0.5;
+        buildGuidePaths(set, canvasDimensions, lens).forEach(path => {
+            const style = GUIDE_STYLES[path.role];
+            ctx.strokeStyle = style.color;
+            ctx.lineWidth = style.width;
+            ctx.globalAlpha = style.alpha * fade;
+            ctx.setLineDash(style.dash ?? []);
+            ctx.beginPath();
+            if (path.type === 'line') {
+                ctx.moveTo(path.x1, path.y1); ctx.lineTo(path.x2, path.y2);
+            } else {
+                ctx.arc(path.cx, path.cy, path.radius, path.startAngle, path.endAngle, path.counterclockwise);
+            }
+            ctx.stroke();
         });
+        ctx.setLineDash([]);
 
-        for (let i = 1; i < 4; i++) {
-            const p = i / 4;
-            ctx.beginPath(); ctx.moveTo(vp.x, vp.y); ctx.lineTo(p * canvasDimensions.width, 0); ctx.stroke();
-            ctx.beginPath(); ctx.moveTo(vp.x, vp.y); ctx.lineTo(p * canvasDimensions.width, canvasDimensions.height); ctx.stroke();
-            ctx.beginPath(); ctx.moveTo(vp.x, vp.y); ctx.lineTo(0, p * canvasDimensions.height); ctx.stroke();
-            ctx.beginPath(); ctx.moveTo(vp.x, vp.y); ctx.lineTo(canvasDimensions.width, p * canvasDimensions.height); ctx.stroke();
+        // Curvilinear points follow from the eye level and lens, so they are markers, not handles
+        if (set.mode !== 'linear' && set.id === activeGuideSetId) {
+            effectiveVanishingPoints(set, canvasDimensions, lens).forEach(point => {
+                ctx.globalAlpha = 0.9;
+                ctx.strokeStyle = GUIDE_STYLES.boundary.color;
+                ctx.lineWidth = 2;
+                ctx.beginPath(); ctx.arc(point.x, point.y, 6, 0, 2 * Math.PI); ctx.stroke();
+            });
         }
     });
 
-    if (vanishingPoints.length > 0) {
-        ctx.strokeStyle = '#ef4444'; // Tailwind red-500
-        ctx.lineWidth = 1.5;
-        ctx.globalAlpha = 0.9;
-        ctx.setLineDash([6, 4]);
-
-        if (vanishingPoints.length === 1) {
-            const vp = vanishingPoints[0];
-            ctx.beginPath(); ctx.moveTo(0, vp.y); ctx.lineTo(canvasDimensions.width, vp.y); ctx.stroke();
-        } else if (vanishingPoints.length >= 2) {
-            const [first, ...rest] = vanishingPoints;
-            ctx.beginPath(); ctx.moveTo(first.x, first.y);
-            rest.forEach(vp => ctx.lineTo(vp.x, vp.y));
-            if (vanishingPoints.length === 3) { ctx.closePath(); }
-            ctx.stroke();
-        }
-        ctx.setLineDash([]);
+    if (activeGuideSet?.isVisible) {
+        vanishingPoints.forEach(vp => {
+            ctx.globalAlpha = 1.0;
+            const isActive = vp.id === activeVPId;
+            // Locked sets show grey handles
+            ctx.fillStyle = activeGuideSet.isLocked ? 'rgba(115, 115, 115, 1)' : isActive ? 'rgba(0, 122, 255, 1)' : 'rgba(239, 68, 68, 1)';
+            ctx.strokeStyle = 'white';
+            ctx.lineWidth = 2;
+            ctx.beginPath(); ctx.arc(vp.x, vp.y, 8, 0, 2 * Math.PI); ctx.fill(); ctx.stroke();
+        });
     }
 
-    vanishingPoints.forEach(vp => {
-        ctx.globalAlpha = 1.0;
-        const isActive = vp.id === activeVPId;
-        ctx.fillStyle = isActive ? 'rgba(0, 122, 255, 1)' : 'rgba(239, 68, 68, 1)';
-        ctx.strokeStyle = 'white';
+    // Detected proposal: the lines found on the conti, colored by the point they converge on
+    if (vpProposal) {
         ctx.lineWidth = 2;
-        ctx.beginPath(); ctx.arc(vp.x, vp.y, 8, 0, 2 * Math.PI); ctx.fill(); ctx.stroke();
-    });
-  }, [vanishingPoints, activeVPId, canvasDimensions]);
+        vpProposal.segments.forEach(segment => {
+            if (segment.vanishingPointIndex === null) return;
+            const included = vpProposal.points[segment.vanishingPointIndex]?.included;
+            ctx.strokeStyle = VP_PROPOSAL_COLORS[segment.vanishingPointIndex % VP_PROPOSAL_COLORS.length];
+            ctx.globalAlpha = included ? 0.8 : 0.2;
+            ctx.beginPath(); ctx.moveTo(segment.x1, segment.y1); ctx.lineTo(segment.x2, segment.y2); ctx.stroke();
+        });
+
+        if (vpProposal.horizon) {
+            ctx.strokeStyle = '#22d3ee'; // Tailwind cyan-400
+            ctx.lineWidth = 1.5;
+            ctx.globalAlpha = 0.9;
+            ctx.setLineDash([10, 6]);
+            ctx.beginPath(); ctx.moveTo(0, vpProposal.horizon.leftY); ctx.lineTo(canvasDimensions.width, vpProposal.horizon.rightY); ctx.stroke();
+            ctx.setLineDash([]);
+        }
+
+        vpProposal.points.forEach((point, index) => {
+            ctx.strokeStyle = VP_PROPOSAL_COLORS[index % VP_PROPOSAL_COLORS.length];
+            ctx.globalAlpha = point.included ? 1.0 : 0.35;
+            ctx.lineWidth = 3;
+            ctx.beginPath(); ctx.arc(point.x, point.y, 10, 0, 2 * Math.PI); ctx.stroke();
+        });
+        ctx.globalAlpha = 1.0;
+    }
+  }, [guideSets, activeGuideSet, activeGuideSetId, vanishingPoints, activeVPId, canvasDimensions, lens, vpProposal]);
   
   const backupCanvasStateForResize = useCallback(() => {
     const dataToRestore = new Map<number, ImageData | null>();
     layers.forEach(layer => {
+        if (layer.type === 'vector' || layer.type === 'pose') return; // Redrawn from its shapes or mannequins at any size
         let sketchData: ImageData | null = null;
         const sketchCanvas = canvasRefs.current[layer.id];
         if (sketchCanvas) {
@@ -1511,9 +2245,16 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                     x: vp.x * scaleX,
                     y: vp.y * scaleY,
                 })));
+                setLayers(prevLayers => prevLayers.map(l => (
+                    l.type === 'vector' ? { ...l, shapes: scaleShapes(l.shapes ?? [], scaleX, scaleY) }
+                        : l.type === 'pose' ? { ...l, skeletons: scaleSkeletons(l.skeletons ?? [], scaleX, scaleY) }
+                        : l
+                )));
             }
             return newDims;
         });
+        // Recorded edits no longer fit the resized canvas
+        resetEditHistory();
 
         // After all state updates related to resize are queued, clear the backup ref.
         resizeDataRef.current = null;
@@ -1528,7 +2269,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         window.removeEventListener('mousemove', handleMouseMove);
         window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isResizing]);
+  }, [isResizing, resetEditHistory]);
 
 
   useLayoutEffect(() => {
@@ -1542,8 +2283,6 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     const tempCtx = tempCanvas.getContext('2d');
     if (!tempCtx) return;
 
-    const newHistory: Record<number, HistoryState> = {};
-
     layerData.forEach((sketch, layerId) => {
         const sketchCanvas = canvasRefs.current[layerId];
         const sketchCtx = sketchCanvas?.getContext('2d');
@@ -1557,20 +2296,8 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             sketchCtx.imageSmoothingEnabled = true;
             sketchCtx.drawImage(tempCanvas, 0, 0, oldDimensions.width, oldDimensions.height, 0, 0, canvasDimensions.width, canvasDimensions.height);
         }
-        
-        const newSketchCtx = sketchCanvas?.getContext('2d', { willReadFrequently: true });
-        if (sketchCanvas && newSketchCtx) {
-            try {
-              const newImageData = newSketchCtx.getImageData(0, 0, sketchCanvas.width, sketchCanvas.height);
-              newHistory[layerId] = { stack: [newImageData], index: 0 };
-            } catch (e) {
-              console.error("Error getting image data after resize", e)
-            }
-        }
     });
     
-    setHistory(newHistory);
-    
     const previewCanvas = previewCanvasRef.current;
     if (previewCanvas) {
         const previewCtx = previewCanvas.getContext('2d');
@@ -1601,18 +2328,9 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                 drawImageFit(editBaseRef.imageElement);
             }
 
-            layers.forEach(layer => {
-                if (!layer.isVisible) return;
-                previewCtx.globalAlpha = layer.opacity;
-                previewCtx.globalCompositeOperation = layer.blendMode;
-                const layerCanvas = canvasRefs.current[layer.id];
-                if (layerCanvas) {
-                    previewCtx.drawImage(layerCanvas, 0, 0);
-                }
-            });
-
             previewCtx.globalAlpha = 1;
             previewCtx.globalCompositeOperation = 'source-over';
+            compositeLayerTree(previewCtx, layers, layer => canvasRefs.current[layer.id], canvasDimensions);
         }
     }
     
@@ -1620,23 +2338,10 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
   }, [canvasDimensions, layers, debouncedOnCanvasChange]);
 
 
-  const getCoords = useCallback((event: React.MouseEvent | React.TouchEvent): { x: number; y: number } | null => {
+  const getCoords = useCallback(({ clientX, clientY }: { clientX: number; clientY: number }): { x: number; y: number } | null => {
     const container = canvasContainerRef.current;
     if (!container) return null;
     const rect = container.getBoundingClientRect();
-    let clientX = 0;
-    let clientY = 0;
-    if ('touches' in event.nativeEvent) {
-      const touchEvent = event.nativeEvent as TouchEvent;
-      const touchPoint = touchEvent.touches[0] || touchEvent.changedTouches[0];
-      if (!touchPoint) return null;
-      clientX = touchPoint.clientX;
-      clientY = touchPoint.clientY;
-    } else {
-      const mouseEvent = event.nativeEvent as MouseEvent;
-      clientX = mouseEvent.clientX;
-      clientY = mouseEvent.clientY;
-    }
     const mouseX = (clientX - rect.left - pan.x) / zoom;
     const mouseY = (clientY - rect.top - pan.y) / zoom;
 
@@ -1663,10 +2368,17 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     (
       startPoint: { x: number; y: number },
       currentPoint: { x: number; y: number }
-    ): { point: { x: number; y: number }; snappedVp: VanishingPoint | null } => {
+    ): { start: Point; point: Point; snappedVp: (Point & { id?: number }) | null } => {
+      if (snapSettings.enabled) {
+        // A line started on a guide line begins on it
+        const constraint = findConstraint(startPoint, currentPoint, snapTargets, snapSettings, { allowArcs: false, tolerance: SNAP_TOLERANCE / zoom });
+        if (!constraint || constraint.kind !== 'line') return { start: startPoint, point: currentPoint, snappedVp: null };
+        return { start: constraint.origin, point: applyConstraint(constraint, currentPoint), snappedVp: constraint.vanishingPoint };
+      }
+
       const AXIS_COLORS = ['#ef4444', '#22C55E', '#3b82f6'];
       if (!AXIS_COLORS.includes(penColor) || vanishingPoints.length === 0) {
-        return { point: currentPoint, snappedVp: null };
+        return { start: startPoint, point: currentPoint, snappedVp: null };
       }
   
       let bestVP: VanishingPoint | null = null;
@@ -1709,6 +2421,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
           const projectionLength = vecToCursorX * unitDirX + vecToCursorY * unitDirY;
           
           return {
+            start: startPoint,
             point: {
                 x: startPoint.x + unitDirX * projectionLength,
                 y: startPoint.y + unitDirY * projectionLength,
@@ -1718,10 +2431,37 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         }
       }
   
-      return { point: currentPoint, snappedVp: null };
-  }, [penColor, vanishingPoints]);
+      return { start: startPoint, point: currentPoint, snappedVp: null };
+  }, [penColor, vanishingPoints, snapSettings, snapTargets, zoom]);
+
+  // A curve handle dragged from its anchor snaps like a line; arcs are not followed
+  const snapFromAnchor = useCallback((anchor: Point, point: Point): Point => {
+    const constraint = findConstraint(anchor, point, snapTargets, snapSettings, { allowArcs: false, tolerance: SNAP_TOLERANCE / zoom });
+    return constraint ? applyConstraint(constraint, point) : point;
+  }, [snapTargets, snapSettings, zoom]);
+
+  // Pen and marker strokes follow the constraint judged from their start
+  const constrainStroke = (points: StrokePoint[]): StrokePoint[] => {
+    const constraint = strokeConstraintRef.current;
+    return constraint ? points.map(point => ({ ...point, ...applyConstraint(constraint, point) })) : points;
+  };
+
+  useEffect(() => subscribePressureCurves(setPressureCurves), []);
+
+  const updatePressureCurve = (pressureTool: PressureTool, curve: PressureCurve) => {
+    savePressureCurves({ ...pressureCurves, [pressureTool]: curve });
+  };
+
+  // The brush stroke's points since the last event, from the coalesced pointer samples
+  const strokeSamples = useCallback((event: React.PointerEvent): StrokePoint[] => {
+    const curve = tool === 'pen' || tool === 'marker' || tool === 'eraser' ? pressureCurves[tool] : 'off';
+    return pointerSamples(event.nativeEvent).flatMap(sample => {
+      const coords = getCoords(sample);
+      return coords ? [toStrokePoint(coords, sample, curve)] : [];
+    });
+  }, [tool, pressureCurves, getCoords]);
 
-  const drawMarkerPath = useCallback((ctx: CanvasRenderingContext2D, points: Point[]) => {
+  const drawMarkerPath = useCallback((ctx: CanvasRenderingContext2D, points: StrokePoint[]) => {
     if (points.length === 0) return;
 
     ctx.fillStyle = markerColor;
@@ -1729,18 +2469,20 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     
     const angleInRadians = markerRotation * (Math.PI / 180);
 
-    const stamp = (x: number, y: number) => {
+    // A pen's pressure sizes the stamp, and its lean turns it
+    const stamp = (x: number, y: number, point: StrokePoint) => {
+        const size = markerSize * pressureScale(point);
         ctx.save();
         ctx.translate(x, y);
-        ctx.rotate(angleInRadians);
+        ctx.rotate(tiltDirection(point) ?? angleInRadians);
         ctx.beginPath();
         
         if (markerShape === 'rectangle') {
-          const width = markerSize / 3;
-          const height = markerSize;
+          const width = size / 3;
+          const height = size;
           ctx.rect(-width / 2, -height / 2, width, height);
         } else {
-          const radius = markerSize / 2;
+          const radius = size / 2;
           ctx.arc(0, 0, radius, 0, 2 * Math.PI);
         }
         
@@ -1749,7 +2491,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     };
 
     let lastPoint = points[0];
-    stamp(lastPoint.x, lastPoint.y);
+    stamp(lastPoint.x, lastPoint.y, lastPoint);
 
     for (let i = 1; i < points.length; i++) {
         const currentPoint = points[i];
@@ -1762,25 +2504,75 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         for (let d = step; d < dist; d += step) {
             const x = lastPoint.x + Math.cos(pointAngle) * d;
             const y = lastPoint.y + Math.sin(pointAngle) * d;
-            stamp(x, y);
+            stamp(x, y, currentPoint);
+        }
+        
+        stamp(currentPoint.x, currentPoint.y, currentPoint);
+        lastPoint = currentPoint;
+    }
+    
+    ctx.globalAlpha = 1.0;
+  }, [markerColor, markerSize, markerOpacity, markerRotation, markerShape]);
+
+  const draw = useCallback((event: React.PointerEvent) => {
+    const currentCoords = getCoords(event);
+    if (!currentCoords) return;
+
+    if (tool === 'shape_select') {
+        const drag = shapeDragRef.current;
+        if (!drag || !activeLayerId) return;
+        const dx = currentCoords.x - drag.last.x;
+        const dy = currentCoords.y - drag.last.y;
+        drag.last = currentCoords;
+        setLayerShapes(activeLayerId, shapes => shapes.map(shape => {
+            if (shape.id !== drag.shapeId) return shape;
+            return drag.handleIndex === null ? moveShape(shape, dx, dy) : moveShapeHandle(shape, drag.handleIndex, currentCoords);
+        }));
+        return;
+    }
+
+    if (tool === 'pose') {
+        const drag = poseDragRef.current;
+        if (!drag || !activeLayerId) return;
+        const dx = currentCoords.x - drag.last.x;
+        const dy = currentCoords.y - drag.last.y;
+        drag.last = currentCoords;
+        // Shift drags the bone's end nearer to or further from its joint, foreshortening it
+        setLayerSkeletons(activeLayerId, skeletons => skeletons.map(skeleton => {
+            if (skeleton.id !== drag.skeletonId) return skeleton;
+            return drag.bone === null ? moveSkeleton(skeleton, dx, dy) : pointBoneAt(skeleton, drag.bone, currentCoords, event.shiftKey);
+        }));
+        return;
+    }
+
+    if (tool === 'select_rect' || tool === 'select_lasso') {
+        const drag = selectionDragRef.current;
+        if (!drag) return;
+        const { handle } = drag;
+        if (!handle) {
+            setSelectionPath(prev => (tool === 'select_rect' ? rectanglePath(drag.start, currentCoords) : [...(prev ?? []), currentCoords]));
+        } else {
+            setFloatingSelection(prev => prev && {
+                ...prev,
+                corners: transformCorners(drag.corners, handle, drag.start, currentCoords, selectionTransformMode, event.shiftKey),
+            });
         }
-        
-        stamp(currentPoint.x, currentPoint.y);
-        lastPoint = currentPoint;
+        return;
     }
-    
-    ctx.globalAlpha = 1.0;
-  }, [markerColor, markerSize, markerOpacity, markerRotation, markerShape]);
-
-  const draw = useCallback((event: React.MouseEvent | React.TouchEvent) => {
-    const currentCoords = getCoords(event);
-    if (!currentCoords) return;
 
     const isBrushTool = tool === 'pen' || tool === 'eraser' || tool === 'marker';
     if (isBrushTool) {
         if (!isDrawing) return;
         
-        pointsRef.current.push(currentCoords);
+        const samples = strokeSamples(event);
+        const stabilizer = stabilizerRef.current;
+        pointsRef.current.push(...(stabilizer ? samples.flatMap(sample => stabilizer.push(sample)) : samples));
+        if (snapSettings.enabled && tool !== 'eraser' && strokeConstraintRef.current === undefined) {
+            const first = pointsRef.current[0];
+            if (Math.hypot(currentCoords.x - first.x, currentCoords.y - first.y) >= STROKE_SNAP_DISTANCE / zoom) {
+                strokeConstraintRef.current = findConstraint(first, currentCoords, snapTargets, snapSettings, { allowArcs: true, tolerance: SNAP_TOLERANCE / zoom });
+            }
+        }
 
         const previewCtx = previewLineCanvasRef.current?.getContext('2d');
         if (previewCtx && previewLineCanvasRef.current) {
@@ -1788,9 +2580,22 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             
             if (tool === 'pen') {
                 previewCtx.strokeStyle = penColor;
-                drawVariableWidthPath(previewCtx, pointsRef.current, penSize, penSensitivity);
+                drawVariableWidthPath(previewCtx, constrainStroke(pointsRef.current), penSize, penSensitivity);
+                // The lazy brush's rope, from the line's end to the pointer
+                const brush = stabilizer?.brushPosition();
+                if (brush) {
+                    previewCtx.save();
+                    previewCtx.strokeStyle = 'rgba(160, 160, 160, 0.8)';
+                    previewCtx.lineWidth = 1 / zoom;
+                    previewCtx.setLineDash([3 / zoom, 3 / zoom]);
+                    previewCtx.beginPath();
+                    previewCtx.moveTo(brush.x, brush.y);
+                    previewCtx.lineTo(currentCoords.x, currentCoords.y);
+                    previewCtx.stroke();
+                    previewCtx.restore();
+                }
             } else if (tool === 'marker') {
-                drawMarkerPath(previewCtx, pointsRef.current);
+                drawMarkerPath(previewCtx, constrainStroke(pointsRef.current));
             } else if (tool === 'eraser') {
                 previewCtx.strokeStyle = '#000';
                 previewCtx.lineWidth = eraserSize;
@@ -1798,13 +2603,17 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                 previewCtx.lineJoin = 'round';
                 previewCtx.globalCompositeOperation = 'source-over';
                 previewCtx.globalAlpha = 1.0;
-                drawPath(previewCtx, pointsRef.current);
+                drawVariableWidthPath(previewCtx, pointsRef.current, eraserSize, 0);
             }
         }
         return;
     }
     
     if (tool === 'perspective') {
+        if (isDraggingHorizon) {
+            updateActiveGuideSet(set => moveHorizon(set, currentCoords.y - horizonAt(horizonLine(set, canvasDimensions.width), currentCoords.x, canvasDimensions.width)));
+            return;
+        }
         if (!draggingVPId) return;
         setVanishingPoints(prev => prev.map(vp => vp.id === draggingVPId ? { ...vp, x: currentCoords.x, y: currentCoords.y } : vp));
         return;
@@ -1834,13 +2643,14 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         previewLineCtx.lineWidth = penSize;
 
         if (curvePoints.length === 1) { // P1 set, preview line to cursor for P2
+            const p2 = snapFromAnchor(curvePoints[0], currentCoords);
             previewLineCtx.beginPath();
             previewLineCtx.moveTo(curvePoints[0].x, curvePoints[0].y);
-            previewLineCtx.lineTo(currentCoords.x, currentCoords.y);
+            previewLineCtx.lineTo(p2.x, p2.y);
             previewLineCtx.stroke();
         } else if (curvePoints.length === 2) { // P1, P2 are set, previewing with CP1.
             const [p1, p2] = curvePoints;
-            const cp1 = currentCoords;
+            const cp1 = snapFromAnchor(p1, currentCoords);
 
             // Draw helper lines to the first control point
             previewLineCtx.save();
@@ -1860,7 +2670,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             previewLineCtx.stroke();
         } else if (curvePoints.length === 3) { // Have P1, P2, CP1. Cursor is CP2. Preview cubic curve.
             const [p1, p2, cp1] = curvePoints;
-            const cp2 = currentCoords;
+            const cp2 = snapFromAnchor(p2, currentCoords);
 
             previewLineCtx.save(); // Draw helper lines from endpoints to control points
             previewLineCtx.strokeStyle = '#a0a0a0';
@@ -1889,9 +2699,9 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         previewLineCtx.lineCap = 'round';
         previewLineCtx.strokeStyle = penColor;
         previewLineCtx.lineWidth = penSize;
-        const { point: endPoint, snappedVp } = getSnappedLineEndPoint(lineStartPoint, currentCoords);
+        const { start, point: endPoint, snappedVp } = getSnappedLineEndPoint(lineStartPoint, currentCoords);
         previewLineCtx.beginPath();
-        previewLineCtx.moveTo(lineStartPoint.x, lineStartPoint.y);
+        previewLineCtx.moveTo(start.x, start.y);
         previewLineCtx.lineTo(endPoint.x, endPoint.y);
         previewLineCtx.stroke();
 
@@ -1917,31 +2727,58 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
           previewLineCtx.lineCap = 'round';
           previewLineCtx.strokeStyle = penColor;
           previewLineCtx.lineWidth = penSize;
-          drawEllipse(previewLineCtx, ellipseStartPoint, currentCoords);
+          drawSnappedEllipse(previewLineCtx, ellipseStartPoint, currentCoords);
       }
       return;
     }
-  }, [isDrawing, getCoords, tool, draggingVPId, curvePoints, penColor, penSize, penSensitivity, eraserSize, lineStartPoint, ellipseStartPoint, getSnappedLineEndPoint, vanishingPoints, activeVPId, drawMarkerPath, zoom]);
+  }, [isDrawing, getCoords, tool, draggingVPId, isDraggingHorizon, updateActiveGuideSet, setVanishingPoints, curvePoints, penColor, penSize, penSensitivity, eraserSize, lineStartPoint, ellipseStartPoint, getSnappedLineEndPoint, snapFromAnchor, snapSettings, snapTargets, vanishingPoints, activeGuideSet, activeVPId, activeLayerId, setLayerShapes, setLayerSkeletons, drawMarkerPath, strokeSamples, zoom, canvasDimensions, selectionTransformMode]);
 
-  const startDrawing = useCallback((event: React.MouseEvent | React.TouchEvent) => {
-    if (event.altKey && 'button' in event.nativeEvent && (event.nativeEvent as MouseEvent).button === 2) {
+  const startDrawing = useCallback((event: React.PointerEvent) => {
+    if (event.altKey && event.button === 2) {
         event.preventDefault();
         setIsScrubbyZooming(true);
-        panStartRef.current = { x: (event.nativeEvent as MouseEvent).clientX, y: (event.nativeEvent as MouseEvent).clientY };
+        panStartRef.current = { x: event.clientX, y: event.clientY };
         return;
     }
 
-    const isMiddleClick = 'button' in event.nativeEvent && (event.nativeEvent as MouseEvent).button === 1;
+    const isMiddleClick = event.button === 1;
     if (isSpacePressed || isMiddleClick) {
         event.preventDefault();
         setIsPanning(true);
-        const point = 'touches' in event.nativeEvent ? event.nativeEvent.touches[0] : event.nativeEvent as MouseEvent;
-        panStartRef.current = { x: point.clientX, y: point.clientY };
+        panStartRef.current = { x: event.clientX, y: event.clientY };
         return;
     }
 
+    if (event.pointerType === 'touch') {
+        touchPointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+        // A second finger pinches rather than draws, so what the first one started is dropped
+        // before it can become an undo step
+        if (touchPointersRef.current.size > 1) {
+            const isStroke = tool === 'pen' || tool === 'eraser' || tool === 'marker' || tool === 'line' || tool === 'ellipse';
+            if (isDrawing && isStroke && activeLayerId) {
+                revertPixelEdit(activeLayerId);
+                pointsRef.current = [];
+                stabilizerRef.current = null;
+                strokeConstraintRef.current = undefined;
+                const preview = previewLineCanvasRef.current;
+                preview?.getContext('2d')?.clearRect(0, 0, preview.width, preview.height);
+                setLineStartPoint(null);
+                setEllipseStartPoint(null);
+                setIsDrawing(false);
+                redrawPreview();
+            }
+            return;
+        }
+    }
+
     const coords = getCoords(event);
     if (!coords) return;
+    // Locked layers (and layers in locked groups) only take the perspective tool
+    if (isActiveLayerLocked && tool !== 'perspective') return;
+    // Vector layers hold lines only; marker shading goes on sketch layers
+    if (tool === 'marker' && isVectorLayerActive) return;
+    // Pose layers hold mannequins only; character points and guides still work over them
+    if (isPoseLayerActive && tool !== 'pose' && tool !== 'perspective' && tool !== 'point_placer' && tool !== 'point_deleter') return;
     
     const isNewDrawingOperation =
       tool === 'pen' ||
@@ -1951,24 +2788,70 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
       tool === 'line' ||
       (tool === 'curve');
 
-    const isPrimaryAction = 'button' in event.nativeEvent ? (event.nativeEvent as MouseEvent).button === 0 : true;
+    const isPrimaryAction = event.button === 0;
 
-    if (isNewDrawingOperation && isPrimaryAction) {
-      const activeLayer = layers.find(l => l.id === activeLayerId);
-      if (activeLayer) {
-        saveState();
-      }
+    // Vector layers are recorded through their shapes
+    if (isNewDrawingOperation && isPrimaryAction && activeLayerId && !isVectorLayerActive) {
+      beginPixelEdit(activeLayerId, TOOL_EDIT_LABELS[tool] ?? '그리기');
     }
 
-    if ('touches' in event.nativeEvent) {
-        lastTouchesRef.current = event.nativeEvent.touches;
-        if (event.nativeEvent.touches.length > 1) {
-            return;
+    if (tool === 'shape_select') {
+        const activeLayer = layers.find(l => l.id === activeLayerId);
+        if (activeLayer?.type !== 'vector' || !isPrimaryAction) return;
+        const shapes = activeLayer.shapes ?? [];
+        // The selected shape's handles come first, then any shape under the cursor, topmost first
+        const selected = shapes.find(shape => shape.id === selectedShapeId);
+        const handleIndex = selected
+            ? shapeHandles(selected).findIndex(p => Math.hypot(p.x - coords.x, p.y - coords.y) <= (SHAPE_HANDLE_RADIUS + 2) / zoom)
+            : -1;
+        const target = selected && handleIndex >= 0 ? selected : findShapeAt(shapes, coords, SHAPE_HIT_TOLERANCE / zoom);
+        setSelectedShapeId(target?.id ?? null);
+        if (target) {
+            shapeDragRef.current = { shapeId: target.id, handleIndex: handleIndex >= 0 ? handleIndex : null, last: coords };
+            setIsDrawing(true);
         }
+        return;
     }
-    
+
+    if (tool === 'pose') {
+        if (!isPoseLayerActive || !isPrimaryAction) return;
+        const hit = findSkeletonJointAt(activePoseSkeletons, coords, (SHAPE_HANDLE_RADIUS + 2) / zoom);
+        setSelectedSkeletonId(hit?.skeletonId ?? null);
+        setSelectedPoseBone(hit?.bone ?? null);
+        if (hit) {
+            poseDragRef.current = { ...hit, last: coords };
+            setIsDrawing(true);
+        }
+        return;
+    }
+
+    if (tool === 'select_rect' || tool === 'select_lasso') {
+        if (!isPrimaryAction || !activeLayerId || !isSketchLayerActive) return;
+        if (floatingSelection) {
+            const handle = findSelectionHandle(floatingSelection.corners, coords, zoom);
+            if (handle) {
+                selectionDragRef.current = { handle, start: coords, corners: floatingSelection.corners };
+                setIsDrawing(true);
+                return;
+            }
+            commitFloatingSelection();
+        } else if (selectionPath && pointInPolygon(coords, selectionPath)) {
+            // Dragging inside the selection lifts its pixels and moves them
+            const floating = liftActiveSelection();
+            if (floating) {
+                selectionDragRef.current = { handle: { kind: 'move' }, start: coords, corners: floating.corners };
+                setIsDrawing(true);
+                return;
+            }
+        }
+        selectionDragRef.current = { handle: null, start: coords, corners: [] };
+        setSelectionPath([coords]);
+        setIsDrawing(true);
+        return;
+    }
+
     if (tool === 'line') {
-        if ('button' in event.nativeEvent && (event.nativeEvent as MouseEvent).button !== 0) return;
+        if (event.button !== 0) return;
         const ctx = getActiveContext();
         if (ctx) {
             setLineStartPoint(coords);
@@ -1984,36 +2867,37 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         const characterName = activeLayer.name;
         const existingPoint = activeLayer.points?.find(p => p.characterName === characterName);
         
-        const x = (coords.x / canvasDimensions.width) * 100;
-        const y = (coords.y / canvasDimensions.height) * 100;
+        const position = {
+            x: (coords.x / canvasDimensions.width) * 100,
+            y: (coords.y / canvasDimensions.height) * 100,
+        };
 
-        if (existingPoint) {
+        if (existingPoint) { // The layer's character moves here, with its box and head
             setLayers(prev => prev.map(l => {
                 if (l.id !== activeLayerId) return l;
                 return {
                     ...l,
                     points: l.points?.map(p => 
-                        p.id === existingPoint.id
-                            ? { ...p, x: Math.max(0, Math.min(100, x)), y: Math.max(0, Math.min(100, y)) }
-                            : p
+                        p.id === existingPoint.id ? moveCharacterMarker(resolveCharacterMarker(p, canvasDimensions), position) : p
                     )
                 };
             }));
+            setSelectedPointId(existingPoint.id);
         } else {
-            const newPoint: CharacterPoint = {
-              id: Date.now(),
-              x: Math.max(0, Math.min(100, x)),
-              y: Math.max(0, Math.min(100, y)),
-              characterName: characterName,
-              radius: 15,
-              color: generateRandomColor(),
-            };
+            const newPoint: CharacterPoint = createCharacterMarker({
+                characterName,
+                center: position,
+                color: generateRandomColor(),
+                depth: nextMarkerDepth(layers.flatMap(l => l.points ?? [])),
+                size: canvasDimensions,
+            });
             
             setLayers(prev => prev.map(l => 
                 l.id === activeLayerId 
                     ? { ...l, points: [...(l.points || []), newPoint] }
                     : l
             ));
+            setSelectedPointId(newPoint.id);
         }
         debouncedOnCanvasChange();
         return;
@@ -2022,17 +2906,23 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     const isBrushTool = tool === 'pen' || tool === 'eraser' || tool === 'marker';
     if (isBrushTool) {
         setIsDrawing(true);
-        pointsRef.current = [coords];
+        pointsRef.current = [toStrokePoint(coords, event.nativeEvent, pressureCurves[tool])];
+        stabilizerRef.current = tool === 'pen' ? createStabilizer(stabilizerSettings, pointsRef.current[0], zoom) : null;
+        strokeConstraintRef.current = undefined;
         return;
     }
 
     if (tool === 'perspective') {
+        if (!activeGuideSet || activeGuideSet.isLocked || !activeGuideSet.isVisible) return;
         const HIT_RADIUS = 15 / zoom;
         const clickedVP = vanishingPoints.find(vp => Math.hypot(coords.x - vp.x, coords.y - vp.y) < HIT_RADIUS);
+        const horizonY = horizonAt(horizonLine(activeGuideSet, canvasDimensions.width), coords.x, canvasDimensions.width);
         if (clickedVP) {
             setActiveVPId(clickedVP.id);
             setDraggingVPId(clickedVP.id);
-        } else {
+        } else if (Math.abs(coords.y - horizonY) < HIT_RADIUS / 2) {
+            setIsDraggingHorizon(true);
+        } else if (activeGuideSet.mode === 'linear' && vanishingPoints.length < MAX_VANISHING_POINTS) {
             const newVP = { id: Date.now(), x: coords.x, y: coords.y };
             setVanishingPoints(prev => [...prev, newVP]);
             setActiveVPId(newVP.id);
@@ -2044,9 +2934,11 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     if (tool === 'curve') {
         if (curvePoints.length === 3) { // On 4th click, complete the curve
             const ctx = getActiveContext();
-            if (ctx) {
-                const [start, end, cp1] = curvePoints;
-                const cp2 = coords;
+            const [start, end, cp1] = curvePoints;
+            const cp2 = snapFromAnchor(end, coords);
+            if (isVectorLayerActive) {
+                addShapeToActiveLayer({ kind: 'curve', points: [start, cp1, cp2, end], color: penColor, width: penSize });
+            } else if (ctx) {
                 ctx.beginPath();
                 ctx.moveTo(start.x, start.y);
                 ctx.bezierCurveTo(cp1.x, cp1.y, cp2.x, cp2.y, end.x, end.y);
@@ -2055,11 +2947,12 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             const previewLineCtx = previewLineCanvasRef.current?.getContext('2d');
             previewLineCtx?.clearRect(0, 0, previewLineCanvasRef.current!.width, previewLineCanvasRef.current!.height);
             setCurvePoints([]);
-            saveState();
+            commitPixelEdits();
             redrawPreview();
             debouncedOnCanvasChange();
         } else { // Collect points for the curve
-            setCurvePoints(prev => [...prev, coords]);
+            // P2 and CP1 are snapped from P1
+            setCurvePoints(prev => [...prev, prev.length > 0 ? snapFromAnchor(prev[0], coords) : coords]);
         }
         return;
     }
@@ -2071,7 +2964,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             setEllipseStartPoint(coords);
         }
     }
-  }, [getCoords, tool, zoom, vanishingPoints, curvePoints, getActiveContext, saveState, redrawPreview, debouncedOnCanvasChange, isSpacePressed, layers, activeLayerId, canvasDimensions]);
+  }, [getCoords, tool, zoom, vanishingPoints, activeGuideSet, setVanishingPoints, curvePoints, snapFromAnchor, getActiveContext, beginPixelEdit, commitPixelEdits, revertPixelEdit, isDrawing, redrawPreview, debouncedOnCanvasChange, isSpacePressed, layers, activeLayerId, canvasDimensions, isVectorLayerActive, isPoseLayerActive, isSketchLayerActive, selectedShapeId, activePoseSkeletons, addShapeToActiveLayer, penColor, penSize, pressureCurves, stabilizerSettings, floatingSelection, selectionPath, commitFloatingSelection, liftActiveSelection, isActiveLayerLocked]);
 
   const drawEllipse = (ctx: CanvasRenderingContext2D, start: {x: number, y: number}, end: {x: number, y: number}) => {
     const radiusX = Math.abs(end.x - start.x) / 2;
@@ -2086,18 +2979,42 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     ctx.stroke();
   };
 
-  const stopDrawing = useCallback((event: React.MouseEvent | React.TouchEvent) => {
+  // With snapping on, the ellipse is a circle on the chosen perspective plane when the vanishing points allow one
+  const perspectiveEllipseOutline = (start: Point, end: Point): Point[] | null =>
+    snapSettings.enabled && activeGuideSet?.isVisible
+        ? perspectiveEllipse(start, end, vanishingPoints, snapSettings.ellipsePlane)
+        : null;
+
+  const drawSnappedEllipse = (ctx: CanvasRenderingContext2D, start: Point, end: Point) => {
+    const outline = perspectiveEllipseOutline(start, end);
+    if (!outline) {
+        drawEllipse(ctx, start, end);
+        return;
+    }
+    ctx.beginPath();
+    outline.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    ctx.closePath();
+    ctx.stroke();
+  };
+
+  const stopDrawing = useCallback((event: React.PointerEvent) => {
+    touchPointersRef.current.delete(event.pointerId);
     if (tool === 'line') {
         if (!isDrawing || !lineStartPoint) return;
         const ctx = getActiveContext();
         const currentCoords = getCoords(event);
         if (ctx && currentCoords) {
-            const { point: endPoint } = getSnappedLineEndPoint(lineStartPoint, currentCoords);
-            ctx.beginPath();
-            ctx.moveTo(lineStartPoint.x, lineStartPoint.y);
-            ctx.lineTo(endPoint.x, endPoint.y);
-            ctx.stroke();
+            const { start, point: endPoint } = getSnappedLineEndPoint(lineStartPoint, currentCoords);
+            if (isVectorLayerActive) {
+                addShapeToActiveLayer({ kind: 'line', points: [start, endPoint], color: penColor, width: penSize });
+            } else {
+                ctx.beginPath();
+                ctx.moveTo(start.x, start.y);
+                ctx.lineTo(endPoint.x, endPoint.y);
+                ctx.stroke();
+            }
         }
+        commitPixelEdits();
         const previewLineCtx = previewLineCanvasRef.current?.getContext('2d');
         previewLineCtx?.clearRect(0, 0, previewLineCanvasRef.current!.width, previewLineCanvasRef.current!.height);
         setIsDrawing(false);
@@ -2107,11 +3024,16 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         return;
     }
     
-    if (resizingPoint) {
-        setResizingPoint(null);
-        debouncedOnCanvasChange();
-    }
     if (draggingPoint) {
+        if (draggingPoint.handle === 'eyeLine') { // Dropped on another character's head, it follows that character
+            const others = layers.flatMap(l => l.points ?? []);
+            setLayers(prev => prev.map(l => (l.id !== draggingPoint.layerId ? l : {
+                ...l,
+                points: l.points?.map(p => (p.id === draggingPoint.pointId
+                    ? snapEyeLineTarget(resolveCharacterMarker(p, canvasDimensions), others, canvasDimensions, MARKER_SNAP_DISTANCE / zoom)
+                    : p)),
+            })));
+        }
         setDraggingPoint(null);
         debouncedOnCanvasChange();
     }
@@ -2123,29 +3045,69 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         setIsPanning(false);
     }
     
-    if ('touches' in event.nativeEvent) {
-        lastTouchesRef.current = event.nativeEvent.touches;
+    if (tool === 'select_rect' || tool === 'select_lasso') {
+        const drag = selectionDragRef.current;
+        selectionDragRef.current = null;
+        setIsDrawing(false);
+        // A click without a drag clears the selection
+        if (drag && !drag.handle) setSelectionPath(prev => (prev && isUsableSelection(prev) ? prev : null));
+        return;
     }
-    
+
+    if (tool === 'shape_select') {
+        if (shapeDragRef.current) {
+            shapeDragRef.current = null;
+            setIsDrawing(false);
+            debouncedOnCanvasChange();
+        }
+        return;
+    }
+
+    if (tool === 'pose') {
+        if (poseDragRef.current) {
+            poseDragRef.current = null;
+            setIsDrawing(false);
+            debouncedOnCanvasChange();
+        }
+        return;
+    }
+
     const isBrushTool = tool === 'pen' || tool === 'eraser' || tool === 'marker';
 
     if (isBrushTool) {
         if (!isDrawing) return;
         
+        if (stabilizerRef.current) {
+            pointsRef.current.push(...stabilizerRef.current.finish());
+            stabilizerRef.current = null;
+        }
+        if (tool === 'pen' && stabilizerSettings.lineCorrection) {
+            pointsRef.current = correctStroke(pointsRef.current, stabilizerSettings.strength);
+        }
+
         const ctx = getActiveContext();
-        if (ctx) {
+        if (isVectorLayerActive && activeLayerId) {
+            if (tool === 'pen') {
+                addShapeToActiveLayer({ kind: 'stroke', points: constrainStroke(pointsRef.current), color: penColor, width: penSize, sensitivity: penSensitivity });
+            } else if (tool === 'eraser') { // Erases whole shapes
+                const touched = shapesTouchedBy(layers.find(l => l.id === activeLayerId)?.shapes ?? [], pointsRef.current, eraserSize / 2);
+                editLabelRef.current = TOOL_EDIT_LABELS.eraser!;
+                setLayerShapes(activeLayerId, shapes => shapes.filter(shape => !touched.has(shape.id)));
+            }
+        } else if (ctx) {
             if (tool === 'pen') {
                 ctx.strokeStyle = penColor;
-                drawVariableWidthPath(ctx, pointsRef.current, penSize, penSensitivity);
+                drawVariableWidthPath(ctx, constrainStroke(pointsRef.current), penSize, penSensitivity);
             } else if (tool === 'marker') {
-                drawMarkerPath(ctx, pointsRef.current);
+                drawMarkerPath(ctx, constrainStroke(pointsRef.current));
             } else { // eraser
                 ctx.globalCompositeOperation = 'destination-out';
                 ctx.lineWidth = eraserSize;
                 ctx.lineCap = 'round';
                 ctx.lineJoin = 'round';
-                drawPath(ctx, pointsRef.current);
+                drawVariableWidthPath(ctx, pointsRef.current, eraserSize, 0);
             }
+            commitPixelEdits();
         }
 
         const previewCtx = previewLineCanvasRef.current?.getContext('2d');
@@ -2154,6 +3116,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         }
 
         pointsRef.current = [];
+        strokeConstraintRef.current = undefined;
         setIsDrawing(false);
         redrawPreview();
         debouncedOnCanvasChange();
@@ -2162,6 +3125,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
       
     if (tool === 'perspective') {
         setDraggingVPId(null);
+        setIsDraggingHorizon(false);
         return;
     }
     
@@ -2175,41 +3139,73 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     if (tool === 'ellipse' && ellipseStartPoint && currentCoords && ctx) {
         const previewLineCtx = previewLineCanvasRef.current?.getContext('2d');
         previewLineCtx?.clearRect(0, 0, previewLineCanvasRef.current!.width, previewLineCanvasRef.current!.height);
-        drawEllipse(ctx, ellipseStartPoint, currentCoords);
+        if (isVectorLayerActive) {
+            const outline = perspectiveEllipseOutline(ellipseStartPoint, currentCoords);
+            addShapeToActiveLayer(outline
+                ? { kind: 'polygon', points: outline, color: penColor, width: penSize }
+                : { kind: 'ellipse', points: [ellipseStartPoint, currentCoords], color: penColor, width: penSize });
+        } else {
+            drawSnappedEllipse(ctx, ellipseStartPoint, currentCoords);
+        }
     }
+    commitPixelEdits();
     
     setIsDrawing(false);
     setLineStartPoint(null);
     setEllipseStartPoint(null);
     redrawPreview();
     debouncedOnCanvasChange();
-  }, [isDrawing, redrawPreview, debouncedOnCanvasChange, getActiveContext, tool, ellipseStartPoint, markerColor, markerOpacity, getCoords, isPanning, isScrubbyZooming, drawMarkerPath, penColor, penSize, penSensitivity, eraserSize, draggingPoint, resizingPoint, lineStartPoint, getSnappedLineEndPoint]);
+  }, [isDrawing, redrawPreview, debouncedOnCanvasChange, getActiveContext, tool, ellipseStartPoint, markerColor, markerOpacity, getCoords, isPanning, isScrubbyZooming, drawMarkerPath, penColor, penSize, penSensitivity, eraserSize, draggingPoint, lineStartPoint, getSnappedLineEndPoint, snapSettings, vanishingPoints, activeGuideSet, isVectorLayerActive, activeLayerId, layers, canvasDimensions, zoom, addShapeToActiveLayer, setLayerShapes, stabilizerSettings, commitPixelEdits]);
   
-  const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (resizingPoint) {
-        const dx = e.clientX - resizingPoint.startMouseX;
-        const realDx = dx / zoom;
-        let newRadiusPixels = resizingPoint.startRadiusPixels + realDx;
-        newRadiusPixels = Math.max(20, newRadiusPixels);
-        const newRadiusPercent = (newRadiusPixels / canvasDimensions.width) * 100;
+  const handlePointerMove = useCallback((e: React.PointerEvent) => {
+    const touches = touchPointersRef.current;
+    if (e.pointerType === 'touch' && touches.has(e.pointerId)) {
+        const [firstId, secondId] = Array.from(touches.keys());
+        const last1 = touches.get(firstId);
+        const last2 = secondId !== undefined ? touches.get(secondId) : undefined;
+        touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        if (last1 && last2) {
+            if (e.pointerId !== firstId && e.pointerId !== secondId) return;
+            const t1 = touches.get(firstId)!;
+            const t2 = touches.get(secondId)!;
+
+            const newDist = Math.hypot(t1.x - t2.x, t1.y - t2.y);
+            const lastDist = Math.hypot(last1.x - last2.x, last1.y - last2.y);
+
+            const newMidpoint = { x: (t1.x + t2.x) / 2, y: (t1.y + t2.y) / 2 };
+            const lastMidpoint = { x: (last1.x + last2.x) / 2, y: (last1.y + last2.y) / 2 };
+
+            const panDx = newMidpoint.x - lastMidpoint.x;
+            const panDy = newMidpoint.y - lastMidpoint.y;
+
+            const zoomFactor = lastDist > 0 ? newDist / lastDist : 1;
+
+            const container = canvasContainerRef.current;
+            if (!container) return;
+            const rect = container.getBoundingClientRect();
+            const midpointInContainer = { x: newMidpoint.x - rect.left, y: newMidpoint.y - rect.top };
+
+            const newPan = { x: pan.x + panDx, y: pan.y + panDy };
+            const newZoom = zoom * zoomFactor;
+            const clampedZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, newZoom));
 
-        setLayers(prevLayers => prevLayers.map(l => {
-            if (l.id !== resizingPoint.layerId) return l;
-            return {
-                ...l,
-                points: l.points?.map(p => 
-                    p.id === resizingPoint.pointId ? { ...p, radius: newRadiusPercent } : p
-                )
-            };
-        }));
-        return;
+            const dxFromZoom = (midpointInContainer.x - newPan.x) * (1 - clampedZoom / zoom);
+            const dyFromZoom = (midpointInContainer.y - newPan.y) * (1 - clampedZoom / zoom);
+
+            setZoom(clampedZoom);
+            setPan({ x: newPan.x + dxFromZoom, y: newPan.y + dyFromZoom });
+            return;
+        }
     }
+
     if (draggingPoint) {
         const coords = getCoords(e);
         if (!coords) return;
         
-        const newX = (coords.x / canvasDimensions.width) * 100;
-        const newY = (coords.y / canvasDimensions.height) * 100;
+        const position = {
+            x: (coords.x / canvasDimensions.width) * 100,
+            y: (coords.y / canvasDimensions.height) * 100,
+        };
 
         setLayers(prevLayers => prevLayers.map(l => {
             if (l.id !== draggingPoint.layerId) return l;
@@ -2217,11 +3213,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                 ...l,
                 points: l.points?.map(p => {
                     if (p.id !== draggingPoint.pointId) return p;
-                    return {
-                        ...p,
-                        x: Math.max(0, Math.min(100, newX)),
-                        y: Math.max(0, Math.min(100, newY)),
-                    };
+                    return dragCharacterMarker(resolveCharacterMarker(p, canvasDimensions), draggingPoint.handle, position);
                 })
             };
         }));
@@ -2258,7 +3250,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         (tool === 'line' && lineStartPoint) ||
         (tool === 'curve' && curvePoints.length > 0) ||
         (tool === 'ellipse' && ellipseStartPoint) ||
-        (tool === 'perspective' && draggingVPId !== null);
+        (tool === 'perspective' && (draggingVPId !== null || isDraggingHorizon));
 
     if (needsPreview) {
         draw(e);
@@ -2271,53 +3263,10 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         } else if (tool === 'point_placer' || tool === 'point_deleter') {
             container.style.cursor = 'crosshair';
         } else {
-            container.style.cursor = tool === 'perspective' ? 'default' : 'crosshair';
+            container.style.cursor = tool === 'perspective' || tool === 'shape_select' || tool === 'pose' ? 'default' : 'crosshair';
         }
     }
-  }, [draw, isDrawing, tool, isPanning, isScrubbyZooming, isSpacePressed, lineStartPoint, curvePoints, ellipseStartPoint, draggingVPId, draggingPoint, getCoords, canvasDimensions, resizingPoint, zoom]);
-
-  const handleTouchMove = useCallback((e: React.TouchEvent) => {
-    e.preventDefault();
-    const touchEvent = e.nativeEvent as TouchEvent;
-    
-    if (touchEvent.touches.length >= 2 && lastTouchesRef.current && lastTouchesRef.current.length >= 2) {
-        const t1 = touchEvent.touches[0];
-        const t2 = touchEvent.touches[1];
-        const lastT1 = lastTouchesRef.current[0];
-        const lastT2 = lastTouchesRef.current[1];
-        
-        const newDist = Math.hypot(t1.clientX - t2.clientX, t1.clientY - t2.clientY);
-        const lastDist = Math.hypot(lastT1.clientX - lastT2.clientX, lastT1.clientY - lastT2.clientY);
-        
-        const newMidpoint = { x: (t1.clientX + t2.clientX) / 2, y: (t1.clientY + t2.clientY) / 2 };
-        const lastMidpoint = { x: (lastT1.clientX + lastT2.clientX) / 2, y: (lastT1.clientY + lastT2.clientY) / 2 };
-        
-        const panDx = newMidpoint.x - lastMidpoint.x;
-        const panDy = newMidpoint.y - lastMidpoint.y;
-
-        const zoomFactor = lastDist > 0 ? newDist / lastDist : 1;
-
-        const container = canvasContainerRef.current;
-        if (!container) return;
-        const rect = container.getBoundingClientRect();
-        const midpointInContainer = { x: newMidpoint.x - rect.left, y: newMidpoint.y - rect.top };
-        
-        const newPan = { x: pan.x + panDx, y: pan.y + panDy };
-        const newZoom = zoom * zoomFactor;
-        const clampedZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, newZoom));
-        
-        const dxFromZoom = (midpointInContainer.x - newPan.x) * (1 - clampedZoom / zoom);
-        const dyFromZoom = (midpointInContainer.y - newPan.y) * (1 - clampedZoom / zoom);
-
-        setZoom(clampedZoom);
-        setPan({ x: newPan.x + dxFromZoom, y: newPan.y + dyFromZoom });
-
-    } else if (touchEvent.touches.length === 1 && isDrawing) {
-        draw(e);
-    }
-    
-    lastTouchesRef.current = touchEvent.touches;
-  }, [isDrawing, draw, pan, zoom]);
+  }, [draw, isDrawing, tool, isPanning, isScrubbyZooming, isSpacePressed, lineStartPoint, curvePoints, ellipseStartPoint, draggingVPId, isDraggingHorizon, draggingPoint, getCoords, canvasDimensions, pan, zoom]);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -2331,6 +3280,25 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
           setIsSpacePressed(true);
       }
 
+      if (isSelectionTool && (floatingSelection || selectionPath)) {
+        if (e.key === 'Escape') {
+            e.preventDefault();
+            if (floatingSelection) cancelFloatingSelection();
+            else setSelectionPath(null);
+            return;
+        }
+        if (e.key === 'Enter' && floatingSelection) {
+            e.preventDefault();
+            commitFloatingSelection();
+            return;
+        }
+        if (e.key === 'Delete' || e.key === 'Backspace') {
+            e.preventDefault();
+            deleteSelection();
+            return;
+        }
+      }
+
       if (e.key === 'Escape') {
         if (lineStartPoint) {
             setLineStartPoint(null);
@@ -2343,6 +3311,18 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         previewLineCtx?.clearRect(0, 0, previewLineCanvasRef.current!.width, previewLineCanvasRef.current!.height);
       }
       
+      if ((e.key === 'Delete' || e.key === 'Backspace') && tool === 'shape_select' && selectedShapeId !== null) {
+        e.preventDefault();
+        deleteSelectedShape();
+        return;
+      }
+
+      if ((e.key === 'Delete' || e.key === 'Backspace') && tool === 'pose' && selectedSkeletonId !== null) {
+        e.preventDefault();
+        deleteSelectedSkeleton();
+        return;
+      }
+
       if ((e.key === 'Delete' || e.key === 'Backspace') && activeVPId) {
         e.preventDefault();
         setVanishingPoints(vps => vps.filter(vp => vp.id !== activeVPId));
@@ -2352,7 +3332,22 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
       
       const isCtrlOrCmd = e.ctrlKey || e.metaKey;
 
-      if (isCtrlOrCmd && e.key.toLowerCase() === 'z') {
+      if (isCtrlOrCmd && (e.key.toLowerCase() === 'c' || e.key.toLowerCase() === 'x') && isSelectionTool) {
+        if (copySelection()) {
+            e.preventDefault();
+            if (e.key.toLowerCase() === 'x') deleteSelection();
+        }
+      } else if (isCtrlOrCmd && e.key.toLowerCase() === 'v' && selectionClipboardRef.current) {
+        e.preventDefault();
+        pasteSelection();
+      } else if (isCtrlOrCmd && e.key.toLowerCase() === 'a' && isSelectionTool) {
+        e.preventDefault();
+        commitFloatingSelection();
+        setSelectionPath(rectanglePath({ x: 0, y: 0 }, { x: canvasDimensions.width, y: canvasDimensions.height }));
+      } else if (isCtrlOrCmd && e.key.toLowerCase() === 'd' && isSelectionTool) {
+        e.preventDefault();
+        deselect();
+      } else if (isCtrlOrCmd && e.key.toLowerCase() === 'z') {
         e.preventDefault();
         if (e.shiftKey) {
           handleRedo();
@@ -2406,19 +3401,35 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [handleUndo, handleRedo, activeVPId, tool, lineStartPoint, curvePoints, ellipseStartPoint]);
+  }, [handleUndo, handleRedo, activeVPId, setVanishingPoints, tool, lineStartPoint, curvePoints, ellipseStartPoint, selectedShapeId, deleteSelectedShape, selectedSkeletonId, deleteSelectedSkeleton, isSelectionTool, floatingSelection, selectionPath, cancelFloatingSelection, commitFloatingSelection, deleteSelection, copySelection, pasteSelection, deselect, canvasDimensions]);
   
   const clearActiveLayer = useCallback(() => {
+    if (isActiveLayerLocked) return;
+    if (isVectorLayerActive && activeLayerId) {
+      editLabelRef.current = '레이어 지우기';
+      setLayerShapes(activeLayerId, () => []);
+      setSelectedShapeId(null);
+      debouncedOnCanvasChange();
+      return;
+    }
+    if (isPoseLayerActive && activeLayerId) {
+      editLabelRef.current = '레이어 지우기';
+      setLayerSkeletons(activeLayerId, () => []);
+      setSelectedSkeletonId(null);
+      setSelectedPoseBone(null);
+      debouncedOnCanvasChange();
+      return;
+    }
     const ctx = getActiveContext();
     const canvas = activeLayerId ? canvasRefs.current[activeLayerId] : null;
-    if (canvas && ctx) {
-      saveState();
+    if (canvas && ctx && activeLayerId) {
+      beginPixelEdit(activeLayerId, '레이어 지우기');
       ctx.clearRect(0, 0, canvas.width, canvas.height);
-      saveState();
+      commitPixelEdits();
       redrawPreview();
       debouncedOnCanvasChange();
     }
-  }, [getActiveContext, activeLayerId, redrawPreview, saveState, debouncedOnCanvasChange]);
+  }, [getActiveContext, activeLayerId, isVectorLayerActive, isPoseLayerActive, isActiveLayerLocked, setLayerShapes, setLayerSkeletons, redrawPreview, beginPixelEdit, commitPixelEdits, debouncedOnCanvasChange]);
   
   const handleZoomButtonClick = (direction: 'in' | 'out') => {
     const container = canvasContainerRef.current;
@@ -2483,23 +3494,19 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
     });
   }, []);
 
+  // A group is deleted with everything in it; at least one layer to draw on is kept
   const deleteLayer = useCallback((id: number) => {
     setLayers(prevLayers => {
-        if (prevLayers.length <= 1) {
+        const removed = new Set([id, ...descendantIds(prevLayers, id)]);
+        const newLayers = prevLayers.filter(l => !removed.has(l.id));
+        if (!newLayers.some(l => l.type !== 'group')) {
             return prevLayers;
         }
         
-        setHistory(prev => {
-            const newHistory = { ...prev };
-            delete newHistory[id];
-            return newHistory;
-        });
-        
         const layerIndex = prevLayers.findIndex(l => l.id === id);
-        const newLayers = prevLayers.filter(l => l.id !== id);
         
-        if (activeLayerId === id) {
-          setActiveLayerId(newLayers[Math.max(0, layerIndex - 1)]?.id || null);
+        if (activeLayerId !== null && removed.has(activeLayerId)) {
+          setActiveLayerId(newLayers[Math.max(0, layerIndex - removed.size)]?.id || null);
         }
         return newLayers;
     });
@@ -2513,68 +3520,153 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
       debouncedOnCanvasChange();
   }, [debouncedOnCanvasChange]);
 
-  const handlePointMouseDown = (e: React.MouseEvent, layerId: number, pointId: number) => {
+  const handlePointMouseDown = (e: React.MouseEvent, layerId: number, pointId: number, handle: MarkerHandle = 'center') => {
       if (e.button !== 0) return;
       e.preventDefault();
       e.stopPropagation();
-      setDraggingPoint({ layerId, pointId });
+      setSelectedPointId(pointId);
+      setDraggingPoint({ layerId, pointId, handle });
   };
-  
-  const handlePointResizeStart = (e: React.MouseEvent, layerId: number, pointId: number) => {
-    if (e.button !== 0) return;
-    e.preventDefault();
-    e.stopPropagation();
 
-    const pointToResize = layers.find(l => l.id === layerId)?.points?.find(p => p.id === pointId);
-    if (!pointToResize) return;
+  const updateSelectedPoint = useCallback((update: (marker: CharacterMarker) => CharacterPoint) => {
+      setLayers(prev => prev.map(l => (l.points?.some(p => p.id === selectedPointId) ? {
+          ...l,
+          points: l.points.map(p => (p.id === selectedPointId ? update(resolveCharacterMarker(p, canvasDimensions)) : p)),
+      } : l)));
+      debouncedOnCanvasChange();
+  }, [selectedPointId, canvasDimensions, debouncedOnCanvasChange]);
+  
+  const moveLayer = useCallback((id: number, direction: 'up' | 'down') => {
+    setLayers(prev => stepLayerInTree(prev, id, direction));
+  }, []);
 
-    setResizingPoint({
-        layerId,
-        pointId,
-        startMouseX: e.clientX,
-        startRadiusPixels: (pointToResize.radius / 100) * canvasDimensions.width,
-    });
-  };
+  const moveLayerTo = useCallback((id: number, targetId: number, placement: LayerDropPlacement) => {
+    setLayers(prev => moveLayerInTree(prev, id, targetId, placement));
+  }, []);
 
-  const moveLayer = useCallback((id: number, direction: 'up' | 'down') => {
-    setLayers(prev => {
-        const index = prev.findIndex(l => l.id === id);
-        if ((direction === 'up' && index >= prev.length - 1) || (direction === 'down' && index <= 0)) {
-            return prev;
-        }
-        const newLayers = [...prev];
-        const targetIndex = direction === 'up' ? index + 1 : index - 1;
-        [newLayers[index], newLayers[targetIndex]] = [newLayers[targetIndex], newLayers[index]];
-        return newLayers;
-    });
+  const toggleLayerFlag = useCallback((id: number, flag: 'isLocked' | 'isClipped' | 'isCollapsed') => {
+    setLayers(prev => prev.map(l => (l.id === id ? { ...l, [flag]: !l[flag] } : l)));
   }, []);
 
+  // Why a layer cannot be merged into the one below it, or null when it can
+  const mergeDownBlocker = (layer: Layer): string | null => {
+    const below = siblingBelow(layers, layer);
+    if (!below) return '아래에 병합할 레이어가 없습니다';
+    if (below.type === 'group') return '그룹에는 병합할 수 없습니다';
+    if (below.type === 'vector' && layer.type !== 'vector') return '벡터 레이어에는 래스터 레이어를 병합할 수 없습니다';
+    if (below.type === 'pose' && layer.type !== 'pose') return '포즈 레이어에는 포즈 레이어만 병합할 수 있습니다';
+    if (isLayerLocked(layers, layer.id) || isLayerLocked(layers, below.id)) return '잠긴 레이어는 병합할 수 없습니다';
+    return null;
+  };
+
+  // A group is flattened into the layer below; its settei images and points go along
   const mergeLayerDown = (id: number) => {
-    const index = layers.findIndex(l => l.id === id);
-    if (index <= 0) return;
-    const topLayer = layers[index];
-    const bottomLayer = layers[index - 1];
+    const topLayer = layers.find(l => l.id === id);
+    if (!topLayer || mergeDownBlocker(topLayer)) return;
+    const bottomLayer = siblingBelow(layers, topLayer)!;
+    const mergedIds = new Set([id, ...descendantIds(layers, id)]);
+    const merged = layers.filter(l => mergedIds.has(l.id));
+    const carryOver = () => setLayers(prev => prev.map(l => (l.id === bottomLayer.id ? {
+        ...l,
+        points: [...(l.points ?? []), ...merged.flatMap(m => m.points ?? [])],
+        setteiImages: [...(l.setteiImages ?? []), ...merged.flatMap(m => m.setteiImages ?? [])],
+    } : l)));
+
+    if (bottomLayer.type === 'vector') {
+        // Shapes can be merged into a vector layer, pixels cannot
+        if (topLayer.type !== 'vector') return;
+        editLabelRef.current = '아래 레이어와 병합';
+        setLayerShapes(bottomLayer.id, shapes => [...shapes, ...(topLayer.shapes ?? [])]);
+        carryOver();
+        deleteLayer(id);
+        setActiveLayerId(bottomLayer.id);
+        return;
+    }
+
+    if (bottomLayer.type === 'pose') { // The mannequins move over, as they are
+        editLabelRef.current = '아래 레이어와 병합';
+        setLayerSkeletons(bottomLayer.id, skeletons => [...skeletons, ...(topLayer.skeletons ?? [])]);
+        carryOver();
+        deleteLayer(id);
+        setActiveLayerId(bottomLayer.id);
+        return;
+    }
 
-    const topCanvas = canvasRefs.current[topLayer.id];
+    const layerSource = (layer: Layer) => canvasRefs.current[layer.id];
     const bottomCanvas = canvasRefs.current[bottomLayer.id];
-    const bottomCtx = bottomCanvas?.getContext('2d');
-    if (topCanvas && bottomCtx) {
-        saveState(); // Save state before merge
-        bottomCtx.globalAlpha = 1.0;
-        bottomCtx.globalCompositeOperation = topLayer.blendMode;
-        bottomCtx.drawImage(topCanvas, 0, 0);
-        bottomCtx.globalCompositeOperation = 'source-over';
-        redrawPreview();
+    const bottomCtx = bottomCanvas?.getContext('2d', { willReadFrequently: true });
+    // Clipped to the layer below, the top layer only lands on its pixels
+    const result = topLayer.isClipped && !bottomLayer.isClipped
+        ? flattenClipStack(layers, { base: bottomLayer, clipped: [topLayer] }, layerSource, canvasDimensions)
+        : flattenClipStack(layers, { base: topLayer, clipped: [] }, layerSource, canvasDimensions);
+    if (result && bottomCanvas && bottomCtx) {
+        beginPixelEdit(bottomLayer.id, '아래 레이어와 병합');
+        if (topLayer.isClipped && !bottomLayer.isClipped) {
+            bottomCtx.clearRect(0, 0, bottomCanvas.width, bottomCanvas.height);
+            bottomCtx.drawImage(result, 0, 0);
+        } else {
+            bottomCtx.globalAlpha = topLayer.opacity;
+            bottomCtx.globalCompositeOperation = topLayer.blendMode;
+            bottomCtx.drawImage(result, 0, 0);
+            bottomCtx.globalAlpha = 1.0;
+            bottomCtx.globalCompositeOperation = 'source-over';
+        }
+        commitPixelEdits();
+        carryOver();
         deleteLayer(id);
-        const currentActive = activeLayerId;
         setActiveLayerId(bottomLayer.id);
-        setTimeout(() => {
-            saveState(); // Save state after merge
-            setActiveLayerId(currentActive === id ? bottomLayer.id : currentActive);
-        }, 0);
     }
   };
 
+  const allCharacterPoints = layers.flatMap(l => l.points ?? []);
+  const selectedPoint = allCharacterPoints.find(point => point.id === selectedPointId);
+  const selectedMarker = selectedPoint ? resolveCharacterMarker(selectedPoint, canvasDimensions) : null;
+
+  // The panel lists the tree top first, with collapsed groups' children left out
+  const layerPanelRows = useMemo(() => {
+    const rows: { layer: Layer; depth: number }[] = [];
+    const visit = (parentId: number | null, depth: number) => childrenOf<Layer>(layers, parentId).slice().reverse().forEach(layer => {
+        rows.push({ layer, depth });
+        if (layer.type === 'group' && !layer.isCollapsed) visit(layer.id, depth + 1);
+    });
+    visit(null, 0);
+    return rows;
+  }, [layers]);
+
+  // Every shown layer becomes one sketch layer, in place of the lowest; hidden layers are kept
+  const shownLayers = layers.filter(l => isLayerShown(layers, l));
+  const flattenBlocker = shownLayers.filter(l => l.type !== 'group').length < 2
+    ? '병합할 보이는 레이어가 둘 이상 있어야 합니다'
+    : shownLayers.some(l => isLayerLocked(layers, l.id)) ? '잠긴 레이어가 있어 병합할 수 없습니다' : null;
+
+  const flattenVisibleLayers = () => {
+    if (flattenBlocker) return;
+    const newId = Date.now();
+    const removed = new Set<number>(shownLayers.map(l => l.id));
+    const flattenedCanvas = flattenLayerTree(layers, layer => canvasRefs.current[layer.id], canvasDimensions);
+    const flattenedImage = flattenedCanvas.getContext('2d')?.getImageData(0, 0, flattenedCanvas.width, flattenedCanvas.height);
+    if (flattenedImage) pendingSketchesRef.current.set(newId, [{ x: 0, y: 0, image: flattenedImage }]);
+    const flattened: Layer = {
+        id: newId,
+        name: `레이어 ${layerCounter}`,
+        isVisible: true,
+        blendMode: 'source-over',
+        opacity: 1,
+        type: 'sketch',
+        points: shownLayers.flatMap(l => l.points ?? []),
+        setteiImages: shownLayers.flatMap(l => l.setteiImages ?? []),
+    };
+    setLayers(prev => {
+        const lowestIndex = prev.findIndex(l => removed.has(l.id));
+        const newLayers = prev.filter(l => !removed.has(l.id));
+        newLayers.splice(lowestIndex, 0, flattened);
+        return orderLayerTree(newLayers);
+    });
+    editLabelRef.current = '보이는 레이어 병합';
+    setLayerCounter(prev => prev + 1);
+    setActiveLayerId(newId);
+  };
+
   const toggleVisibility = useCallback((id: number) => {
     setLayers(prev => prev.map(l => l.id === id ? { ...l, isVisible: !l.isVisible } : l));
   }, []);
@@ -2598,9 +3690,13 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
   
   const ToolDivider = () => <div className="w-px h-8 bg-neutral-600 self-center"></div>;
   
-  const activeHistory = activeLayerId ? history[activeLayerId] : null;
-  const canUndo = activeHistory ? activeHistory.index > 0 : false;
-  const canRedo = activeHistory ? activeHistory.index < activeHistory.stack.length - 1 : false;
+  const togglePersistEditHistory = () => {
+    setPersistEditHistory(prev => !prev);
+    savePersistEditHistory(!persistEditHistory);
+  };
+
+  const canUndo = !!floatingSelection || editHistory.currentId !== null;
+  const canRedo = !floatingSelection && redoTargetId<EditCommand<Layer>>(editHistory) !== null;
   
   const activeLayer = layers.find(l => l.id === activeLayerId);
 
@@ -2620,6 +3716,10 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             <button type="button" onClick={() => setTool('line')} className={`p-2 rounded-md transition-colors ${tool === 'line' ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'line'} title="직선"><LineIcon /></button>
             <button type="button" onClick={() => setTool('curve')} className={`p-2 rounded-md transition-colors ${tool === 'curve' ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'curve'} title="곡선"><CurveIcon /></button>
             <button type="button" onClick={() => setTool('ellipse')} className={`p-2 rounded-md transition-colors ${tool === 'ellipse' ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'ellipse'} title="타원"><EllipseIcon /></button>
+            <button type="button" onClick={() => setTool('shape_select')} className={`p-2 rounded-md transition-colors ${tool === 'shape_select' ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'shape_select'} title="선 선택 (벡터 레이어)"><MousePointerIcon /></button>
+            <button type="button" onClick={() => setTool('pose')} className={`p-2 rounded-md transition-colors ${tool === 'pose' ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'pose'} title="포즈 (포즈 레이어)"><PersonStandingIcon /></button>
+            <button type="button" onClick={() => setTool('select_rect')} className={`p-2 rounded-md transition-colors ${tool === 'select_rect' ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'select_rect'} title="사각형 선택 (스케치 레이어)"><SelectRectIcon /></button>
+            <button type="button" onClick={() => setTool('select_lasso')} className={`p-2 rounded-md transition-colors ${tool === 'select_lasso' ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'select_lasso'} title="올가미 선택 (스케치 레이어)"><LassoIcon /></button>
             <button type="button" onClick={() => setTool('eraser')} className={`p-2 rounded-md transition-colors ${tool === 'eraser' ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'eraser'} title="지우개 (E)"><EraserIcon /></button>
             <button type="button" onClick={() => setTool('point_placer')} className={`p-2 rounded-md transition-colors ${tool === 'point_placer' ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'point_placer'} title="포인트 지정"><TargetIcon /></button>
             <button type="button" onClick={() => setTool('point_deleter')} className={`p-2 rounded-md transition-colors ${tool === 'point_deleter' ? 'bg-red-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'point_deleter'} title="포인트 삭제"><TrashIcon /></button>
@@ -2628,6 +3728,14 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
         <ToolDivider />
         <div className="flex items-center gap-4 px-2" role="group" aria-label="도구 옵션">
           <span className="text-sm font-medium text-neutral-300">옵션</span>
+          {tool !== 'perspective' && (isActiveLayerLocked ? (
+            <span className="text-sm text-amber-400">잠긴 레이어에는 그릴 수 없습니다</span>
+          ) : activeLayer?.type === 'group' && tool !== 'point_placer' && tool !== 'point_deleter' && (
+            <span className="text-sm text-amber-400">그룹에는 그릴 수 없습니다. 안의 레이어를 선택하세요</span>
+          ))}
+          {isPoseLayerActive && !isActiveLayerLocked && tool !== 'pose' && tool !== 'perspective' && tool !== 'point_placer' && tool !== 'point_deleter' && (
+            <span className="text-sm text-amber-400">포즈 레이어에는 그릴 수 없습니다. 포즈 도구로 마네킹을 움직이세요</span>
+          )}
           {(tool === 'pen' || tool === 'line' || tool === 'curve' || tool === 'ellipse') && (
             <div className="flex items-center flex-wrap gap-4">
                  <ColorPickerSelect
@@ -2648,6 +3756,126 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                         <span className="w-8 text-center font-mono text-xs">{penSensitivity.toFixed(2)}</span>
                     </div>
                 )}
+                {tool === 'pen' && <PressureCurveSelect id="pen-pressure" curve={pressureCurves.pen} onChange={curve => updatePressureCurve('pen', curve)} />}
+                {tool === 'pen' && (
+                    <div className="flex items-center gap-2" role="group" aria-label="손떨림 보정">
+                        <label htmlFor="pen-stabilizer" className="text-xs text-neutral-400">보정</label>
+                        <select id="pen-stabilizer" value={stabilizerSettings.mode} onChange={(e) => setStabilizerSettings(prev => ({ ...prev, mode: e.target.value as StabilizerMode }))} className="p-1 text-xs bg-neutral-700 border border-neutral-600 rounded-md" title="손떨림 보정: 로프는 끌려오는 붓, 평균은 최근 움직임의 평균">
+                            {STABILIZER_MODE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                        </select>
+                        <input type="range" min="0" max="1" step="0.05" value={stabilizerSettings.strength} onChange={(e) => setStabilizerSettings(prev => ({ ...prev, strength: Number(e.target.value) }))} disabled={stabilizerSettings.mode === 'off' && !stabilizerSettings.lineCorrection} className="w-20 h-2 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-50 disabled:cursor-not-allowed" title={`보정 강도: ${Math.round(stabilizerSettings.strength * 100)}%`}/>
+                        <button type="button" onClick={() => setStabilizerSettings(prev => ({ ...prev, lineCorrection: !prev.lineCorrection }))} className={`px-2 py-1 text-xs rounded-full border transition-colors ${stabilizerSettings.lineCorrection ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'border-neutral-600 text-neutral-400 hover:bg-neutral-700'}`} aria-pressed={stabilizerSettings.lineCorrection} title="펜을 뗀 뒤 곧은 선은 직선으로, 나머지는 매끄러운 곡선으로 다듬습니다">
+                            선 보정
+                        </button>
+                    </div>
+                )}
+            </div>
+          )}
+          {tool === 'shape_select' && (
+            <div className="flex items-center flex-wrap gap-4">
+              {!isVectorLayerActive ? (
+                <span className="text-sm text-neutral-400">벡터 레이어를 선택하세요</span>
+              ) : !selectedShape ? (
+                <span className="text-sm text-neutral-400">선을 클릭해 선택하고, 드래그해 옮기거나 점을 끌어 모양을 고칩니다</span>
+              ) : (
+                <>
+                  <ColorPickerSelect
+                    selectedColor={selectedShape.color}
+                    onSelectColor={color => updateSelectedShape({ color })}
+                  />
+                  <div className="flex items-center gap-2">
+                    <label htmlFor="shape-width" className="sr-only">선 굵기</label>
+                    <PenIcon />
+                    <input id="shape-width" type="range" min="1" max="50" value={selectedShape.width} onChange={(e) => updateSelectedShape({ width: Number(e.target.value) })} className="w-24 h-2 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" title={`선 굵기: ${selectedShape.width}`}/>
+                    <span className="w-6 text-center font-mono text-xs">{selectedShape.width}</span>
+                  </div>
+                  <button type="button" onClick={deleteSelectedShape} className="px-3 py-1.5 bg-neutral-700 text-red-400 hover:bg-neutral-600 text-sm font-medium rounded-md transition-colors flex items-center gap-2" title="선택한 선을 삭제합니다 (Delete)">
+                    <TrashIcon />
+                    선 삭제
+                  </button>
+                </>
+              )}
+            </div>
+          )}
+          {tool === 'pose' && (
+            <div className="flex items-center flex-wrap gap-4">
+              {!isPoseLayerActive ? (
+                <span className="text-sm text-neutral-400">포즈 레이어를 선택하세요</span>
+              ) : (
+                <>
+                  <button type="button" onClick={addSkeleton} disabled={isActiveLayerLocked} className="px-3 py-1.5 bg-neutral-700 text-neutral-200 hover:bg-neutral-600 text-sm font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title="레이어 가운데에 마네킹을 하나 더 세웁니다">+ 마네킹</button>
+                  {!selectedSkeleton ? (
+                    <span className="text-sm text-neutral-400">관절을 끌어 팔다리를 돌리고, 노란 골반 점을 끌어 옮깁니다. Shift를 누르고 끌면 단축됩니다</span>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <label htmlFor="pose-character" className="text-xs text-neutral-400">캐릭터</label>
+                        <input id="pose-character" type="text" value={selectedSkeleton.characterName} onChange={(e) => updateSelectedSkeleton(skeleton => ({ ...skeleton, characterName: e.target.value }))} className="w-28 p-1 text-xs bg-neutral-700 border border-neutral-600 rounded-md" placeholder="캐릭터 이름" />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <label htmlFor="pose-preset" className="text-xs text-neutral-400">비율</label>
+                        <select id="pose-preset" value={selectedSkeleton.preset} onChange={(e) => updateSelectedSkeleton(skeleton => ({ ...skeleton, preset: e.target.value as PoseProportionPreset }))} className="p-1 text-xs bg-neutral-700 border border-neutral-600 rounded-md" title="캐릭터의 머리 크기 대비 키">
+                          {POSE_PRESET_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                        </select>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <label htmlFor="pose-height" className="text-xs text-neutral-400">키</label>
+                        <input id="pose-height" type="range" min={Math.round(canvasDimensions.height * 0.1)} max={Math.round(canvasDimensions.height * 2)} value={Math.round(selectedSkeleton.height)} onChange={(e) => updateSelectedSkeleton(skeleton => ({ ...skeleton, height: Number(e.target.value) }))} className="w-24 h-2 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" title={`키: ${Math.round(selectedSkeleton.height)}px`}/>
+                      </div>
+                      <ColorPickerSelect
+                        selectedColor={selectedSkeleton.color}
+                        onSelectColor={color => updateSelectedSkeleton(skeleton => ({ ...skeleton, color }))}
+                      />
+                      {selectedPoseBone && (
+                        <div className="flex items-center gap-2" role="group" aria-label={POSE_BONE_LABELS[selectedPoseBone]}>
+                          <span className="text-xs text-neutral-200">{POSE_BONE_LABELS[selectedPoseBone]}</span>
+                          <label htmlFor="pose-bone-angle" className="text-xs text-neutral-400">각도</label>
+                          <input id="pose-bone-angle" type="range" min="-180" max="180" value={Math.round(selectedSkeleton.bones[selectedPoseBone].angle)} onChange={(e) => updateSelectedSkeleton(skeleton => setSkeletonBone(skeleton, selectedPoseBone, { angle: Number(e.target.value) }))} className="w-24 h-2 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" title={`상위 뼈에 대한 각도: ${Math.round(selectedSkeleton.bones[selectedPoseBone].angle)}°`}/>
+                          <label htmlFor="pose-bone-foreshortening" className="text-xs text-neutral-400">단축</label>
+                          <input id="pose-bone-foreshortening" type="range" min={-MAX_FORESHORTENING} max={MAX_FORESHORTENING} step="0.05" value={selectedSkeleton.bones[selectedPoseBone].foreshortening} onChange={(e) => updateSelectedSkeleton(skeleton => setSkeletonBone(skeleton, selectedPoseBone, { foreshortening: Number(e.target.value) }))} className="w-24 h-2 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" title="오른쪽: 화면 쪽으로, 왼쪽: 화면 안쪽으로 뻗습니다"/>
+                          <span className="w-10 text-center font-mono text-xs">{selectedSkeleton.bones[selectedPoseBone].foreshortening.toFixed(2)}</span>
+                        </div>
+                      )}
+                      <button type="button" onClick={() => updateSelectedSkeleton(mirrorSkeleton)} className="p-1.5 rounded-md text-neutral-300 hover:bg-neutral-600" title="자세 좌우 반전"><FlipHorizontalIcon /></button>
+                      <button type="button" onClick={() => updateSelectedSkeleton(skeleton => ({ ...skeleton, bones: DEFAULT_POSE_BONES }))} className="px-3 py-1.5 bg-neutral-700 text-neutral-200 hover:bg-neutral-600 text-sm font-medium rounded-md transition-colors" title="차렷 자세로 되돌립니다">기본 자세</button>
+                      <button type="button" onClick={deleteSelectedSkeleton} className="px-3 py-1.5 bg-neutral-700 text-red-400 hover:bg-neutral-600 text-sm font-medium rounded-md transition-colors flex items-center gap-2" title="선택한 마네킹을 삭제합니다 (Delete)">
+                        <TrashIcon />
+                        삭제
+                      </button>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+          {isSelectionTool && (
+            <div className="flex items-center flex-wrap gap-4">
+              {!isSketchLayerActive ? (
+                <span className="text-sm text-neutral-400">스케치 레이어를 선택하세요</span>
+              ) : (
+                <>
+                  <div className="flex items-center gap-2">
+                    <label htmlFor="selection-transform-mode" className="text-xs text-neutral-400">변형</label>
+                    <select id="selection-transform-mode" value={selectionTransformMode} onChange={(e) => setSelectionTransformMode(e.target.value as SelectionTransformMode)} className="p-1 text-xs bg-neutral-700 border border-neutral-600 rounded-md" title="크기: 모서리와 변으로 크기 조절, 자유 변형: 변을 끌어 기울이기, 원근 왜곡: 모서리를 하나씩 이동">
+                      {SELECTION_TRANSFORM_MODE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                    </select>
+                  </div>
+                  <div className="flex items-center bg-neutral-700/80 rounded-md p-0.5">
+                    <button type="button" onClick={() => flipSelection('horizontal')} disabled={!floatingSelection && !selectionPath} className="p-1.5 rounded-md text-neutral-300 hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed" title="좌우 반전"><FlipHorizontalIcon /></button>
+                    <button type="button" onClick={() => flipSelection('vertical')} disabled={!floatingSelection && !selectionPath} className="p-1.5 rounded-md text-neutral-300 hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed" title="상하 반전"><FlipVerticalIcon /></button>
+                  </div>
+                  {floatingSelection ? (
+                    <>
+                      <button type="button" onClick={commitFloatingSelection} className="px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 text-sm font-medium rounded-md transition-colors" title="변형을 레이어에 적용합니다 (Enter)">적용</button>
+                      <button type="button" onClick={cancelFloatingSelection} className="px-3 py-1.5 bg-neutral-700 text-neutral-200 hover:bg-neutral-600 text-sm font-medium rounded-md transition-colors" title="변형을 취소합니다 (Esc)">취소</button>
+                    </>
+                  ) : selectionPath ? (
+                    <button type="button" onClick={deselect} className="px-3 py-1.5 bg-neutral-700 text-neutral-200 hover:bg-neutral-600 text-sm font-medium rounded-md transition-colors" title="선택 해제 (Ctrl+D)">선택 해제</button>
+                  ) : (
+                    <span className="text-sm text-neutral-400">드래그해 영역을 고르고, 안쪽을 끌어 옮깁니다. Ctrl+C/X/V로 다른 레이어에 붙여넣을 수 있습니다</span>
+                  )}
+                </>
+              )}
             </div>
           )}
           {tool === 'point_placer' && (
@@ -2655,10 +3883,36 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                 <span className="text-sm text-neutral-400">
                     포인트 지정: <strong className="text-neutral-200">{activeLayer?.name || '레이어 선택 필요'}</strong>
                 </span>
+                {selectedMarker && (
+                  <div className="flex items-center flex-wrap gap-3" role="group" aria-label={`${selectedMarker.characterName} 배치`}>
+                    <span className="text-xs text-neutral-200">{selectedMarker.characterName}</span>
+                    <div className="flex items-center bg-neutral-700/80 rounded-md p-0.5" role="group" aria-label="방향">
+                      {FACING_OPTIONS.map(option => (
+                        <button key={option.id} type="button" onClick={() => updateSelectedPoint(marker => ({ ...marker, facing: option.id }))} className={`px-2 py-1 text-xs rounded-md transition-colors ${selectedMarker.facing === option.id ? 'bg-neutral-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} style={{ borderBottom: `2px solid ${option.color}` }} aria-pressed={selectedMarker.facing === option.id} title={`설정화 마스크의 ${option.maskChannel} 채널과 같은 방향`}>
+                          {option.label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <label htmlFor="marker-depth" className="text-xs text-neutral-400">깊이</label>
+                      <input id="marker-depth" type="number" min="1" value={selectedMarker.depth ?? ''} onChange={(e) => updateSelectedPoint(marker => ({ ...marker, depth: Math.max(1, Math.round(Number(e.target.value) || 1)) }))} className="w-14 p-1 text-xs bg-neutral-700 border border-neutral-600 rounded-md" title="카메라에서 가까운 순서: 1이 가장 앞" />
+                    </div>
+                    {selectedMarker.eyeLineTarget ? (
+                      <button type="button" onClick={() => updateSelectedPoint(marker => ({ ...marker, eyeLineTarget: null }))} className="px-2 py-1 text-xs bg-neutral-700 text-neutral-200 hover:bg-neutral-600 rounded-md transition-colors" title="시선 목표를 지웁니다">
+                        시선 지우기{selectedMarker.eyeLineTarget.characterName ? ` (→ ${selectedMarker.eyeLineTarget.characterName})` : ''}
+                      </button>
+                    ) : (
+                      <button type="button" onClick={() => updateSelectedPoint(marker => ({ ...marker, eyeLineTarget: { x: Math.max(0, Math.min(100, marker.head.x + 10)), y: marker.head.y } }))} className="px-2 py-1 text-xs bg-neutral-700 text-neutral-200 hover:bg-neutral-600 rounded-md transition-colors" title="시선 점을 만듭니다. 끌어서 다른 캐릭터의 머리에 놓으면 그 캐릭터를 봅니다">
+                        + 시선
+                      </button>
+                    )}
+                  </div>
+                )}
              </div>
           )}
           {tool === 'marker' && (
             <div className="flex items-center flex-wrap gap-4">
+              {isVectorLayerActive && <span className="text-sm text-amber-400">마커는 스케치 레이어에만 그릴 수 있습니다</span>}
               <ColorPickerSelect
                   selectedColor={markerColor}
                   onSelectColor={setMarkerColor}
@@ -2685,14 +3939,18 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                   <input id="marker-rotation" type="range" min="0" max="180" value={markerRotation} onChange={(e) => setMarkerRotation(Number(e.target.value))} className="w-24 h-2 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500 disabled:opacity-50 disabled:cursor-not-allowed" title={`마커 각도: ${markerRotation}°`} disabled={markerShape === 'circle'}/>
                   <span className={`w-8 text-center font-mono text-xs ${markerShape === 'circle' ? 'text-neutral-500' : ''}`}>{markerRotation}°</span>
               </div>
+              <PressureCurveSelect id="marker-pressure" curve={pressureCurves.marker} onChange={curve => updatePressureCurve('marker', curve)} />
             </div>
           )}
           {tool === 'eraser' && (
-            <div className="flex items-center gap-2">
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
                 <label htmlFor="eraser-size" className="sr-only">지우개 굵기</label>
                 <EraserIcon />
                 <input id="eraser-size" type="range" min="1" max="100" value={eraserSize} onChange={(e) => setEraserSize(Number(e.target.value))} className="w-32 h-2 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500" title={`지우개 굵기: ${eraserSize}`}/>
                 <span className="w-6 text-center font-mono text-xs">{eraserSize}</span>
+              </div>
+              <PressureCurveSelect id="eraser-pressure" curve={pressureCurves.eraser} onChange={curve => updatePressureCurve('eraser', curve)} />
             </div>
           )}
         </div>
@@ -2702,6 +3960,15 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
               <button type="button" onClick={handleUndo} disabled={!canUndo} className="p-2 rounded-md transition-colors text-neutral-300 hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed" title="실행 취소 (Ctrl+Z)"><UndoIcon /></button>
               <button type="button" onClick={handleRedo} disabled={!canRedo} className="p-2 rounded-md transition-colors text-neutral-300 hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed" title="다시 실행 (Ctrl+Y)"><RedoIcon /></button>
             </div>
+            <div className="relative">
+              <button type="button" onClick={() => setIsHistoryPanelOpen(prev => !prev)} className={`p-2 rounded-md transition-colors ${isHistoryPanelOpen ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={isHistoryPanelOpen} aria-expanded={isHistoryPanelOpen} title="작업 기록"><HistoryIcon /></button>
+              {isHistoryPanelOpen && (
+                <HistoryPanel timeline={editHistory} onJump={handleHistoryJump} startLabel="시작" className="absolute top-full right-0 mt-2 z-30 w-64" />
+              )}
+            </div>
+            <button type="button" onClick={togglePersistEditHistory} className={`px-2 py-1 text-xs rounded-full border transition-colors ${persistEditHistory ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'border-neutral-600 text-neutral-400 hover:bg-neutral-700'}`} aria-pressed={persistEditHistory} title={`편집 기록 ${editHistory.nodes.length}단계, ${(editHistory.bytes / 1048576).toFixed(1)}MB. 켜면 캔버스와 프로젝트 파일에 함께 저장되어 새로고침 후에도 실행 취소할 수 있습니다`}>
+              기록 저장
+            </button>
         </div>
         <ToolDivider />
         <div className="flex items-center gap-2 px-2" role="group" aria-label="캔버스 보기 설정">
@@ -2755,8 +4022,21 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             <span className="text-sm font-medium text-neutral-300">보조선</span>
             <div className="flex items-center bg-neutral-700/80 rounded-md p-0.5">
               <button type="button" onClick={() => setTool('perspective')} className={`p-2 rounded-md transition-colors ${tool === 'perspective' ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={tool === 'perspective'} title="소실점"><TargetIcon /></button>
+              <button type="button" onClick={() => setSnapSettings(prev => ({ ...prev, enabled: !prev.enabled }))} className={`p-2 rounded-md transition-colors ${snapSettings.enabled ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={snapSettings.enabled} title="스냅: 펜, 직선, 곡선, 타원을 원근에 맞춥니다"><MagnetIcon /></button>
             </div>
-            {vanishingPoints.length > 0 && (
+            {snapSettings.enabled && (
+              <div className="flex items-center gap-1" role="group" aria-label="스냅 대상">
+                {([['vanishingPoints', '소실점'], ['axes', '수평·수직'], ['guides', '가이드']] as const).map(([key, label]) => (
+                  <button key={key} type="button" onClick={() => setSnapSettings(prev => ({ ...prev, [key]: !prev[key] }))} className={`px-2 py-1 text-xs rounded-full border transition-colors ${snapSettings[key] ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'border-neutral-600 text-neutral-400 hover:bg-neutral-700'}`} aria-pressed={snapSettings[key]}>
+                    {label}
+                  </button>
+                ))}
+                <button type="button" onClick={() => setSnapSettings(prev => ({ ...prev, ellipsePlane: prev.ellipsePlane === 'ground' ? 'wall' : 'ground' }))} className="px-2 py-1 text-xs rounded-full border border-neutral-600 text-neutral-300 hover:bg-neutral-700" title="원근 타원이 놓일 면">
+                  타원: {snapSettings.ellipsePlane === 'ground' ? '바닥면' : '벽면'}
+                </button>
+              </div>
+            )}
+            {vanishingPoints.length > 0 && !activeGuideSet?.isLocked && (
               <button type="button" onClick={() => { setVanishingPoints([]); setActiveVPId(null); }} className="px-3 py-1.5 bg-neutral-700 text-red-400 hover:bg-neutral-600 text-sm font-medium rounded-md transition-colors flex items-center gap-2" title="모든 소실점을 삭제합니다">
                 <TrashIcon />
                 소실점 지우기
@@ -2784,13 +4064,11 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             ref={canvasContainerRef} 
             className="flex-grow w-full rounded-md border border-neutral-700/50 overflow-hidden bg-neutral-600 touch-none relative"
             onWheel={handleWheel}
-            onMouseDown={startDrawing} 
-            onMouseMove={handleMouseMove} 
-            onMouseUp={stopDrawing} 
-            onMouseLeave={stopDrawing}
-            onTouchStart={startDrawing} 
-            onTouchMove={handleTouchMove} 
-            onTouchEnd={stopDrawing}
+            onPointerDown={startDrawing}
+            onPointerMove={handlePointerMove}
+            onPointerUp={stopDrawing}
+            onPointerLeave={stopDrawing}
+            onPointerCancel={stopDrawing}
             onContextMenu={(e) => {
               if (isScrubbyZooming || isPanning || isSpacePressed || draggingPoint || (tool === 'line' && isDrawing)) {
                 e.preventDefault();
@@ -2837,10 +4115,11 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                         height={canvasDimensions.height}
                         className="absolute top-0 left-0 pointer-events-none"
                     />
-                    {layers.map(layer => (
+                    {layers.filter(layer => layer.type !== 'group').map(layer => (
                     <React.Fragment key={layer.id}>
+                        {/* A deleted layer's canvas is kept until the edit history has taken its pixels */}
                         <canvas
-                        ref={el => { canvasRefs.current[layer.id] = el; }}
+                        ref={el => { if (el) canvasRefs.current[layer.id] = el; }}
                         width={canvasDimensions.width}
                         height={canvasDimensions.height}
                         className="absolute top-0 left-0 pointer-events-none hidden"
@@ -2854,19 +4133,55 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                         className="absolute top-0 left-0 pointer-events-none"
                     />
                     <div className="absolute top-0 left-0 w-full h-full pointer-events-none">
-                      {layers.map(layer => layer.isVisible && layer.points?.map(point => {
+                      {layers.map(layer => isLayerShown(layers, layer) && layer.points?.map(point => {
                           const radiusInPixels = (point.radius / 100) * canvasDimensions.width;
                           const colorWithAlpha = point.color.replace('hsl', 'hsla').replace(')', ', 0.25)');
                           const colorWithoutAlpha = point.color.replace('hsl', 'hsla').replace(')', ', 0)');
                           const borderColorWithAlpha = point.color.replace('hsl', 'hsla').replace(')', ', 0.3)');
+                          const marker = resolveCharacterMarker(point, canvasDimensions);
+                          const facing = FACING_OPTIONS.find(option => option.id === marker.facing)!;
+                          const eyeLine = eyeLineEnd(marker, allCharacterPoints, canvasDimensions);
+                          // Staging handles show on the marker being edited with the point tool
+                          const isEditingMarker = tool === 'point_placer' && selectedPointId === point.id;
+                          const markerHandle = (handle: MarkerHandle, at: { x: number; y: number }, className: string, title: string) => (
+                            <div
+                                className={`absolute w-3 h-3 -translate-x-1/2 -translate-y-1/2 border-2 border-white/90 shadow ${className}`}
+                                style={{ left: `${at.x}%`, top: `${at.y}%`, pointerEvents: 'auto', zIndex: 11 }}
+                                onPointerDown={(e) => handlePointMouseDown(e, layer.id, point.id, handle)}
+                                title={title}
+                            />
+                          );
                           return (
+                            <React.Fragment key={point.id}>
+                            <div
+                                className="absolute border border-dashed pointer-events-none"
+                                style={{
+                                    left: `${marker.bbox.x}%`,
+                                    top: `${marker.bbox.y}%`,
+                                    width: `${marker.bbox.width}%`,
+                                    height: `${marker.bbox.height}%`,
+                                    borderColor: point.color,
+                                    opacity: isEditingMarker ? 0.9 : 0.4,
+                                }}
+                            />
+                            <svg className="absolute top-0 left-0 w-full h-full overflow-visible pointer-events-none">
+                                {eyeLine && <line x1={`${marker.head.x}%`} y1={`${marker.head.y}%`} x2={`${eyeLine.x}%`} y2={`${eyeLine.y}%`} stroke={point.color} strokeWidth={1.5 / zoom} strokeDasharray={`${6 / zoom} ${4 / zoom}`} opacity={isEditingMarker ? 0.9 : 0.5} />}
+                                <circle cx={`${marker.head.x}%`} cy={`${marker.head.y}%`} r={6 / zoom} fill="none" stroke={facing.color} strokeWidth={2 / zoom} opacity={isEditingMarker ? 1 : 0.6} />
+                            </svg>
+                            {isEditingMarker && (
+                                <>
+                                    {markerHandle('bboxStart', marker.bbox, 'bg-neutral-200 cursor-nwse-resize', '드래그하여 영역 조절')}
+                                    {markerHandle('bboxEnd', { x: marker.bbox.x + marker.bbox.width, y: marker.bbox.y + marker.bbox.height }, 'bg-neutral-200 cursor-nwse-resize', '드래그하여 영역 조절')}
+                                    {markerHandle('head', marker.head, 'rounded-full cursor-move', '머리 위치 (드래그하여 이동)')}
+                                    {eyeLine && markerHandle('eyeLine', eyeLine, 'rounded-full bg-white cursor-crosshair', '시선 (다른 캐릭터의 머리에 놓으면 그 캐릭터를 봅니다)')}
+                                </>
+                            )}
                             <div
-                                key={point.id}
-                                className="absolute group"
+                                className="absolute"
                                 style={{
                                     left: `${point.x}%`,
                                     top: `${point.y}%`,
-                                    zIndex: (draggingPoint?.pointId === point.id || resizingPoint?.pointId === point.id) ? 10 : 1,
+                                    zIndex: draggingPoint?.pointId === point.id ? 10 : 1,
                                 }}
                             >
                                 <div
@@ -2877,13 +4192,13 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                                         transform: 'translate(-50%, -50%)',
                                         background: `radial-gradient(circle, ${colorWithAlpha} 0%, ${colorWithoutAlpha} 65%)`,
                                         border: `1px solid ${borderColorWithAlpha}`,
-                                        opacity: (draggingPoint?.pointId === point.id || resizingPoint?.pointId === point.id) ? 0.9 : 0.7,
+                                        opacity: draggingPoint?.pointId === point.id ? 0.9 : 0.7,
                                     }}
                                 />
                                 <div
                                     className={`relative flex items-center z-10 ${tool === 'point_deleter' ? 'cursor-pointer' : 'cursor-move'}`}
                                     style={{ pointerEvents: 'auto', transform: 'translate(-50%, -50%)' }}
-                                    onMouseDown={(e) => {
+                                    onPointerDown={(e) => {
                                       if (tool === 'point_deleter') {
                                         e.preventDefault();
                                         e.stopPropagation();
@@ -2902,12 +4217,6 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                                     className="w-4 h-4 rounded-full border-2 border-white/80 shadow-md flex items-center justify-center transition-all duration-300"
                                     style={{ backgroundColor: point.color }}
                                   >
-                                    <div 
-                                      className="absolute right-0 top-0 bottom-0 w-12 cursor-ew-resize opacity-0 group-hover:opacity-100"
-                                      style={{ pointerEvents: 'auto' }}
-                                      onMouseDown={(e) => handlePointResizeStart(e, layer.id, point.id)}
-                                      title="드래그하여 반경 변경"
-                                    ></div>
                                     {tool === 'point_deleter' && <TrashIcon width="8" height="8" className="text-white"/>}
                                   </div>
                                 </div>
@@ -2915,8 +4224,11 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                                     className="absolute top-full left-1/2 -translate-x-1/2 mt-2 px-2 py-0.5 bg-black/60 text-white text-xs font-semibold rounded-md whitespace-nowrap pointer-events-none"
                                 >
                                     {point.characterName}
+                                    <span className="ml-1 font-normal" style={{ color: facing.color }}>{facing.label}</span>
+                                    {marker.depth !== undefined && <span className="ml-1 font-normal text-neutral-300">#{marker.depth}</span>}
                                 </div>
                             </div>
+                            </React.Fragment>
                           );
                       }))}
                     </div>
@@ -2977,8 +4289,118 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                                 className="w-full h-2 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
                             />
                         </div>
+                        {isDetectingVPs ? (
+                            <div className="flex items-center gap-2 text-sm text-neutral-300">
+                                <svg className="animate-spin h-4 w-4 text-blue-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
+                                <span className="flex-grow">소실점 감지 중...</span>
+                                <button type="button" onClick={cancelVanishingPointDetection} className="px-2 py-1 text-xs bg-neutral-700 hover:bg-neutral-600 rounded-md">취소</button>
+                            </div>
+                        ) : (
+                            <button type="button" onClick={handleDetectVanishingPoints} className="w-full flex items-center justify-center gap-2 px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 text-sm text-neutral-200 rounded-md transition-colors" title="콘티의 직선에서 소실점과 지평선을 찾습니다">
+                                <TargetIcon />
+                                소실점 자동 감지
+                            </button>
+                        )}
+                        {vpDetectionMessage && <p className="text-xs text-amber-400">{vpDetectionMessage}</p>}
+                        {vpProposal && (
+                            <div className="space-y-2 p-2 bg-neutral-900/50 rounded-md border border-neutral-700/50">
+                                <p className="text-xs text-neutral-400">제안된 소실점을 확인하세요. 적용 후 소실점 도구로 위치를 조정할 수 있습니다.</p>
+                                {vpProposal.points.map((point, index) => (
+                                    <label key={index} className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                                        <input type="checkbox" checked={point.included} onChange={() => toggleProposedVP(index)} className="accent-blue-500" />
+                                        <span className="w-3 h-3 rounded-full border-2" style={{ borderColor: VP_PROPOSAL_COLORS[index % VP_PROPOSAL_COLORS.length] }} />
+                                        소실점 {index + 1}
+                                        <span className="ml-auto text-xs text-neutral-500">직선 {Math.round(point.support * 100)}%</span>
+                                    </label>
+                                ))}
+                                {vpProposal.horizon && <p className="text-xs text-cyan-400">점선: 추정 지평선</p>}
+                                {activeGuideSet?.isLocked && <p className="text-xs text-amber-400">잠긴 가이드 세트에는 적용할 수 없습니다.</p>}
+                                <div className="flex gap-2">
+                                    <button type="button" onClick={acceptVPProposal} disabled={!vpProposal.points.some(point => point.included) || activeGuideSet?.isLocked} className="flex-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded-md disabled:bg-neutral-600 disabled:cursor-not-allowed">적용</button>
+                                    <button type="button" onClick={() => setVpProposal(null)} className="flex-1 px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 text-sm rounded-md">거부</button>
+                                </div>
+                            </div>
+                        )}
                     </div>
                 )}
+            </div>
+            <div className="bg-neutral-800/60 rounded-lg p-3 border border-neutral-700/80">
+                <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-medium text-neutral-300 flex items-center gap-2"><TargetIcon />원근 가이드</h3>
+                    <button type="button" onClick={addGuideSet} className="p-1 text-neutral-400 hover:text-white" title="가이드 세트 추가"><PlusIcon /></button>
+                </div>
+                <ul className="space-y-1 mb-3">
+                    {guideSets.map(set => (
+                        <li key={set.id} className={`flex items-center gap-1 px-2 py-1 rounded-md text-sm cursor-pointer ${set.id === activeGuideSetId ? 'bg-blue-600/30 text-white' : 'text-neutral-300 hover:bg-neutral-700/60'}`} onClick={() => { setActiveGuideSetId(set.id); setActiveVPId(null); }}>
+                            <span className="flex-grow truncate">{set.name}</span>
+                            <button type="button" onClick={e => { e.stopPropagation(); toggleGuideSetFlag(set.id, 'isVisible'); }} className="p-1 text-neutral-400 hover:text-white" title={set.isVisible ? '숨기기' : '보이기'}>
+                                {set.isVisible ? <EyeIcon /> : <EyeOffIcon />}
+                            </button>
+                            <button type="button" onClick={e => { e.stopPropagation(); toggleGuideSetFlag(set.id, 'isLocked'); }} className={`p-1 hover:text-white ${set.isLocked ? 'text-amber-400' : 'text-neutral-500'}`} title={set.isLocked ? '잠금 해제' : '잠그기'}>
+                                <LockIcon />
+                            </button>
+                            {guideSets.length > 1 && (
+                                <button type="button" onClick={e => { e.stopPropagation(); deleteGuideSet(set.id); }} className="p-1 text-neutral-500 hover:text-red-400" title="가이드 세트 삭제"><TrashIcon /></button>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+                {activeGuideSet && (
+                    <fieldset disabled={activeGuideSet.isLocked} className="space-y-3 disabled:opacity-50">
+                        <select
+                            value={activeGuideSet.mode}
+                            onChange={e => updateActiveGuideSet(set => ({ ...set, mode: e.target.value as PerspectiveMode }))}
+                            className="w-full p-1.5 text-sm bg-neutral-700 border border-neutral-600 rounded-md"
+                        >
+                            {PERSPECTIVE_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+                        </select>
+                        {activeGuideSet.mode === 'linear' ? (
+                            <div className="flex gap-1">
+                                {[1, 2, 3].map(count => (
+                                    <button
+                                        key={count}
+                                        type="button"
+                                        onClick={() => updateActiveGuideSet(set => withPointCount(set, count, canvasDimensions))}
+                                        className={`flex-1 px-2 py-1 text-xs rounded-md ${vanishingPoints.length === count ? 'bg-blue-600 text-white' : 'bg-neutral-700 text-neutral-300 hover:bg-neutral-600'}`}
+                                    >
+                                        {count}점 투시
+                                    </button>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="text-xs text-neutral-400">곡률은 렌즈({lens === 'none' ? '35mm 기준' : lens})를 따릅니다. 광각일수록 더 휘어집니다.</p>
+                        )}
+                        <label className="block text-xs text-neutral-400">
+                            눈높이 {Math.round((horizonAt(horizonLine(activeGuideSet, canvasDimensions.width), canvasDimensions.width / 2, canvasDimensions.width) / canvasDimensions.height) * 100)}%
+                            <input
+                                type="range"
+                                min={0} max={canvasDimensions.height} step={1}
+                                value={Math.min(canvasDimensions.height, Math.max(0, horizonAt(horizonLine(activeGuideSet, canvasDimensions.width), canvasDimensions.width / 2, canvasDimensions.width)))}
+                                onChange={e => {
+                                    const eyeLevel = Number(e.target.value);
+                                    updateActiveGuideSet(set => moveHorizon(set, eyeLevel - horizonAt(horizonLine(set, canvasDimensions.width), canvasDimensions.width / 2, canvasDimensions.width)));
+                                }}
+                                className="w-full h-2 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                        </label>
+                        <label className="block text-xs text-neutral-400">
+                            격자 밀도 {activeGuideSet.density}
+                            <input
+                                type="range"
+                                min={MIN_GRID_DENSITY} max={MAX_GRID_DENSITY} step={2}
+                                value={activeGuideSet.density}
+                                onChange={e => updateActiveGuideSet(set => ({ ...set, density: Number(e.target.value) }))}
+                                className="w-full h-2 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                        </label>
+                        {activeGuideSet.mode === 'linear' && (
+                            <label className="flex items-center gap-2 text-sm text-neutral-300 cursor-pointer">
+                                <input type="checkbox" checked={activeGuideSet.showGroundPlane} onChange={e => updateActiveGuideSet(set => ({ ...set, showGroundPlane: e.target.checked }))} className="accent-blue-500" />
+                                바닥 격자
+                            </label>
+                        )}
+                    </fieldset>
+                )}
             </div>
              {editBase && (
                 <div className="bg-neutral-800/60 rounded-lg p-3 border border-neutral-700/80">
@@ -3010,19 +4432,59 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
             <div className="bg-neutral-800/60 rounded-lg p-3 border border-neutral-700/80">
                 <div className="flex justify-between items-center mb-2">
                     <h3 className="text-sm font-medium text-neutral-300 flex items-center gap-2"><LayersIcon />레이어</h3>
-                    <button type="button" onClick={addSketchLayer} className="p-1.5 text-neutral-300 hover:text-white" title="새 레이어 추가"><PlusIcon /></button>
+                    <div className="flex items-center">
+                        <button type="button" onClick={addGroup} className="px-1.5 py-1 text-xs font-medium text-neutral-300 hover:text-white" title="선택한 레이어를 새 그룹으로 묶습니다. 레이어를 끌어 그룹에 넣거나 순서를 바꿀 수 있습니다">+ 그룹</button>
+                        <button type="button" onClick={() => addLayer('vector')} className="px-1.5 py-1 text-xs font-medium text-neutral-300 hover:text-white" title="새 벡터 레이어 추가: 선을 나중에 선택해 옮기고 고칠 수 있습니다">+ 벡터</button>
+                        <button type="button" onClick={() => addLayer('pose')} className="px-1.5 py-1 text-xs font-medium text-neutral-300 hover:text-white" title="새 포즈 레이어 추가: 관절을 움직이는 마네킹으로 캐릭터의 자세를 잡습니다">+ 포즈</button>
+                        <button type="button" onClick={() => addLayer('sketch')} className="p-1.5 text-neutral-300 hover:text-white" title="새 레이어 추가"><PlusIcon /></button>
+                    </div>
                 </div>
                 <div className="space-y-2 max-h-96 overflow-y-auto pr-2">
-                    {layers.slice().reverse().map((layer, reverseIndex) => {
-                        const originalIndex = layers.length - 1 - reverseIndex;
+                    {layerPanelRows.map(({ layer, depth }) => {
                         const canvas = canvasRefs.current[layer.id];
                         const dataUrl = canvas?.toDataURL() ?? '';
+                        const isClippedToBelow = !!layer.isClipped && siblingBelow(layers, layer) !== null;
+                        const dropTarget = layerDrag?.targetId === layer.id ? layerDrag.placement : null;
+                        const mergeBlocker = mergeDownBlocker(layer);
+                        const removedIds = new Set([layer.id, ...descendantIds(layers, layer.id)]);
+                        const canDelete = layers.some(l => l.type !== 'group' && !removedIds.has(l.id));
                         return (
-                        <div key={layer.id} className={`p-2 rounded-md transition-colors duration-200 ${activeLayerId === layer.id ? 'bg-blue-600/30' : 'bg-neutral-700/70 hover:bg-neutral-600/70'}`}>
-                            <div className="flex items-center gap-2">
-                                <button type="button" onClick={() => setActiveLayerId(layer.id)} className="flex-grow flex items-center gap-2 text-left">
-                                    <div className="w-10 h-10 rounded border border-neutral-500 bg-neutral-800 flex-shrink-0">
-                                        {canvas && (
+                        <div key={layer.id} style={{ marginLeft: depth * 12 }} className={`p-2 rounded-md transition-colors duration-200 ${activeLayerId === layer.id ? 'bg-blue-600/30' : 'bg-neutral-700/70 hover:bg-neutral-600/70'} ${dropTarget === 'above' ? 'border-t-2 border-blue-400' : dropTarget === 'below' ? 'border-b-2 border-blue-400' : dropTarget === 'inside' ? 'ring-2 ring-blue-400' : ''} ${layerDrag?.id === layer.id ? 'opacity-50' : ''}`}>
+                            <div
+                                className="flex items-center gap-2"
+                                draggable
+                                onDragStart={(e) => {
+                                    e.dataTransfer.effectAllowed = 'move';
+                                    e.dataTransfer.setData('text/plain', String(layer.id));
+                                    setLayerDrag({ id: layer.id, targetId: null, placement: 'above' });
+                                }}
+                                onDragOver={(e) => {
+                                    if (!layerDrag || layerDrag.id === layer.id) return;
+                                    e.preventDefault();
+                                    // The middle of a group's row drops into the group
+                                    const rect = e.currentTarget.getBoundingClientRect();
+                                    const offset = (e.clientY - rect.top) / rect.height;
+                                    const placement: LayerDropPlacement = layer.type === 'group' && offset > 0.25 && offset < 0.75 ? 'inside' : offset < 0.5 ? 'above' : 'below';
+                                    if (layerDrag.targetId !== layer.id || layerDrag.placement !== placement) {
+                                        setLayerDrag({ ...layerDrag, targetId: layer.id, placement });
+                                    }
+                                }}
+                                onDrop={(e) => {
+                                    e.preventDefault();
+                                    if (layerDrag && layerDrag.targetId !== null) moveLayerTo(layerDrag.id, layerDrag.targetId, layerDrag.placement);
+                                    setLayerDrag(null);
+                                }}
+                                onDragEnd={() => setLayerDrag(null)}
+                            >
+                                {layer.type === 'group' && (
+                                    <button type="button" onClick={() => toggleLayerFlag(layer.id, 'isCollapsed')} className="p-0.5 text-neutral-400 hover:text-white" title={layer.isCollapsed ? '그룹 펼치기' : '그룹 접기'} aria-expanded={!layer.isCollapsed}>
+                                        <ChevronRightIcon width="14" height="14" className={`transition-transform ${layer.isCollapsed ? '' : 'rotate-90'}`} />
+                                    </button>
+                                )}
+                                {isClippedToBelow && <span className="text-blue-300 flex-shrink-0" title="아래 레이어에 클리핑됨"><CornerDownRightIcon width="14" height="14" /></span>}
+                                <button type="button" onClick={() => setActiveLayerId(layer.id)} className="flex-grow flex items-center gap-2 text-left min-w-0">
+                                    <div className="w-10 h-10 rounded border border-neutral-500 bg-neutral-800 flex-shrink-0 flex items-center justify-center text-neutral-400">
+                                        {layer.type === 'group' ? <FolderIcon /> : canvas && (
                                             <img
                                                 src={dataUrl}
                                                 alt={`${layer.name} thumbnail`}
@@ -3050,17 +4512,20 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                                                 {layer.name}
                                             </p>
                                         )}
-                                        <p className="text-xs text-neutral-400 capitalize">{layer.blendMode.replace('-', ' ')} - {Math.round(layer.opacity * 100)}%</p>
+                                        <p className="text-xs text-neutral-400 capitalize">{layer.type === 'vector' && <span className="normal-case text-blue-300">벡터 · </span>}{layer.type === 'pose' && <span className="normal-case text-emerald-300">포즈 · </span>}{layer.type === 'group' && <span className="normal-case text-amber-300">그룹 · </span>}{layer.blendMode.replace('-', ' ')} - {Math.round(layer.opacity * 100)}%</p>
                                     </div>
                                 </button>
                                 <div className="flex flex-col items-center">
-                                    <button type="button" onClick={() => moveLayer(layer.id, 'up')} disabled={originalIndex === layers.length - 1} className="p-0.5 text-neutral-400 hover:text-white disabled:opacity-30"><ArrowUpIcon /></button>
-                                    <button type="button" onClick={() => moveLayer(layer.id, 'down')} disabled={originalIndex === 0} className="p-0.5 text-neutral-400 hover:text-white disabled:opacity-30"><ArrowDownIcon /></button>
+                                    <button type="button" onClick={() => moveLayer(layer.id, 'up')} disabled={!siblingAbove(layers, layer)} className="p-0.5 text-neutral-400 hover:text-white disabled:opacity-30"><ArrowUpIcon /></button>
+                                    <button type="button" onClick={() => moveLayer(layer.id, 'down')} disabled={!siblingBelow(layers, layer)} className="p-0.5 text-neutral-400 hover:text-white disabled:opacity-30"><ArrowDownIcon /></button>
                                 </div>
                                 <div className="flex flex-col items-center">
-                                    <button type="button" onClick={() => toggleVisibility(layer.id)} className="p-1.5 text-neutral-300 hover:text-white" title={layer.isVisible ? '레이어 숨기기' : '레이어 보이기'}>
+                                    <button type="button" onClick={() => toggleVisibility(layer.id)} className="p-1 text-neutral-300 hover:text-white" title={layer.isVisible ? '레이어 숨기기' : '레이어 보이기'}>
                                         {layer.isVisible ? <EyeIcon /> : <EyeOffIcon />}
                                     </button>
+                                    <button type="button" onClick={() => toggleLayerFlag(layer.id, 'isLocked')} className={`p-1 hover:text-white ${layer.isLocked ? 'text-amber-400' : 'text-neutral-500'}`} aria-pressed={!!layer.isLocked} title={layer.isLocked ? '레이어 잠금 해제' : '레이어 잠그기: 그리거나 지울 수 없게 합니다'}>
+                                        {layer.isLocked ? <LockIcon width="14" height="14" /> : <UnlockIcon width="14" height="14" />}
+                                    </button>
                                 </div>
                             </div>
                             
@@ -3076,13 +4541,19 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                                             className="w-full h-1.5 bg-neutral-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
                                         />
                                     </div>
-                                    <select
-                                        value={layer.blendMode}
-                                        onChange={e => handleBlendModeChange(layer.id, e.target.value as GlobalCompositeOperation)}
-                                        className="w-full p-1.5 text-xs bg-neutral-700 border border-neutral-600 rounded-md"
-                                    >
-                                        {BLEND_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
-                                    </select>
+                                    <div className="flex items-center gap-2">
+                                        <select
+                                            value={layer.blendMode}
+                                            onChange={e => handleBlendModeChange(layer.id, e.target.value as GlobalCompositeOperation)}
+                                            className="w-full p-1.5 text-xs bg-neutral-700 border border-neutral-600 rounded-md"
+                                        >
+                                            {BLEND_MODES.map(mode => <option key={mode.value} value={mode.value}>{mode.label}</option>)}
+                                        </select>
+                                        <button type="button" onClick={() => toggleLayerFlag(layer.id, 'isClipped')} disabled={!siblingBelow(layers, layer)} className={`flex-shrink-0 flex items-center gap-1 px-2 py-1 text-xs rounded-full border transition-colors disabled:opacity-50 ${layer.isClipped ? 'bg-blue-600/30 border-blue-500 text-blue-200' : 'border-neutral-600 text-neutral-400 hover:bg-neutral-700'}`} aria-pressed={!!layer.isClipped} title="아래 레이어에 그려진 곳에만 보이게 합니다">
+                                            <CornerDownRightIcon width="12" height="12" />
+                                            클리핑
+                                        </button>
+                                    </div>
                                     
                                     <div className="border-t border-neutral-600/70 pt-3 mt-3">
                                         <h4 className="text-xs font-semibold text-neutral-400 mb-2">설정 이미지</h4>
@@ -3105,10 +4576,10 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                                     </div>
 
                                     <div className="flex items-center gap-2 pt-2">
-                                        <button type="button" onClick={() => mergeLayerDown(layer.id)} disabled={originalIndex === 0} className="w-full flex items-center justify-center gap-2 text-xs p-1 bg-neutral-600 hover:bg-neutral-500 rounded disabled:opacity-50" title="아래 레이어와 병합">
+                                        <button type="button" onClick={() => mergeLayerDown(layer.id)} disabled={mergeBlocker !== null} className="w-full flex items-center justify-center gap-2 text-xs p-1 bg-neutral-600 hover:bg-neutral-500 rounded disabled:opacity-50" title={mergeBlocker ?? (layer.type === 'group' ? '그룹을 합쳐 아래 레이어와 병합' : '아래 레이어와 병합')}>
                                             <MergeDownIcon />
                                         </button>
-                                        <button type="button" onClick={() => deleteLayer(layer.id)} disabled={layers.length <= 1} className="w-full flex items-center justify-center gap-2 text-xs p-1 bg-red-800 hover:bg-red-700 rounded disabled:opacity-50" title="레이어 삭제">
+                                        <button type="button" onClick={() => deleteLayer(layer.id)} disabled={!canDelete} className="w-full flex items-center justify-center gap-2 text-xs p-1 bg-red-800 hover:bg-red-700 rounded disabled:opacity-50" title={layer.type === 'group' ? '그룹과 안의 레이어 삭제' : '레이어 삭제'}>
                                             <TrashIcon />
                                         </button>
                                     </div>
@@ -3118,6 +4589,10 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ title, description
                         )
                     })}
                 </div>
+                <button type="button" onClick={flattenVisibleLayers} disabled={flattenBlocker !== null} className="mt-2 w-full flex items-center justify-center gap-2 text-xs p-1.5 bg-neutral-700 hover:bg-neutral-600 rounded disabled:opacity-50" title={flattenBlocker ?? '보이는 레이어를 모두 하나의 레이어로 합칩니다. 숨긴 레이어는 그대로 둡니다'}>
+                    <MergeDownIcon width="14" height="14" />
+                    보이는 레이어 병합
+                </button>
             </div>
         </div>
       </div>
@@ -460,7 +460,7 @@ export const GeneratedImage: React.FC<GeneratedImageProps> = ({ imageUrl, compar
         {error && !isLoading && (
           <div className="text-center text-red-400 p-4">
             <h3 className="font-bold">오류 발생</h3>
-            <p className="text-sm">{error}</p>
+            <p className="text-sm whitespace-pre-line">{error}</p>
           </div>
         )}
         {!isLoading && !error && !imageUrl && (
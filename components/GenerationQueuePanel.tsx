@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import { isJobFinished, type QueueJob, type QueueJobStatus } from '../services/generationQueue';
+import { CloseIcon, ResetIcon } from './Icons';
+
+interface GenerationQueuePanelProps {
+  jobs: QueueJob<unknown, unknown>[];
+  onCancel: (id: number) => void;
+  onRetry: (id: number) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<QueueJobStatus, { text: string; className: string }> = {
+  queued: { text: '대기', className: 'bg-neutral-600 text-neutral-200' },
+  running: { text: '생성 중', className: 'bg-blue-600 text-white' },
+  retrying: { text: '재시도 대기', className: 'bg-yellow-600 text-white' },
+  succeeded: { text: '완료', className: 'bg-green-700 text-white' },
+  failed: { text: '실패', className: 'bg-red-700 text-white' },
+  cancelled: { text: '취소됨', className: 'bg-neutral-700 text-neutral-400' },
+};
+
+export const GenerationQueuePanel: React.FC<GenerationQueuePanelProps> = ({ jobs, onCancel, onRetry, onClearFinished }) => {
+  const [now, setNow] = useState(Date.now());
+  const hasRetrying = jobs.some(job => job.status === 'retrying');
+
+  // Ticks only while a retry countdown is on screen
+  useEffect(() => {
+    if (!hasRetrying) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasRetrying]);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  const activeCount = jobs.filter(job => !isJobFinished(job.status)).length;
+
+  return (
+    <div className="bg-[#282828] rounded-xl p-5 shadow-md border border-neutral-700/50">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-semibold text-neutral-100">생성 대기열</h2>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-neutral-400">진행 {activeCount} / 전체 {jobs.length}</span>
+          <button
+            type="button"
+            onClick={onClearFinished}
+            disabled={activeCount === jobs.length}
+            className="text-xs text-neutral-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            완료 항목 지우기
+          </button>
+        </div>
+      </div>
+      <ul className="flex flex-col gap-2 max-h-56 overflow-y-auto pr-1">
+        {[...jobs].reverse().map(job => {
+          const status = STATUS_LABELS[job.status];
+          const secondsLeft = job.retryAt ? Math.max(0, Math.ceil((job.retryAt - now) / 1000)) : 0;
+          return (
+            <li key={job.id} className="rounded-lg border border-neutral-700/80 p-2">
+              <div className="flex items-center gap-2">
+                <span className={`text-[10px] font-semibold px-1.5 py-0.5 rounded flex-shrink-0 ${status.className}`}>
+                  {status.text}
+                </span>
+                <span className="text-sm text-neutral-200 truncate flex-grow" title={job.label}>{job.label}</span>
+                {job.status === 'retrying' && (
+                  <span className="text-xs text-yellow-400 flex-shrink-0">{secondsLeft}초 후 ({job.attempts + 1}번째 시도)</span>
+                )}
+                {!isJobFinished(job.status) ? (
+                  <button
+                    type="button"
+                    onClick={() => onCancel(job.id)}
+                    className="p-1 text-neutral-400 hover:text-red-400 flex-shrink-0"
+                    title="작업 취소"
+                    aria-label="작업 취소"
+                  >
+                    <CloseIcon width="14" height="14" />
+                  </button>
+                ) : job.status !== 'succeeded' && (
+                  <button
+                    type="button"
+                    onClick={() => onRetry(job.id)}
+                    className="p-1 text-neutral-400 hover:text-white flex-shrink-0"
+                    title="다시 시도"
+                    aria-label="다시 시도"
+                  >
+                    <ResetIcon width="14" height="14" />
+                  </button>
+                )}
+              </div>
+              {job.error && job.status !== 'succeeded' && job.status !== 'cancelled' && (
+                <p className="mt-1 text-xs text-red-400 line-clamp-3" title={job.error}>{job.error}</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -1,7 +1,9 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { MagicWandIcon, LockIcon, UnlockIcon } from './Icons';
-import { GuestStatus, GuestRecord } from '../types';
+import { LockIcon } from './Icons';
+import { GuestStatus } from '../types';
+import { requestGuestAccess, subscribeToGuestStatus } from '../services/guestService';
+import { ApiError } from '../services/apiClient';
 
 interface GuestAuthScreenProps {
   onLoginSuccess: (guestId: string) => void;
@@ -13,6 +15,8 @@ export const GuestAuthScreen: React.FC<GuestAuthScreenProps> = ({ onLoginSuccess
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [isRequesting, setIsRequesting] = useState(false);
   const [guestSpecificStatus, setGuestSpecificStatus] = useState<GuestStatus | null>(null); 
+  // The ID whose request was filed, i.e. the one to follow in the registry
+  const [trackedGuestId, setTrackedGuestId] = useState<string | null>(currentGuestId);
 
   const getStatusText = useCallback((status: GuestStatus | null) => {
     switch (status) {
@@ -27,55 +31,32 @@ export const GuestAuthScreen: React.FC<GuestAuthScreenProps> = ({ onLoginSuccess
     }
   }, []);
 
-  // Effect to continuously check this guest's status from master_guest_requests
+  // Follow the tracked guest's status; the server pushes every change
   useEffect(() => {
-    const checkGuestStatus = () => {
-      if (inputGuestId.trim()) {
-        try {
-          const storedRecords = localStorage.getItem('master_guest_requests');
-          if (storedRecords) {
-            const allGuestRecords: GuestRecord[] = JSON.parse(storedRecords);
-            const thisGuestRecord = allGuestRecords.find(r => r.id === inputGuestId.trim());
-            if (thisGuestRecord) {
-              if (thisGuestRecord.status !== guestSpecificStatus) {
-                setGuestSpecificStatus(thisGuestRecord.status);
-              }
-            } else if (guestSpecificStatus) {
-              // If this guest's record was deleted by the master
-              setGuestSpecificStatus(null);
-              // The RootComponent will also detect the missing guestId and clear it.
-              // For robustness, clear guestId from localStorage here too if its record is gone
-              localStorage.removeItem('guest_id');
-            }
-          } else if (guestSpecificStatus) {
-            // If all records were cleared by master
-            setGuestSpecificStatus(null);
-            localStorage.removeItem('guest_id');
-          }
-        } catch (error) {
-          console.error("Error checking guest status from master_guest_requests:", error);
-        }
+    if (!trackedGuestId) {
+      return;
+    }
+    return subscribeToGuestStatus(trackedGuestId, (status) => {
+      setGuestSpecificStatus(status);
+      if (!status) {
+        // This guest's record was deleted by the master (or all records were cleared)
+        localStorage.removeItem('guest_id');
       }
-    };
-
-    checkGuestStatus(); // Initial check
-    const interval = setInterval(checkGuestStatus, 2000); // Poll every 2 seconds
-
-    return () => clearInterval(interval);
-  }, [inputGuestId, guestSpecificStatus]);
+    });
+  }, [trackedGuestId]);
 
   // Effect to handle status change messages and login
   useEffect(() => {
     setStatusMessage(getStatusText(guestSpecificStatus));
-    if (guestSpecificStatus === 'allowed' && inputGuestId.trim()) {
+    if (guestSpecificStatus === 'allowed' && trackedGuestId) {
       const timer = setTimeout(() => {
-        onLoginSuccess(inputGuestId.trim());
+        onLoginSuccess(trackedGuestId);
       }, 2000); // 2초 후 로그인 성공 처리
       return () => clearTimeout(timer);
     }
-  }, [guestSpecificStatus, inputGuestId, onLoginSuccess, getStatusText]);
+  }, [guestSpecificStatus, trackedGuestId, onLoginSuccess, getStatusText]);
 
-  const handleRequestAccess = () => {
+  const handleRequestAccess = async () => {
     if (!inputGuestId.trim()) {
       setStatusMessage('사용자 ID를 입력해야 합니다.');
       return;
@@ -84,50 +65,26 @@ export const GuestAuthScreen: React.FC<GuestAuthScreenProps> = ({ onLoginSuccess
     setIsRequesting(true);
     
     const guestIdTrimmed = inputGuestId.trim();
-    const now = new Date().toLocaleString('ko-KR', {
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false
-    });
-    const clientIpAddress = window.location.hostname; // Using hostname as a client-side identifier
 
     try {
-      // Retrieve master's list of guest requests
-      const storedRequests = localStorage.getItem('master_guest_requests');
-      let masterGuestRequests: GuestRecord[] = storedRequests ? JSON.parse(storedRequests) : [];
-      
-      const existingIndex = masterGuestRequests.findIndex(r => r.id === guestIdTrimmed);
-      if (existingIndex !== -1) {
-        // Update existing record with new login time and set status to pending
-        masterGuestRequests[existingIndex] = { 
-          ...masterGuestRequests[existingIndex], 
-          loginTime: now, 
-          status: 'pending' // Always set to pending on re-request
-        };
-      } else {
-        // Add new record
-        masterGuestRequests.push({
-          id: guestIdTrimmed,
-          ipAddress: clientIpAddress,
-          loginTime: now,
-          status: 'pending' as GuestStatus,
-        });
-      }
-      localStorage.setItem('master_guest_requests', JSON.stringify(masterGuestRequests));
+      // The server records the request with this browser's real IP address
+      const record = await requestGuestAccess(guestIdTrimmed);
       
       // Store this guest's ID locally for persistence
       localStorage.setItem('guest_id', guestIdTrimmed);
       
-      setStatusMessage(getStatusText('pending')); // Temporarily show pending locally
-      setGuestSpecificStatus('pending'); // Update local state immediately
-      setIsRequesting(false);
+      setGuestSpecificStatus(record.status); // Update local state immediately
+      setTrackedGuestId(guestIdTrimmed);
     } catch (error) {
       console.error("게스트 접근 요청 중 오류 발생:", error);
-      setStatusMessage("접근 요청 중 오류가 발생했습니다.");
+      if (error instanceof ApiError && error.status === 409) {
+        setStatusMessage("이미 다른 사용자가 사용 중인 ID입니다. 다른 ID를 입력해주세요.");
+      } else if (error instanceof ApiError && error.status === 429) {
+        setStatusMessage("접근 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.");
+      } else {
+        setStatusMessage("접근 요청 중 오류가 발생했습니다.");
+      }
+    } finally {
       setIsRequesting(false);
     }
   };
@@ -148,6 +105,7 @@ export const GuestAuthScreen: React.FC<GuestAuthScreenProps> = ({ onLoginSuccess
             type="text"
             value={inputGuestId}
             onChange={(e) => setInputGuestId(e.target.value)}
+            maxLength={64}
             placeholder="사용자 ID를 입력하세요 (예: Guest001)"
             className="w-full p-3 bg-neutral-700 border border-neutral-600 rounded-md text-neutral-200 placeholder-neutral-500 text-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
             disabled={isRequesting || guestSpecificStatus === 'allowed'}
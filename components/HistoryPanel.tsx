@@ -0,0 +1,61 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { timelineRows, type Timeline } from '../services/historyTimeline';
+import { CornerDownRightIcon } from './Icons';
+
+interface HistoryPanelProps {
+  timeline: Timeline<unknown>;
+  onJump: (id: number | null) => void;
+  startLabel?: string; // Shown as the first row, for timelines whose start is not a step of its own
+  className?: string;
+}
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// The steps of an editor's undo history, oldest first, with branches indented under the step they left from.
+// Clicking a step goes back (or forward) to it; steps after the current one stay and can be gone to again.
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ timeline, onJump, startLabel, className = '' }) => {
+  const rows = useMemo(() => timelineRows(timeline), [timeline]);
+  const currentRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [timeline.currentId]);
+
+  const rowClass = (isCurrent: boolean, isApplied: boolean) =>
+    `w-full flex items-center gap-2 p-1 rounded-md text-left transition-colors ${
+      isCurrent ? 'bg-blue-600/30 ring-1 ring-blue-500 text-white' : isApplied ? 'text-neutral-200 hover:bg-neutral-700' : 'text-neutral-500 hover:bg-neutral-700 hover:text-neutral-300'
+    }`;
+
+  return (
+    <div className={`bg-[#282828] border border-neutral-700/80 rounded-lg shadow-xl p-2 flex flex-col gap-1 ${className}`}>
+      <div className="flex justify-between items-center px-1">
+        <h3 className="text-sm font-semibold text-neutral-100">작업 기록</h3>
+        <span className="text-xs text-neutral-400">{timeline.nodes.length}단계</span>
+      </div>
+      <ul className="flex flex-col gap-0.5 max-h-80 overflow-y-auto pr-1">
+        {startLabel !== undefined && (
+          <li ref={timeline.currentId === null ? currentRef : undefined}>
+            <button type="button" onClick={() => onJump(null)} className={rowClass(timeline.currentId === null, true)}>
+              <span className="w-12 h-9 flex-shrink-0 rounded bg-neutral-700" />
+              <span className="text-xs">{startLabel}</span>
+            </button>
+          </li>
+        )}
+        {rows.map(({ node, depth, isCurrent, isApplied }) => (
+          <li key={node.id} ref={isCurrent ? currentRef : undefined} style={{ paddingLeft: `${depth * 12}px` }}>
+            <button type="button" onClick={() => onJump(node.id)} className={rowClass(isCurrent, isApplied)} title={isApplied ? undefined : '다른 갈래의 작업입니다. 선택하면 이 상태로 이동합니다'}>
+              {depth > 0 && <CornerDownRightIcon className="w-3 h-3 flex-shrink-0" />}
+              {node.thumbnail
+                ? <img src={node.thumbnail} alt="" className={`w-12 h-9 flex-shrink-0 object-contain rounded bg-white ${isApplied ? '' : 'opacity-50'}`} />
+                : <span className="w-12 h-9 flex-shrink-0 rounded bg-neutral-700" />}
+              <span className="flex flex-col min-w-0">
+                <span className="text-xs truncate">{node.label}</span>
+                <span className="text-[10px] text-neutral-500">{formatTime(node.time)}</span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -44,13 +44,19 @@ export const ArrowDownIcon: React.FC<IconProps> = (props) => <BaseIcon width="16
 export const UserIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"/><circle cx="12" cy="7" r="4"/></BaseIcon>;
 export const UsersIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"/><circle cx="9" cy="7" r="4"/><path d="M23 21v-2a4 4 0 0 0-3-3.87"/><path d="M16 3.13a4 4 0 0 1 0 7.75"/></BaseIcon>;
 export const SendIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><line x1="22" y1="2" x2="11" y2="13"/><polygon points="22 2 15 22 11 13 2 9 22 2"/></BaseIcon>;
+export const FolderIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M20 20a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.9a2 2 0 0 1-1.69-.9L9.6 3.9A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13a2 2 0 0 0 2 2Z"/></BaseIcon>;
+export const ChevronRightIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="m9 18 6-6-6-6"/></BaseIcon>;
+export const CornerDownRightIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><polyline points="15 10 20 15 15 20"/><path d="M4 4v7a4 4 0 0 0 4 4h12"/></BaseIcon>;
 export const LockIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><rect x="3" y="11" width="18" height="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0 1 10 0v4"/></BaseIcon>;
 export const UnlockIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><rect x="3" y="11" width="18" height="11" rx="2" ry="2"/><path d="M7 11V7a5 5 0 0 1 9.9-1"/></BaseIcon>;
 export const DownloadIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><polyline points="7 10 12 15 17 10"/><line x1="12" y1="15" x2="12" y2="3"/></BaseIcon>;
 export const CompareIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M12 22V2"/><path d="m17 7-5 5-5-5"/><path d="m7 17 5-5 5 5"/></BaseIcon>;
 export const FieldGuideIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><rect x="3" y="3" width="18" height="18" rx="2"/><path d="M3 9h18M9 21V9"/></BaseIcon>;
 export const SafeAreaIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><rect x="2" y="2" width="20" height="20" rx="2"/><rect x="7" y="7" width="10" height="10" rx="1"/></BaseIcon>;
-export const TargetIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><circle cx="12" cy="12" r="10"/><circle cx="12" cy="12" r="6"/><circle cx="12" cy="12" r="2"/></TargetIcon>;
+export const TargetIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><circle cx="12" cy="12" r="10"/><circle cx="12" cy="12" r="6"/><circle cx="12" cy="12" r="2"/></BaseIcon>;
+export const MagnetIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="m6 15-4-4 6.75-6.77a7.79 7.79 0 0 1 11 11L13 22l-4-4 6.39-6.36a2.14 2.14 0 0 0-3-3L6 15"/><path d="m5 8 4 4"/><path d="m12 15 4 4"/></BaseIcon>;
+export const MousePointerIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="m3 3 7.07 16.97 2.51-7.39 7.39-2.51L3 3z"/><path d="m13 13 6 6"/></BaseIcon>;
+export const PersonStandingIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><circle cx="12" cy="5" r="1"/><path d="m9 20 3-6 3 6"/><path d="m6 8 6 2 6-2"/><path d="M12 10v4"/></BaseIcon>;
 export const AxisIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M12 20V4"/><path d="m6 14 6 6 6-6"/><path d="M4 12h16"/></BaseIcon>;
 export const AngleIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M3 21V3h18"/><path d="M17 8a4 4 0 1 0-8 0"/></BaseIcon>;
 export const CircleIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><circle cx="12" cy="12" r="10"/></BaseIcon>;
@@ -66,10 +72,13 @@ export const MarkerIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><
 export const MergeDownIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><polyline points="8 6 12 2 16 6"/><line x1="12" y1="2" x2="12" y2="10"/><path d="M12 22V10"/><path d="M15 15l-3 3-3-3"/></BaseIcon>;
 export const OpacityIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M12 2a10 10 0 1 0 10 10A10 10 0 0 0 12 2zM12 18a6 6 0 0 1 0-12"/></BaseIcon>;
 export const RectangleIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><rect x="3" y="3" width="18" height="18" rx="2"/></BaseIcon>;
+export const SelectRectIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M5 3a2 2 0 0 0-2 2"/><path d="M19 3a2 2 0 0 1 2 2"/><path d="M21 19a2 2 0 0 1-2 2"/><path d="M5 21a2 2 0 0 1-2-2"/><path d="M9 3h1"/><path d="M9 21h1"/><path d="M14 3h1"/><path d="M14 21h1"/><path d="M3 9v1"/><path d="M21 9v1"/><path d="M3 14v1"/><path d="M21 14v1"/></BaseIcon>;
+export const LassoIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M7 22a5 5 0 0 1-2-4"/><path d="M3.3 14A6.8 6.8 0 0 1 2 10c0-4.4 4.5-8 10-8s10 3.6 10 8-4.5 8-10 8a12 12 0 0 1-5-1"/><path d="M5 18a2 2 0 1 0 0-4 2 2 0 0 0 0 4z"/></BaseIcon>;
 export const RectangleHorizontalIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><rect x="2" y="7" width="20" height="10" rx="2"/></BaseIcon>;
 export const RedoIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M21 7v6h-6"/><path d="M3 17a9 9 0 0 1 9-9 9 9 0 0 1 6 2.3l3 2.7"/></BaseIcon>;
 export const RotateCcwIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M3 12a9 9 0 1 0 1.63-5.32L3 12"/><path d="M3 2v6h6"/></BaseIcon>;
 export const RotateCwIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M21 2v6h-6"/><path d="M3 12a9 9 0 1 1 1.63-5.32L3 12"/></BaseIcon>;
+export const HistoryIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"/><path d="M3 3v5h5"/><path d="M12 7v5l4 2"/></BaseIcon>;
 export const UndoIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M3 7v6h6"/><path d="M21 17a9 9 0 0 0-9-9 9 9 0 0 0-6 2.3L3 13"/></BaseIcon>;
 export const SaveIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"/><polyline points="17 21 17 13 7 13 7 21"/><polyline points="7 3 7 8 15 8"/></BaseIcon>;
 export const BotIcon: React.FC<IconProps> = (props) => <BaseIcon {...props}><path d="M12 8V4H8"/><rect width="16" height="12" x="4" y="8" rx="2"/><path d="M2 14h2"/><path d="M20 14h2"/><path d="M15 13v2"/><path d="M9 13v2"/></BaseIcon>;
@@ -2,91 +2,68 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { UserIcon, LockIcon, UnlockIcon, TrashIcon, ResetIcon, CloseIcon } from './Icons';
 import { GuestRecord, GuestStatus } from '../types';
-
-// Dummy data for demonstration - now used only if localStorage is empty
-const initialDummyUserRecords: GuestRecord[] = [
-  { id: 'guest_001', ipAddress: '192.168.1.100', loginTime: '2024-08-01 10:30:00', status: 'allowed' },
-  { id: 'guest_002', ipAddress: '10.0.0.5', loginTime: '2024-08-01 11:15:23', status: 'pending' },
-  { id: 'guest_003', ipAddress: '172.16.0.20', loginTime: '2024-08-01 14:05:10', status: 'blocked' },
-  { id: 'guest_004', ipAddress: '192.168.1.101', loginTime: '2024-08-02 09:00:00', status: 'allowed' },
-  { id: 'guest_005', ipAddress: '10.0.0.6', loginTime: '2024-08-02 10:20:00', status: 'pending' },
-];
+import {
+  fetchGuestRecords,
+  updateGuestStatus,
+  deleteGuestRecord,
+  clearGuestRecords,
+  subscribeToGuestRecords,
+} from '../services/guestService';
 
 export const MasterDashboard: React.FC = () => {
   const [userRecords, setUserRecords] = useState<GuestRecord[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
+  const [error, setError] = useState<string | null>(null);
 
-  // Effect to load records and poll for updates
+  // Load records, then follow the registry as the server pushes changes
   useEffect(() => {
-    const loadAndPollRecords = () => {
-      try {
-        const storedRecords = localStorage.getItem('master_guest_requests');
-        if (storedRecords) {
-          const parsedRecords: GuestRecord[] = JSON.parse(storedRecords);
-          // Only update state if records have actually changed to prevent unnecessary re-renders
-          if (JSON.stringify(parsedRecords) !== JSON.stringify(userRecords)) {
-            setUserRecords(parsedRecords);
-          }
-        } else {
-          // If localStorage is empty, and userRecords is also empty, initialize with dummy data and save it.
-          // This ensures the dashboard isn't always empty if it's the first time running.
-          if (userRecords.length === 0) { 
-            setUserRecords(initialDummyUserRecords);
-            localStorage.setItem('master_guest_requests', JSON.stringify(initialDummyUserRecords));
-          }
-        }
-      } catch (error) {
-        console.error("Failed to load guest records from localStorage:", error);
-        // Fallback to dummy data if loading from localStorage fails AND current state is empty
-        if (userRecords.length === 0) {
-          setUserRecords(initialDummyUserRecords);
-        }
-      }
-    };
-
-    loadAndPollRecords(); // Load on initial mount
-
-    const interval = setInterval(loadAndPollRecords, 3000); // Poll every 3 seconds
+    let cancelled = false;
+    fetchGuestRecords()
+      .then(records => { if (!cancelled) setUserRecords(records); })
+      .catch(err => {
+        console.error("Failed to load guest records:", err);
+        if (!cancelled) setError('게스트 기록을 불러오지 못했습니다. 세션이 만료되었다면 다시 로그인해주세요.');
+      });
 
-    return () => clearInterval(interval); // Cleanup interval on unmount
-  }, [userRecords]); // Dependency array to trigger effect if userRecords changes externally (e.g., manual localStorage edit)
+    const unsubscribe = subscribeToGuestRecords(records => {
+      setUserRecords(records);
+      setError(null);
+    });
 
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
 
-  const handleToggleAllow = useCallback((id: string) => {
-    setUserRecords(prevRecords => {
-      const updatedRecords = prevRecords.map(record => {
-        if (record.id === id) {
-          const newStatus: GuestStatus = record.status === 'allowed' ? 'blocked' : 'allowed';
-          return { ...record, status: newStatus };
-        }
-        return record;
-      });
-      localStorage.setItem('master_guest_requests', JSON.stringify(updatedRecords)); // Save updated array
-      return updatedRecords;
-    });
+  // Every change goes through the server, which also pushes the result to other dashboards and guests
+  const runRegistryAction = useCallback(async (action: () => Promise<GuestRecord[]>) => {
+    try {
+      setUserRecords(await action());
+      setError(null);
+    } catch (err) {
+      console.error("Guest registry update failed:", err);
+      setError(err instanceof Error ? `변경 사항을 저장하지 못했습니다: ${err.message}` : '변경 사항을 저장하지 못했습니다.');
+    }
   }, []);
 
+  const handleToggleAllow = useCallback((record: GuestRecord) => {
+    const newStatus: GuestStatus = record.status === 'allowed' ? 'blocked' : 'allowed';
+    runRegistryAction(() => updateGuestStatus(record.id, newStatus));
+  }, [runRegistryAction]);
+
   const handleDeleteRecord = useCallback((id: string) => {
-    setUserRecords(prevRecords => {
-      const updatedRecords = prevRecords.filter(record => record.id !== id);
-      localStorage.setItem('master_guest_requests', JSON.stringify(updatedRecords)); // Save updated array
-      return updatedRecords;
-    });
-  }, []);
+    runRegistryAction(() => deleteGuestRecord(id));
+  }, [runRegistryAction]);
 
   const handleResetRecords = useCallback(() => {
-    setUserRecords([]); // Clear all records in state
-    localStorage.removeItem('master_guest_requests'); // Clear central storage
+    runRegistryAction(() => clearGuestRecords('all'));
     setSearchTerm(''); // Clear search term
-  }, []);
+  }, [runRegistryAction]);
 
   const handleClearPendingBlocked = useCallback(() => {
-    setUserRecords(prevRecords => {
-      const updatedRecords = prevRecords.filter(record => record.status === 'allowed');
-      localStorage.setItem('master_guest_requests', JSON.stringify(updatedRecords)); // Save updated array
-      return updatedRecords;
-    });
-  }, []);
+    runRegistryAction(() => clearGuestRecords('not_allowed'));
+  }, [runRegistryAction]);
 
   const filteredRecords = userRecords.filter(record =>
     record.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -123,10 +100,11 @@ export const MasterDashboard: React.FC = () => {
 
       <p className="text-neutral-400 text-sm mb-6">
         이 대시보드에서는 게스트 사용자들의 로그인 기록과 접근 권한을 관리할 수 있습니다.
-        <strong className="text-yellow-400"> 이 기능은 동일 브라우저 또는 동일 기기 내에서만 작동합니다.</strong>
-        다른 기기에서 요청하려면 중앙 서버가 필요하며, 이는 현재 앱 범위에 포함되지 않습니다.
+        요청과 승인은 서버에 저장되며, 다른 기기의 게스트에게도 실시간으로 반영됩니다.
       </p>
 
+      {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
       <div className="mb-4">
         <input
           type="text"
@@ -146,7 +124,7 @@ export const MasterDashboard: React.FC = () => {
               <thead className="bg-neutral-700 sticky top-0">
                 <tr>
                   <th className="py-3 px-4 text-left text-xs font-semibold text-neutral-300 uppercase tracking-wider">ID</th>
-                  <th className="py-3 px-4 text-left text-xs font-semibold text-neutral-300 uppercase tracking-wider">클라이언트 호스트명</th>
+                  <th className="py-3 px-4 text-left text-xs font-semibold text-neutral-300 uppercase tracking-wider">클라이언트 IP</th>
                   <th className="py-3 px-4 text-left text-xs font-semibold text-neutral-300 uppercase tracking-wider">최근 로그인 요청</th>
                   <th className="py-3 px-4 text-left text-xs font-semibold text-neutral-300 uppercase tracking-wider">상태</th>
                   <th className="py-3 px-4 text-left text-xs font-semibold text-neutral-300 uppercase tracking-wider">액션</th>
@@ -172,7 +150,7 @@ export const MasterDashboard: React.FC = () => {
                     <td className="py-3 px-4 text-sm text-neutral-200">
                       <div className="flex gap-2">
                         <button
-                          onClick={() => handleToggleAllow(record.id)}
+                          onClick={() => handleToggleAllow(record)}
                           className={`p-2 rounded-md transition-colors ${
                             record.status === 'allowed'
                               ? 'bg-red-700 hover:bg-red-600'
@@ -1,6 +1,8 @@
 
-import React, { useState, useEffect } from 'react';
-import { LockIcon, MagicWandIcon } from './Icons';
+import React, { useState } from 'react';
+import { MagicWandIcon } from './Icons';
+import { loginMaster } from '../services/authService';
+import { ApiError } from '../services/apiClient';
 
 interface MasterLoginScreenProps {
   onLoginSuccess: () => void;
@@ -13,24 +15,24 @@ export const MasterLoginScreen: React.FC<MasterLoginScreenProps> = ({ onLoginSuc
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
 
-  const MASTER_ID = 'ddrw133';
-  const MASTER_PASSWORD = 'Isform123456';
-  const MASTER_EMAIL = 'ddrw133@nate.com';
-
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setIsLoading(true);
 
-    // Simulate API call
-    setTimeout(() => {
-      if (id === MASTER_ID && password === MASTER_PASSWORD && email === MASTER_EMAIL) {
-        onLoginSuccess();
-      } else {
+    try {
+      await loginMaster(id, password, email);
+      onLoginSuccess();
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 401) {
         setError('잘못된 ID, 비밀번호 또는 이메일입니다.');
+      } else {
+        console.error("Master login failed:", err);
+        setError('로그인 서버에 연결할 수 없습니다. 잠시 후 다시 시도해주세요.');
       }
+    } finally {
       setIsLoading(false);
-    }, 1000); // Simulate network delay
+    }
   };
 
   return (
@@ -0,0 +1,22 @@
+import React from 'react';
+import { PRESSURE_CURVE_OPTIONS, type PressureCurve } from '../services/pointerInput';
+
+// The per-tool pressure curve, shown with each brush's options in the drawing surfaces
+export const PressureCurveSelect: React.FC<{
+  id: string;
+  curve: PressureCurve;
+  onChange: (curve: PressureCurve) => void;
+}> = ({ id, curve, onChange }) => (
+  <div className="flex items-center gap-2">
+    <label htmlFor={id} className="text-xs text-neutral-400">필압</label>
+    <select
+      id={id}
+      value={curve}
+      onChange={e => onChange(e.target.value as PressureCurve)}
+      className="p-1 text-xs bg-neutral-700 border border-neutral-600 rounded-md"
+      title="펜 태블릿 필압 곡선"
+    >
+      {PRESSURE_CURVE_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+    </select>
+  </div>
+);
@@ -0,0 +1,275 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { PromptTemplateKind, PromptTemplateLibrary, PromptTemplateVersion } from '../types';
+import {
+  PROMPT_TEMPLATE_KINDS,
+  DEFAULT_PROMPT_TEMPLATES,
+  addTemplateVersion,
+  getActiveTemplateVersion,
+  getTemplateVersion,
+  setActiveTemplateVersion,
+  validatePromptTemplate,
+} from '../services/promptTemplates';
+import { BotIcon, CloseIcon, CompareIcon } from './Icons';
+
+interface PromptTemplateManagerProps {
+  isOpen: boolean;
+  library: PromptTemplateLibrary;
+  onClose: () => void;
+  onChange: (library: PromptTemplateLibrary) => void;
+  onCompareGenerate: (a: PromptTemplateVersion, b: PromptTemplateVersion) => void; // A/B run of two generation versions
+}
+
+interface DiffRow {
+  left: string | null;
+  right: string | null;
+  changed: boolean;
+}
+
+// Line diff by longest common subsequence, laid out as side-by-side rows
+const diffLines = (a: string, b: string): DiffRow[] => {
+  const left = a.split('\n');
+  const right = b.split('\n');
+  const lcs: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lcs[i][j] = left[i] === right[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length || j < right.length) {
+    if (i < left.length && j < right.length && left[i] === right[j]) {
+      rows.push({ left: left[i++], right: right[j++], changed: false });
+    } else if (j < right.length && (i === left.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      rows.push({ left: null, right: right[j++], changed: true });
+    } else {
+      rows.push({ left: left[i++], right: null, changed: true });
+    }
+  }
+  return rows;
+};
+
+const formatDate = (iso: string) => (new Date(iso).getTime() === 0 ? '기본 제공' : new Date(iso).toLocaleString());
+
+export const PromptTemplateManager: React.FC<PromptTemplateManagerProps> = ({ isOpen, library, onClose, onChange, onCompareGenerate }) => {
+  const [kind, setKind] = useState<PromptTemplateKind>('generation');
+  const [selectedVersion, setSelectedVersion] = useState(library.generation.activeVersion);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+
+  const template = library[kind];
+  const selected = getTemplateVersion(library, kind, selectedVersion) ?? getActiveTemplateVersion(library, kind);
+  const compared = compareVersion !== null ? getTemplateVersion(library, kind, compareVersion) : null;
+  const kindInfo = PROMPT_TEMPLATE_KINDS.find(k => k.kind === kind)!;
+  const problems = useMemo(() => validatePromptTemplate(kind, draft), [kind, draft]);
+  const hasSyntaxError = problems.some(problem => !problem.startsWith('알 수 없는 변수'));
+  const diffRows = useMemo(() => (compared ? diffLines(compared.text, selected.text) : []), [compared, selected]);
+
+  // Opening the manager or switching kinds starts from the active version
+  useEffect(() => {
+    if (!isOpen) return;
+    const active = getActiveTemplateVersion(library, kind);
+    setSelectedVersion(active.version);
+    setDraft(active.text);
+    setCompareVersion(null);
+    setNote('');
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, kind]);
+
+  if (!isOpen) return null;
+
+  const handleSelectVersion = (version: PromptTemplateVersion) => {
+    setSelectedVersion(version.version);
+    setDraft(version.text);
+    if (compareVersion === version.version) setCompareVersion(null);
+  };
+
+  const handleSaveVersion = () => {
+    const next = addTemplateVersion(library, kind, draft, note.trim());
+    onChange(next);
+    setSelectedVersion(next[kind].activeVersion);
+    setNote('');
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-[#363636] rounded-xl shadow-2xl w-full max-w-6xl h-[85vh] flex flex-col border border-neutral-700/50"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-5 border-b border-neutral-700/80">
+          <h2 className="text-xl font-semibold text-neutral-100 flex items-center gap-3">
+            <BotIcon />
+            프롬프트 템플릿
+          </h2>
+          <button type="button" onClick={onClose} className="p-1.5 text-neutral-400 hover:bg-neutral-600 rounded-full transition-colors">
+            <CloseIcon />
+          </button>
+        </div>
+
+        <div className="flex gap-1 px-5 pt-4">
+          {PROMPT_TEMPLATE_KINDS.map(k => (
+            <button
+              key={k.kind}
+              type="button"
+              onClick={() => setKind(k.kind)}
+              className={`px-4 py-1.5 rounded-md text-sm font-medium transition-colors ${kind === k.kind ? 'bg-neutral-500 text-white' : 'text-neutral-300 hover:bg-neutral-600/50'}`}
+            >
+              {k.label}
+            </button>
+          ))}
+        </div>
+        <p className="px-5 pt-2 text-xs text-neutral-400">{kindInfo.description} 저장한 버전은 프로젝트 파일에 함께 저장됩니다.</p>
+
+        <div className="flex-grow min-h-0 grid grid-cols-[14rem_1fr_14rem] gap-4 p-5">
+          {/* Versions */}
+          <div className="flex flex-col min-h-0">
+            <h3 className="text-sm font-semibold text-neutral-200 mb-2">버전</h3>
+            <ul className="flex flex-col gap-1.5 overflow-y-auto pr-1">
+              {[...template.versions].reverse().map(version => (
+                <li
+                  key={version.version}
+                  onClick={() => handleSelectVersion(version)}
+                  className={`rounded-lg border p-2 cursor-pointer transition-colors ${version.version === selected.version ? 'border-blue-500 bg-neutral-700/60' : 'border-neutral-700/80 hover:bg-neutral-700/40'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-neutral-100">v{version.version}</span>
+                    {version.version === template.activeVersion && (
+                      <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-green-700 text-white">사용 중</span>
+                    )}
+                    {version.version !== selected.version && (
+                      <button
+                        type="button"
+                        onClick={e => { e.stopPropagation(); setCompareVersion(compareVersion === version.version ? null : version.version); }}
+                        className={`ml-auto p-1 rounded ${compareVersion === version.version ? 'text-blue-400' : 'text-neutral-400 hover:text-white'}`}
+                        title="선택한 버전과 비교"
+                        aria-label="선택한 버전과 비교"
+                      >
+                        <CompareIcon width="14" height="14" />
+                      </button>
+                    )}
+                  </div>
+                  {version.note && <p className="text-xs text-neutral-300 mt-1 line-clamp-2">{version.note}</p>}
+                  <p className="text-[10px] text-neutral-500 mt-0.5">{formatDate(version.createdAt)}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Editor or comparison */}
+          <div className="flex flex-col min-h-0">
+            {compared ? (
+              <>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="text-sm font-semibold text-neutral-200">v{compared.version} ↔ v{selected.version} 비교</h3>
+                  <div className="flex items-center gap-2">
+                    {kind === 'generation' && (
+                      <button
+                        type="button"
+                        onClick={() => onCompareGenerate(compared, selected)}
+                        className="px-3 py-1 text-xs font-semibold rounded bg-blue-600 hover:bg-blue-700 text-white"
+                        title="같은 시드로 두 버전을 각각 생성해 배리에이션 시트에 나란히 표시합니다"
+                      >
+                        A/B 생성
+                      </button>
+                    )}
+                    <button type="button" onClick={() => setCompareVersion(null)} className="text-xs text-neutral-400 hover:text-white">
+                      비교 닫기
+                    </button>
+                  </div>
+                </div>
+                <div className="flex-grow overflow-auto rounded-lg border border-neutral-700/80 bg-[#282828] font-mono text-xs">
+                  {diffRows.map((row, index) => (
+                    <div key={index} className="grid grid-cols-2">
+                      <pre className={`px-2 whitespace-pre-wrap break-words border-r border-neutral-700/80 ${row.changed && row.left !== null ? 'bg-red-900/40 text-red-200' : 'text-neutral-400'}`}>{row.left ?? ' '}</pre>
+                      <pre className={`px-2 whitespace-pre-wrap break-words ${row.changed && row.right !== null ? 'bg-green-900/40 text-green-200' : 'text-neutral-400'}`}>{row.right ?? ' '}</pre>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="text-sm font-semibold text-neutral-200">v{selected.version} 편집</h3>
+                  <button
+                    type="button"
+                    onClick={() => setDraft(DEFAULT_PROMPT_TEMPLATES[kind])}
+                    className="text-xs text-neutral-400 hover:text-white"
+                    title="편집 중인 내용을 기본 템플릿으로 바꿉니다 (저장 전까지 적용되지 않습니다)"
+                  >
+                    기본값 불러오기
+                  </button>
+                </div>
+                <textarea
+                  value={draft}
+                  onChange={e => setDraft(e.target.value)}
+                  spellCheck={false}
+                  className="flex-grow w-full rounded-lg border border-neutral-700/80 bg-[#282828] p-3 font-mono text-xs text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                />
+                {problems.length > 0 && (
+                  <ul className="mt-2 text-xs text-yellow-400 space-y-0.5">
+                    {problems.map(problem => <li key={problem}>{problem}</li>)}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+
+          {/* Variables */}
+          <div className="flex flex-col min-h-0">
+            <h3 className="text-sm font-semibold text-neutral-200 mb-2">변수</h3>
+            {kindInfo.variables.length === 0 ? (
+              <p className="text-xs text-neutral-500">이 템플릿에는 변수가 없습니다.</p>
+            ) : (
+              <ul className="flex flex-col gap-2 overflow-y-auto pr-1">
+                {kindInfo.variables.map(variable => (
+                  <li key={variable.name}>
+                    <code className="text-xs text-blue-300">{`{{${variable.name}}}`}</code>
+                    <p className="text-xs text-neutral-400">{variable.description}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <p className="text-[11px] text-neutral-500 mt-3 leading-relaxed">
+              조건문: <code>{'{{#if 변수}}…{{else}}…{{/if}}'}</code>
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end items-center gap-3 p-4 bg-[#2f2f2f] border-t border-neutral-700/80 rounded-b-xl">
+          <button
+            type="button"
+            onClick={() => onChange(setActiveTemplateVersion(library, kind, selected.version))}
+            disabled={selected.version === template.activeVersion}
+            className="px-4 py-2 bg-neutral-600 text-neutral-100 font-medium rounded-md hover:bg-neutral-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            v{selected.version} 사용
+          </button>
+          <input
+            type="text"
+            value={note}
+            onChange={e => setNote(e.target.value)}
+            placeholder="변경 메모 (선택)"
+            className="w-64 bg-[#282828] border border-neutral-700/80 rounded-md px-3 py-2 text-sm text-neutral-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            type="button"
+            onClick={handleSaveVersion}
+            disabled={!!compared || hasSyntaxError || draft === selected.text}
+            className="px-5 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 transition-colors disabled:bg-blue-900/50 disabled:text-neutral-500 disabled:cursor-not-allowed"
+          >
+            새 버전으로 저장
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
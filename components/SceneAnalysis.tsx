@@ -1,9 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { ChatMessage } from '../types';
+import type { CameraOptions, ChatMessage, SceneAnalysisResult } from '../types';
 import { BotIcon, UserIcon, SendIcon, MagicWandIcon } from './Icons';
+import { angleTypeLabel, angleTypeChanges, lensLabel, shotTypeChanges, shotTypeLabel } from '../services/cameraPresets';
+import { suggestedVanishingPoints } from '../services/sceneAnalysis';
 
 interface SceneAnalysisProps {
   chatHistory: ChatMessage[];
+  analysis: SceneAnalysisResult | null; // The latest structured analysis, shown as cards above the chat
+  onApplyCamera: (changes: Partial<CameraOptions>) => void;
+  onApplyPerspective: (points: { x: number; y: number }[]) => void;
   isLoading: boolean;
   error: string | null;
   onAnalyze: () => void;
@@ -63,8 +68,90 @@ const MessageContent: React.FC<{ text: string }> = ({ text }) => {
     );
 };
 
+const Card: React.FC<{ title: string; action?: { label: string; onClick: () => void; disabled?: boolean }; children: React.ReactNode }> = ({ title, action, children }) => (
+    <div className="rounded-lg border border-neutral-700/80 bg-neutral-900/30 p-3">
+        <div className="flex justify-between items-center gap-2 mb-1.5">
+            <h3 className="text-sm font-semibold text-neutral-200">{title}</h3>
+            {action && (
+                <button
+                    type="button"
+                    onClick={action.onClick}
+                    disabled={action.disabled}
+                    className="flex-shrink-0 px-2 py-0.5 text-xs font-semibold rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                    {action.label}
+                </button>
+            )}
+        </div>
+        <div className="text-xs text-neutral-300 space-y-1">{children}</div>
+    </div>
+);
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const AnalysisCards: React.FC<{
+    analysis: SceneAnalysisResult;
+    onApplyCamera: (changes: Partial<CameraOptions>) => void;
+    onApplyPerspective: (points: { x: number; y: number }[]) => void;
+}> = ({ analysis, onApplyCamera, onApplyPerspective }) => {
+    const { camera, perspective, characters, compositionIssues, continuityWarnings } = analysis;
+    const hasCameraSuggestion = camera.shotType !== 'none' || camera.angleType !== 'none' || camera.lens !== 'none';
+    const vanishingPoints = suggestedVanishingPoints(analysis);
+
+    // Same as picking the values in the camera panel: a shot type wins over an angle type
+    const handleApplyCamera = () => {
+        const changes: Partial<CameraOptions> = camera.shotType !== 'none'
+            ? shotTypeChanges(camera.shotType)
+            : camera.angleType !== 'none' ? angleTypeChanges(camera.angleType) : {};
+        onApplyCamera(camera.lens !== 'none' ? { ...changes, lens: camera.lens } : changes);
+    };
+
+    return (
+        <div className="grid grid-cols-1 gap-2">
+            <Card title="카메라" action={{ label: '카메라에 적용', onClick: handleApplyCamera, disabled: !hasCameraSuggestion }}>
+                <p>
+                    샷 <strong>{shotTypeLabel(camera.shotType)}</strong> · 앵글 <strong>{angleTypeLabel(camera.angleType)}</strong> · 렌즈 <strong>{lensLabel(camera.lens)}</strong>
+                </p>
+                {camera.reason && <p className="text-neutral-400">{camera.reason}</p>}
+            </Card>
+            <Card title="원근" action={{ label: '원근 도구에 적용', onClick: () => onApplyPerspective(vanishingPoints), disabled: vanishingPoints.length === 0 }}>
+                <p>
+                    수평선 {perspective.horizonY !== null ? `위에서 ${formatPercent(perspective.horizonY)}` : '판단 불가'} · 소실점 {vanishingPoints.length}개
+                    {vanishingPoints.length > 0 && ` (${vanishingPoints.map(vp => `${formatPercent(vp.x)}, ${formatPercent(vp.y)}`).join(' / ')})`}
+                </p>
+                {perspective.reason && <p className="text-neutral-400">{perspective.reason}</p>}
+            </Card>
+            {characters.length > 0 && (
+                <Card title="캐릭터 포즈">
+                    {characters.map((character, i) => (
+                        <p key={i}><strong>{character.name || `캐릭터 ${i + 1}`}</strong>: {character.pose}{character.facing && <span className="text-neutral-400"> ({character.facing})</span>}</p>
+                    ))}
+                </Card>
+            )}
+            {compositionIssues.length > 0 && (
+                <Card title="구도 문제">
+                    {compositionIssues.map((issue, i) => (
+                        <div key={i}>
+                            <p className={issue.severity === 'warning' ? 'text-yellow-400' : 'text-neutral-200'}>{issue.severity === 'warning' ? '⚠ ' : ''}{issue.issue}</p>
+                            {issue.suggestion && <p className="text-neutral-400 pl-3">→ {issue.suggestion}</p>}
+                        </div>
+                    ))}
+                </Card>
+            )}
+            {continuityWarnings.length > 0 && (
+                <Card title="연속성 경고">
+                    {continuityWarnings.map((warning, i) => <p key={i} className="text-yellow-400">⚠ {warning}</p>)}
+                </Card>
+            )}
+        </div>
+    );
+};
+
 export const SceneAnalysis: React.FC<SceneAnalysisProps> = ({ 
   chatHistory, 
+  analysis,
+  onApplyCamera,
+  onApplyPerspective,
   isLoading, 
   error, 
   onAnalyze, 
@@ -99,6 +186,7 @@ export const SceneAnalysis: React.FC<SceneAnalysisProps> = ({
       </p>
 
       <div className="mt-4 flex flex-col gap-4 flex-grow">
+        {analysis && <AnalysisCards analysis={analysis} onApplyCamera={onApplyCamera} onApplyPerspective={onApplyPerspective} />}
         <div ref={chatContainerRef} className="flex-grow h-40 overflow-y-auto space-y-4 pr-2 rounded-lg bg-neutral-900/30 p-4 border border-neutral-700/50">
           {chatHistory.map((msg, index) => (
             <div key={index} className={`flex gap-3 items-start ${msg.role === 'user' ? 'justify-end' : ''}`}>
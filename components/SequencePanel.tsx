@@ -0,0 +1,175 @@
+import React, { useState, useEffect } from 'react';
+import type { Cut } from '../types';
+import { formatDuration, isCutPending, parseDuration } from '../services/sequence';
+import { ArrowDownIcon, ArrowUpIcon, MagicWandIcon, PlusIcon, TrashIcon } from './Icons';
+
+interface SequencePanelProps {
+  cuts: Cut[];
+  activeCutId: number;
+  onSelect: (id: number) => void;
+  onAdd: () => void;
+  onDelete: (id: number) => void;
+  onMove: (id: number, direction: -1 | 1) => void;
+  onUpdate: (id: number, changes: Partial<Pick<Cut, 'cutNumber' | 'durationFrames' | 'notes'>>) => void;
+  onGenerateAllPending: () => void;
+  disabled: boolean;
+}
+
+// Text field for seconds+frames that only commits a value it can parse
+const DurationInput: React.FC<{ frames: number; onCommit: (frames: number) => void; disabled: boolean }> = ({ frames, onCommit, disabled }) => {
+  const [text, setText] = useState(formatDuration(frames));
+
+  useEffect(() => {
+    setText(formatDuration(frames));
+  }, [frames]);
+
+  const commit = () => {
+    const parsed = parseDuration(text);
+    if (parsed !== null && parsed > 0) {
+      onCommit(parsed);
+    } else {
+      setText(formatDuration(frames));
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+      disabled={disabled}
+      className="w-16 p-1 bg-neutral-700/80 border border-neutral-600/80 rounded-md text-neutral-200 text-xs text-center focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      title="초+프레임 (24fps). 예: 3+12"
+      aria-label="컷 길이"
+    />
+  );
+};
+
+export const SequencePanel: React.FC<SequencePanelProps> = ({
+  cuts,
+  activeCutId,
+  onSelect,
+  onAdd,
+  onDelete,
+  onMove,
+  onUpdate,
+  onGenerateAllPending,
+  disabled,
+}) => {
+  const totalFrames = cuts.reduce((sum, cut) => sum + cut.durationFrames, 0);
+  const pendingCount = cuts.filter(isCutPending).length;
+
+  return (
+    <div className="bg-[#282828] rounded-xl p-5 shadow-md border border-neutral-700/50">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-semibold text-neutral-100">컷 시퀀스</h2>
+        <span className="text-xs text-neutral-400">{cuts.length}컷 · 총 {formatDuration(totalFrames)}</span>
+      </div>
+      <p className="text-sm text-neutral-400 mb-4">컷마다 레이어, 콘티, 카메라, 연출 지시와 생성 기록이 따로 저장됩니다.</p>
+
+      <div className="flex flex-col gap-2 max-h-80 overflow-y-auto pr-1">
+        {cuts.map((cut, index) => {
+          const isActive = cut.id === activeCutId;
+          const latest = cut.history[cut.history.length - 1];
+          return (
+            <div
+              key={cut.id}
+              onClick={() => !disabled && !isActive && onSelect(cut.id)}
+              className={`rounded-lg border p-2 transition-colors ${
+                isActive
+                  ? 'border-blue-500 bg-neutral-700/60'
+                  : 'border-neutral-700/80 hover:bg-neutral-700/40 cursor-pointer'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <div className="w-10 h-10 flex-shrink-0 rounded bg-neutral-800 overflow-hidden flex items-center justify-center">
+                  {latest
+                    ? <img src={latest.thumbnailUrl} alt={`${cut.cutNumber} 최근 결과`} className="w-full h-full object-cover" />
+                    : <span className="text-[10px] text-neutral-500">없음</span>}
+                </div>
+                <div className="flex-grow min-w-0">
+                  {isActive ? (
+                    <input
+                      type="text"
+                      value={cut.cutNumber}
+                      onChange={(e) => onUpdate(cut.id, { cutNumber: e.target.value })}
+                      disabled={disabled}
+                      className="w-full p-1 bg-neutral-700/80 border border-neutral-600/80 rounded-md text-neutral-100 text-sm font-semibold focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      aria-label="컷 번호"
+                    />
+                  ) : (
+                    <p className="text-sm font-semibold text-neutral-100 truncate">{cut.cutNumber}</p>
+                  )}
+                  <span className={`text-xs ${isCutPending(cut) ? 'text-yellow-400' : 'text-green-400'}`}>
+                    {isCutPending(cut) ? '생성 대기' : `생성 ${cut.history.length}회`}
+                  </span>
+                </div>
+                {isActive ? (
+                  <DurationInput
+                    frames={cut.durationFrames}
+                    onCommit={(frames) => onUpdate(cut.id, { durationFrames: frames })}
+                    disabled={disabled}
+                  />
+                ) : (
+                  <span className="text-xs text-neutral-400">{formatDuration(cut.durationFrames)}</span>
+                )}
+                <div className="flex flex-col" onClick={(e) => e.stopPropagation()}>
+                  <button type="button" onClick={() => onMove(cut.id, -1)} disabled={disabled || index === 0} className="p-0.5 text-neutral-400 hover:text-white disabled:opacity-30" title="위로 이동">
+                    <ArrowUpIcon width="12" height="12" />
+                  </button>
+                  <button type="button" onClick={() => onMove(cut.id, 1)} disabled={disabled || index === cuts.length - 1} className="p-0.5 text-neutral-400 hover:text-white disabled:opacity-30" title="아래로 이동">
+                    <ArrowDownIcon width="12" height="12" />
+                  </button>
+                </div>
+                <button
+                  type="button"
+                  onClick={(e) => { e.stopPropagation(); onDelete(cut.id); }}
+                  disabled={disabled || cuts.length === 1}
+                  className="p-1 text-neutral-400 hover:text-red-400 disabled:opacity-30"
+                  title="컷 삭제"
+                >
+                  <TrashIcon width="14" height="14" />
+                </button>
+              </div>
+              {isActive ? (
+                <textarea
+                  value={cut.notes}
+                  onChange={(e) => onUpdate(cut.id, { notes: e.target.value })}
+                  disabled={disabled}
+                  placeholder="컷 메모 (연기, 타이밍, 특이사항...)"
+                  className="mt-2 w-full p-2 bg-neutral-700/80 border border-neutral-600/80 rounded-md text-neutral-200 placeholder-neutral-500 text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none h-14"
+                />
+              ) : cut.notes && (
+                <p className="mt-1 text-xs text-neutral-400 line-clamp-2">{cut.notes}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button
+          type="button"
+          onClick={onAdd}
+          disabled={disabled}
+          className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 bg-neutral-700 hover:bg-neutral-600 rounded-md text-sm font-medium text-neutral-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PlusIcon width="14" height="14" />
+          컷 추가
+        </button>
+        <button
+          type="button"
+          onClick={onGenerateAllPending}
+          disabled={disabled || pendingCount === 0}
+          className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-md text-sm font-medium text-white disabled:bg-blue-900/50 disabled:text-neutral-400 disabled:cursor-not-allowed"
+          title="생성 기록이 없는 모든 컷을 순서대로 생성합니다"
+        >
+          <MagicWandIcon width="14" height="14" />
+          대기 컷 생성 ({pendingCount})
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,10 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { CloseIcon, RedoIcon, UndoIcon, EraserIcon, PencilIcon, TrashIcon } from './Icons';
+import { CloseIcon, RedoIcon, UndoIcon, EraserIcon, HistoryIcon, PencilIcon, TrashIcon } from './Icons';
+import { PressureCurveSelect } from './PressureCurveSelect';
+import { HistoryPanel } from './HistoryPanel';
+import type { StrokePoint } from '../types';
+import { addTimelineNode, createThumbnail, createTimeline, moveTimeline, redoTargetId, timelineNode, type Timeline } from '../services/historyTimeline';
+import { loadPressureCurves, pointerSamples, pressureScale, savePressureCurves, subscribePressureCurves, toStrokePoint, type PressureCurves } from '../services/pointerInput';
 
 interface SetteiEditorModalProps {
   isOpen: boolean;
@@ -18,6 +23,10 @@ const COLOR_MAP: Record<Color, string> = {
   blue: 'rgb(0, 0, 255)',
 };
 
+const COLOR_LABELS: Record<Color, string> = { red: '정면', green: '측면', blue: '후면' };
+
+const MAX_HISTORY_BYTES = 128 * 1024 * 1024; // Each step is a copy of the whole mask
+
 export const SetteiEditorModal: React.FC<SetteiEditorModalProps> = ({
   isOpen,
   imageUrl,
@@ -29,66 +38,60 @@ export const SetteiEditorModal: React.FC<SetteiEditorModalProps> = ({
   const [tool, setTool] = useState<Tool>('brush');
   const [brushSize, setBrushSize] = useState(40);
   const [color, setColor] = useState<Color>('red');
+  const [pressureCurves, setPressureCurves] = useState<PressureCurves>(loadPressureCurves);
   const [_, forceUpdate] = useState({});
 
-  const historyRef = useRef<ImageData[]>([]);
-  const historyIndexRef = useRef(-1);
+  const imageRef = useRef<HTMLImageElement | null>(null); // The settei as loaded for the canvas, under the mask in history thumbnails
+  const historyRef = useRef<Timeline<ImageData>>(createTimeline());
+  const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false);
   const isDrawingRef = useRef(false);
-  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const lastPointRef = useRef<StrokePoint | null>(null);
 
-  const canUndo = historyIndexRef.current > 0;
-  const canRedo = historyIndexRef.current < historyRef.current.length - 1;
+  const canUndo = timelineNode(historyRef.current, historyRef.current.currentId)?.parentId != null;
+  const canRedo = redoTargetId(historyRef.current) !== null;
 
-  const pushHistory = useCallback(() => {
+  // Adds the mask as it is now as a step after the current one
+  const pushHistory = useCallback((label: string) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) return;
 
     const newImageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    historyRef.current.splice(historyIndexRef.current + 1);
-    historyRef.current.push(newImageData);
-    if (historyRef.current.length > 50) {
-      historyRef.current.shift();
-    }
-    historyIndexRef.current = historyRef.current.length - 1;
+    const sources = [imageRef.current, canvas].filter((source): source is HTMLImageElement | HTMLCanvasElement => !!source);
+    const thumbnail = createThumbnail(sources, canvas.width, canvas.height);
+    historyRef.current = addTimelineNode(historyRef.current, { label, data: newImageData, bytes: newImageData.data.length, thumbnail }, MAX_HISTORY_BYTES);
     forceUpdate({});
   }, []);
 
-  const restoreHistory = useCallback(() => {
+  const jumpToHistory = useCallback((targetId: number | null) => {
     const canvas = canvasRef.current;
-    if (!canvas || historyIndexRef.current < 0) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const ctx = canvas?.getContext('2d');
+    const target = timelineNode(historyRef.current, targetId);
+    if (!ctx || !target) return;
 
-    const imageData = historyRef.current[historyIndexRef.current];
-    ctx.putImageData(imageData, 0, 0);
+    ctx.putImageData(target.data, 0, 0);
+    historyRef.current = moveTimeline(historyRef.current, target.id);
+    forceUpdate({});
   }, []);
 
   const handleUndo = useCallback(() => {
-    if (canUndo) {
-      historyIndexRef.current--;
-      restoreHistory();
-      forceUpdate({});
-    }
-  }, [canUndo, restoreHistory]);
+    const current = timelineNode(historyRef.current, historyRef.current.currentId);
+    if (current && current.parentId !== null) jumpToHistory(current.parentId);
+  }, [jumpToHistory]);
 
   const handleRedo = useCallback(() => {
-    if (canRedo) {
-      historyIndexRef.current++;
-      restoreHistory();
-      forceUpdate({});
-    }
-  }, [canRedo, restoreHistory]);
+    const targetId = redoTargetId(historyRef.current);
+    if (targetId !== null) jumpToHistory(targetId);
+  }, [jumpToHistory]);
 
   const handleClearCanvas = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
-    pushHistory();
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    pushHistory();
+    pushHistory('전체 지우기');
   }, [pushHistory]);
 
   useEffect(() => {
@@ -99,6 +102,7 @@ export const SetteiEditorModal: React.FC<SetteiEditorModalProps> = ({
     img.onload = () => {
       const canvas = canvasRef.current;
       if (!canvas) return;
+      imageRef.current = img;
       canvas.width = img.naturalWidth;
       canvas.height = img.naturalHeight;
       const ctx = canvas.getContext('2d');
@@ -110,22 +114,25 @@ export const SetteiEditorModal: React.FC<SetteiEditorModalProps> = ({
             maskImg.crossOrigin = 'anonymous';
             maskImg.onload = () => {
                 ctx.drawImage(maskImg, 0, 0);
-                historyRef.current = [];
-                historyIndexRef.current = -1;
-                pushHistory();
+                historyRef.current = createTimeline();
+                pushHistory('원본');
             }
             maskImg.src = initialMaskUrl;
         } else {
-            historyRef.current = [];
-            historyIndexRef.current = -1;
-            pushHistory();
+            historyRef.current = createTimeline();
+            pushHistory('원본');
         }
       }
     };
     img.src = imageUrl;
   }, [isOpen, imageUrl, initialMaskUrl, pushHistory]);
 
-  const getCoords = (e: React.MouseEvent): { x: number; y: number } | null => {
+  useEffect(() => subscribePressureCurves(setPressureCurves), []);
+
+  // The brush paints the direction mask, so it follows the mask pen's curve in the conti editor
+  const pressureTool = tool === 'brush' ? 'mask' : 'eraser';
+
+  const getCoords = (e: { clientX: number; clientY: number }): { x: number; y: number } | null => {
     const canvas = canvasRef.current;
     if (!canvas) return null;
     const rect = canvas.getBoundingClientRect();
@@ -135,19 +142,16 @@ export const SetteiEditorModal: React.FC<SetteiEditorModalProps> = ({
     };
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
     const coords = getCoords(e);
     if (!coords) return;
     isDrawingRef.current = true;
-    lastPointRef.current = coords;
-    pushHistory();
+    lastPointRef.current = toStrokePoint(coords, e.nativeEvent, pressureCurves[pressureTool]);
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
+  const handlePointerMove = (e: React.PointerEvent) => {
     if (!isDrawingRef.current) return;
-    const coords = getCoords(e);
-    const lastPoint = lastPointRef.current;
-    if (!coords || !lastPoint) return;
 
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
@@ -160,21 +164,30 @@ export const SetteiEditorModal: React.FC<SetteiEditorModalProps> = ({
     } else { // eraser
       ctx.globalCompositeOperation = 'destination-out';
     }
-    ctx.lineWidth = brushSize;
     ctx.lineCap = 'round';
     ctx.lineJoin = 'round';
 
-    ctx.beginPath();
-    ctx.moveTo(lastPoint.x, lastPoint.y);
-    ctx.lineTo(coords.x, coords.y);
-    ctx.stroke();
-    ctx.restore();
+    pointerSamples(e.nativeEvent).forEach(sample => {
+      const coords = getCoords(sample);
+      const lastPoint = lastPointRef.current;
+      if (!coords || !lastPoint) return;
+      const point = toStrokePoint(coords, sample, pressureCurves[pressureTool]);
 
-    lastPointRef.current = coords;
+      ctx.lineWidth = brushSize * pressureScale(point);
+      ctx.beginPath();
+      ctx.moveTo(lastPoint.x, lastPoint.y);
+      ctx.lineTo(point.x, point.y);
+      ctx.stroke();
+
+      lastPointRef.current = point;
+    });
+    ctx.restore();
   };
 
-  const handleMouseUp = () => {
+  const handlePointerUp = () => {
+    if (!isDrawingRef.current) return;
     isDrawingRef.current = false;
+    pushHistory(tool === 'brush' ? `브러시 (${COLOR_LABELS[color]})` : '지우개');
   };
 
   const handleSave = () => {
@@ -238,12 +251,13 @@ export const SetteiEditorModal: React.FC<SetteiEditorModalProps> = ({
             <img src={imageUrl} alt="Settei Base" className="max-w-full max-h-full object-contain select-none pointer-events-none" />
             <canvas
               ref={canvasRef}
-              className="absolute top-0 left-0 w-full h-full object-contain cursor-crosshair"
+              className="absolute top-0 left-0 w-full h-full object-contain cursor-crosshair touch-none"
               style={{ opacity: 0.6 }}
-              onMouseDown={handleMouseDown}
-              onMouseMove={handleMouseMove}
-              onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseUp}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+              onPointerCancel={handlePointerUp}
             />
           </div>
         </div>
@@ -271,9 +285,20 @@ export const SetteiEditorModal: React.FC<SetteiEditorModalProps> = ({
               />
               <span className="w-8 text-center font-mono text-sm">{brushSize}</span>
             </div>
+            <PressureCurveSelect
+              id="settei-pressure"
+              curve={pressureCurves[pressureTool]}
+              onChange={curve => savePressureCurves({ ...pressureCurves, [pressureTool]: curve })}
+            />
             <div className="flex items-center gap-1">
               <button onClick={handleUndo} disabled={!canUndo} className="p-2 text-neutral-300 hover:bg-neutral-600 rounded-md disabled:opacity-50" title="Undo"><UndoIcon /></button>
               <button onClick={handleRedo} disabled={!canRedo} className="p-2 text-neutral-300 hover:bg-neutral-600 rounded-md disabled:opacity-50" title="Redo"><RedoIcon /></button>
+              <div className="relative">
+                <button onClick={() => setIsHistoryPanelOpen(prev => !prev)} className={`p-2 rounded-md ${isHistoryPanelOpen ? 'bg-blue-600 text-white' : 'text-neutral-300 hover:bg-neutral-600'}`} aria-pressed={isHistoryPanelOpen} aria-expanded={isHistoryPanelOpen} title="작업 기록"><HistoryIcon /></button>
+                {isHistoryPanelOpen && (
+                  <HistoryPanel timeline={historyRef.current} onJump={jumpToHistory} className="absolute bottom-full left-0 mb-2 z-30 w-64" />
+                )}
+              </div>
               <button onClick={handleClearCanvas} className="p-2 text-red-400 hover:bg-neutral-600 rounded-md" title="마스크 전체 지우기"><TrashIcon /></button>
             </div>
           </div>
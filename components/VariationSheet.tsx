@@ -0,0 +1,101 @@
+import React from 'react';
+import type { QueueJobStatus } from '../services/generationQueue';
+import { CloseIcon, ExpandIcon, TargetIcon } from './Icons';
+
+export interface VariationEntry {
+  key: string;
+  label: string; // e.g. "seed 123", or the template version for A/B runs
+  seed: number;
+  status: QueueJobStatus;
+  imageUrl: string | null;
+  error: string | null;
+  isPromoted: boolean;
+}
+
+interface VariationSheetProps {
+  title: string;
+  entries: VariationEntry[];
+  onPromote: (key: string) => void;
+  onPinSeed: (seed: number) => void;
+  onView: (url: string) => void;
+  onClose: () => void;
+}
+
+// Contact sheet for one batch of variations (seeds, or template versions for A/B). Results stay here until promoted to the cut's history.
+export const VariationSheet: React.FC<VariationSheetProps> = ({ title, entries, onPromote, onPinSeed, onView, onClose }) => {
+  const doneCount = entries.filter(entry => entry.imageUrl).length;
+
+  return (
+    <div className="bg-[#282828] rounded-xl p-5 shadow-md border border-neutral-700/50">
+      <div className="flex justify-between items-center mb-1">
+        <h2 className="text-lg font-semibold text-neutral-100">배리에이션</h2>
+        <button type="button" onClick={onClose} className="p-1.5 text-neutral-400 hover:bg-neutral-600 rounded-full transition-colors" title="닫기 (남은 작업은 취소됩니다)">
+          <CloseIcon />
+        </button>
+      </div>
+      <p className="text-xs text-neutral-400 mb-3">{title} · {doneCount}/{entries.length} 완료. 마음에 드는 결과를 채택하면 생성 기록에 추가됩니다.</p>
+      <div className="grid grid-cols-2 gap-2">
+        {entries.map(entry => (
+          <div key={entry.key} className={`relative group aspect-square rounded-md overflow-hidden bg-neutral-800 border ${entry.isPromoted ? 'border-green-500' : 'border-neutral-700/80'}`}>
+            {entry.imageUrl ? (
+              <img
+                src={entry.imageUrl}
+                alt={`${entry.label} 결과`}
+                className="w-full h-full object-cover cursor-pointer"
+                onClick={() => onView(entry.imageUrl!)}
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center p-2 text-center">
+                {entry.status === 'failed' || entry.status === 'cancelled' ? (
+                  <span className="text-xs text-red-400 line-clamp-4" title={entry.error ?? undefined}>
+                    {entry.status === 'failed' ? entry.error || '실패' : '취소됨'}
+                  </span>
+                ) : (
+                  <svg className="animate-spin h-6 w-6 text-blue-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                  </svg>
+                )}
+              </div>
+            )}
+            <div className="absolute bottom-0 inset-x-0 bg-black/60 text-white text-[10px] px-1.5 py-0.5 font-mono pointer-events-none">
+              {entry.label}
+            </div>
+            <div className="absolute top-1 right-1 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                type="button"
+                onClick={() => onPinSeed(entry.seed)}
+                className="p-1 bg-black/50 text-white rounded-full hover:bg-blue-500 transition-all"
+                title="이 시드로 고정"
+                aria-label="이 시드로 고정"
+              >
+                <TargetIcon width="14" height="14" />
+              </button>
+              {entry.imageUrl && (
+                <button
+                  type="button"
+                  onClick={() => onView(entry.imageUrl!)}
+                  className="p-1 bg-black/50 text-white rounded-full hover:bg-blue-500 transition-all"
+                  title="크게 보기"
+                  aria-label="크게 보기"
+                >
+                  <ExpandIcon width="14" height="14" />
+                </button>
+              )}
+            </div>
+            {entry.imageUrl && (
+              <button
+                type="button"
+                onClick={() => onPromote(entry.key)}
+                disabled={entry.isPromoted}
+                className="absolute top-1 left-1 px-2 py-0.5 text-[11px] font-semibold rounded bg-blue-600 hover:bg-blue-700 text-white disabled:bg-green-700 disabled:cursor-default opacity-0 group-hover:opacity-100 disabled:opacity-100 transition-opacity"
+              >
+                {entry.isPromoted ? '채택됨' : '채택'}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
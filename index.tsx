@@ -6,7 +6,9 @@ import App from './App';
 import { SplashScreen } from './components/SplashScreen';
 import { GuestAuthScreen } from './components/GuestAuthScreen';
 import { MasterLoginScreen } from './components/MasterLoginScreen';
-import { GuestStatus, GuestRecord } from './types'; // Import GuestRecord
+import { GuestStatus } from './types';
+import { logoutMaster, restoreMasterSession } from './services/authService';
+import { clearGuestKey, subscribeToGuestStatus } from './services/guestService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -20,23 +22,32 @@ const RootComponent: React.FC = () => {
   const [localGuestStatus, setLocalGuestStatus] = useState<GuestStatus | null>(null); 
   const [isMasterLoggedIn, setIsMasterLoggedIn] = useState<boolean>(false);
 
-  // Load guest ID and master status from localStorage on initial render
+  // Load guest ID from localStorage on initial render
   useEffect(() => {
     try {
       const storedGuestId = localStorage.getItem('guest_id');
       if (storedGuestId) {
         setGuestId(storedGuestId);
       }
-
-      const storedMasterLogin = localStorage.getItem('master_logged_in');
-      if (storedMasterLogin === 'true') {
-        setIsMasterLoggedIn(true);
-      }
+      // Master login and the guest registry used to live in localStorage; both are server-side now.
+      localStorage.removeItem('master_logged_in');
+      localStorage.removeItem('master_guest_requests');
     } catch (error) {
       console.error("Failed to load status from localStorage:", error);
     }
   }, []);
 
+  // Restore the master session from the server, if the stored token is still valid
+  useEffect(() => {
+    let cancelled = false;
+    restoreMasterSession().then(session => {
+      if (!cancelled && session) {
+        setIsMasterLoggedIn(true);
+      }
+    });
+    return () => { cancelled = true; };
+  }, []);
+
   // Update localStorage when guestId changes
   useEffect(() => {
     try {
@@ -45,25 +56,12 @@ const RootComponent: React.FC = () => {
       } else {
         localStorage.removeItem('guest_id');
       }
-      // Removed guestStatus from being directly saved here, as it's derived from master_guest_requests
+      // guestStatus is not saved here, as it's pushed from the server's guest registry
     } catch (error) {
       console.error("Failed to save guest ID to localStorage:", error);
     }
   }, [guestId]);
 
-  // Update localStorage when master login status changes
-  useEffect(() => {
-    try {
-      if (isMasterLoggedIn) {
-        localStorage.setItem('master_logged_in', 'true');
-      } else {
-        localStorage.removeItem('master_logged_in');
-      }
-    } catch (error) {
-      console.error("Failed to save master login status to localStorage:", error);
-    }
-  }, [isMasterLoggedIn]);
-
   const handleSelectMode = useCallback((mode: 'master' | 'guest') => {
     setUserMode(mode);
     // If switching modes, ensure login states are reset appropriately if not persistent across modes.
@@ -76,7 +74,7 @@ const RootComponent: React.FC = () => {
 
   const handleGuestLoginSuccess = useCallback((id: string) => {
     setGuestId(id);
-    // localGuestStatus will be updated by the polling effect, not directly here.
+    // localGuestStatus will be updated by the guest status subscription, not directly here.
   }, []);
 
   const handleMasterLoginSuccess = useCallback(() => {
@@ -84,42 +82,28 @@ const RootComponent: React.FC = () => {
     // No need to change userMode here as it should already be 'master'
   }, []);
 
-  const handleMasterLogout = useCallback(() => {
+  const handleMasterLogout = useCallback(async () => {
+    await logoutMaster(); // Invalidates the session token on the server
     setIsMasterLoggedIn(false);
     setUserMode(null); // Return to splash screen after logout
   }, []);
 
-  // Poll localStorage for master_guest_requests to update local guest status
+  // Follow this guest's status in the shared registry (pushed by the server)
   useEffect(() => {
-    const fetchAndUpdateGuestStatus = () => {
-      if (userMode === 'guest' && guestId) {
-        try {
-          const storedRecords = localStorage.getItem('master_guest_requests');
-          if (storedRecords) {
-            const allGuestRecords: GuestRecord[] = JSON.parse(storedRecords);
-            const thisGuestRecord = allGuestRecords.find(r => r.id === guestId);
-            if (thisGuestRecord && thisGuestRecord.status !== localGuestStatus) {
-              setLocalGuestStatus(thisGuestRecord.status);
-            } else if (!thisGuestRecord && localGuestStatus) {
-               // If the guest record was deleted by master, reset local status
-               setLocalGuestStatus(null);
-               setGuestId(null); // Also clear guestId to prompt re-request
-            }
-          } else if (localGuestStatus) {
-              // If master cleared all records
-              setLocalGuestStatus(null);
-              setGuestId(null);
-          }
-        } catch (error) {
-          console.error("Error polling master_guest_requests for guest status:", error);
-        }
+    if (userMode !== 'guest' || !guestId) {
+      return;
+    }
+    return subscribeToGuestStatus(guestId, (status) => {
+      if (status) {
+        setLocalGuestStatus(status);
+      } else {
+        // The master deleted this guest's record (or cleared all records)
+        setLocalGuestStatus(null);
+        setGuestId(null); // Also clear guestId to prompt re-request
+        clearGuestKey();
       }
-    };
-
-    const interval = setInterval(fetchAndUpdateGuestStatus, 2000); // Poll every 2 seconds
-
-    return () => clearInterval(interval);
-  }, [userMode, guestId, localGuestStatus]);
+    });
+  }, [userMode, guestId]);
 
 
   let content;
@@ -0,0 +1,235 @@
+import { createHash, randomBytes, scryptSync, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { HttpError, getBearerToken } from './http';
+import { getGuestStatus } from './guests';
+import { readJsonFile, writeJsonFile } from './store';
+
+// MASTER AUTHENTICATION
+// Passwords are stored as salted scrypt hashes. Sessions are random bearer
+// tokens; only their SHA-256 digest is persisted, so a leaked sessions file
+// cannot be replayed.
+
+const USERS_FILE = 'users.json';
+const SESSIONS_FILE = 'sessions.json';
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 12) * 60 * 60 * 1000;
+const SCRYPT_KEY_LENGTH = 64;
+const STREAM_TICKET_TTL_MS = 30 * 1000;
+
+interface MasterAccount {
+    id: string;
+    email: string;
+    salt: string;
+    passwordHash: string;
+}
+
+interface StoredSession {
+    tokenHash: string;
+    userId: string;
+    expiresAt: number;
+}
+
+export interface SessionInfo {
+    userId: string;
+    email: string;
+    expiresAt: number;
+}
+
+// Who is calling an AI endpoint
+export type ApiCaller =
+    | { role: 'master'; session: SessionInfo }
+    | { role: 'guest'; guestId: string };
+
+let accounts = readJsonFile<MasterAccount[]>(USERS_FILE, []);
+let sessions = readJsonFile<StoredSession[]>(SESSIONS_FILE, []);
+// EventSource cannot send headers, so a stream is opened with a one-time
+// ticket instead of the session token, which would end up in access logs.
+// Tickets live only in memory: keyed by their digest, valued by the session's.
+const streamTickets = new Map<string, { sessionTokenHash: string; expiresAt: number }>();
+
+// HELPER FUNCTIONS
+const hashPassword = (password: string, salt: string): string =>
+    scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+
+const verifyPassword = (account: MasterAccount, password: string): boolean => {
+    const expected = Buffer.from(account.passwordHash, 'hex');
+    const actual = Buffer.from(hashPassword(password, account.salt), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const hashToken = (token: string): string => createHash('sha256').update(token).digest('hex');
+
+const pruneExpiredSessions = () => {
+    const now = Date.now();
+    const active = sessions.filter(s => s.expiresAt > now);
+    if (active.length !== sessions.length) {
+        sessions = active;
+        writeJsonFile(SESSIONS_FILE, sessions);
+    }
+};
+
+/**
+ * Creates or updates the master account from MASTER_ID / MASTER_EMAIL / MASTER_PASSWORD.
+ * The plain-text password is only held in the environment; the users file stores the hash.
+ */
+export const seedMasterAccount = () => {
+    const id = process.env.MASTER_ID;
+    const email = process.env.MASTER_EMAIL ?? '';
+    const password = process.env.MASTER_PASSWORD;
+    if (!id || !password) {
+        if (accounts.length === 0) {
+            console.warn('No master account exists. Set MASTER_ID and MASTER_PASSWORD to create one.');
+        }
+        return;
+    }
+
+    const existing = accounts.find(a => a.id === id);
+    if (existing && existing.email === email && verifyPassword(existing, password)) {
+        return;
+    }
+
+    const salt = randomBytes(16).toString('hex');
+    const account: MasterAccount = { id, email, salt, passwordHash: hashPassword(password, salt) };
+    accounts = [...accounts.filter(a => a.id !== id), account];
+    writeJsonFile(USERS_FILE, accounts);
+    // Credentials changed, so any session issued under the old ones is revoked.
+    sessions = sessions.filter(s => s.userId !== id);
+    writeJsonFile(SESSIONS_FILE, sessions);
+    console.log(`Master account "${id}" ${existing ? 'updated' : 'created'}.`);
+};
+
+export const login = (id: string, password: string, email: string): { token: string; session: SessionInfo } => {
+    const account = accounts.find(a => a.id === id);
+    // Always run a hash so the response time does not reveal whether the ID exists.
+    const passwordMatches = account
+        ? verifyPassword(account, password)
+        : (hashPassword(password, 'timing-guard'), false);
+
+    if (!account || !passwordMatches || account.email !== email) {
+        throw new HttpError(401, 'Invalid ID, password or email.');
+    }
+
+    pruneExpiredSessions();
+    const token = randomBytes(32).toString('base64url');
+    const stored: StoredSession = {
+        tokenHash: hashToken(token),
+        userId: account.id,
+        expiresAt: Date.now() + SESSION_TTL_MS,
+    };
+    sessions = [...sessions, stored];
+    writeJsonFile(SESSIONS_FILE, sessions);
+
+    return { token, session: { userId: account.id, email: account.email, expiresAt: stored.expiresAt } };
+};
+
+export const logout = (token: string) => {
+    const tokenHash = hashToken(token);
+    const remaining = sessions.filter(s => s.tokenHash !== tokenHash);
+    if (remaining.length !== sessions.length) {
+        sessions = remaining;
+        writeJsonFile(SESSIONS_FILE, sessions);
+    }
+};
+
+export const getSession = (token: string | null): SessionInfo | null => {
+    if (!token) {
+        return null;
+    }
+    const tokenHash = hashToken(token);
+    const stored = sessions.find(s => s.tokenHash === tokenHash);
+    if (!stored) {
+        return null;
+    }
+    if (stored.expiresAt <= Date.now()) {
+        pruneExpiredSessions();
+        return null;
+    }
+    const account = accounts.find(a => a.id === stored.userId);
+    if (!account) {
+        return null;
+    }
+    return { userId: account.id, email: account.email, expiresAt: stored.expiresAt };
+};
+
+/**
+ * Issues a ticket that opens one event stream for the request's master
+ * session within STREAM_TICKET_TTL_MS.
+ */
+export const issueStreamTicket = (req: IncomingMessage): { ticket: string } => {
+    const token = getBearerToken(req);
+    if (!getSession(token)) {
+        throw new HttpError(401, 'A valid master session is required.');
+    }
+    const now = Date.now();
+    streamTickets.forEach((entry, key) => {
+        if (entry.expiresAt <= now) {
+            streamTickets.delete(key);
+        }
+    });
+    const ticket = randomBytes(32).toString('base64url');
+    streamTickets.set(hashToken(ticket), { sessionTokenHash: hashToken(token!), expiresAt: now + STREAM_TICKET_TTL_MS });
+    return { ticket };
+};
+
+/**
+ * Spends a stream ticket. Returns the master session it was issued for, or
+ * null when the ticket is unknown, already used or expired, or the session ended since.
+ */
+export const redeemStreamTicket = (ticket: string | null): SessionInfo | null => {
+    if (!ticket) {
+        return null;
+    }
+    const key = hashToken(ticket);
+    const entry = streamTickets.get(key);
+    streamTickets.delete(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+        return null;
+    }
+    const stored = sessions.find(s => s.tokenHash === entry.sessionTokenHash && s.expiresAt > Date.now());
+    const account = stored && accounts.find(a => a.id === stored.userId);
+    return stored && account ? { userId: account.id, email: account.email, expiresAt: stored.expiresAt } : null;
+};
+
+/**
+ * Resolves the master session for a request, or throws a 401.
+ */
+export const requireMaster = (req: IncomingMessage): SessionInfo => {
+    const session = getSession(getBearerToken(req));
+    if (!session) {
+        throw new HttpError(401, 'A valid master session is required.');
+    }
+    return session;
+};
+
+const readHeader = (req: IncomingMessage, name: string): string => {
+    const value = req.headers[name];
+    return typeof value === 'string' ? value.trim() : '';
+};
+
+/**
+ * Resolves who may spend the Gemini key: a master session, or a guest whose
+ * ID and key match the registry and whom the master has allowed. Unknown
+ * callers get a 401; pending or blocked guests get a 403.
+ */
+export const requireApiAccess = (req: IncomingMessage): ApiCaller => {
+    const session = getSession(getBearerToken(req));
+    if (session) {
+        return { role: 'master', session };
+    }
+
+    const guestKey = readHeader(req, 'x-guest-key');
+    let guestId = '';
+    try {
+        guestId = decodeURIComponent(readHeader(req, 'x-guest-id'));
+    } catch {
+        // A malformed ID is treated like a missing one.
+    }
+    const status = guestId && guestKey ? getGuestStatus(guestId, guestKey) : null;
+    if (status === null) {
+        throw new HttpError(401, 'A master session or guest access is required.');
+    }
+    // The browser gates its UI on the same status, but only this check is binding.
+    if (status !== 'allowed') {
+        throw new HttpError(403, `Guest access is ${status}.`);
+    }
+    return { role: 'guest', guestId };
+};
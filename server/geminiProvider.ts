@@ -0,0 +1,413 @@
+// @google/genai START
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+// @google/genai END
+import type {
+  GenerateImageParams,
+  GenerateImageResult,
+  AnalyzeSceneParams,
+  EditImageWithChatParams,
+  AnalyzeSceneResult,
+  EditImageResult,
+  ImageModelProvider,
+} from '../services/providers/types';
+import type { ChatMessage } from '../types';
+import { analysisInstruction, chatInstruction, describeCameraSettings, editInstruction, generateSystemInstruction } from './systemInstructions';
+import { ANGLE_TYPE_VALUES, LENS_VALUES, SHOT_TYPE_VALUES, normalizeSceneAnalysis } from '../services/sceneAnalysis';
+import { describeCharacterStaging } from '../services/characterMarkers';
+
+// DEFINE GEMINI MODELS
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_EDITING_MODEL = 'gemini-2.5-flash-image';
+
+// INITIALIZE GEMINI CLIENT
+// This module only runs inside the API proxy (see `server/index.ts`),
+// so the key is read from the server environment and never reaches the browser.
+let ai: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+    if (!ai) {
+        if (!process.env.GEMINI_API_KEY) {
+            throw new Error('GEMINI_API_KEY is not configured on the server.');
+        }
+        // @google/genai START
+        ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+        // @google/genai END
+    }
+    return ai;
+};
+
+// HELPER FUNCTIONS
+const dataUrlToGenerativePart = (dataUrl: string) => {
+  const match = dataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
+  if (!match) {
+    throw new Error('Invalid data URL format');
+  }
+  const [, mimeType, data] = match;
+  return {
+    inlineData: {
+      mimeType,
+      data,
+    },
+  };
+};
+
+const buildInterlinkedPromptParts = async (params: GenerateImageParams | AnalyzeSceneParams): Promise<any[]> => {
+    const parts: any[] = [];
+    let textPrompt = ``;
+
+    if (params.prompt) {
+        textPrompt += `**Positive Prompt:** ${params.prompt}\n`;
+    }
+    if ('negativePrompt' in params && params.negativePrompt) {
+        textPrompt += `**Negative Prompt:** ${params.negativePrompt}\n`;
+    }
+
+    if ('chatHistory' in params && params.chatHistory.length > 0) {
+        textPrompt += `\n**Conversation History:**\n`;
+        params.chatHistory.forEach(msg => {
+            textPrompt += `*   **${msg.role}:** ${msg.parts.map(p => p.text).join(' ')}\n`;
+        });
+    }
+
+    if (params.perspectiveData.vanishingPoints.length > 0) {
+        textPrompt += `\n**Perspective Data:**\n${JSON.stringify(params.perspectiveData, null, 2)}\n`;
+    }
+    
+    const cameraSettings = describeCameraSettings(params.cameraOptions);
+    
+    if (cameraSettings.length > 0) {
+        textPrompt += `\n**Camera Settings:**\n${cameraSettings.join(', ')}\n`;
+    }
+
+    textPrompt += `\n**Canvas Dimensions:** ${params.canvasDimensions.width}x${params.canvasDimensions.height}\n`;
+    
+    if (params.sketchBoundingBox) {
+        textPrompt += `\n**Sketch Bounding Box:**\n${JSON.stringify(params.sketchBoundingBox, null, 2)}\n`;
+    }
+
+    // Joint positions in canvas pixels; a bone's foreshortening is given at the joint it ends in
+    const poseSkeletons = params.poseImages.flatMap(pose => (pose.skeletons ?? []).map(skeleton => ({ layer: pose.name, ...skeleton })));
+    if (poseSkeletons.length > 0) {
+        textPrompt += `\n**Pose Skeletons:**\n${JSON.stringify(poseSkeletons, null, 2)}\n`;
+    }
+
+    // The characters' markers, nearest the camera first, in canvas pixels
+    const staging = describeCharacterStaging(params.poseImages, params.canvasDimensions);
+    if (staging.length > 0) {
+        textPrompt += `\n**Character Staging:**\n${JSON.stringify(staging, null, 2)}\n`;
+    }
+
+    parts.push({ text: textPrompt });
+    
+    // The first image passed to the model acts as the base image to be edited.
+    // The calling function (`generateCharacterImage`) is responsible for ensuring
+    // this is either the user's intended base image for editing, or a blank canvas for generation.
+    if ('editBaseImage' in params && params.editBaseImage) {
+        parts.push({ text: "BASE IMAGE FOR EDITING:" });
+        parts.push(dataUrlToGenerativePart(params.editBaseImage.imageDataUrl));
+    }
+
+    for (const pose of params.poseImages) {
+        if (pose.imageDataUrl) {
+            parts.push({ text: params.globalReferenceImage
+                ? `LOW-PRIORITY SKETCH HINT for "${pose.name}": This is a suggestion only. The CONTI image OVERRULES this sketch.`
+                : `POSE SKETCH for "${pose.name}": No conti is given, so this sketch defines the pose and placement.` });
+            parts.push(dataUrlToGenerativePart(pose.imageDataUrl));
+        }
+        if (pose.skeletonImageDataUrl) {
+            parts.push({ text: `POSE SKELETON for "${pose.name}": A mannequin guide. Match each character's joint positions, limb angles and body proportions; thick limbs come toward the viewer, dashed limbs go away. Do NOT draw the skeleton itself.` });
+            parts.push(dataUrlToGenerativePart(pose.skeletonImageDataUrl));
+        }
+        if (pose.setteiImages) {
+            for (const settei of pose.setteiImages) {
+                parts.push({ text: `MANDATORY STYLE REFERENCE (SETTEI) for "${pose.name}": You MUST use this art style. You MUST IGNORE this pose.` });
+                parts.push(dataUrlToGenerativePart(settei.imageUrl));
+                if (settei.maskUrl) {
+                    parts.push({ text: `Settei RGB MASK for Layer "${pose.name}" (R=front, G=side, B=back):` });
+                    parts.push(dataUrlToGenerativePart(settei.maskUrl));
+                }
+            }
+        }
+    }
+    
+    if (params.globalReferenceImage) {
+        parts.push({ text: "ABSOLUTE POSE & COMPOSITION SOURCE (CONTI): TRACE THIS POSE. IGNORE THIS STYLE. THIS IS THE MOST IMPORTANT IMAGE." });
+        parts.push(dataUrlToGenerativePart(params.globalReferenceImage.imageDataUrl));
+    }
+
+    return parts;
+};
+
+const translate = async (text: string): Promise<string> => {
+    if (!text) {
+        return "";
+    }
+    try {
+        // @google/genai START
+        const response = await getClient().models.generateContent({
+            model: TEXT_MODEL,
+            contents: `Translate the following Korean text to English. Return only the English translation and nothing else:\n\n${text}`,
+        });
+        // @google/genai END
+        return response.text.trim();
+    } catch (error) {
+        console.error("Translation to English failed, using original text:", error);
+        return text; // Fallback to original text on error
+    }
+};
+
+const generate = async (params: GenerateImageParams): Promise<GenerateImageResult> => {
+    const hasGlobalReference = !!params.globalReferenceImage;
+    // An editing task is ONLY when an editBaseImage is provided AND there is no conti.
+    const isEditingTask = !!params.editBaseImage && !hasGlobalReference;
+
+    const systemInstruction = generateSystemInstruction({
+        outputStyle: params.outputStyle,
+        workMode: params.workMode,
+        hasGlobalReference,
+        isEditingTask,
+        layerNames: params.poseImages.map(pose => pose.name),
+        hasPoseSkeletons: params.poseImages.some(pose => (pose.skeletons ?? []).length > 0),
+        hasCharacterStaging: params.poseImages.some(pose => (pose.points ?? []).length > 0),
+        cameraOptions: params.cameraOptions,
+        canvasDimensions: params.canvasDimensions,
+        template: params.systemInstructionTemplate,
+    });
+    
+    const finalParams = { ...params };
+
+    if (!isEditingTask) {
+        // This is a generation task. The image editing model requires a base image to work on,
+        // so the client sends a blank white canvas sized to the conti.
+        if (!params.baseCanvasDataUrl) {
+            throw new Error('A blank base canvas is required for generation tasks.');
+        }
+        finalParams.editBaseImage = { imageDataUrl: params.baseCanvasDataUrl };
+    }
+    
+    const parts = await buildInterlinkedPromptParts(finalParams);
+    
+    // @google/genai START
+    const response = await getClient().models.generateContent({
+        model: IMAGE_EDITING_MODEL,
+        contents: { parts },
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+            seed: params.seed,
+            systemInstruction: { parts: [{ text: systemInstruction }] },
+        },
+    });
+    // @google/genai END
+    
+    const imagePart = response.candidates?.[0]?.content.parts.find(p => p.inlineData);
+    if (imagePart?.inlineData) {
+        return {
+            imageUrl: `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`,
+            model: IMAGE_EDITING_MODEL,
+        };
+    }
+
+    const textPart = response.text;
+    console.error("Image generation failed. Text response:", textPart);
+    throw new Error(`Image generation failed. The model responded with: ${textPart || 'No text response.'}`);
+};
+
+const analyze = async (params: AnalyzeSceneParams): Promise<AnalyzeSceneResult> => {
+    const parts = await buildInterlinkedPromptParts(params);
+
+    parts.unshift({
+        text: analysisInstruction({
+            workMode: params.workMode,
+            hasGlobalReference: !!params.globalReferenceImage,
+            layerNames: params.poseImages.map(pose => pose.name),
+            cameraOptions: params.cameraOptions,
+            canvasDimensions: params.canvasDimensions,
+            template: params.systemInstructionTemplate,
+            hasPreviousCut: !!params.previousCut,
+        }),
+    });
+
+    const { previousCut } = params;
+    if (previousCut) {
+        const cameraSettings = describeCameraSettings(previousCut.cameraOptions);
+        parts.push({ text: `PREVIOUS CUT ${previousCut.cutNumber} (for continuity only, do not analyze it as this scene):`
+            + (previousCut.notes ? `\nNotes: ${previousCut.notes}` : '')
+            + (cameraSettings.length > 0 ? `\nCamera Settings: ${cameraSettings.join(', ')}` : '') });
+        if (previousCut.imageDataUrl) {
+            parts.push(dataUrlToGenerativePart(previousCut.imageDataUrl));
+        }
+    }
+    
+    // @google/genai START
+    const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: { parts },
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    summary: { type: Type.STRING },
+                    characters: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                name: { type: Type.STRING },
+                                pose: { type: Type.STRING },
+                                facing: { type: Type.STRING },
+                            },
+                            required: ['name', 'pose', 'facing'],
+                        },
+                    },
+                    camera: {
+                        type: Type.OBJECT,
+                        properties: {
+                            shotType: { type: Type.STRING, enum: SHOT_TYPE_VALUES },
+                            angleType: { type: Type.STRING, enum: ANGLE_TYPE_VALUES },
+                            lens: { type: Type.STRING, enum: LENS_VALUES },
+                            reason: { type: Type.STRING },
+                        },
+                        required: ['shotType', 'angleType', 'lens', 'reason'],
+                    },
+                    perspective: {
+                        type: Type.OBJECT,
+                        properties: {
+                            horizonY: { type: Type.NUMBER, nullable: true },
+                            vanishingPoints: {
+                                type: Type.ARRAY,
+                                items: {
+                                    type: Type.OBJECT,
+                                    properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } },
+                                    required: ['x', 'y'],
+                                },
+                            },
+                            reason: { type: Type.STRING },
+                        },
+                        required: ['horizonY', 'vanishingPoints', 'reason'],
+                    },
+                    compositionIssues: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                severity: { type: Type.STRING, enum: ['info', 'warning'] },
+                                issue: { type: Type.STRING },
+                                suggestion: { type: Type.STRING },
+                            },
+                            required: ['severity', 'issue', 'suggestion'],
+                        },
+                    },
+                    continuityWarnings: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['summary', 'characters', 'camera', 'perspective', 'compositionIssues', 'continuityWarnings'],
+            },
+        },
+    });
+    // @google/genai END
+
+    try {
+        const jsonText = response.text.trim();
+        return normalizeSceneAnalysis(JSON.parse(jsonText));
+    } catch (e) {
+        console.error("Failed to parse analysis response JSON:", e);
+        console.error("Raw response text:", response.text);
+        throw new Error("Failed to get a valid analysis from the AI. The response was not in the expected format.");
+    }
+};
+
+const chat = async (history: ChatMessage[], systemInstructionTemplate?: string): Promise<string> => {
+    const contents = history.map(msg => ({
+        role: msg.role,
+        parts: msg.parts.map(p => ({ text: p.text })),
+    }));
+    
+    // @google/genai START
+    const response = await getClient().models.generateContent({
+        model: TEXT_MODEL,
+        contents: contents,
+        config: {
+            systemInstruction: {
+                parts: [{ text: chatInstruction(systemInstructionTemplate) }],
+            },
+        },
+    });
+    // @google/genai END
+    
+    return response.text;
+};
+
+const edit = async (params: EditImageWithChatParams): Promise<EditImageResult> => {
+    const systemInstruction = editInstruction({
+        cameraOptions: params.cameraOptions,
+        hasReference: !!params.referenceImageUrl,
+        hasSketch: !!params.sketchImageUrl,
+        template: params.systemInstructionTemplate,
+    });
+
+    const parts: any[] = [];
+    
+    let textPrompt = `**New Instruction:** ${params.newMessage}\n\n`;
+
+    if (params.chatHistory.length > 0) {
+        textPrompt += `**Conversation History (for context):**\n`;
+        params.chatHistory.forEach(msg => {
+            textPrompt += `*   **${msg.role}:** ${msg.parts.map(p => p.text).join(' ')}\n`;
+        });
+    }
+
+    const cameraSettings = describeCameraSettings(params.cameraOptions, true);
+    
+    if (cameraSettings.length > 0) {
+        textPrompt += `\n**Camera Settings:**\n${cameraSettings.join(', ')}\n`;
+    }
+
+    parts.push({ text: textPrompt });
+
+    parts.push({ text: "BASE IMAGE FOR EDITING:" });
+    parts.push(dataUrlToGenerativePart(params.baseImageUrl));
+    
+    if (params.referenceImageUrl) {
+        parts.push({ text: "REFERENCE IMAGE FOR STYLE:" });
+        parts.push(dataUrlToGenerativePart(params.referenceImageUrl));
+    }
+    
+    if (params.sketchImageUrl) {
+        parts.push({ text: "SKETCH HINT FOR COMPOSITION:" });
+        parts.push(dataUrlToGenerativePart(params.sketchImageUrl));
+    }
+
+    // @google/genai START
+    const response = await getClient().models.generateContent({
+        model: IMAGE_EDITING_MODEL,
+        contents: { parts },
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+            systemInstruction: { parts: [{ text: systemInstruction }] },
+        },
+    });
+    // @google/genai END
+
+    const imagePart = response.candidates?.[0]?.content.parts.find(p => p.inlineData);
+    const textPart = response.text;
+    
+    if (imagePart?.inlineData) {
+        return {
+            newImageUrl: `data:${imagePart.inlineData.mimeType};base64,${imagePart.inlineData.data}`,
+            textResponse: textPart || "작업을 완료했습니다."
+        };
+    }
+
+    throw new Error(`Image editing failed. The model responded with: ${textPart || 'No text response.'}`);
+};
+
+
+export const geminiProvider: ImageModelProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    translate,
+    generate,
+    analyze,
+    chat,
+    edit,
+};
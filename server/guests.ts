@@ -0,0 +1,173 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { GuestRecord, GuestStatus } from '../types';
+import { HttpError } from './http';
+import { readJsonFile, writeJsonFile } from './store';
+
+// GUEST REGISTRY
+// The single source of truth for guest access requests, shared by every
+// browser. Changes are pushed to subscribers (see the SSE routes in index.ts).
+
+const GUESTS_FILE = 'guests.json';
+const GUEST_STATUSES: GuestStatus[] = ['pending', 'allowed', 'blocked'];
+
+// Forwarded client addresses are only believed when a reverse proxy sets them
+// (nginx in docker-compose); a caller reaching the port directly could forge them.
+const TRUST_PROXY = ['1', 'true'].includes((process.env.TRUST_PROXY ?? '').toLowerCase());
+
+// Access requests are anonymous, so these keep one client from growing the store without bound.
+const MAX_GUEST_ID_LENGTH = 64;
+const MAX_GUEST_KEY_LENGTH = 128;
+const MAX_PENDING_GUESTS = 200;
+const MAX_PENDING_PER_IP = 5;
+const REQUEST_WINDOW_MS = 60_000;
+const MAX_REQUESTS_PER_WINDOW = 10; // Per IP address
+
+// Each guest ID is bound to a random key issued on its first request, so
+// another visitor cannot claim an approved ID just by typing it.
+interface StoredGuest extends GuestRecord {
+    keyHash: string;
+}
+
+type RegistryListener = (records: GuestRecord[]) => void;
+
+let guests = readJsonFile<StoredGuest[]>(GUESTS_FILE, []);
+const listeners = new Set<RegistryListener>();
+const recentRequests = new Map<string, number[]>(); // Request times per IP address, within the window
+
+// HELPER FUNCTIONS
+const hashKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+const toPublicRecord = ({ keyHash, ...record }: StoredGuest): GuestRecord => record;
+
+const formatLoginTime = (date: Date): string => date.toLocaleString('ko-KR', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+    timeZone: process.env.TZ || 'Asia/Seoul',
+});
+
+// Counts a request from `ipAddress` and refuses it past the per-window limit.
+const throttleRequest = (ipAddress: string) => {
+    const now = Date.now();
+    for (const [ip, times] of recentRequests) {
+        const current = times.filter(time => now - time < REQUEST_WINDOW_MS);
+        if (current.length === 0) {
+            recentRequests.delete(ip);
+        } else {
+            recentRequests.set(ip, current);
+        }
+    }
+    const times = recentRequests.get(ipAddress) ?? [];
+    if (times.length >= MAX_REQUESTS_PER_WINDOW) {
+        throw new HttpError(429, 'Too many access requests. Try again in a minute.');
+    }
+    recentRequests.set(ipAddress, [...times, now]);
+};
+
+const commit = (next: StoredGuest[]) => {
+    guests = next;
+    writeJsonFile(GUESTS_FILE, guests);
+    const records = listGuests();
+    listeners.forEach(listener => listener(records));
+};
+
+/**
+ * The address of the browser that made the request. With TRUST_PROXY set,
+ * nginx passes it in X-Real-IP and X-Forwarded-For covers other reverse
+ * proxies; otherwise it is the address of the connection itself.
+ */
+export const getClientIp = (req: IncomingMessage): string => {
+    const realIp = TRUST_PROXY ? req.headers['x-real-ip'] : undefined;
+    const forwardedFor = TRUST_PROXY ? req.headers['x-forwarded-for'] : undefined;
+    const candidate =
+        (typeof realIp === 'string' && realIp) ||
+        (typeof forwardedFor === 'string' && forwardedFor.split(',')[0].trim()) ||
+        req.socket.remoteAddress ||
+        'unknown';
+    return candidate.replace(/^::ffff:/, '');
+};
+
+export const listGuests = (): GuestRecord[] => guests.map(toPublicRecord);
+
+export const subscribeToRegistry = (listener: RegistryListener): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+/**
+ * Files (or re-files) an access request. Returns the guest key the browser
+ * must keep to follow its own status.
+ */
+export const requestAccess = (id: string, key: string | null, ipAddress: string): { record: GuestRecord; key: string } => {
+    const guestId = id.trim();
+    if (!guestId) {
+        throw new HttpError(400, 'A guest ID is required.');
+    }
+    if (guestId.length > MAX_GUEST_ID_LENGTH) {
+        throw new HttpError(400, `A guest ID can be at most ${MAX_GUEST_ID_LENGTH} characters.`);
+    }
+    if (key !== null && (typeof key !== 'string' || key.length > MAX_GUEST_KEY_LENGTH)) {
+        throw new HttpError(400, 'Invalid guest key.');
+    }
+    throttleRequest(ipAddress);
+
+    const existing = guests.find(g => g.id === guestId);
+    if (existing && (!key || hashKey(key) !== existing.keyHash)) {
+        throw new HttpError(409, 'This guest ID is already in use.');
+    }
+    // A re-request replaces its own record; only new guests add to the store
+    if (!existing) {
+        const pending = guests.filter(g => g.status === 'pending');
+        if (pending.length >= MAX_PENDING_GUESTS) {
+            throw new HttpError(429, 'Too many guests are waiting for approval. Try again later.');
+        }
+        if (pending.filter(g => g.ipAddress === ipAddress).length >= MAX_PENDING_PER_IP) {
+            throw new HttpError(429, 'Too many pending requests from this address.');
+        }
+    }
+
+    const guestKey = existing ? key! : randomBytes(24).toString('base64url');
+    const updated: StoredGuest = {
+        id: guestId,
+        ipAddress,
+        loginTime: formatLoginTime(new Date()),
+        status: 'pending', // Always set to pending on re-request
+        keyHash: existing ? existing.keyHash : hashKey(guestKey),
+    };
+    commit(existing ? guests.map(g => (g.id === guestId ? updated : g)) : [...guests, updated]);
+    return { record: toPublicRecord(updated), key: guestKey };
+};
+
+/**
+ * The current status of a guest, or null when the record is gone or the key does not match.
+ */
+export const getGuestStatus = (id: string, key: string): GuestStatus | null => {
+    const guest = guests.find(g => g.id === id);
+    if (!guest || hashKey(key) !== guest.keyHash) {
+        return null;
+    }
+    return guest.status;
+};
+
+export const setGuestStatus = (id: string, status: GuestStatus) => {
+    if (!GUEST_STATUSES.includes(status)) {
+        throw new HttpError(400, `Invalid guest status: ${status}`);
+    }
+    if (!guests.some(g => g.id === id)) {
+        throw new HttpError(404, `Unknown guest: ${id}`);
+    }
+    commit(guests.map(g => (g.id === id ? { ...g, status } : g)));
+};
+
+export const deleteGuest = (id: string) => {
+    commit(guests.filter(g => g.id !== id));
+};
+
+export const clearGuests = (scope: 'all' | 'not_allowed') => {
+    commit(scope === 'all' ? [] : guests.filter(g => g.status === 'allowed'));
+};
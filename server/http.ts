@@ -0,0 +1,108 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+const MAX_BODY_BYTES = 50 * 1024 * 1024; // Requests carry several base64 images.
+
+/**
+ * An error that maps directly to an HTTP status code in the response.
+ */
+export class HttpError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+export const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+    const body = JSON.stringify(payload);
+    res.writeHead(status, {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Length': Buffer.byteLength(body),
+        'Cache-Control': 'no-store',
+    });
+    res.end(body);
+};
+
+export const readJsonBody = (req: IncomingMessage): Promise<any> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new HttpError(413, 'Request body is too large.'));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            if (chunks.length === 0) {
+                resolve({});
+                return;
+            }
+            let body: unknown;
+            try {
+                body = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+            } catch {
+                reject(new HttpError(400, 'Request body is not valid JSON.'));
+                return;
+            }
+            // Every route destructures its body
+            if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+                reject(new HttpError(400, 'Request body must be a JSON object.'));
+                return;
+            }
+            resolve(body);
+        });
+        req.on('error', reject);
+    });
+};
+
+export const getBearerToken = (req: IncomingMessage): string | null => {
+    const header = req.headers.authorization;
+    if (!header || !header.startsWith('Bearer ')) {
+        return null;
+    }
+    return header.slice('Bearer '.length).trim() || null;
+};
+
+// Quota errors keep their original message so the client can still detect RESOURCE_EXHAUSTED.
+export const statusForError = (error: unknown): number => {
+    if (error instanceof HttpError) {
+        return error.status;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('RESOURCE_EXHAUSTED') || message.toLowerCase().includes('quota')) {
+        return 429;
+    }
+    return 500;
+};
+
+const HEARTBEAT_INTERVAL_MS = 25_000;
+
+/**
+ * Turns a response into a Server-Sent Events stream.
+ * Returns a `send` function; `onClose` runs once the client disconnects.
+ */
+export const openEventStream = (req: IncomingMessage, res: ServerResponse, onClose: () => void) => {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-store',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no', // Stop nginx from buffering the stream
+    });
+    res.write(': connected\n\n');
+
+    // Comments keep idle proxies from closing the connection.
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        onClose();
+    });
+
+    return (event: string, data: unknown) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+};
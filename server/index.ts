@@ -0,0 +1,176 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { geminiProvider } from './geminiProvider';
+import { issueStreamTicket, login, logout, redeemStreamTicket, requireApiAccess, requireMaster, seedMasterAccount } from './auth';
+import { HttpError, getBearerToken, openEventStream, readJsonBody, sendJson, statusForError } from './http';
+import {
+    clearGuests,
+    deleteGuest,
+    getClientIp,
+    getGuestStatus,
+    listGuests,
+    requestAccess,
+    setGuestStatus,
+    subscribeToRegistry,
+} from './guests';
+import { validateAnalyzeParams, validateChatHistory, validateEditParams, validateGenerateParams, validateTranslateText } from './validation';
+
+// API PROXY
+// Holds the Gemini key and exposes one endpoint per `geminiService` operation,
+// plus master authentication and the shared guest registry.
+// nginx (or the Vite dev server) forwards `/api/*` here.
+
+const PORT = Number(process.env.PORT) || 8787;
+
+type RouteHandler = (body: any, req: IncomingMessage) => Promise<unknown> | unknown;
+type StreamHandler = (req: IncomingMessage, res: ServerResponse, url: URL) => void;
+
+// A custom system instruction is rendered straight into the model call.
+const MAX_TEMPLATE_LENGTH = 32_000;
+
+/**
+ * Checks the caller of an AI route and returns the custom template it may use:
+ * only a master session can replace the built-in one.
+ */
+const authorizeAiRequest = (req: IncomingMessage, template: unknown): string | undefined => {
+    const caller = requireApiAccess(req);
+    if (template === undefined || template === null) {
+        return undefined;
+    }
+    if (caller.role !== 'master') {
+        throw new HttpError(403, 'Custom prompt templates require a master session.');
+    }
+    if (typeof template !== 'string') {
+        throw new HttpError(400, 'systemInstructionTemplate must be a string.');
+    }
+    if (template.length > MAX_TEMPLATE_LENGTH) {
+        throw new HttpError(413, `systemInstructionTemplate is longer than ${MAX_TEMPLATE_LENGTH} characters.`);
+    }
+    return template;
+};
+
+// Routes are keyed by "METHOD /path".
+const routes: Record<string, RouteHandler> = {
+    'GET /api/health': () => ({ status: 'ok' }),
+
+    // Every AI route spends the server's Gemini key, so each one checks the caller first,
+    // then the shape of the body (see `validation.ts`).
+    'POST /api/translate': async ({ text }, req) => {
+        requireApiAccess(req);
+        return { text: await geminiProvider.translate(validateTranslateText(text)) };
+    },
+    'POST /api/generate': (body, req) => {
+        const systemInstructionTemplate = authorizeAiRequest(req, body.systemInstructionTemplate);
+        return geminiProvider.generate({ ...validateGenerateParams(body), systemInstructionTemplate });
+    },
+    'POST /api/analyze': (body, req) => {
+        const systemInstructionTemplate = authorizeAiRequest(req, body.systemInstructionTemplate);
+        return geminiProvider.analyze({ ...validateAnalyzeParams(body), systemInstructionTemplate });
+    },
+    'POST /api/chat': async ({ history, systemInstructionTemplate }, req) => {
+        const template = authorizeAiRequest(req, systemInstructionTemplate);
+        return { text: await geminiProvider.chat(validateChatHistory(history), template) };
+    },
+    'POST /api/edit': (body, req) => {
+        const systemInstructionTemplate = authorizeAiRequest(req, body.systemInstructionTemplate);
+        return geminiProvider.edit({ ...validateEditParams(body), systemInstructionTemplate });
+    },
+
+    'POST /api/auth/login': ({ id, password, email }) => login(String(id ?? ''), String(password ?? ''), String(email ?? '')),
+    'POST /api/auth/logout': (_body, req) => {
+        const token = getBearerToken(req);
+        if (token) {
+            logout(token);
+        }
+        return { ok: true };
+    },
+    'GET /api/auth/session': (_body, req) => ({ session: requireMaster(req) }),
+
+    'POST /api/guest/request': ({ id, key }, req) => requestAccess(String(id ?? ''), key ?? null, getClientIp(req)),
+
+    'POST /api/guests/events/ticket': (_body, req) => issueStreamTicket(req),
+    'GET /api/guests': (_body, req) => {
+        requireMaster(req);
+        return { records: listGuests() };
+    },
+    'POST /api/guests/status': ({ id, status }, req) => {
+        requireMaster(req);
+        setGuestStatus(String(id ?? ''), status);
+        return { records: listGuests() };
+    },
+    'POST /api/guests/delete': ({ id }, req) => {
+        requireMaster(req);
+        deleteGuest(String(id ?? ''));
+        return { records: listGuests() };
+    },
+    'POST /api/guests/clear': ({ scope }, req) => {
+        requireMaster(req);
+        clearGuests(scope === 'not_allowed' ? 'not_allowed' : 'all');
+        return { records: listGuests() };
+    },
+};
+
+// Server-Sent Events. EventSource cannot send headers, so credentials travel in the query string:
+// the guest's own key, or a one-time ticket for the master (never the session token).
+const streams: Record<string, StreamHandler> = {
+    // A guest follows its own approval status.
+    'GET /api/guest/events': (req, res, url) => {
+        const id = url.searchParams.get('id') ?? '';
+        const key = url.searchParams.get('key') ?? '';
+        let unsubscribe = () => {};
+        const send = openEventStream(req, res, () => unsubscribe());
+        send('status', { status: getGuestStatus(id, key) });
+        unsubscribe = subscribeToRegistry(() => send('status', { status: getGuestStatus(id, key) }));
+    },
+    // The master dashboard follows the whole registry.
+    'GET /api/guests/events': (req, res, url) => {
+        if (!redeemStreamTicket(url.searchParams.get('ticket'))) {
+            sendJson(res, 401, { error: 'A valid master session is required.' });
+            return;
+        }
+        let unsubscribe = () => {};
+        const send = openEventStream(req, res, () => unsubscribe());
+        send('records', { records: listGuests() });
+        unsubscribe = subscribeToRegistry(records => send('records', { records }));
+    },
+};
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const stream = streams[`${req.method} ${url.pathname}`];
+    if (stream) {
+        stream(req, res, url);
+        return;
+    }
+
+    const handler = routes[`${req.method} ${url.pathname}`];
+    if (!handler) {
+        const knownPath = [...Object.keys(routes), ...Object.keys(streams)].some(key => key.endsWith(` ${url.pathname}`));
+        sendJson(res, knownPath ? 405 : 404, {
+            error: knownPath ? 'Method not allowed.' : `Unknown endpoint: ${url.pathname}`,
+        });
+        return;
+    }
+
+    try {
+        const body = req.method === 'POST' ? await readJsonBody(req) : {};
+        const result = await handler(body, req);
+        sendJson(res, 200, result);
+    } catch (error) {
+        const status = statusForError(error);
+        if (status >= 500) {
+            console.error(`Request to ${url.pathname} failed:`, error);
+        }
+        sendJson(res, status, {
+            error: error instanceof Error ? error.message : 'An unknown error occurred.',
+        });
+    }
+});
+
+seedMasterAccount();
+
+server.listen(PORT, () => {
+    if (!process.env.GEMINI_API_KEY) {
+        console.warn('GEMINI_API_KEY is not set. AI endpoints will fail until it is configured.');
+    }
+    console.log(`API proxy listening on port ${PORT}`);
+});
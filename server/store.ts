@@ -0,0 +1,27 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+// JSON FILE STORE
+// A small file-backed stand-in for a database. Each collection is one JSON
+// file under DATA_DIR, rewritten atomically on every change.
+
+const DATA_DIR = process.env.DATA_DIR || join(process.cwd(), 'data');
+
+export const readJsonFile = <T>(name: string, fallback: T): T => {
+    try {
+        return JSON.parse(readFileSync(join(DATA_DIR, name), 'utf-8')) as T;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error(`Failed to read ${name}, starting empty:`, error);
+        }
+        return fallback;
+    }
+};
+
+export const writeJsonFile = (name: string, value: unknown) => {
+    mkdirSync(DATA_DIR, { recursive: true });
+    const target = join(DATA_DIR, name);
+    const temp = `${target}.tmp`;
+    writeFileSync(temp, JSON.stringify(value, null, 2));
+    renameSync(temp, target);
+};
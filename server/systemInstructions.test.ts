@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { OutputStyle, WorkMode } from '../types';
+import { DEFAULT_CAMERA_OPTIONS } from '../services/sequence';
+import { generateSystemInstruction } from './systemInstructions';
+
+const OUTPUT_STYLES: { style: OutputStyle; role: string; summary: string }[] = [
+    { style: 'genga_style', role: 'key animator (genga-man)', summary: 'OUTPUT a genga drawing in the SETTEI line style' },
+    { style: 'clean_lineart', role: 'technical illustrator', summary: 'OUTPUT clean, uniform black line art' },
+    { style: 'douga_cleanup', role: 'in-between (douga) cleanup artist', summary: 'OUTPUT a closed, single-line douga cleanup' },
+    { style: 'rough_layout', role: 'layout artist drawing a rough layout', summary: 'OUTPUT a rough layout drawing' },
+    { style: 'shadow_separation', role: 'adding shadow separation (kage) lines', summary: 'OUTPUT black line art with blue shadow and red highlight' },
+];
+
+const WORK_MODES: { mode: WorkMode; rule: string; step: string; otherRule: string }[] = [
+    {
+        mode: 'single',
+        rule: 'RULE 2: THE SETTEI IS LAW FOR STYLE AND CHARACTER DESIGN (SINGLE CHARACTER)',
+        step: "**APPLY** the style and design from the **SETTEI** to that one character.",
+        otherRule: '(MULTIPLE CHARACTERS)',
+    },
+    {
+        mode: 'multi',
+        rule: 'RULE 2: THE SETTEI IS LAW FOR STYLE AND CHARACTER DESIGN (MULTIPLE CHARACTERS)',
+        step: "**APPLY** each character's own **SETTEI** to that character only.",
+        otherRule: '(SINGLE CHARACTER)',
+    },
+];
+
+const instruction = (outputStyle: OutputStyle, workMode: WorkMode, overrides: { hasGlobalReference?: boolean; isEditingTask?: boolean } = {}) =>
+    generateSystemInstruction({
+        outputStyle,
+        workMode,
+        hasGlobalReference: overrides.hasGlobalReference ?? false,
+        isEditingTask: overrides.isEditingTask ?? false,
+        layerNames: ['Aoi', 'Ren'],
+        cameraOptions: DEFAULT_CAMERA_OPTIONS,
+        canvasDimensions: { width: 1000, height: 619 },
+    });
+
+describe('generateSystemInstruction', () => {
+    for (const { style, role, summary } of OUTPUT_STYLES) {
+        for (const { mode, rule, step, otherRule } of WORK_MODES) {
+            it(`renders the ${style} style in ${mode} mode`, () => {
+                const text = instruction(style, mode);
+                expect(text).toContain(role);
+                expect(text).toContain(summary);
+                expect(text).toContain(rule);
+                expect(text).toContain(step);
+                expect(text).not.toContain(otherRule);
+                expect(text).not.toMatch(/\{\{|\}\}/);
+            });
+        }
+    }
+
+    it('names the characters only in multi mode', () => {
+        expect(instruction('genga_style', 'multi')).toContain('Several characters appear: Aoi, Ren.');
+        expect(instruction('genga_style', 'single')).not.toContain('Aoi, Ren');
+    });
+
+    it('lets the conti govern the pose when there is one', () => {
+        const withConti = instruction('genga_style', 'single', { hasGlobalReference: true });
+        expect(withConti).toContain('RULE 1: THE CONTI IS ABSOLUTE LAW FOR POSE AND COMPOSITION');
+        expect(withConti).toContain('**TRACE** the pose from the **CONTI**.');
+        expect(withConti).not.toContain('RULE 1: THE SKETCH DEFINES POSE AND COMPOSITION');
+
+        const withoutConti = instruction('genga_style', 'single');
+        expect(withoutConti).toContain('RULE 1: THE SKETCH DEFINES POSE AND COMPOSITION');
+        expect(withoutConti).not.toContain('THE CONTI IS ABSOLUTE LAW');
+    });
+
+    it('tells an edit from a generation', () => {
+        expect(instruction('genga_style', 'single', { isEditingTask: true })).toContain('This is an EDITING task.');
+        expect(instruction('genga_style', 'single')).toContain('This is a GENERATION task.');
+    });
+});
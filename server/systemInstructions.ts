@@ -0,0 +1,167 @@
+import type { CameraOptions, OutputStyle, WorkMode } from '../types';
+import { DEFAULT_PROMPT_TEMPLATES, renderPromptTemplate, type TemplateVariables } from '../services/promptTemplates';
+import { HttpError } from './http';
+
+// SYSTEM INSTRUCTIONS
+// Each instruction is a template (see `services/promptTemplates.ts`). A request
+// may carry the project's own template text; otherwise the default is used.
+// The variables come from the request: the output style decides the role,
+// line rules and output format; the work mode decides how settei map to
+// characters; the presence of a conti decides which input governs the pose.
+
+export interface SystemInstructionOptions {
+    outputStyle: OutputStyle;
+    workMode: WorkMode;
+    hasGlobalReference: boolean;
+    isEditingTask: boolean;
+    layerNames: string[];
+    hasPoseSkeletons?: boolean;
+    hasCharacterStaging?: boolean;
+    cameraOptions: CameraOptions;
+    canvasDimensions: { width: number; height: number };
+    template?: string;
+}
+
+interface StyleProfile {
+    role: string;
+    lineRules: string[];
+    outputRules: string[];
+    summary: string; // The final step of the execution summary
+}
+
+const STYLE_PROFILES: Record<OutputStyle, StyleProfile> = {
+    genga_style: {
+        role: 'You are a key animator (genga-man) redrawing a layout in the exact hand of the character designer.',
+        lineRules: [
+            'Copy the SETTEI line character exactly: the same line weight, pressure variation, texture and way of drawing hair, eyes, hands and folds.',
+            'Keep the drawing at genga level: complete forms, clear silhouettes and readable acting. Do not simplify the design.',
+        ],
+        outputRules: [
+            'Black line art on a transparent background.',
+            'No color. No grayscale. No shading fills. No backgrounds.',
+        ],
+        summary: 'OUTPUT a genga drawing in the SETTEI line style, black lines on a transparent background.',
+    },
+    clean_lineart: {
+        role: 'You are a technical illustrator producing clean, production-ready line art.',
+        lineRules: [
+            'Use crisp, confident lines of even weight. No sketchy, doubled or feathered strokes.',
+            'Follow the SETTEI design for proportions and details, but normalize the line quality to a clean, uniform finish.',
+        ],
+        outputRules: [
+            'Black line art on a transparent background.',
+            'No color. No grayscale. No shading. No backgrounds.',
+        ],
+        summary: 'OUTPUT clean, uniform black line art on a transparent background.',
+    },
+    douga_cleanup: {
+        role: 'You are an in-between (douga) cleanup artist preparing drawings for digital ink and paint.',
+        lineRules: [
+            'Draw every line as a single thin stroke of constant width. No line weight variation, no tapering, no textured strokes.',
+            'Close every shape completely, with no gaps, so each region can be flood-filled with paint.',
+            'Remove all construction lines, guide marks and stray strokes.',
+        ],
+        outputRules: [
+            'Pure black single lines on a transparent background.',
+            'No color. No grayscale. No shading. No backgrounds. No anti-aliased soft edges where avoidable.',
+        ],
+        summary: 'OUTPUT a closed, single-line douga cleanup ready for paint, on a transparent background.',
+    },
+    rough_layout: {
+        role: 'You are a layout artist drawing a rough layout that fixes composition, perspective and volume before genga.',
+        lineRules: [
+            'Loose, gestural lines are expected. Light construction lines (body axes, volumes, perspective guides) may remain visible.',
+            'Prioritize correct placement, scale against the perspective, and readable silhouettes over finished detail.',
+            'Indicate the SETTEI design with enough detail to identify each character; faces and costumes may stay simplified.',
+        ],
+        outputRules: [
+            'Dark gray or black pencil-like lines on a transparent background. Lighter strokes are allowed for construction.',
+            'No color. No shading fills. No rendered backgrounds.',
+        ],
+        summary: 'OUTPUT a rough layout drawing with clear composition, perspective and volumes.',
+    },
+    shadow_separation: {
+        role: 'You are a key animator adding shadow separation (kage) lines to a finished line drawing.',
+        lineRules: [
+            'Draw the character outlines and details as clean black lines in the SETTEI style.',
+            'Mark the boundary of every cast and form shadow with a BLUE color-trace line. Mark highlight boundaries with a RED color-trace line.',
+            'Choose one consistent light direction: from the CONTI when it shows lighting, from the text prompt when it names one, otherwise from the upper front.',
+        ],
+        outputRules: [
+            'Black outlines plus blue shadow lines and red highlight lines, on a transparent background.',
+            'Lines only. Do not fill the shadow or highlight areas. No grayscale. No backgrounds.',
+        ],
+        summary: 'OUTPUT black line art with blue shadow and red highlight separation lines on a transparent background.',
+    },
+};
+
+// HELPER FUNCTIONS
+const bullets = (lines: string[]): string => lines.map(line => `- ${line}`).join('\n');
+
+const render = (template: string | undefined, fallback: string, variables: TemplateVariables): string => {
+    try {
+        return renderPromptTemplate(template?.trim() ? template : fallback, variables);
+    } catch (error) {
+        throw new HttpError(400, `Invalid system instruction template: ${error instanceof Error ? error.message : String(error)}`);
+    }
+};
+
+/**
+ * Lists the non-default camera settings. `framingOnly` leaves out the moves
+ * (zoom, dolly, truck, pedestal), which an edit of a finished image cannot apply.
+ */
+export const describeCameraSettings = (cameraOptions: CameraOptions, framingOnly = false): string[] => {
+    const settings: string[] = [];
+    if (cameraOptions.shotType && cameraOptions.shotType !== 'none') settings.push(`Shot Type: ${cameraOptions.shotType}`);
+    if (cameraOptions.angleType && cameraOptions.angleType !== 'none') settings.push(`Angle Type: ${cameraOptions.angleType}`);
+    if (cameraOptions.lens && cameraOptions.lens !== 'none') settings.push(`Lens: ${cameraOptions.lens}`);
+    if (cameraOptions.verticalAngle !== 0) settings.push(`Vertical Angle (Tilt): ${-cameraOptions.verticalAngle}°`);
+    if (cameraOptions.horizontalAngle !== 0) settings.push(`Horizontal Angle (Pan): ${-cameraOptions.horizontalAngle}°`);
+    if (cameraOptions.rollAngle !== 0) settings.push(`Roll Angle: ${cameraOptions.rollAngle}°`);
+    if (framingOnly) return settings;
+    if (cameraOptions.zoomLevel !== 1.0) settings.push(`Zoom: ${cameraOptions.zoomLevel.toFixed(2)}x`);
+    if (cameraOptions.dolly !== 0) settings.push(`Dolly: ${cameraOptions.dolly}`);
+    if (cameraOptions.horizontalShift !== 0) settings.push(`Truck: ${cameraOptions.horizontalShift}`);
+    if (cameraOptions.verticalShift !== 0) settings.push(`Pedestal: ${-cameraOptions.verticalShift}`);
+    return settings;
+};
+
+/**
+ * Builds the system instruction for an image generation or edit request.
+ */
+export const generateSystemInstruction = (options: SystemInstructionOptions): string => {
+    const style = STYLE_PROFILES[options.outputStyle] ?? STYLE_PROFILES.genga_style;
+    return render(options.template, DEFAULT_PROMPT_TEMPLATES.generation, {
+        styleRole: style.role,
+        styleLineRules: bullets(style.lineRules),
+        styleOutputRules: bullets(style.outputRules),
+        styleSummary: style.summary,
+        outputStyle: options.outputStyle,
+        workMode: options.workMode,
+        isEditing: options.isEditingTask,
+        hasConti: options.hasGlobalReference,
+        multiCharacter: options.workMode === 'multi',
+        hasPoseSkeletons: options.hasPoseSkeletons ?? false,
+        hasCharacterStaging: options.hasCharacterStaging ?? false,
+        layerNames: options.layerNames.join(', '),
+        cameraSettings: describeCameraSettings(options.cameraOptions).join(', '),
+        canvasSize: `${options.canvasDimensions.width}x${options.canvasDimensions.height}`,
+    });
+};
+
+export const analysisInstruction = (options: Omit<SystemInstructionOptions, 'outputStyle' | 'isEditingTask'> & { hasPreviousCut: boolean }): string => render(options.template, DEFAULT_PROMPT_TEMPLATES.analysis, {
+    hasConti: options.hasGlobalReference,
+    hasPreviousCut: options.hasPreviousCut,
+    multiCharacter: options.workMode === 'multi',
+    layerNames: options.layerNames.join(', '),
+    cameraSettings: describeCameraSettings(options.cameraOptions).join(', '),
+    canvasSize: `${options.canvasDimensions.width}x${options.canvasDimensions.height}`,
+});
+
+export const chatInstruction = (template?: string): string => render(template, DEFAULT_PROMPT_TEMPLATES.chat, {});
+
+export const editInstruction = (options: { cameraOptions: CameraOptions; hasReference: boolean; hasSketch: boolean; template?: string }): string => render(options.template, DEFAULT_PROMPT_TEMPLATES.edit, {
+    cameraSettings: describeCameraSettings(options.cameraOptions, true).join(', '),
+    hasReference: options.hasReference,
+    hasSketch: options.hasSketch,
+});
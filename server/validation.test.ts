@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CAMERA_OPTIONS } from '../services/sequence';
+import { HttpError } from './http';
+import { validateAnalyzeParams, validateChatHistory, validateEditParams, validateGenerateParams } from './validation';
+
+const IMAGE = 'data:image/png;base64,AAAA';
+
+const generateBody = () => ({
+    poseImages: [{ name: 'Aoi', imageDataUrl: '', points: [{ id: 1, x: 50, y: 50, characterName: 'Aoi', radius: 15, color: '#f00' }] }],
+    globalReferenceImage: null,
+    editBaseImage: null,
+    prompt: '',
+    negativePrompt: '',
+    perspectiveData: { vanishingPoints: [] },
+    outputStyle: 'genga_style',
+    canvasDimensions: { width: 1000, height: 619 },
+    sketchBoundingBox: null,
+    workMode: 'single',
+    cameraOptions: { ...DEFAULT_CAMERA_OPTIONS },
+    chatHistory: [],
+    baseCanvasDataUrl: IMAGE,
+});
+
+const rejection = (validate: () => unknown) => {
+    try {
+        validate();
+    } catch (error) {
+        return error;
+    }
+    throw new Error('The body was accepted.');
+};
+
+describe('validateGenerateParams', () => {
+    it('accepts a body as the client sends it', () => {
+        const body = generateBody();
+        expect(validateGenerateParams(body)).toBe(body);
+    });
+
+    it('rejects an empty body with a 400', () => {
+        const error = rejection(() => validateGenerateParams({}));
+        expect(error).toBeInstanceOf(HttpError);
+        expect((error as HttpError).status).toBe(400);
+        expect((error as HttpError).message).toBe('poseImages must be an array.');
+    });
+
+    it('names the missing camera field', () => {
+        const { zoomLevel, ...cameraOptions } = DEFAULT_CAMERA_OPTIONS;
+        expect(() => validateGenerateParams({ ...generateBody(), cameraOptions })).toThrow('cameraOptions.zoomLevel must be a finite number.');
+    });
+
+    it('rejects unknown styles and modes', () => {
+        expect(() => validateGenerateParams({ ...generateBody(), outputStyle: 'oil_paint' })).toThrow(/^outputStyle must be one of/);
+        expect(() => validateGenerateParams({ ...generateBody(), workMode: 'crowd' })).toThrow(/^workMode must be one of/);
+    });
+
+    it('rejects bad dimensions and images', () => {
+        expect(() => validateGenerateParams({ ...generateBody(), canvasDimensions: { width: 0, height: 619 } })).toThrow('canvasDimensions.width must be positive.');
+        expect(() => validateGenerateParams({ ...generateBody(), globalReferenceImage: { imageDataUrl: 'https://example.com/a.png' } }))
+            .toThrow('globalReferenceImage.imageDataUrl must be an image data URL.');
+    });
+
+    it('checks the character markers', () => {
+        const body = generateBody();
+        body.poseImages[0].points = [{ ...body.poseImages[0].points[0], facing: 'up' } as any];
+        expect(() => validateGenerateParams(body)).toThrow(/^poseImages\[0\]\.points\[0\]\.facing must be one of/);
+    });
+});
+
+describe('validateAnalyzeParams', () => {
+    it('checks the previous cut', () => {
+        const { outputStyle, baseCanvasDataUrl, ...body } = generateBody();
+        expect(validateAnalyzeParams({ ...body, previousCut: null })).toBeTruthy();
+        expect(() => validateAnalyzeParams({ ...body, previousCut: { cutNumber: '2', notes: '', cameraOptions: {}, imageDataUrl: null } }))
+            .toThrow('previousCut.cameraOptions.shotType must be a string.');
+    });
+});
+
+describe('validateChatHistory', () => {
+    it('treats a missing history as empty and rejects malformed messages', () => {
+        expect(validateChatHistory(undefined)).toEqual([]);
+        expect(() => validateChatHistory([{ role: 'system', parts: [] }])).toThrow(/^history\[0\]\.role must be one of/);
+        expect(() => validateChatHistory([{ role: 'user', parts: [{}] }])).toThrow('history[0].parts[0].text must be a string.');
+    });
+});
+
+describe('validateEditParams', () => {
+    it('requires the base image and the instruction', () => {
+        const body = { baseImageUrl: IMAGE, chatHistory: [], newMessage: 'Fix the hand', cameraOptions: { ...DEFAULT_CAMERA_OPTIONS } };
+        expect(validateEditParams(body)).toBe(body);
+        expect(() => validateEditParams({ ...body, baseImageUrl: undefined })).toThrow('baseImageUrl must be an image data URL.');
+        expect(() => validateEditParams({ ...body, newMessage: 3 })).toThrow('newMessage must be a string.');
+    });
+});
@@ -0,0 +1,202 @@
+import type { AnalyzeSceneParams, EditImageWithChatParams, GenerateImageParams } from '../services/providers/types';
+import type { CameraOptions, ChatMessage, OutputStyle, WorkMode } from '../types';
+import { HttpError } from './http';
+
+// REQUEST VALIDATION
+// The AI routes hand their JSON body straight to the provider, so every field
+// the provider reads is checked here first. A malformed body is the client's
+// mistake and answers 400, never a TypeError from deep inside a prompt builder.
+
+const OUTPUT_STYLES: OutputStyle[] = ['genga_style', 'clean_lineart', 'douga_cleanup', 'rough_layout', 'shadow_separation'];
+const WORK_MODES: WorkMode[] = ['single', 'multi'];
+const CHAT_ROLES: ChatMessage['role'][] = ['user', 'model'];
+const FACINGS = ['front', 'side', 'back'];
+const CAMERA_TEXT_FIELDS = ['shotType', 'angleType', 'lens'] as const;
+const CAMERA_NUMBER_FIELDS = ['verticalAngle', 'horizontalAngle', 'rollAngle', 'horizontalShift', 'verticalShift', 'dolly', 'zoomLevel'] as const;
+const IMAGE_DATA_URL = /^data:image\/\w+;base64,/;
+
+// HELPER FUNCTIONS
+const fail = (field: string, expected: string): never => {
+    throw new HttpError(400, `${field} must be ${expected}.`);
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAbsent = (value: unknown) => value === undefined || value === null;
+
+const checkObject = (value: unknown, field: string): Record<string, any> => (isObject(value) ? value : fail(field, 'an object'));
+
+const checkArray = (value: unknown, field: string): unknown[] => (Array.isArray(value) ? value : fail(field, 'an array'));
+
+const checkString = (value: unknown, field: string) => {
+    if (typeof value !== 'string') fail(field, 'a string');
+};
+
+const checkOptionalString = (value: unknown, field: string) => {
+    if (!isAbsent(value)) checkString(value, field);
+};
+
+const checkNumber = (value: unknown, field: string) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) fail(field, 'a finite number');
+};
+
+const checkOptionalNumber = (value: unknown, field: string) => {
+    if (!isAbsent(value)) checkNumber(value, field);
+};
+
+const checkOneOf = (value: unknown, allowed: readonly string[], field: string) => {
+    if (typeof value !== 'string' || !allowed.includes(value)) fail(field, `one of ${allowed.join(', ')}`);
+};
+
+// An empty string stands for "no image" where the field allows it
+const checkImage = (value: unknown, field: string, allowEmpty = false) => {
+    if (typeof value !== 'string' || !(IMAGE_DATA_URL.test(value) || (allowEmpty && value === ''))) {
+        fail(field, 'an image data URL');
+    }
+};
+
+const checkOptionalImage = (value: unknown, field: string) => {
+    if (!isAbsent(value)) checkImage(value, field);
+};
+
+const checkImageRef = (value: unknown, field: string) => {
+    if (!isAbsent(value)) checkImage(checkObject(value, field).imageDataUrl, `${field}.imageDataUrl`);
+};
+
+const checkPoint = (value: unknown, field: string) => {
+    const point = checkObject(value, field);
+    checkNumber(point.x, `${field}.x`);
+    checkNumber(point.y, `${field}.y`);
+};
+
+const checkRect = (value: unknown, field: string) => {
+    const rect = checkObject(value, field);
+    for (const key of ['x', 'y', 'width', 'height']) {
+        checkNumber(rect[key], `${field}.${key}`);
+    }
+};
+
+const checkCameraOptions = (value: unknown, field = 'cameraOptions') => {
+    const camera = checkObject(value, field);
+    CAMERA_TEXT_FIELDS.forEach(key => checkString(camera[key], `${field}.${key}`));
+    CAMERA_NUMBER_FIELDS.forEach(key => checkNumber(camera[key], `${field}.${key}`));
+    return camera as CameraOptions;
+};
+
+const checkCanvasDimensions = (value: unknown) => {
+    const size = checkObject(value, 'canvasDimensions');
+    for (const key of ['width', 'height']) {
+        checkNumber(size[key], `canvasDimensions.${key}`);
+        if (size[key] <= 0) fail(`canvasDimensions.${key}`, 'positive');
+    }
+};
+
+const checkChatHistory = (value: unknown, field: string) => {
+    checkArray(value, field).forEach((message, i) => {
+        const { role, parts } = checkObject(message, `${field}[${i}]`);
+        checkOneOf(role, CHAT_ROLES, `${field}[${i}].role`);
+        checkArray(parts, `${field}[${i}].parts`).forEach((part, j) => {
+            checkString(checkObject(part, `${field}[${i}].parts[${j}]`).text, `${field}[${i}].parts[${j}].text`);
+        });
+    });
+};
+
+const checkCharacterPoint = (value: unknown, field: string) => {
+    const point = checkObject(value, field);
+    checkPoint(point, field);
+    checkNumber(point.radius, `${field}.radius`);
+    checkString(point.characterName, `${field}.characterName`);
+    if (!isAbsent(point.bbox)) checkRect(point.bbox, `${field}.bbox`);
+    if (!isAbsent(point.facing)) checkOneOf(point.facing, FACINGS, `${field}.facing`);
+    if (!isAbsent(point.head)) checkPoint(point.head, `${field}.head`);
+    if (!isAbsent(point.eyeLineTarget)) {
+        checkPoint(point.eyeLineTarget, `${field}.eyeLineTarget`);
+        checkOptionalString(point.eyeLineTarget.characterName, `${field}.eyeLineTarget.characterName`);
+    }
+    checkOptionalNumber(point.depth, `${field}.depth`);
+};
+
+const checkPoseImages = (value: unknown) => {
+    checkArray(value, 'poseImages').forEach((item, i) => {
+        const field = `poseImages[${i}]`;
+        const pose = checkObject(item, field);
+        checkString(pose.name, `${field}.name`);
+        checkImage(pose.imageDataUrl, `${field}.imageDataUrl`, true);
+        checkOptionalImage(pose.skeletonImageDataUrl, `${field}.skeletonImageDataUrl`);
+        if (!isAbsent(pose.setteiImages)) {
+            checkArray(pose.setteiImages, `${field}.setteiImages`).forEach((settei, j) => {
+                const { imageUrl, maskUrl } = checkObject(settei, `${field}.setteiImages[${j}]`);
+                checkImage(imageUrl, `${field}.setteiImages[${j}].imageUrl`);
+                checkOptionalImage(maskUrl, `${field}.setteiImages[${j}].maskUrl`);
+            });
+        }
+        if (!isAbsent(pose.points)) {
+            checkArray(pose.points, `${field}.points`).forEach((point, j) => checkCharacterPoint(point, `${field}.points[${j}]`));
+        }
+        if (!isAbsent(pose.skeletons)) {
+            checkArray(pose.skeletons, `${field}.skeletons`).forEach((skeleton, j) => checkObject(skeleton, `${field}.skeletons[${j}]`));
+        }
+    });
+};
+
+// The fields generation and analysis share (see `buildInterlinkedPromptParts`)
+const checkSceneParams = (body: Record<string, any>) => {
+    checkPoseImages(body.poseImages);
+    checkImageRef(body.globalReferenceImage, 'globalReferenceImage');
+    checkImageRef(body.editBaseImage, 'editBaseImage');
+    checkOptionalString(body.prompt, 'prompt');
+    checkOptionalString(body.negativePrompt, 'negativePrompt');
+    checkArray(checkObject(body.perspectiveData, 'perspectiveData').vanishingPoints, 'perspectiveData.vanishingPoints');
+    checkCanvasDimensions(body.canvasDimensions);
+    if (!isAbsent(body.sketchBoundingBox)) checkRect(body.sketchBoundingBox, 'sketchBoundingBox');
+    checkOneOf(body.workMode, WORK_MODES, 'workMode');
+    checkCameraOptions(body.cameraOptions);
+    if (!isAbsent(body.chatHistory)) checkChatHistory(body.chatHistory, 'chatHistory');
+};
+
+// VALIDATORS
+export const validateTranslateText = (text: unknown): string => {
+    checkOptionalString(text, 'text');
+    return (text as string | undefined) ?? '';
+};
+
+export const validateGenerateParams = (body: unknown): GenerateImageParams => {
+    const params = checkObject(body, 'The request body');
+    checkSceneParams(params);
+    checkOneOf(params.outputStyle, OUTPUT_STYLES, 'outputStyle');
+    checkChatHistory(params.chatHistory, 'chatHistory');
+    checkOptionalNumber(params.seed, 'seed');
+    checkOptionalImage(params.baseCanvasDataUrl, 'baseCanvasDataUrl');
+    return params as GenerateImageParams;
+};
+
+export const validateAnalyzeParams = (body: unknown): AnalyzeSceneParams => {
+    const params = checkObject(body, 'The request body');
+    checkSceneParams(params);
+    if (!isAbsent(params.previousCut)) {
+        const previousCut = checkObject(params.previousCut, 'previousCut');
+        checkString(previousCut.cutNumber, 'previousCut.cutNumber');
+        checkOptionalString(previousCut.notes, 'previousCut.notes');
+        checkCameraOptions(previousCut.cameraOptions, 'previousCut.cameraOptions');
+        checkOptionalImage(previousCut.imageDataUrl, 'previousCut.imageDataUrl');
+    }
+    return params as AnalyzeSceneParams;
+};
+
+export const validateChatHistory = (history: unknown): ChatMessage[] => {
+    if (isAbsent(history)) return [];
+    checkChatHistory(history, 'history');
+    return history as ChatMessage[];
+};
+
+export const validateEditParams = (body: unknown): EditImageWithChatParams => {
+    const params = checkObject(body, 'The request body');
+    checkImage(params.baseImageUrl, 'baseImageUrl');
+    checkOptionalImage(params.referenceImageUrl, 'referenceImageUrl');
+    checkOptionalImage(params.sketchImageUrl, 'sketchImageUrl');
+    checkChatHistory(params.chatHistory, 'chatHistory');
+    checkString(params.newMessage, 'newMessage');
+    checkCameraOptions(params.cameraOptions);
+    return params as EditImageWithChatParams;
+};
@@ -0,0 +1,104 @@
+// Shared fetch wrapper for the API proxy in `server/`.
+// In development Vite forwards `/api` to the proxy; in production nginx does.
+export const API_BASE = '/api';
+const SESSION_STORAGE_KEY = 'master_session_token';
+const GUEST_ID_STORAGE_KEY = 'guest_id';
+const GUEST_KEY_STORAGE_KEY = 'guest_key';
+
+/**
+ * Raised when the proxy answers with a non-2xx status.
+ */
+export class ApiError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+export const getSessionToken = (): string | null => {
+    try {
+        return localStorage.getItem(SESSION_STORAGE_KEY);
+    } catch (error) {
+        console.error("Failed to read session token from localStorage:", error);
+        return null;
+    }
+};
+
+export const setSessionToken = (token: string | null) => {
+    try {
+        if (token) {
+            localStorage.setItem(SESSION_STORAGE_KEY, token);
+        } else {
+            localStorage.removeItem(SESSION_STORAGE_KEY);
+        }
+    } catch (error) {
+        console.error("Failed to save session token to localStorage:", error);
+    }
+};
+
+/**
+ * The guest ID and the key the registry issued for it, or null before the first request.
+ */
+export const getGuestCredentials = (): { id: string; key: string } | null => {
+    try {
+        const id = localStorage.getItem(GUEST_ID_STORAGE_KEY);
+        const key = localStorage.getItem(GUEST_KEY_STORAGE_KEY);
+        return id && key ? { id, key } : null;
+    } catch (error) {
+        console.error("Failed to read guest credentials from localStorage:", error);
+        return null;
+    }
+};
+
+export const getGuestKey = (): string | null => {
+    try {
+        return localStorage.getItem(GUEST_KEY_STORAGE_KEY);
+    } catch (error) {
+        console.error("Failed to read guest key from localStorage:", error);
+        return null;
+    }
+};
+
+export const setGuestKey = (key: string | null) => {
+    try {
+        if (key) {
+            localStorage.setItem(GUEST_KEY_STORAGE_KEY, key);
+        } else {
+            localStorage.removeItem(GUEST_KEY_STORAGE_KEY);
+        }
+    } catch (error) {
+        console.error("Failed to save guest key to localStorage:", error);
+    }
+};
+
+// The AI endpoints accept either credential; the master session wins when both exist.
+export const apiRequest = async <T>(path: string, options: { method?: 'GET' | 'POST'; body?: unknown; signal?: AbortSignal } = {}): Promise<T> => {
+    const method = options.method ?? (options.body === undefined ? 'GET' : 'POST');
+    const headers: Record<string, string> = {};
+    if (options.body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+    }
+    const token = getSessionToken();
+    if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+    }
+    const guest = getGuestCredentials();
+    if (guest) {
+        headers['X-Guest-Id'] = encodeURIComponent(guest.id);
+        headers['X-Guest-Key'] = guest.key;
+    }
+
+    const response = await fetch(`${API_BASE}${path}`, {
+        method,
+        headers,
+        body: options.body === undefined ? undefined : JSON.stringify(options.body),
+        signal: options.signal,
+    });
+    const payload = await response.json().catch(() => null);
+    if (!response.ok) {
+        throw new ApiError(response.status, payload?.error || `Request to ${path} failed with status ${response.status}.`);
+    }
+    return payload as T;
+};
@@ -0,0 +1,51 @@
+import { ApiError, apiRequest, getSessionToken, setSessionToken } from './apiClient';
+
+export interface MasterSession {
+    userId: string;
+    email: string;
+    expiresAt: number;
+}
+
+export const loginMaster = async (id: string, password: string, email: string): Promise<MasterSession> => {
+    const result = await apiRequest<{ token: string; session: MasterSession }>('/auth/login', {
+        body: { id, password, email },
+    });
+    setSessionToken(result.token);
+    return result.session;
+};
+
+/**
+ * Invalidates the session on the server, then forgets the local token.
+ * The local token is cleared even if the server cannot be reached.
+ */
+export const logoutMaster = async (): Promise<void> => {
+    try {
+        if (getSessionToken()) {
+            await apiRequest('/auth/logout', { method: 'POST' });
+        }
+    } catch (error) {
+        console.error("Failed to invalidate session on the server:", error);
+    } finally {
+        setSessionToken(null);
+    }
+};
+
+/**
+ * Returns the current master session, or null if there is none or it expired.
+ */
+export const restoreMasterSession = async (): Promise<MasterSession | null> => {
+    if (!getSessionToken()) {
+        return null;
+    }
+    try {
+        const result = await apiRequest<{ session: MasterSession }>('/auth/session');
+        return result.session;
+    } catch (error) {
+        if (error instanceof ApiError && error.status === 401) {
+            setSessionToken(null);
+        } else {
+            console.error("Failed to restore master session:", error);
+        }
+        return null;
+    }
+};
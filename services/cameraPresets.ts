@@ -0,0 +1,86 @@
+import type { CameraOptions } from '../types';
+
+// CAMERA PRESETS
+// The shot, angle and lens vocabulary of the camera panel, and the camera
+// moves each shot or angle implies. Scene analysis uses the same values, so
+// its suggestions can be applied exactly like a choice in the panel.
+
+export interface SelectOption {
+  value: string;
+  label: string;
+  disabled?: boolean;
+}
+
+export const shotFramingOptions: SelectOption[] = [
+  { value: 'none', label: '선택 안함' },
+  { value: 'extreme_long_shot', label: '익스트림 롱샷' },
+  { value: 'long_shot', label: '롱샷' },
+  { value: 'full_shot', label: '풀샷' },
+  { value: 'medium_long_shot', label: '미디엄 롱샷' },
+  { value: 'cowboy_shot', label: '카우보이샷' },
+  { value: 'medium_shot', label: '미디엄샷' },
+  { value: 'medium_close_up', label: '미디엄 클로즈업' },
+  { value: 'over_the_shoulder_left', label: '오버더숄더 (좌)' },
+  { value: 'over_the_shoulder_right', label: '오버더숄더 (우)' },
+  { value: 'close_up', label: '클로즈업' },
+  { value: 'extreme_close_up', label: '익스트림 클로즈업' },
+];
+
+export const shotAngleOptions: SelectOption[] = [
+  { value: 'none', label: '선택 안함' },
+  { value: 'low_angle_shot', label: '로우 앵글' },
+  { value: 'high_angle_shot', label: '하이 앵글' },
+  { value: 'dutch_angle_shot', label: '더치 앵글' },
+  { value: 'birds_eye_view', label: '버즈 아이 뷰 (부감)' },
+  { value: 'worms_eye_view', label: '웜즈 아이 뷰 (앙각)' },
+];
+
+export const lensOptions: SelectOption[] = [
+  { value: 'none', label: '선택 안함' },
+  { value: '14mm', label: '초광각 (14mm)' },
+  { value: '24mm', label: '광각 (24mm)' },
+  { value: '35mm', label: '표준 광각 (35mm)' },
+  { value: '50mm', label: '표준 (50mm)' },
+  { value: '85mm', label: '준망원 (85mm)' },
+  { value: '135mm', label: '망원 (135mm)' },
+  { value: '200mm', label: '초망원 (200mm)' },
+];
+
+const shotPresets: Record<string, Partial<CameraOptions>> = {
+    extreme_long_shot: { dolly: -180, zoomLevel: 1.0, verticalShift: 10, verticalAngle: 10, lens: '24mm' },
+    long_shot: { dolly: -120, zoomLevel: 1.0, verticalShift: 5, verticalAngle: 5, lens: '35mm' },
+    full_shot: { dolly: -60, zoomLevel: 1.2, verticalShift: 0, verticalAngle: 0, lens: '35mm' },
+    medium_long_shot: { dolly: -20, zoomLevel: 1.5, verticalShift: -10, verticalAngle: 0, lens: '50mm' }, // Knees up
+    cowboy_shot: { dolly: 0, zoomLevel: 1.6, verticalShift: -15, verticalAngle: 0, lens: '50mm' }, // Mid-thighs up
+    medium_shot: { dolly: 20, zoomLevel: 1.8, verticalShift: -20, verticalAngle: 0, lens: '85mm' }, // Waist up
+    medium_close_up: { dolly: 40, zoomLevel: 2.2, verticalShift: -25, verticalAngle: 0, lens: '85mm' }, // Chest up
+    over_the_shoulder_left: { dolly: 30, zoomLevel: 2.0, verticalShift: -20, horizontalAngle: 15, horizontalShift: -30, lens: '85mm' },
+    over_the_shoulder_right: { dolly: 30, zoomLevel: 2.0, verticalShift: -20, horizontalAngle: -15, horizontalShift: 30, lens: '85mm' },
+    close_up: { dolly: 60, zoomLevel: 2.8, verticalShift: -30, verticalAngle: -5, lens: '135mm' },
+    extreme_close_up: { dolly: 80, zoomLevel: 4.0, verticalShift: -35, verticalAngle: -5, lens: '200mm' },
+    // New angle presets
+    low_angle_shot: { verticalAngle: -30, lens: '24mm', dolly: -10, verticalShift: -20, zoomLevel: 1.3 },
+    high_angle_shot: { verticalAngle: 35, lens: '50mm', dolly: 10, verticalShift: 25, zoomLevel: 1.3 },
+    dutch_angle_shot: { rollAngle: 15, lens: '35mm', dolly: 0, zoomLevel: 1.6, verticalShift: -15, verticalAngle: -5 },
+    birds_eye_view: { verticalAngle: 80, lens: '24mm', dolly: 100, verticalShift: 60, zoomLevel: 1.8 },
+    worms_eye_view: { verticalAngle: -75, lens: '14mm', dolly: -60, verticalShift: -60, zoomLevel: 1.8 },
+};
+
+const optionLabel = (options: SelectOption[], value: string): string => options.find(opt => opt.value === value)?.label ?? value;
+
+export const shotTypeLabel = (value: string) => optionLabel(shotFramingOptions, value);
+export const angleTypeLabel = (value: string) => optionLabel(shotAngleOptions, value);
+export const lensLabel = (value: string) => optionLabel(lensOptions, value);
+
+// Choosing a shot type applies its preset and clears the angle type, and vice versa
+export const shotTypeChanges = (shotType: string): Partial<CameraOptions> => ({
+  ...shotPresets[shotType],
+  shotType,
+  angleType: 'none',
+});
+
+export const angleTypeChanges = (angleType: string): Partial<CameraOptions> => ({
+  ...shotPresets[angleType],
+  angleType,
+  shotType: 'none',
+});
@@ -0,0 +1,167 @@
+import type { CharacterFacing, CharacterPoint, PoseImage } from '../types';
+
+// CHARACTER MARKERS
+// Staging for the characters of a scene: where each one stands (its marker
+// and bounding box), where its head is, which way it faces, where it looks
+// and how near the camera it is. Markers keep percentages of the canvas so
+// they follow it through resizes; they are turned into pixels only for the
+// generation request.
+
+type Point = { x: number; y: number };
+type Size = { width: number; height: number };
+
+export type CharacterMarker = CharacterPoint & Required<Pick<CharacterPoint, 'bbox' | 'facing' | 'head' | 'eyeLineTarget'>>;
+
+// The parts of a marker that can be dragged on the canvas
+export type MarkerHandle = 'center' | 'head' | 'eyeLine' | 'bboxStart' | 'bboxEnd';
+
+export const FACING_OPTIONS: { id: CharacterFacing; label: string; maskChannel: string; color: string }[] = [
+  { id: 'front', label: '정면', maskChannel: 'R', color: '#ef4444' },
+  { id: 'side', label: '측면', maskChannel: 'G', color: '#22c55e' },
+  { id: 'back', label: '후면', maskChannel: 'B', color: '#3b82f6' },
+];
+
+const DEFAULT_BOX_HEIGHT = 60; // Percent of the canvas height
+const BOX_ASPECT = 0.35; // A standing figure's width to its height
+const HEAD_OFFSET = 0.08; // The head's center below the top of the box, as a share of its height
+const MIN_BOX_SIZE = 2; // Percent
+
+const clampPercent = (value: number) => Math.max(0, Math.min(100, value));
+
+/** A marker placed at `center`, with a box the size of a standing figure and the head at its top. */
+export const createCharacterMarker = (options: { characterName: string; center: Point; color: string; depth: number; size: Size }): CharacterMarker => {
+  const { characterName, center, color, depth, size } = options;
+  const height = DEFAULT_BOX_HEIGHT;
+  const width = ((height / 100) * size.height * BOX_ASPECT / size.width) * 100;
+  const bbox = { x: center.x - width / 2, y: center.y - height / 2, width, height };
+  return {
+    id: Date.now(),
+    x: clampPercent(center.x),
+    y: clampPercent(center.y),
+    characterName,
+    radius: 15,
+    color,
+    bbox,
+    facing: 'front',
+    head: { x: center.x, y: bbox.y + height * HEAD_OFFSET },
+    eyeLineTarget: null,
+    depth,
+  };
+};
+
+/** The marker with every staging field; older markers get a box from their radius and face the camera. */
+export const resolveCharacterMarker = (point: CharacterPoint, size: Size): CharacterMarker => {
+  const halfWidth = point.radius;
+  const halfHeight = point.radius * (size.width / Math.max(1, size.height));
+  const bbox = point.bbox ?? { x: point.x - halfWidth, y: point.y - halfHeight, width: halfWidth * 2, height: halfHeight * 2 };
+  return {
+    ...point,
+    bbox,
+    facing: point.facing ?? 'front',
+    head: point.head ?? { x: bbox.x + bbox.width / 2, y: bbox.y + bbox.height * HEAD_OFFSET },
+    eyeLineTarget: point.eyeLineTarget ?? null,
+  };
+};
+
+/** Moves the marker to `position`, its box and head along with it. */
+export const moveCharacterMarker = (marker: CharacterMarker, position: Point): CharacterMarker => {
+  const x = clampPercent(position.x);
+  const y = clampPercent(position.y);
+  const dx = x - marker.x;
+  const dy = y - marker.y;
+  return {
+    ...marker,
+    x,
+    y,
+    bbox: { ...marker.bbox, x: marker.bbox.x + dx, y: marker.bbox.y + dy },
+    head: { x: marker.head.x + dx, y: marker.head.y + dy },
+  };
+};
+
+/** Moves one part of the marker to `position`. A box corner resizes the box against the opposite corner. */
+export const dragCharacterMarker = (marker: CharacterMarker, handle: MarkerHandle, position: Point): CharacterMarker => {
+  const { bbox } = marker;
+  switch (handle) {
+    case 'center':
+      return moveCharacterMarker(marker, position);
+    case 'head':
+      return { ...marker, head: { x: clampPercent(position.x), y: clampPercent(position.y) } };
+    case 'eyeLine': // Free until dropped on someone (snapEyeLineTarget)
+      return { ...marker, eyeLineTarget: { x: position.x, y: position.y } };
+    case 'bboxStart': {
+      const right = bbox.x + bbox.width;
+      const bottom = bbox.y + bbox.height;
+      const x = Math.min(position.x, right - MIN_BOX_SIZE);
+      const y = Math.min(position.y, bottom - MIN_BOX_SIZE);
+      return { ...marker, bbox: { x, y, width: right - x, height: bottom - y } };
+    }
+    case 'bboxEnd':
+      return {
+        ...marker,
+        bbox: { ...bbox, width: Math.max(MIN_BOX_SIZE, position.x - bbox.x), height: Math.max(MIN_BOX_SIZE, position.y - bbox.y) },
+      };
+  }
+};
+
+/**
+ * An eye-line dropped within `tolerance` pixels of another character's head
+ * takes that character as its target, so it follows the head when it moves.
+ */
+export const snapEyeLineTarget = (marker: CharacterMarker, others: CharacterPoint[], size: Size, tolerance: number): CharacterMarker => {
+  const target = marker.eyeLineTarget;
+  if (!target) return marker;
+  const toPixels = (point: Point) => ({ x: (point.x / 100) * size.width, y: (point.y / 100) * size.height });
+  const at = toPixels(target);
+  const hit = others
+    .filter(other => other.id !== marker.id)
+    .map(other => resolveCharacterMarker(other, size))
+    .find(other => {
+      const head = toPixels(other.head);
+      return Math.hypot(head.x - at.x, head.y - at.y) <= tolerance;
+    });
+  return { ...marker, eyeLineTarget: hit ? { ...hit.head, characterName: hit.characterName } : { x: target.x, y: target.y } };
+};
+
+/** Where the eye-line ends now: a named target's current head, or the point it was dropped on. */
+export const eyeLineEnd = (marker: CharacterMarker, all: CharacterPoint[], size: Size): Point | null => {
+  const target = marker.eyeLineTarget;
+  if (!target) return null;
+  const named = target.characterName ? all.find(other => other.id !== marker.id && other.characterName === target.characterName) : undefined;
+  return named ? resolveCharacterMarker(named, size).head : { x: target.x, y: target.y };
+};
+
+export const nextMarkerDepth = (points: CharacterPoint[]): number =>
+  points.reduce((depth, point) => Math.max(depth, point.depth ?? 0), 0) + 1;
+
+// GENERATION REQUEST
+/**
+ * The markers of every pose as staging for the model, in pixels, nearest to
+ * the camera first. Markers without a depth go behind the others, in the
+ * order they were placed.
+ */
+export const describeCharacterStaging = (poses: PoseImage[], size: Size) => {
+  const all = poses.flatMap(pose => pose.points ?? []);
+  const px = (point: Point) => ({ x: Math.round((point.x / 100) * size.width), y: Math.round((point.y / 100) * size.height) });
+  return poses
+    .flatMap(pose => (pose.points ?? []).map(point => ({ layer: pose.name, marker: resolveCharacterMarker(point, size) })))
+    .map((entry, order) => ({ ...entry, order }))
+    .sort((a, b) => (a.marker.depth ?? Infinity) - (b.marker.depth ?? Infinity) || a.order - b.order)
+    .map(({ layer, marker }, index) => {
+      const facing = FACING_OPTIONS.find(option => option.id === marker.facing)!;
+      const eyeLine = eyeLineEnd(marker, all, size);
+      const box = px(marker.bbox);
+      const boxEnd = px({ x: marker.bbox.x + marker.bbox.width, y: marker.bbox.y + marker.bbox.height });
+      return {
+        character: marker.characterName,
+        layer,
+        depthOrder: index + 1,
+        position: px(marker),
+        boundingBox: { x: box.x, y: box.y, width: boxEnd.x - box.x, height: boxEnd.y - box.y },
+        facing: `${marker.facing} (${facing.maskChannel} in the settei mask)`,
+        head: px(marker.head),
+        eyeLine: !eyeLine ? null
+          : marker.eyeLineTarget?.characterName ? { lookingAt: marker.eyeLineTarget.characterName, target: px(eyeLine) }
+          : { target: px(eyeLine) },
+      };
+    });
+};
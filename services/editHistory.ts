@@ -0,0 +1,419 @@
+import type {
+  PerspectiveGuideSet,
+  SerializedEditCommand,
+  SerializedEditHistory,
+  SerializedLayerChange,
+  SerializedLayerRecord,
+  SerializedPixelPatch,
+} from '../types';
+import { addTimelineNode, createTimeline, type Timeline } from './historyTimeline';
+
+// EDIT HISTORY
+// One undo history for the whole layout canvas. Every entry is a command that
+// knows both sides of an edit, so it can be undone and redone in any layer:
+// the changed rectangle of a sketch layer's pixels, the layer properties an
+// edit changed (with the whole layer, and its pixels, when it was added or
+// removed), or the guide sets. Several commands made by one action form a
+// batch. The history is bounded by the bytes its commands hold rather than by
+// a number of steps, so many small strokes fit where a few full-canvas edits
+// would. Commands of one gesture (a slider drag, a point being moved) merge
+// into a single entry. Entries form a branching timeline (historyTimeline.ts).
+
+export type PixelPatch = SerializedPixelPatch<ImageData>;
+
+export interface LayerChange<L> {
+  id: number;
+  before: Partial<L> | null;
+  after: Partial<L> | null;
+  sketch?: PixelPatch | null;
+}
+
+export type EditCommand<L> =
+  | { kind: 'pixels'; layerId: number; before: PixelPatch; after: PixelPatch }
+  | { kind: 'layers'; changes: LayerChange<L>[]; orderBefore: number[] | null; orderAfter: number[] | null }
+  | { kind: 'guides'; before: PerspectiveGuideSet[]; after: PerspectiveGuideSet[] }
+  | { kind: 'batch'; commands: EditCommand<L>[] };
+
+export type EditHistory<L> = Timeline<EditCommand<L>>;
+
+export const MAX_EDIT_HISTORY_BYTES = 64 * 1024 * 1024;
+const PERSIST_EDIT_HISTORY_STORAGE_KEY = 'layout-assistant-persist-edit-history';
+
+type LayerLike = { id: number };
+
+// HELPER FUNCTIONS
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const cropImageData = (image: ImageData, x: number, y: number, width: number, height: number): ImageData => {
+  const cropped = new ImageData(width, height);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * image.width + x) * 4;
+    cropped.data.set(image.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return cropped;
+};
+
+// The smallest rectangle holding every pixel for which `differs` is true, or null
+const boundsWhere = (width: number, height: number, differs: (index: number) => boolean) => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!differs(y * width + x)) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const pixelsOf = (image: ImageData) => new Uint32Array(image.data.buffer, image.data.byteOffset, image.width * image.height);
+
+// Arrays rebuilt with the same items (a filter that kept everything) are not a change
+const sameValue = (a: unknown, b: unknown): boolean =>
+  a === b || (Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => item === b[i]));
+
+const jsonBytes = (value: unknown): number =>
+  // Settei images are shared with the live layers, so they cost the history nothing
+  2 * (JSON.stringify(value, (key, item) => (key === 'setteiImages' || item instanceof ImageData ? undefined : item))?.length ?? 0);
+
+const patchBytes = (patch: PixelPatch | null | undefined): number => patch?.image.data.byteLength ?? 0;
+
+const commandBytes = <L>(command: EditCommand<L>): number => {
+  switch (command.kind) {
+    case 'pixels':
+      return patchBytes(command.before) + patchBytes(command.after);
+    case 'layers':
+      return jsonBytes(command) + command.changes.reduce((sum, change) => sum + patchBytes(change.sketch), 0);
+    case 'guides':
+      return jsonBytes(command);
+    case 'batch':
+      return command.commands.reduce((sum, part) => sum + commandBytes(part), 0);
+  }
+};
+
+// Two layer edits in a row as one: each layer goes from how the first found it to how the second left it
+const composeLayerCommands = <L>(
+  first: Extract<EditCommand<L>, { kind: 'layers' }>,
+  second: Extract<EditCommand<L>, { kind: 'layers' }>,
+): Extract<EditCommand<L>, { kind: 'layers' }> => {
+  const ids = [...new Set([...first.changes, ...second.changes].map(change => change.id))];
+  const changes = ids.map(id => {
+    const a = first.changes.find(change => change.id === id);
+    const b = second.changes.find(change => change.id === id);
+    if (!a || !b) return (a ?? b)!;
+    const before = a.before === null ? null : b.before === null ? a.before : { ...b.before, ...a.before };
+    const after = b.after === null ? null : a.after === null || b.before === null ? b.after : { ...a.after, ...b.after };
+    return { id, before, after, sketch: b.sketch ?? a.sketch };
+  });
+  return {
+    kind: 'layers',
+    changes,
+    orderBefore: first.orderBefore ?? second.orderBefore,
+    orderAfter: second.orderAfter ?? first.orderAfter,
+  };
+};
+
+const mergeCommands = <L>(first: EditCommand<L>, second: EditCommand<L>): EditCommand<L> => {
+  if (first.kind === 'layers' && second.kind === 'layers') return composeLayerCommands(first, second);
+  if (first.kind === 'guides' && second.kind === 'guides') return { kind: 'guides', before: first.before, after: second.after };
+  return { kind: 'batch', commands: [first, second] };
+};
+
+/** Whether the history is saved with the document (autosave and project files), as chosen in this browser. On by default. */
+export const loadPersistEditHistory = (): boolean => {
+  try {
+    return localStorage.getItem(PERSIST_EDIT_HISTORY_STORAGE_KEY) !== 'false';
+  } catch (error) {
+    console.error('Failed to read the edit history setting from localStorage:', error);
+    return true;
+  }
+};
+
+export const savePersistEditHistory = (persist: boolean) => {
+  try {
+    localStorage.setItem(PERSIST_EDIT_HISTORY_STORAGE_KEY, String(persist));
+  } catch (error) {
+    console.error('Failed to save the edit history setting to localStorage:', error);
+  }
+};
+
+// HISTORY
+export const createEditHistory = <L>(): EditHistory<L> => createTimeline<EditCommand<L>>();
+
+/**
+ * Adds an edit after the current entry; entries that could have been redone
+ * stay as a branch. An edit with the same merge key as the current entry is
+ * folded into it.
+ */
+export const pushEdit = <L>(
+  history: EditHistory<L>,
+  edit: { label: string; command: EditCommand<L>; mergeKey?: string | null },
+  maxBytes = MAX_EDIT_HISTORY_BYTES,
+): EditHistory<L> => addTimelineNode(
+  history,
+  { label: edit.label, data: edit.command, bytes: commandBytes(edit.command), mergeKey: edit.mergeKey },
+  maxBytes,
+  (previous, next) => {
+    const command = mergeCommands(previous, next);
+    return { data: command, bytes: commandBytes(command) };
+  },
+);
+
+// PIXELS
+/** The rectangle where two captures of a layer differ, cut out of both; null when they are the same. */
+export const diffPixels = (before: ImageData, after: ImageData): { before: PixelPatch; after: PixelPatch } | null => {
+  if (before.width !== after.width || before.height !== after.height) {
+    return { before: { x: 0, y: 0, image: before }, after: { x: 0, y: 0, image: after } };
+  }
+  const a = pixelsOf(before);
+  const b = pixelsOf(after);
+  const bounds = boundsWhere(after.width, after.height, i => a[i] !== b[i]);
+  if (!bounds) return null;
+  const { x, y, width, height } = bounds;
+  return {
+    before: { x, y, image: cropImageData(before, x, y, width, height) },
+    after: { x, y, image: cropImageData(after, x, y, width, height) },
+  };
+};
+
+/** The drawn part of a layer, for keeping a removed layer; null when it is empty. */
+export const contentPatch = (image: ImageData): PixelPatch | null => {
+  const pixels = pixelsOf(image);
+  const bounds = boundsWhere(image.width, image.height, i => pixels[i] !== 0);
+  if (!bounds) return null;
+  return { x: bounds.x, y: bounds.y, image: cropImageData(image, bounds.x, bounds.y, bounds.width, bounds.height) };
+};
+
+// LAYERS
+/**
+ * What changed between two versions of the layer list, or null when nothing
+ * did. Properties in `ignoredKeys` (panel state such as a collapsed group)
+ * are not edits of their own. Sketches of added or removed layers are for
+ * the caller to fill in.
+ */
+export const diffLayers = <L extends LayerLike>(before: L[], after: L[], ignoredKeys: (keyof L)[] = []): Extract<EditCommand<L>, { kind: 'layers' }> | null => {
+  const afterById = new Map(after.map(layer => [layer.id, layer]));
+  const beforeIds = new Set(before.map(layer => layer.id));
+  const changes: LayerChange<L>[] = [];
+
+  before.forEach(layer => {
+    const next = afterById.get(layer.id);
+    if (!next) {
+      changes.push({ id: layer.id, before: layer, after: null });
+      return;
+    }
+    if (next === layer) return;
+    const keys = [...new Set([...Object.keys(layer), ...Object.keys(next)])] as (keyof L)[];
+    const changed = keys.filter(key => !ignoredKeys.includes(key) && !sameValue(layer[key], next[key]));
+    if (changed.length === 0) return;
+    // Missing properties are kept as null, so they survive being saved as JSON
+    const pick = (source: L) => Object.fromEntries(changed.map(key => [key, source[key] ?? null])) as Partial<L>;
+    changes.push({ id: layer.id, before: pick(layer), after: pick(next) });
+  });
+  after.forEach(layer => {
+    if (!beforeIds.has(layer.id)) changes.push({ id: layer.id, before: null, after: layer });
+  });
+
+  const orderChanged = before.length !== after.length || before.some((layer, i) => layer.id !== after[i].id);
+  if (changes.length === 0 && !orderChanged) return null;
+  return {
+    kind: 'layers',
+    changes,
+    orderBefore: orderChanged ? before.map(layer => layer.id) : null,
+    orderAfter: orderChanged ? after.map(layer => layer.id) : null,
+  };
+};
+
+/** The layer list as it was before (`side` 'before') or after a layer edit, starting from the other side. */
+export const applyLayerCommand = <L extends LayerLike>(
+  layers: L[],
+  command: Extract<EditCommand<L>, { kind: 'layers' }>,
+  side: 'before' | 'after',
+): L[] => {
+  const byId = new Map(layers.map(layer => [layer.id, layer]));
+  command.changes.forEach(change => {
+    const target = change[side];
+    const other = side === 'before' ? change.after : change.before;
+    const current = byId.get(change.id);
+    if (target === null) byId.delete(change.id);
+    else if (other === null || !current) byId.set(change.id, { ...target } as L);
+    else byId.set(change.id, { ...current, ...target });
+  });
+  const order = side === 'before' ? command.orderBefore : command.orderAfter;
+  if (!order) return layers.filter(layer => byId.has(layer.id)).map(layer => byId.get(layer.id)!);
+  const ordered = order.map(id => byId.get(id)).filter((layer): layer is L => !!layer);
+  return [...ordered, ...[...byId.values()].filter(layer => !order.includes(layer.id))];
+};
+
+// SAVING
+const encodedPatches = new WeakMap<ImageData, string>();
+// Steps never change in place, so an unchanged step keeps its saved entry
+// object and storage can tell which entries are new by identity
+const savedEntries = new WeakMap<object, SerializedEditHistory['entries'][number]>();
+
+// Autosaves run often, so each patch is encoded once
+const encodePatch = (patch: PixelPatch): SerializedPixelPatch => {
+  let dataUrl = encodedPatches.get(patch.image);
+  if (!dataUrl) {
+    const canvas = createCanvas(patch.image.width, patch.image.height);
+    canvas.getContext('2d')?.putImageData(patch.image, 0, 0);
+    dataUrl = canvas.toDataURL('image/png');
+    encodedPatches.set(patch.image, dataUrl);
+  }
+  return { x: patch.x, y: patch.y, image: dataUrl };
+};
+
+const decodePatch = async (patch: SerializedPixelPatch): Promise<PixelPatch> => {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const element = new Image();
+    element.onload = () => resolve(element);
+    element.onerror = () => reject(new Error('편집 기록의 이미지를 읽을 수 없습니다.'));
+    element.src = patch.image;
+  });
+  const canvas = createCanvas(image.naturalWidth, image.naturalHeight);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('편집 기록의 이미지를 읽을 수 없습니다.');
+  ctx.drawImage(image, 0, 0);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  encodedPatches.set(imageData, patch.image);
+  return { x: patch.x, y: patch.y, image: imageData };
+};
+
+/** The history for saving, with layer records converted by `serializeLayer`. Merge keys are dropped. */
+export const serializeEditHistory = <L>(
+  history: EditHistory<L>,
+  serializeLayer: (record: Partial<L>) => SerializedLayerRecord,
+): SerializedEditHistory => {
+  const serializeCommand = (command: EditCommand<L>): SerializedEditCommand => {
+    switch (command.kind) {
+      case 'pixels':
+        return { ...command, before: encodePatch(command.before), after: encodePatch(command.after) };
+      case 'layers':
+        return {
+          ...command,
+          changes: command.changes.map(change => ({
+            id: change.id,
+            before: change.before && serializeLayer(change.before),
+            after: change.after && serializeLayer(change.after),
+            ...(change.sketch ? { sketch: encodePatch(change.sketch) } : {}),
+          })),
+        };
+      case 'guides':
+        return command;
+      case 'batch':
+        return { kind: 'batch', commands: command.commands.map(serializeCommand) };
+    }
+  };
+  return {
+    entries: history.nodes.map(node => {
+      let entry = savedEntries.get(node);
+      if (!entry) {
+        entry = {
+          id: node.id,
+          parentId: node.parentId,
+          label: node.label,
+          time: node.time,
+          ...(node.thumbnail ? { thumbnail: node.thumbnail } : {}),
+          command: serializeCommand(node.data),
+        };
+        savedEntries.set(node, entry);
+      }
+      return entry;
+    }),
+    currentId: history.currentId,
+  };
+};
+
+/** A saved history back in memory, with layer records restored by `hydrateLayer`. */
+export const deserializeEditHistory = async <L>(
+  saved: SerializedEditHistory,
+  hydrateLayer: (record: SerializedLayerRecord) => Promise<Partial<L>>,
+): Promise<EditHistory<L>> => {
+  const hydrateChange = async (change: SerializedLayerChange): Promise<LayerChange<L>> => ({
+    id: change.id,
+    before: change.before && await hydrateLayer(change.before),
+    after: change.after && await hydrateLayer(change.after),
+    ...(change.sketch ? { sketch: await decodePatch(change.sketch) } : {}),
+  });
+  const hydrateCommand = async (command: SerializedEditCommand): Promise<EditCommand<L>> => {
+    switch (command.kind) {
+      case 'pixels':
+        return { ...command, before: await decodePatch(command.before), after: await decodePatch(command.after) };
+      case 'layers':
+        return { ...command, changes: await Promise.all(command.changes.map(hydrateChange)) };
+      case 'guides':
+        return command;
+      case 'batch':
+        return { kind: 'batch', commands: await Promise.all(command.commands.map(hydrateCommand)) };
+    }
+  };
+  const nodes = await Promise.all(saved.entries.map(async savedEntry => {
+    const { command, thumbnail, ...entry } = savedEntry;
+    const data = await hydrateCommand(command);
+    const node = { ...entry, data, thumbnail: thumbnail ?? null, bytes: commandBytes(data) + (thumbnail?.length ?? 0), mergeKey: null };
+    savedEntries.set(node, savedEntry);
+    return node;
+  }));
+  return {
+    nodes,
+    currentId: nodes.some(node => node.id === saved.currentId) ? saved.currentId : null,
+    preferredChild: {},
+    bytes: nodes.reduce((sum, node) => sum + node.bytes, 0),
+  };
+};
+
+/**
+ * A saved history with every image (pixel patches, settei images and masks,
+ * thumbnails) replaced through `map`, in a fixed order. `name` is unique within the
+ * history, for file names.
+ */
+export const mapEditHistoryImages = <A, B>(saved: SerializedEditHistory<A>, map: (image: A, name: string) => B): SerializedEditHistory<B> => {
+  const mapPatch = (patch: SerializedPixelPatch<A>, name: string): SerializedPixelPatch<B> => ({ ...patch, image: map(patch.image, name) });
+  const mapRecord = (record: SerializedLayerRecord<A> | null, name: string): SerializedLayerRecord<B> | null => {
+    if (!record) return null;
+    const { setteiImages, ...rest } = record;
+    if (!setteiImages) return rest;
+    return {
+      ...rest,
+      setteiImages: setteiImages.map((settei, i) => ({
+        dataUrl: map(settei.dataUrl, `${name}-settei-${i + 1}`),
+        ...(settei.maskDataUrl !== undefined ? { maskDataUrl: map(settei.maskDataUrl, `${name}-settei-${i + 1}-mask`) } : {}),
+      })),
+    };
+  };
+  const mapCommand = (command: SerializedEditCommand<A>, name: string): SerializedEditCommand<B> => {
+    switch (command.kind) {
+      case 'pixels':
+        return { ...command, before: mapPatch(command.before, `${name}-before`), after: mapPatch(command.after, `${name}-after`) };
+      case 'layers':
+        return {
+          ...command,
+          changes: command.changes.map(change => ({
+            id: change.id,
+            before: mapRecord(change.before, `${name}-layer-${change.id}-before`),
+            after: mapRecord(change.after, `${name}-layer-${change.id}-after`),
+            ...(change.sketch ? { sketch: mapPatch(change.sketch, `${name}-layer-${change.id}-sketch`) } : {}),
+          })),
+        };
+      case 'guides':
+        return command;
+      case 'batch':
+        return { kind: 'batch', commands: command.commands.map((part, i) => mapCommand(part, `${name}-${i + 1}`)) };
+    }
+  };
+  return {
+    entries: saved.entries.map(({ thumbnail, command, ...entry }) => ({
+      ...entry,
+      ...(thumbnail !== undefined ? { thumbnail: map(thumbnail, `${entry.id}-thumbnail`) } : {}),
+      command: mapCommand(command, String(entry.id)),
+    })),
+    currentId: saved.currentId,
+  };
+};
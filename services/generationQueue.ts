@@ -0,0 +1,194 @@
+import { ApiError } from './apiClient';
+
+// GENERATION QUEUE
+// Runs generation jobs in the background so the canvas stays usable while
+// images are being made. Jobs wait their turn, can be cancelled at any point,
+// and are retried with exponential backoff when the API reports that its
+// quota is used up (RESOURCE_EXHAUSTED).
+
+export type QueueJobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface QueueJob<TInput, TResult> {
+  id: number;
+  label: string;
+  input: TInput;
+  status: QueueJobStatus;
+  attempts: number;
+  retryAt: number | null; // When a 'retrying' job makes its next attempt (epoch ms)
+  result: TResult | null;
+  error: string | null;
+}
+
+export interface GenerationQueueOptions<TInput, TResult> {
+  run: (input: TInput, signal: AbortSignal) => Promise<TResult>;
+  onSucceeded?: (job: QueueJob<TInput, TResult>) => void;
+  describeError?: (error: unknown) => string;
+  concurrency?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+}
+
+export interface GenerationQueue<TInput, TResult> {
+  enqueue: (label: string, input: TInput) => QueueJob<TInput, TResult>;
+  cancel: (id: number) => void;
+  cancelWhere: (predicate: (job: QueueJob<TInput, TResult>) => boolean) => void;
+  retry: (id: number) => void;
+  clearFinished: () => void;
+  getJobs: () => QueueJob<TInput, TResult>[];
+  subscribe: (listener: (jobs: QueueJob<TInput, TResult>[]) => void) => () => void;
+}
+
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_RETRY_BASE_DELAY_MS = 10_000;
+const MAX_FINISHED_JOBS = 30;
+
+export const isJobFinished = (status: QueueJobStatus): boolean =>
+  status === 'succeeded' || status === 'failed' || status === 'cancelled';
+
+// HELPER FUNCTIONS
+/**
+ * True for the errors a later attempt can get past: the proxy answers 429 for RESOURCE_EXHAUSTED.
+ */
+export const isQuotaError = (error: unknown): boolean => {
+  if (error instanceof ApiError && error.status === 429) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('RESOURCE_EXHAUSTED') || message.toLowerCase().includes('quota');
+};
+
+const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+export const createGenerationQueue = <TInput, TResult>(options: GenerationQueueOptions<TInput, TResult>): GenerationQueue<TInput, TResult> => {
+  const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const retryBaseDelayMs = options.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const describeError = options.describeError ?? ((error: unknown) => (error instanceof Error ? error.message : String(error)));
+
+  let jobs: QueueJob<TInput, TResult>[] = [];
+  let nextId = 1;
+  const controllers = new Map<number, AbortController>();
+  const listeners = new Set<(jobs: QueueJob<TInput, TResult>[]) => void>();
+
+  // Jobs are replaced, never mutated, so subscribers can hand them straight to React state
+  const update = (id: number, changes: Partial<QueueJob<TInput, TResult>>) => {
+    jobs = jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    const finished = jobs.filter(job => isJobFinished(job.status));
+    if (finished.length > MAX_FINISHED_JOBS) {
+      const dropped = new Set(finished.slice(0, finished.length - MAX_FINISHED_JOBS).map(job => job.id));
+      jobs = jobs.filter(job => !dropped.has(job.id));
+    }
+    listeners.forEach(listener => listener(jobs));
+  };
+
+  const execute = async (id: number) => {
+    const controller = new AbortController();
+    controllers.set(id, controller);
+    const { signal } = controller;
+    let attempts = 0;
+
+    try {
+      while (true) {
+        attempts++;
+        update(id, { status: 'running', attempts, retryAt: null });
+        try {
+          const job = jobs.find(j => j.id === id)!;
+          const result = await options.run(job.input, signal);
+          signal.throwIfAborted();
+          update(id, { status: 'succeeded', result, error: null });
+          const succeeded = jobs.find(j => j.id === id);
+          if (succeeded) options.onSucceeded?.(succeeded);
+          return;
+        } catch (error) {
+          if (signal.aborted) throw error;
+          if (!isQuotaError(error) || attempts > maxRetries) throw error;
+
+          // 10s, 20s, 40s... with jitter so parallel clients do not retry in step
+          const delay = retryBaseDelayMs * 2 ** (attempts - 1) * (1 + Math.random() * 0.2);
+          console.warn(`Generation job ${id} hit the API quota, retrying in ${Math.round(delay / 1000)}s.`);
+          update(id, { status: 'retrying', retryAt: Date.now() + delay, error: describeError(error) });
+          await sleep(delay, signal);
+        }
+      }
+    } catch (error) {
+      if (signal.aborted || isAbortError(error)) {
+        update(id, { status: 'cancelled', retryAt: null });
+      } else {
+        console.error(`Generation job ${id} failed:`, error);
+        update(id, { status: 'failed', retryAt: null, error: describeError(error) });
+      }
+    } finally {
+      controllers.delete(id);
+      pump();
+    }
+  };
+
+  // Starts queued jobs, oldest first, until every slot is taken
+  const pump = () => {
+    for (const job of jobs) {
+      if (controllers.size >= concurrency) return;
+      if (job.status === 'queued') {
+        void execute(job.id);
+      }
+    }
+  };
+
+  const cancel = (id: number) => {
+    const job = jobs.find(j => j.id === id);
+    if (!job || isJobFinished(job.status)) return;
+    const controller = controllers.get(id);
+    if (controller) {
+      controller.abort(new DOMException('Generation job cancelled.', 'AbortError'));
+    } else {
+      update(id, { status: 'cancelled' });
+    }
+  };
+
+  return {
+    enqueue: (label, input) => {
+      const job: QueueJob<TInput, TResult> = {
+        id: nextId++,
+        label,
+        input,
+        status: 'queued',
+        attempts: 0,
+        retryAt: null,
+        result: null,
+        error: null,
+      };
+      jobs = [...jobs, job];
+      listeners.forEach(listener => listener(jobs));
+      pump();
+      return job;
+    },
+    cancel,
+    cancelWhere: (predicate) => {
+      jobs.filter(predicate).forEach(job => cancel(job.id));
+    },
+    retry: (id) => {
+      const job = jobs.find(j => j.id === id);
+      if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+      // Back to the end of the line, as if newly added
+      jobs = [...jobs.filter(j => j.id !== id), { ...job, status: 'queued', attempts: 0, retryAt: null, error: null }];
+      listeners.forEach(listener => listener(jobs));
+      pump();
+    },
+    clearFinished: () => {
+      jobs = jobs.filter(job => !isJobFinished(job.status));
+      listeners.forEach(listener => listener(jobs));
+    },
+    getJobs: () => jobs,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
@@ -0,0 +1,113 @@
+import type { GuestRecord, GuestStatus } from '../types';
+import { API_BASE, ApiError, apiRequest, getGuestKey, setGuestKey } from './apiClient';
+
+// Guest access goes through the shared registry on the API proxy.
+// Status changes are pushed over Server-Sent Events, so a guest on another
+// machine sees the master's decision immediately.
+
+export const clearGuestKey = () => setGuestKey(null);
+
+// GUEST SIDE
+export const requestGuestAccess = async (id: string): Promise<GuestRecord> => {
+    const result = await apiRequest<{ record: GuestRecord; key: string }>('/guest/request', {
+        body: { id, key: getGuestKey() },
+    });
+    setGuestKey(result.key);
+    return result.record;
+};
+
+/**
+ * Follows one guest's status. `null` means the record no longer exists
+ * (deleted or cleared by the master). Returns an unsubscribe function.
+ */
+export const subscribeToGuestStatus = (id: string, onStatus: (status: GuestStatus | null) => void): (() => void) => {
+    const params = new URLSearchParams({ id, key: getGuestKey() ?? '' });
+    const source = new EventSource(`${API_BASE}/guest/events?${params.toString()}`);
+    source.addEventListener('status', (event) => {
+        try {
+            onStatus(JSON.parse((event as MessageEvent).data).status);
+        } catch (error) {
+            console.error("Failed to parse guest status event:", error);
+        }
+    });
+    return () => source.close();
+};
+
+// MASTER SIDE
+export const fetchGuestRecords = async (): Promise<GuestRecord[]> => {
+    const result = await apiRequest<{ records: GuestRecord[] }>('/guests');
+    return result.records;
+};
+
+export const updateGuestStatus = async (id: string, status: GuestStatus): Promise<GuestRecord[]> => {
+    const result = await apiRequest<{ records: GuestRecord[] }>('/guests/status', { body: { id, status } });
+    return result.records;
+};
+
+export const deleteGuestRecord = async (id: string): Promise<GuestRecord[]> => {
+    const result = await apiRequest<{ records: GuestRecord[] }>('/guests/delete', { body: { id } });
+    return result.records;
+};
+
+export const clearGuestRecords = async (scope: 'all' | 'not_allowed'): Promise<GuestRecord[]> => {
+    const result = await apiRequest<{ records: GuestRecord[] }>('/guests/clear', { body: { scope } });
+    return result.records;
+};
+
+const STREAM_RETRY_MS = 3000;
+
+/**
+ * Follows the whole registry with the master's session. The stream is opened
+ * with a one-time ticket, so the session token never appears in a URL; a
+ * dropped stream is reopened with a fresh ticket. Returns an unsubscribe function.
+ */
+export const subscribeToGuestRecords = (onRecords: (records: GuestRecord[]) => void): (() => void) => {
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const scheduleRetry = () => {
+        if (!closed) {
+            retryTimer = setTimeout(open, STREAM_RETRY_MS);
+        }
+    };
+
+    const open = async () => {
+        let ticket: string;
+        try {
+            ticket = (await apiRequest<{ ticket: string }>('/guests/events/ticket', { method: 'POST' })).ticket;
+        } catch (error) {
+            console.error("Failed to get a guest registry stream ticket:", error);
+            // An expired session will not come back by retrying
+            if (!(error instanceof ApiError && error.status === 401)) {
+                scheduleRetry();
+            }
+            return;
+        }
+        if (closed) {
+            return;
+        }
+        const params = new URLSearchParams({ ticket });
+        source = new EventSource(`${API_BASE}/guests/events?${params.toString()}`);
+        source.addEventListener('records', (event) => {
+            try {
+                onRecords(JSON.parse((event as MessageEvent).data).records);
+            } catch (error) {
+                console.error("Failed to parse guest registry event:", error);
+            }
+        });
+        // The browser's own reconnect would reuse the spent ticket, so reopen with a new one instead.
+        source.addEventListener('error', () => {
+            source?.close();
+            source = null;
+            scheduleRetry();
+        });
+    };
+
+    open();
+    return () => {
+        closed = true;
+        clearTimeout(retryTimer);
+        source?.close();
+    };
+};
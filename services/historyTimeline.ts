@@ -0,0 +1,197 @@
+// HISTORY TIMELINE
+// An undo history that branches instead of forgetting. Every step is a node
+// whose parent is the state it was made from, so taking a new action after
+// undoing starts a branch and the steps that could have been redone stay in
+// the tree. `currentId` is the step shown (null: the start, before any step).
+// What a node holds is up to the editor: the layout canvas keeps commands
+// that can be undone and redone, the conti and settei editors keep
+// snapshots. Either way, going from one step to another walks up to the
+// steps' common ancestor and down again.
+
+export interface TimelineNode<T> {
+  id: number;
+  parentId: number | null; // null: made from the start
+  label: string;
+  time: number;
+  thumbnail: string | null; // JPEG data URL of the result, once it has been made
+  data: T;
+  bytes: number; // What `data` and the thumbnail hold in memory, roughly
+  mergeKey: string | null; // A step with the same key as the current one merges into it
+}
+
+export interface Timeline<T> {
+  nodes: TimelineNode<T>[];
+  currentId: number | null;
+  preferredChild: Record<string, number>; // Per node ID ('start' for the start), the child redo goes to
+  bytes: number;
+}
+
+export interface TimelineRow<T> {
+  node: TimelineNode<T>;
+  depth: number; // How many branches deep the step is
+  isCurrent: boolean;
+  isApplied: boolean; // On the way from the start to the current step
+}
+
+const THUMBNAIL_SIZE = 96;
+
+const childKey = (id: number | null): string => (id === null ? 'start' : String(id));
+
+const byTime = <T>(a: TimelineNode<T>, b: TimelineNode<T>) => a.time - b.time || a.id - b.id;
+
+export const createTimeline = <T>(): Timeline<T> => ({ nodes: [], currentId: null, preferredChild: {}, bytes: 0 });
+
+export const timelineNode = <T>(timeline: Timeline<T>, id: number | null): TimelineNode<T> | null =>
+  id === null ? null : timeline.nodes.find(node => node.id === id) ?? null;
+
+const childNodes = <T>(timeline: Timeline<T>, parentId: number | null): TimelineNode<T>[] =>
+  timeline.nodes.filter(node => node.parentId === parentId).sort(byTime);
+
+/** The step and its ancestors, the step first. */
+const ancestry = <T>(timeline: Timeline<T>, id: number | null): TimelineNode<T>[] => {
+  const byId = new Map(timeline.nodes.map(node => [node.id, node]));
+  const path: TimelineNode<T>[] = [];
+  const seen = new Set<number>();
+  let node = id === null ? undefined : byId.get(id);
+  while (node && !seen.has(node.id)) {
+    path.push(node);
+    seen.add(node.id);
+    node = node.parentId === null ? undefined : byId.get(node.parentId);
+  }
+  return path;
+};
+
+// Drops steps until the timeline fits: first the oldest branch tips off the way to the current step,
+// then the oldest steps on that way, whose result becomes the start. The current step is always kept.
+const pruneTimeline = <T>(timeline: Timeline<T>, maxBytes: number): Timeline<T> => {
+  let { nodes, bytes } = timeline;
+  const kept = new Set(ancestry(timeline, timeline.currentId).map(node => node.id));
+  while (bytes > maxBytes && nodes.length > 1) {
+    const parents = new Set(nodes.map(node => node.parentId));
+    const tips = nodes.filter(node => !parents.has(node.id) && !kept.has(node.id)).sort(byTime);
+    const victim = tips[0] ?? nodes.find(node => node.parentId === null);
+    if (!victim || victim.id === timeline.currentId) break;
+    nodes = nodes
+      .filter(node => node !== victim)
+      .map(node => (node.parentId === victim.id ? { ...node, parentId: null } : node));
+    bytes -= victim.bytes;
+  }
+  return nodes === timeline.nodes ? timeline : { ...timeline, nodes, bytes };
+};
+
+/**
+ * Adds a step after the current one, which leaves any steps that could have
+ * been redone in place as another branch. A step with the current step's
+ * merge key is folded into it through `merge` when nothing was made from the
+ * current step yet. The oldest steps go once the timeline holds more than
+ * `maxBytes`.
+ */
+export const addTimelineNode = <T>(
+  timeline: Timeline<T>,
+  step: { label: string; data: T; bytes: number; mergeKey?: string | null; thumbnail?: string | null },
+  maxBytes: number,
+  merge?: (previous: T, next: T) => { data: T; bytes: number },
+): Timeline<T> => {
+  const current = timelineNode(timeline, timeline.currentId);
+  const time = Date.now();
+  if (current && merge && step.mergeKey && current.mergeKey === step.mergeKey && childNodes(timeline, current.id).length === 0) {
+    const merged = merge(current.data, step.data);
+    const node = { ...current, ...merged, time, thumbnail: step.thumbnail ?? null };
+    return pruneTimeline({
+      ...timeline,
+      nodes: timeline.nodes.map(n => (n === current ? node : n)),
+      bytes: timeline.bytes - current.bytes + node.bytes,
+    }, maxBytes);
+  }
+
+  const node: TimelineNode<T> = {
+    id: timeline.nodes.reduce((id, n) => Math.max(id, n.id + 1), time),
+    parentId: timeline.currentId,
+    label: step.label,
+    time,
+    thumbnail: step.thumbnail ?? null,
+    data: step.data,
+    bytes: step.bytes + (step.thumbnail?.length ?? 0),
+    mergeKey: step.mergeKey ?? null,
+  };
+  return pruneTimeline({
+    nodes: [...timeline.nodes, node],
+    currentId: node.id,
+    preferredChild: { ...timeline.preferredChild, [childKey(timeline.currentId)]: node.id },
+    bytes: timeline.bytes + node.bytes,
+  }, maxBytes);
+};
+
+/** The step redo goes to: the child last gone through, or the newest one. null when there is nothing to redo. */
+export const redoTargetId = <T>(timeline: Timeline<T>): number | null => {
+  const children = childNodes(timeline, timeline.currentId);
+  const preferred = timeline.preferredChild[childKey(timeline.currentId)];
+  return children.find(node => node.id === preferred)?.id ?? children[children.length - 1]?.id ?? null;
+};
+
+/**
+ * How to get from the current step to `targetId`: the steps to undo, the
+ * current one first, and then the steps to redo, in order.
+ */
+export const timelinePath = <T>(timeline: Timeline<T>, targetId: number | null): { undo: TimelineNode<T>[]; redo: TimelineNode<T>[] } => {
+  const from = ancestry(timeline, timeline.currentId);
+  const to = ancestry(timeline, targetId);
+  const toIds = new Set(to.map(node => node.id));
+  const common = from.find(node => toIds.has(node.id));
+  return {
+    undo: common ? from.slice(0, from.indexOf(common)) : from,
+    redo: (common ? to.slice(0, to.indexOf(common)) : to).reverse(),
+  };
+};
+
+/** The timeline with `targetId` as the current step; redo from each of its ancestors leads back to it. */
+export const moveTimeline = <T>(timeline: Timeline<T>, targetId: number | null): Timeline<T> => {
+  const preferredChild = { ...timeline.preferredChild };
+  ancestry(timeline, targetId).forEach(node => { preferredChild[childKey(node.parentId)] = node.id; });
+  return { ...timeline, currentId: targetId, preferredChild };
+};
+
+export const setTimelineThumbnail = <T>(timeline: Timeline<T>, id: number, thumbnail: string): Timeline<T> => {
+  const node = timelineNode(timeline, id);
+  if (!node) return timeline;
+  const bytes = thumbnail.length - (node.thumbnail?.length ?? 0);
+  return {
+    ...timeline,
+    nodes: timeline.nodes.map(n => (n === node ? { ...n, thumbnail, bytes: n.bytes + bytes } : n)),
+    bytes: timeline.bytes + bytes,
+  };
+};
+
+/**
+ * The steps for a history panel, oldest first. A step's first child continues
+ * its line and later children start branches one level deeper, each listed
+ * after the line it branches from.
+ */
+export const timelineRows = <T>(timeline: Timeline<T>): TimelineRow<T>[] => {
+  const applied = new Set(ancestry(timeline, timeline.currentId).map(node => node.id));
+  const children = new Map<number | null, TimelineNode<T>[]>();
+  [...timeline.nodes].sort(byTime).forEach(node => children.set(node.parentId, [...(children.get(node.parentId) ?? []), node]));
+  const rows: TimelineRow<T>[] = [];
+  // Depth first without recursion, since a long line of steps is as deep as it is long
+  const pending = (children.get(null) ?? []).map((node, i) => ({ node, depth: i > 0 ? 1 : 0 })).reverse();
+  while (pending.length > 0) {
+    const { node, depth } = pending.pop()!;
+    rows.push({ node, depth, isCurrent: node.id === timeline.currentId, isApplied: applied.has(node.id) });
+    (children.get(node.id) ?? []).map((child, i) => ({ node: child, depth: depth + (i > 0 ? 1 : 0) })).reverse().forEach(item => pending.push(item));
+  }
+  return rows;
+};
+
+/** A small JPEG for the history panel of images drawn over each other, on white. */
+export const createThumbnail = (sources: CanvasImageSource[], width: number, height: number): string => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height, 1));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  sources.forEach(source => ctx.drawImage(source, 0, 0, canvas.width, canvas.height));
+  return canvas.toDataURL('image/jpeg', 0.7);
+};
@@ -0,0 +1,221 @@
+import type { LayerType } from '../types';
+
+// LAYER TREE
+// The layout canvas keeps its layers in one array, bottom first, and nests
+// them through `parentId`: a group's children are the layers that name it as
+// their parent, in array order. The array is kept in tree order (each group's
+// children directly below the group), so painting it bottom to top paints
+// the tree. A clipped layer is drawn only where the layer below it (its
+// base, the nearest unclipped sibling) has pixels, and takes the base's
+// visibility and opacity along.
+
+export interface LayerTreeNode {
+  id: number;
+  type: LayerType;
+  parentId?: number | null; // The containing group; absent or null at the top level
+  isVisible: boolean;
+  opacity: number;
+  blendMode: GlobalCompositeOperation;
+  isLocked?: boolean;
+  isClipped?: boolean;
+}
+
+export type LayerDropPlacement = 'above' | 'below' | 'inside';
+
+/** A base layer and the layers clipped to it, bottom first. */
+export interface ClipStack<T extends LayerTreeNode> {
+  base: T;
+  clipped: T[];
+}
+
+type Size = { width: number; height: number };
+// The pixels of a sketch or vector layer
+type LayerSource<T> = (layer: T) => CanvasImageSource | null | undefined;
+
+// TREE STRUCTURE
+export const childrenOf = <T extends LayerTreeNode>(layers: T[], parentId: number | null): T[] =>
+  layers.filter(layer => (layer.parentId ?? null) === parentId);
+
+export const descendantIds = <T extends LayerTreeNode>(layers: T[], groupId: number): Set<number> => {
+  const ids = new Set<number>();
+  const visit = (parentId: number) => childrenOf(layers, parentId).forEach(child => {
+    ids.add(child.id);
+    if (child.type === 'group') visit(child.id);
+  });
+  visit(groupId);
+  return ids;
+};
+
+const ancestorsOf = <T extends LayerTreeNode>(layers: T[], layer: T): T[] => {
+  const ancestors: T[] = [];
+  let parent = layers.find(l => l.id === layer.parentId);
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = layers.find(l => l.id === parent!.parentId);
+  }
+  return ancestors;
+};
+
+export const layerDepth = <T extends LayerTreeNode>(layers: T[], layer: T): number => ancestorsOf(layers, layer).length;
+
+/** Visible itself and inside visible groups. */
+export const isLayerShown = <T extends LayerTreeNode>(layers: T[], layer: T): boolean =>
+  layer.isVisible && ancestorsOf(layers, layer).every(group => group.isVisible);
+
+/** Locked itself or inside a locked group. */
+export const isLayerLocked = <T extends LayerTreeNode>(layers: T[], id: number): boolean => {
+  const layer = layers.find(l => l.id === id);
+  return !!layer && (!!layer.isLocked || ancestorsOf(layers, layer).some(group => group.isLocked));
+};
+
+/** The sibling directly below the layer, or null when it is the lowest in its group. */
+export const siblingBelow = <T extends LayerTreeNode>(layers: T[], layer: T): T | null => {
+  const siblings = childrenOf(layers, layer.parentId ?? null);
+  return siblings[siblings.indexOf(layer) - 1] ?? null;
+};
+
+export const siblingAbove = <T extends LayerTreeNode>(layers: T[], layer: T): T | null => {
+  const siblings = childrenOf(layers, layer.parentId ?? null);
+  return siblings[siblings.indexOf(layer) + 1] ?? null;
+};
+
+/**
+ * The layers in tree order: every group directly above its children, bottom
+ * first. Layers whose parent is missing or not a group move to the top level.
+ */
+export const orderLayerTree = <T extends LayerTreeNode>(layers: T[]): T[] => {
+  const groupIds = new Set(layers.filter(l => l.type === 'group').map(l => l.id));
+  const normalized = layers.map(layer => (
+    layer.parentId != null && !groupIds.has(layer.parentId) ? { ...layer, parentId: null } : layer
+  ));
+  const ordered: T[] = [];
+  const visit = (parentId: number | null, path: Set<number>) => childrenOf(normalized, parentId).forEach(layer => {
+    if (path.has(layer.id)) return;
+    if (layer.type === 'group') visit(layer.id, new Set(path).add(layer.id));
+    ordered.push(layer);
+  });
+  visit(null, new Set());
+  return ordered;
+};
+
+/**
+ * Moves a layer (with its children, for a group) above or below another, or
+ * to the top of a group. Returns the layers unchanged when the move would put
+ * a group inside itself.
+ */
+export const moveLayerInTree = <T extends LayerTreeNode>(layers: T[], id: number, targetId: number, placement: LayerDropPlacement): T[] => {
+  const layer = layers.find(l => l.id === id);
+  const target = layers.find(l => l.id === targetId);
+  if (!layer || !target || id === targetId) return layers;
+  if (placement === 'inside' && target.type !== 'group') return layers;
+  if (layer.type === 'group' && descendantIds(layers, id).has(targetId)) return layers;
+
+  const rest = layers.filter(l => l.id !== id);
+  const targetIndex = rest.indexOf(target);
+  const moved = { ...layer, parentId: placement === 'inside' ? targetId : target.parentId ?? null };
+  // In tree order a group's children sit just below it, so its top child goes right before it
+  rest.splice(placement === 'above' ? targetIndex + 1 : targetIndex, 0, moved);
+  return orderLayerTree(rest);
+};
+
+/** Swaps a layer with its sibling above or below, within its group. */
+export const stepLayerInTree = <T extends LayerTreeNode>(layers: T[], id: number, direction: 'up' | 'down'): T[] => {
+  const layer = layers.find(l => l.id === id);
+  if (!layer) return layers;
+  const neighbour = direction === 'up' ? siblingAbove(layers, layer) : siblingBelow(layers, layer);
+  return neighbour ? moveLayerInTree(layers, id, neighbour.id, direction === 'up' ? 'above' : 'below') : layers;
+};
+
+/** Siblings grouped into clip stacks, bottom first; a clipped layer with nothing below it is its own base. */
+export const clipStacks = <T extends LayerTreeNode>(siblings: T[]): ClipStack<T>[] => {
+  const stacks: ClipStack<T>[] = [];
+  siblings.forEach(layer => {
+    const current = stacks[stacks.length - 1];
+    if (layer.isClipped && current) current.clipped.push(layer);
+    else stacks.push({ base: layer, clipped: [] });
+  });
+  return stacks;
+};
+
+// COMPOSITING
+const createCanvas = ({ width, height }: Size): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const drawWith = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, opacity: number, blendMode: GlobalCompositeOperation) => {
+  ctx.globalAlpha = opacity;
+  ctx.globalCompositeOperation = blendMode;
+  ctx.drawImage(image, 0, 0);
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = 'source-over';
+};
+
+const renderLayer = <T extends LayerTreeNode>(layers: T[], layer: T, source: LayerSource<T>, size: Size): CanvasImageSource | null => {
+  if (layer.type !== 'group') return source(layer) ?? null;
+  const canvas = createCanvas(size);
+  const ctx = canvas.getContext('2d');
+  if (ctx) compositeLayerTree(ctx, layers, source, size, layer.id);
+  return canvas;
+};
+
+/**
+ * One image for a stack of the tree: the base (a group flattened with its
+ * children) with its visible clipped layers on it, at full opacity. A lone
+ * sketch or vector layer is its own canvas.
+ */
+export const flattenClipStack = <T extends LayerTreeNode>(layers: T[], stack: ClipStack<T>, source: LayerSource<T>, size: Size): CanvasImageSource | null => {
+  const base = renderLayer(layers, stack.base, source, size);
+  const clipped = stack.clipped.filter(layer => layer.isVisible);
+  if (!base || clipped.length === 0) return base;
+
+  const canvas = createCanvas(size);
+  const ctx = canvas.getContext('2d');
+  const scratch = createCanvas(size);
+  const scratchCtx = scratch.getContext('2d');
+  if (!ctx || !scratchCtx) return base;
+  ctx.drawImage(base, 0, 0);
+  clipped.forEach(layer => {
+    const image = renderLayer(layers, layer, source, size);
+    if (!image) return;
+    scratchCtx.clearRect(0, 0, size.width, size.height);
+    scratchCtx.globalCompositeOperation = 'source-over';
+    scratchCtx.drawImage(image, 0, 0);
+    scratchCtx.globalCompositeOperation = 'destination-in';
+    scratchCtx.drawImage(base, 0, 0);
+    drawWith(ctx, scratch, layer.opacity, layer.blendMode);
+  });
+  return canvas;
+};
+
+/** Paints the visible children of `parentId` (the whole tree for null) onto `ctx`, with groups, clipping, opacity and blending. */
+export const compositeLayerTree = <T extends LayerTreeNode>(
+  ctx: CanvasRenderingContext2D,
+  layers: T[],
+  source: LayerSource<T>,
+  size: Size,
+  parentId: number | null = null,
+) => {
+  clipStacks(childrenOf(layers, parentId)).forEach(stack => {
+    if (!stack.base.isVisible) return;
+    const image = flattenClipStack(layers, stack, source, size);
+    if (image) drawWith(ctx, image, stack.base.opacity, stack.base.blendMode);
+  });
+};
+
+/** The layers in a stack that contribute to it: the visible base and clipped layers and everything shown inside them. */
+export const clipStackMembers = <T extends LayerTreeNode>(layers: T[], stack: ClipStack<T>): T[] =>
+  [stack.base, ...stack.clipped.filter(layer => layer.isVisible)].flatMap(layer => [
+    layer,
+    ...(layer.type === 'group' ? layers.filter(l => descendantIds(layers, layer.id).has(l.id) && isLayerShown(layers, l)) : []),
+  ]);
+
+/** Everything visible, flattened into one canvas. */
+export const flattenLayerTree = <T extends LayerTreeNode>(layers: T[], source: LayerSource<T>, size: Size): HTMLCanvasElement => {
+  const canvas = createCanvas(size);
+  const ctx = canvas.getContext('2d');
+  if (ctx) compositeLayerTree(ctx, layers, source, size);
+  return canvas;
+};
@@ -0,0 +1,35 @@
+import type { OutputStyle } from '../types';
+
+// The rendering styles offered in the UI. The matching instructions for the
+// model live in `server/systemInstructions.ts`.
+export const OUTPUT_STYLES: { id: OutputStyle; label: string; description: string }[] = [
+  {
+    id: 'genga_style',
+    label: '원화 스타일',
+    description: "'원화 스타일'은 캐릭터 설정(Settei) 이미지의 화풍을 100% 복사-붙여넣기 한 것처럼 완벽히 동일한 스타일로 생성합니다. AI는 원작자의 모든 선 특징(굵기, 질감, 스타일)을 그대로 모방해야 합니다.",
+  },
+  {
+    id: 'clean_lineart',
+    label: '클린업 라인아트',
+    description: '설정의 디자인은 따르되, 선은 균일한 굵기의 깔끔한 라인아트로 정리합니다.',
+  },
+  {
+    id: 'douga_cleanup',
+    label: '동화 클린업',
+    description: '채색용 동화처럼 일정한 굵기의 단선으로 그리고, 모든 영역을 닫힌 선으로 마감합니다. 보조선은 남기지 않습니다.',
+  },
+  {
+    id: 'rough_layout',
+    label: '러프 레이아웃',
+    description: '구도, 원근, 볼륨을 잡는 러프 레이아웃입니다. 느슨한 선과 보조선이 남을 수 있고, 디테일보다 배치가 우선입니다.',
+  },
+  {
+    id: 'shadow_separation',
+    label: '그림자 분리',
+    description: '검은 주선에 더해 그림자 경계는 파란 색트레스 선, 하이라이트 경계는 빨간 색트레스 선으로 표시합니다.',
+  },
+];
+
+export const OUTPUT_STYLE_LABELS = Object.fromEntries(
+  OUTPUT_STYLES.map(style => [style.id, style.label])
+) as Record<OutputStyle, string>;
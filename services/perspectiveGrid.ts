@@ -0,0 +1,319 @@
+import type { CanvasDocument, PerspectiveData, PerspectiveGuideSet, VanishingPoint } from '../types';
+
+// PERSPECTIVE GRID
+// Geometry for the perspective guides drawn over the layout canvas. A guide
+// set is either linear (1-, 2- or 3-point, by its number of vanishing points)
+// or curvilinear, where the four or five vanishing points follow from the eye
+// level and the lens. Everything is in canvas pixels; DrawingCanvas draws the
+// paths built here.
+
+export const MIN_GRID_DENSITY = 4;
+export const MAX_GRID_DENSITY = 48;
+export const DEFAULT_GRID_DENSITY = 16;
+export const MAX_VANISHING_POINTS = 3;
+
+const HORIZON_POINT_COUNT = 2; // In a linear set; a third point is the vertical one
+const FULL_FRAME_WIDTH_MM = 36;
+const DEFAULT_FOCAL_LENGTH_MM = 35; // When no lens is chosen
+const MAX_GROUND_ROWS = 200;
+const MIN_ROW_GAP_PIXELS = 3;
+
+type Size = { width: number; height: number };
+type Point = { x: number; y: number };
+
+export type GuideRole = 'horizon' | 'ray' | 'parallel' | 'ground' | 'boundary';
+
+export type GuidePath =
+  | { type: 'line'; role: GuideRole; x1: number; y1: number; x2: number; y2: number }
+  | { type: 'arc'; role: GuideRole; cx: number; cy: number; radius: number; startAngle: number; endAngle: number; counterclockwise: boolean };
+
+export interface HorizonLine {
+  leftY: number; // At x = 0
+  rightY: number; // At x = width
+}
+
+// HELPER FUNCTIONS
+const line = (role: GuideRole, from: Point, to: Point): GuidePath => ({ type: 'line', role, x1: from.x, y1: from.y, x2: to.x, y2: to.y });
+
+// Wraps an angle to (-PI, PI]
+const wrapAngle = (angle: number): number => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+const corners = ({ width, height }: Size): Point[] => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: height },
+  { x: 0, y: height },
+];
+
+/**
+ * The lens focal length in canvas pixels, taking the canvas as a full-frame sensor's width.
+ */
+export const focalLengthPixels = (lens: string, width: number): number => {
+  const millimeters = parseFloat(lens);
+  return ((Number.isFinite(millimeters) && millimeters > 0 ? millimeters : DEFAULT_FOCAL_LENGTH_MM) / FULL_FRAME_WIDTH_MM) * width;
+};
+
+/**
+ * Distance from the center to the curvilinear vanishing points. As with an
+ * equidistant fisheye, they sit 90° off-axis, so wider lenses curve more.
+ */
+export const curvilinearRadius = (lens: string, width: number): number => focalLengthPixels(lens, width) * (Math.PI / 2);
+
+/**
+ * The horizon of a set: through the two horizon vanishing points of a linear
+ * set, level through a single one, and otherwise level at the eye level.
+ */
+export const horizonLine = (set: PerspectiveGuideSet, width: number): HorizonLine => {
+  const points = set.mode === 'linear' ? set.vanishingPoints.slice(0, HORIZON_POINT_COUNT) : [];
+  if (points.length === 2 && Math.abs(points[1].x - points[0].x) > 1) {
+    const [a, b] = points;
+    const slope = (b.y - a.y) / (b.x - a.x);
+    return { leftY: a.y - slope * a.x, rightY: a.y + slope * (width - a.x) };
+  }
+  const y = points.length > 0 ? points[0].y : set.horizonY;
+  return { leftY: y, rightY: y };
+};
+
+export const horizonAt = (horizon: HorizonLine, x: number, width: number): number => horizon.leftY + ((horizon.rightY - horizon.leftY) * x) / width;
+
+/**
+ * The vanishing points a set draws from: its own for a linear set, or the
+ * left, right, top and bottom points (and the center, for five points) of a curvilinear one.
+ */
+export const effectiveVanishingPoints = (set: PerspectiveGuideSet, size: Size, lens: string): Point[] => {
+  if (set.mode === 'linear') return set.vanishingPoints;
+  const radius = curvilinearRadius(lens, size.width);
+  const cx = size.width / 2;
+  const cy = set.horizonY;
+  const points = [
+    { x: cx - radius, y: cy },
+    { x: cx + radius, y: cy },
+    { x: cx, y: cy - radius },
+    { x: cx, y: cy + radius },
+  ];
+  return set.mode === 'curvilinear5' ? [...points, { x: cx, y: cy }] : points;
+};
+
+// Rays from a point, spread evenly over the part of the canvas it can see
+const rayFan = (origin: Point, count: number, size: Size): GuidePath[] => {
+  const reach = Math.max(...corners(size).map(c => Math.hypot(c.x - origin.x, c.y - origin.y)));
+  const isInside = origin.x >= 0 && origin.x <= size.width && origin.y >= 0 && origin.y <= size.height;
+
+  let angles: number[];
+  if (isInside) {
+    angles = Array.from({ length: count }, (_, i) => (i * 2 * Math.PI) / count);
+  } else {
+    const toCenter = Math.atan2(size.height / 2 - origin.y, size.width / 2 - origin.x);
+    const offsets = corners(size).map(c => wrapAngle(Math.atan2(c.y - origin.y, c.x - origin.x) - toCenter));
+    const start = toCenter + Math.min(...offsets);
+    const span = Math.max(...offsets) - Math.min(...offsets);
+    angles = Array.from({ length: count + 1 }, (_, i) => start + (span * i) / count);
+  }
+
+  return angles.map(angle => line('ray', origin, {
+    x: origin.x + Math.cos(angle) * reach,
+    y: origin.y + Math.sin(angle) * reach,
+  }));
+};
+
+// The axes that stay parallel: both in 1-point perspective, the verticals in 2-point
+const parallels = (size: Size, count: number, withHorizontals: boolean): GuidePath[] => {
+  const paths: GuidePath[] = [];
+  for (let i = 1; i < count; i++) {
+    const x = (size.width * i) / count;
+    paths.push(line('parallel', { x, y: 0 }, { x, y: size.height }));
+    if (withHorizontals) {
+      const y = (size.height * i) / count;
+      paths.push(line('parallel', { x: 0, y }, { x: size.width, y }));
+    }
+  }
+  return paths;
+};
+
+// Floor tiles below the horizon, as wide at the bottom edge as a grid cell
+const groundPlane = (set: PerspectiveGuideSet, size: Size, lens: string): GuidePath[] => {
+  const points = set.vanishingPoints.slice(0, HORIZON_POINT_COUNT).filter(vp => vp.y < size.height);
+  if (points.length === 0) return [];
+  const spacing = size.width / set.density;
+  const paths: GuidePath[] = [];
+
+  // Rays to evenly spaced points on the bottom edge, reaching well past both sides
+  for (const vp of points) {
+    for (let i = -2 * set.density; i <= 3 * set.density; i++) {
+      paths.push(line('ground', vp, { x: i * spacing, y: size.height }));
+    }
+  }
+
+  // With one point, tile rows recede by the lens: a tile as deep as it is wide
+  // shrinks with distance as spacing / (1 + k * spacing / focal length)
+  if (points.length === 1) {
+    const vp = points[0];
+    const focal = focalLengthPixels(lens, size.width);
+    let previousY = Infinity;
+    for (let k = 0; k < MAX_GROUND_ROWS; k++) {
+      const y = vp.y + (size.height - vp.y) / (1 + (k * spacing) / focal);
+      if (previousY - y < MIN_ROW_GAP_PIXELS) break; // Rows closer than this merge into the horizon
+      paths.push(line('ground', { x: 0, y }, { x: size.width, y }));
+      previousY = y;
+    }
+  }
+  return paths;
+};
+
+// The circular arc from a to b through p, or a straight line when they are collinear
+const arcThrough = (role: GuideRole, a: Point, b: Point, p: Point): GuidePath => {
+  const d = 2 * (a.x * (b.y - p.y) + b.x * (p.y - a.y) + p.x * (a.y - b.y));
+  if (Math.abs(d) < 1e-6) return line(role, a, b);
+  const aa = a.x * a.x + a.y * a.y;
+  const bb = b.x * b.x + b.y * b.y;
+  const pp = p.x * p.x + p.y * p.y;
+  const cx = (aa * (b.y - p.y) + bb * (p.y - a.y) + pp * (a.y - b.y)) / d;
+  const cy = (aa * (p.x - b.x) + bb * (a.x - p.x) + pp * (b.x - a.x)) / d;
+  const startAngle = Math.atan2(a.y - cy, a.x - cx);
+  const endAngle = Math.atan2(b.y - cy, b.x - cx);
+  const throughAngle = Math.atan2(p.y - cy, p.x - cx);
+  const turn = (angle: number) => (angle - startAngle + 4 * Math.PI) % (2 * Math.PI);
+  return {
+    type: 'arc',
+    role,
+    cx,
+    cy,
+    radius: Math.hypot(a.x - cx, a.y - cy),
+    startAngle,
+    endAngle,
+    // Clockwise on screen (increasing angle) unless that way misses p
+    counterclockwise: turn(throughAngle) > turn(endAngle),
+  };
+};
+
+const curvilinearPaths = (set: PerspectiveGuideSet, size: Size, lens: string): GuidePath[] => {
+  const [left, right, top, bottom] = effectiveVanishingPoints(set, size, lens);
+  const center = { x: size.width / 2, y: set.horizonY };
+  const radius = curvilinearRadius(lens, size.width);
+  const perSide = Math.max(2, Math.round(set.density / 2));
+  const paths: GuidePath[] = [];
+
+  // Horizontals bow away from the horizon through the left and right points,
+  // verticals away from the center line through the top and bottom ones
+  for (let k = -perSide; k <= perSide; k++) {
+    const offset = (radius * k) / perSide;
+    paths.push(arcThrough(k === 0 ? 'horizon' : 'ray', left, right, { x: center.x, y: center.y + offset }));
+    paths.push(arcThrough('ray', top, bottom, { x: center.x + offset, y: center.y }));
+  }
+  paths.push({ type: 'arc', role: 'boundary', cx: center.x, cy: center.y, radius, startAngle: 0, endAngle: 2 * Math.PI, counterclockwise: false });
+
+  if (set.mode === 'curvilinear5') {
+    paths.push(...rayFan(center, set.density, size));
+  }
+  return paths;
+};
+
+/**
+ * Every guide line of a set: the horizon, the rays from each vanishing point,
+ * the axes that stay parallel and, if enabled, the ground plane.
+ */
+export const buildGuidePaths = (set: PerspectiveGuideSet, size: Size, lens: string): GuidePath[] => {
+  if (set.mode !== 'linear') return curvilinearPaths(set, size, lens);
+
+  const horizon = horizonLine(set, size.width);
+  const paths: GuidePath[] = [line('horizon', { x: 0, y: horizon.leftY }, { x: size.width, y: horizon.rightY })];
+  for (const vp of set.vanishingPoints) {
+    paths.push(...rayFan(vp, set.density, size));
+  }
+  if (set.vanishingPoints.length === 1 || set.vanishingPoints.length === 2) {
+    paths.push(...parallels(size, Math.max(2, Math.round(set.density / 2)), set.vanishingPoints.length === 1));
+  }
+  if (set.showGroundPlane) {
+    paths.push(...groundPlane(set, size, lens));
+  }
+  return paths;
+};
+
+export const createGuideSet = (id: number, name: string, horizonY: number): PerspectiveGuideSet => ({
+  id,
+  name,
+  mode: 'linear',
+  vanishingPoints: [],
+  horizonY,
+  density: DEFAULT_GRID_DENSITY,
+  showGroundPlane: false,
+  isVisible: true,
+  isLocked: false,
+});
+
+/**
+ * Replaces the vanishing points of a set. The eye level follows the horizon they define.
+ */
+export const withVanishingPoints = (set: PerspectiveGuideSet, vanishingPoints: VanishingPoint[], width: number): PerspectiveGuideSet => {
+  const next = { ...set, vanishingPoints };
+  if (next.mode !== 'linear' || vanishingPoints.length === 0) return next;
+  return { ...next, horizonY: horizonAt(horizonLine(next, width), width / 2, width) };
+};
+
+/**
+ * Moves the horizon by `dy`, taking the horizon vanishing points along.
+ */
+export const moveHorizon = (set: PerspectiveGuideSet, dy: number): PerspectiveGuideSet => ({
+  ...set,
+  horizonY: set.horizonY + dy,
+  vanishingPoints: set.vanishingPoints.map((vp, index) => (index < HORIZON_POINT_COUNT ? { ...vp, y: vp.y + dy } : vp)),
+});
+
+/**
+ * Makes a set 1-, 2- or 3-point: keeps the points it has (up to `count`) and
+ * adds the missing ones at default places. Points on the horizon go on it; the
+ * vertical third point goes below a high eye level and above a low one.
+ */
+export const withPointCount = (set: PerspectiveGuideSet, count: number, size: Size): PerspectiveGuideSet => {
+  const horizon = horizonLine(set, size.width);
+  const defaults: Point[] = count === 1
+    ? [{ x: size.width / 2, y: horizonAt(horizon, size.width / 2, size.width) }]
+    : [
+      { x: size.width * 0.1, y: horizonAt(horizon, size.width * 0.1, size.width) },
+      { x: size.width * 0.9, y: horizonAt(horizon, size.width * 0.9, size.width) },
+      { x: size.width / 2, y: set.horizonY < size.height / 2 ? size.height * 0.95 : size.height * 0.05 },
+    ];
+  const baseId = Date.now();
+  const points = Array.from({ length: count }, (_, index) => set.vanishingPoints[index] ?? { id: baseId + index, ...defaults[index] });
+  return withVanishingPoints({ ...set, mode: 'linear' }, points, size.width);
+};
+
+/**
+ * Orders points so the ones on a common horizon come first: the odd one out
+ * (furthest from the median height) is taken as the vertical point.
+ */
+export const horizonPointsFirst = <T extends Point>(points: T[]): T[] => {
+  const heights = points.map(point => point.y).sort((a, b) => a - b);
+  const median = heights[Math.floor(heights.length / 2)];
+  return [...points].sort((a, b) => Math.abs(a.y - median) - Math.abs(b.y - median));
+};
+
+/**
+ * The guide sets of a document. Documents saved before guide sets get one set
+ * holding their vanishing points.
+ */
+export const normalizeGuideSets = (document: Pick<CanvasDocument, 'vanishingPoints' | 'guideSets' | 'activeGuideSetId' | 'canvasDimensions'>): { guideSets: PerspectiveGuideSet[]; activeGuideSetId: number } => {
+  const { width, height } = document.canvasDimensions;
+  if (document.guideSets && document.guideSets.length > 0) {
+    const guideSets = document.guideSets.map(set => ({ ...createGuideSet(set.id, set.name, height / 2), ...set }));
+    const activeGuideSetId = guideSets.some(set => set.id === document.activeGuideSetId) ? document.activeGuideSetId! : guideSets[0].id;
+    return { guideSets, activeGuideSetId };
+  }
+  const legacySet = withVanishingPoints(createGuideSet(Date.now(), '가이드 1', height / 2), document.vanishingPoints || [], width);
+  return { guideSets: [legacySet], activeGuideSetId: legacySet.id };
+};
+
+/**
+ * What a generation request is told about the perspective of a set, with positions as canvas fractions.
+ */
+export const perspectiveDataFor = (set: PerspectiveGuideSet | null, size: Size, lens: string): PerspectiveData => {
+  if (!set) return { vanishingPoints: [] };
+  const points = set.mode === 'linear'
+    ? set.vanishingPoints
+    : effectiveVanishingPoints(set, size, lens).map((point, index) => ({ id: index + 1, ...point }));
+  return {
+    vanishingPoints: points.map(vp => ({ id: vp.id, x: vp.x / size.width, y: vp.y / size.height })),
+    horizonY: horizonAt(horizonLine(set, size.width), size.width / 2, size.width) / size.height,
+    mode: set.mode,
+  };
+};
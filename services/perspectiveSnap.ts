@@ -0,0 +1,206 @@
+import type { GuidePath } from './perspectiveGrid';
+
+// PERSPECTIVE SNAPPING
+// Constrains drawing to the perspective: a stroke, line or curve handle that
+// starts out roughly toward a vanishing point, along the horizontal or
+// vertical, or on a guide line is held exactly to it. Ellipses are fitted to
+// a perspective plane instead. Positions are canvas pixels.
+
+export type EllipsePlane = 'ground' | 'wall';
+
+export interface SnapSettings {
+  enabled: boolean;
+  vanishingPoints: boolean;
+  axes: boolean; // Horizontal and vertical
+  guides: boolean;
+  ellipsePlane: EllipsePlane;
+}
+
+export const DEFAULT_SNAP_SETTINGS: SnapSettings = {
+  enabled: false,
+  vanishingPoints: true,
+  axes: true,
+  guides: false,
+  ellipsePlane: 'ground',
+};
+
+export interface SnapTargets {
+  vanishingPoints: Point[];
+  guides: GuidePath[];
+}
+
+export type SnapConstraint =
+  | { kind: 'line'; origin: Point; direction: Point; vanishingPoint: Point | null }
+  | { kind: 'circle'; center: Point; radius: number };
+
+type Point = { x: number; y: number };
+
+const SNAP_ANGLE_DEGREES = 6;
+const ELLIPSE_SEGMENTS = 72;
+
+// HELPER FUNCTIONS
+const unit = (x: number, y: number): Point | null => {
+  const length = Math.hypot(x, y);
+  return length > 1e-9 ? { x: x / length, y: y / length } : null;
+};
+
+// Angle between two directions, ignoring which way along the line they point, in degrees
+const lineAngle = (a: Point, b: Point): number => {
+  const cos = Math.min(1, Math.abs(a.x * b.x + a.y * b.y));
+  return (Math.acos(cos) * 180) / Math.PI;
+};
+
+const projectOntoLine = (origin: Point, direction: Point, point: Point): Point => {
+  const t = (point.x - origin.x) * direction.x + (point.y - origin.y) * direction.y;
+  return { x: origin.x + direction.x * t, y: origin.y + direction.y * t };
+};
+
+/**
+ * Picks the constraint for a drag from `start` to `current`: the snap target
+ * closest in direction, if it is within a few degrees. Guide lines only count
+ * when the drag starts on them (within `tolerance` pixels); arcs only when
+ * `allowArcs`, as lines and curve handles are straight.
+ */
+export const findConstraint = (
+  start: Point,
+  current: Point,
+  targets: SnapTargets,
+  settings: SnapSettings,
+  options: { allowArcs: boolean; tolerance: number },
+): SnapConstraint | null => {
+  const drag = unit(current.x - start.x, current.y - start.y);
+  if (!settings.enabled || !drag || Math.hypot(current.x - start.x, current.y - start.y) < options.tolerance) return null;
+
+  let best: { constraint: SnapConstraint; angle: number } | null = null;
+  const consider = (constraint: SnapConstraint, direction: Point) => {
+    const angle = lineAngle(drag, direction);
+    if (angle <= SNAP_ANGLE_DEGREES && (!best || angle < best.angle)) best = { constraint, angle };
+  };
+
+  if (settings.guides) {
+    for (const path of targets.guides) {
+      if (path.type === 'line') {
+        const direction = unit(path.x2 - path.x1, path.y2 - path.y1);
+        if (!direction) continue;
+        const origin = projectOntoLine({ x: path.x1, y: path.y1 }, direction, start);
+        if (Math.hypot(origin.x - start.x, origin.y - start.y) > options.tolerance) continue;
+        consider({ kind: 'line', origin, direction, vanishingPoint: null }, direction);
+      } else if (options.allowArcs) {
+        const fromCenter = unit(start.x - path.cx, start.y - path.cy);
+        if (!fromCenter || Math.abs(Math.hypot(start.x - path.cx, start.y - path.cy) - path.radius) > options.tolerance) continue;
+        consider({ kind: 'circle', center: { x: path.cx, y: path.cy }, radius: path.radius }, { x: -fromCenter.y, y: fromCenter.x });
+      }
+    }
+  }
+
+  if (settings.vanishingPoints) {
+    for (const vp of targets.vanishingPoints) {
+      const direction = unit(vp.x - start.x, vp.y - start.y);
+      if (!direction || Math.hypot(vp.x - start.x, vp.y - start.y) < options.tolerance) continue;
+      consider({ kind: 'line', origin: start, direction, vanishingPoint: vp }, direction);
+    }
+  }
+
+  if (settings.axes) {
+    consider({ kind: 'line', origin: start, direction: { x: 1, y: 0 }, vanishingPoint: null }, { x: 1, y: 0 });
+    consider({ kind: 'line', origin: start, direction: { x: 0, y: 1 }, vanishingPoint: null }, { x: 0, y: 1 });
+  }
+
+  return best ? (best as { constraint: SnapConstraint }).constraint : null;
+};
+
+export const applyConstraint = (constraint: SnapConstraint, point: Point): Point => {
+  if (constraint.kind === 'line') return projectOntoLine(constraint.origin, constraint.direction, point);
+  const direction = unit(point.x - constraint.center.x, point.y - constraint.center.y);
+  if (!direction) return point;
+  return { x: constraint.center.x + direction.x * constraint.radius, y: constraint.center.y + direction.y * constraint.radius };
+};
+
+// Homogeneous coordinates: a vanishing point, or a direction at infinity
+type Homogeneous = [number, number, number];
+
+const cross = (a: Homogeneous, b: Homogeneous): Homogeneous => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+const HORIZONTAL: Homogeneous = [1, 0, 0];
+const VERTICAL: Homogeneous = [0, 1, 0];
+
+// Where the line from a toward p meets the line from c toward q
+const meet = (a: Point, p: Homogeneous, c: Point, q: Homogeneous): Point | null => {
+  const [x, y, w] = cross(cross([a.x, a.y, 1], p), cross([c.x, c.y, 1], q));
+  return Math.abs(w) > 1e-9 ? { x: x / w, y: y / w } : null;
+};
+
+const isConvex = (quad: Point[]): boolean => {
+  const signs = quad.map((p, i) => {
+    const q = quad[(i + 1) % 4];
+    const r = quad[(i + 2) % 4];
+    return Math.sign((q.x - p.x) * (r.y - q.y) - (q.y - p.y) * (r.x - q.x));
+  });
+  return signs.every(sign => sign !== 0 && sign === signs[0]);
+};
+
+const quadArea = (quad: Point[]): number => Math.abs(quad.reduce((sum, p, i) => {
+  const q = quad[(i + 1) % 4];
+  return sum + p.x * q.y - q.x * p.y;
+}, 0)) / 2;
+
+// Maps the unit square onto a quad (corners in order), as in Heckbert's square-to-quad mapping
+export const squareToQuad = ([a, b, c, d]: Point[]) => {
+  const dx1 = b.x - c.x, dx2 = d.x - c.x, dx3 = a.x - b.x + c.x - d.x;
+  const dy1 = b.y - c.y, dy2 = d.y - c.y, dy3 = a.y - b.y + c.y - d.y;
+  const den = dx1 * dy2 - dx2 * dy1;
+  const g = Math.abs(den) > 1e-9 ? (dx3 * dy2 - dx2 * dy3) / den : 0;
+  const h = Math.abs(den) > 1e-9 ? (dx1 * dy3 - dx3 * dy1) / den : 0;
+  return (u: number, v: number): Point => {
+    const w = g * u + h * v + 1;
+    return {
+      x: ((b.x - a.x + g * b.x) * u + (d.x - a.x + h * d.x) * v + a.x) / w,
+      y: ((b.y - a.y + g * b.y) * u + (d.y - a.y + h * d.y) * v + a.y) / w,
+    };
+  };
+};
+
+/**
+ * An ellipse dragged from corner `a` to corner `c`, as one lying on a
+ * perspective plane: the drag spans a rectangle on the plane, whose other
+ * corners follow from the vanishing points, and the ellipse inscribed in it is drawn.
+ * The ground plane recedes to the two horizon points (or one point and the
+ * horizontal); a wall recedes to one horizon point and the vertical (or the
+ * third point). Returns a closed polyline, or null when the plane does not fit
+ * the drag and a plain ellipse should be drawn.
+ */
+export const perspectiveEllipse = (a: Point, c: Point, vanishingPoints: Point[], plane: EllipsePlane): Point[] | null => {
+  if (vanishingPoints.length === 0) return null;
+  const [first, second, third] = vanishingPoints.map((vp): Homogeneous => [vp.x, vp.y, 1]);
+  const pairs: [Homogeneous, Homogeneous][] = plane === 'ground'
+    ? [[first, second ?? HORIZONTAL]]
+    : [[first, third ?? VERTICAL], ...(second ? [[second, third ?? VERTICAL] as [Homogeneous, Homogeneous]] : [])];
+
+  // Of the fitting planes, the one whose rectangle is closest in size to the drag
+  const dragArea = Math.abs((c.x - a.x) * (c.y - a.y));
+  let bestQuad: Point[] | null = null;
+  let bestScore = Infinity;
+  for (const [p, q] of pairs) {
+    const b = meet(a, p, c, q);
+    const d = meet(a, q, c, p);
+    if (!b || !d) continue;
+    const quad = [a, b, c, d];
+    if (!isConvex(quad)) continue;
+    const score = Math.abs(Math.log(quadArea(quad) / Math.max(dragArea, 1)));
+    if (score < bestScore) {
+      bestScore = score;
+      bestQuad = quad;
+    }
+  }
+  if (!bestQuad) return null;
+
+  const map = squareToQuad(bestQuad);
+  return Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i) => {
+    const t = (i / ELLIPSE_SEGMENTS) * 2 * Math.PI;
+    return map(0.5 + 0.5 * Math.cos(t), 0.5 + 0.5 * Math.sin(t));
+  });
+};
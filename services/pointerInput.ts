@@ -0,0 +1,122 @@
+import type { StrokePoint } from '../types';
+
+// POINTER INPUT
+// Pen tablet input for the drawing surfaces. Strokes are sampled from Pointer
+// Events, including the coalesced events the browser batches between frames,
+// and a pen's samples keep its pressure (through the tool's pressure curve)
+// and tilt. Mouse and touch input report no real pressure, so their strokes
+// keep the speed-based width.
+
+export type PressureCurve = 'off' | 'soft' | 'linear' | 'firm';
+export type PressureTool = 'pen' | 'marker' | 'eraser' | 'mask';
+export type PressureCurves = Record<PressureTool, PressureCurve>;
+
+export const PRESSURE_CURVE_OPTIONS: { id: PressureCurve; label: string }[] = [
+  { id: 'off', label: '끔' },
+  { id: 'soft', label: '부드럽게' },
+  { id: 'linear', label: '보통' },
+  { id: 'firm', label: '단단하게' },
+];
+
+export const DEFAULT_PRESSURE_CURVES: PressureCurves = {
+  pen: 'linear',
+  marker: 'linear',
+  eraser: 'off',
+  mask: 'off',
+};
+
+const PRESSURE_CURVES_STORAGE_KEY = 'layout-assistant-pressure-curves';
+
+// Soft reaches full width with a light touch; firm needs the pen pressed hard
+const CURVE_EXPONENTS: Record<Exclude<PressureCurve, 'off'>, number> = {
+  soft: 0.5,
+  linear: 1,
+  firm: 2,
+};
+
+const MIN_WIDTH_RATIO = 0.1; // The thinnest a pressure stroke gets, as for speed-based width
+const TILT_WIDENING = 0.5; // A pen laid flat draws half again as wide
+const MAX_TILT_DEGREES = 90;
+const TILT_DIRECTION_THRESHOLD = 0.2;
+
+/** The per-tool curves saved in this browser, shared by all drawing surfaces. */
+export const loadPressureCurves = (): PressureCurves => {
+  try {
+    const saved = localStorage.getItem(PRESSURE_CURVES_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<Record<PressureTool, unknown>>;
+      const curves = { ...DEFAULT_PRESSURE_CURVES };
+      (Object.keys(curves) as PressureTool[]).forEach(tool => {
+        const curve = PRESSURE_CURVE_OPTIONS.find(option => option.id === parsed[tool]);
+        if (curve) curves[tool] = curve.id;
+      });
+      return curves;
+    }
+  } catch (error) {
+    console.error('Failed to read pressure curves from localStorage:', error);
+  }
+  return { ...DEFAULT_PRESSURE_CURVES };
+};
+
+const pressureCurveListeners = new Set<(curves: PressureCurves) => void>();
+
+/** Saves the curves and passes them to every open drawing surface. */
+export const savePressureCurves = (curves: PressureCurves) => {
+  try {
+    localStorage.setItem(PRESSURE_CURVES_STORAGE_KEY, JSON.stringify(curves));
+  } catch (error) {
+    console.error('Failed to save pressure curves to localStorage:', error);
+  }
+  pressureCurveListeners.forEach(listener => listener(curves));
+};
+
+/** Calls `listener` whenever the curves are saved; returns the unsubscribe function. */
+export const subscribePressureCurves = (listener: (curves: PressureCurves) => void): (() => void) => {
+  pressureCurveListeners.add(listener);
+  return () => {
+    pressureCurveListeners.delete(listener);
+  };
+};
+
+export const applyPressureCurve = (pressure: number, curve: Exclude<PressureCurve, 'off'>): number =>
+  Math.pow(Math.max(0, Math.min(1, pressure)), CURVE_EXPONENTS[curve]);
+
+/** The pointer's positions since the previous event, oldest first. */
+export const pointerSamples = (event: PointerEvent): PointerEvent[] => {
+  const coalesced = typeof event.getCoalescedEvents === 'function' ? event.getCoalescedEvents() : [];
+  return coalesced.length > 0 ? coalesced : [event];
+};
+
+/**
+ * A stroke point at `point` (already in canvas pixels) for the pointer sample.
+ * Only pens record pressure and tilt, and only when the tool's curve is on.
+ */
+export const toStrokePoint = (point: { x: number; y: number }, sample: PointerEvent, curve: PressureCurve): StrokePoint => {
+  if (sample.pointerType !== 'pen' || curve === 'off') return { x: point.x, y: point.y };
+  return {
+    x: point.x,
+    y: point.y,
+    pressure: applyPressureCurve(sample.pressure, curve),
+    tiltX: sample.tiltX,
+    tiltY: sample.tiltY,
+  };
+};
+
+export const strokeHasPressure = (points: StrokePoint[]): boolean => points.some(point => point.pressure !== undefined);
+
+/** How far the pen leans from upright, from 0 to 1. */
+const tiltAmount = (point: StrokePoint): number =>
+  Math.min(1, Math.hypot(point.tiltX ?? 0, point.tiltY ?? 0) / MAX_TILT_DEGREES);
+
+/** How large a brush is at the point: pressure thins it, and a leaning pen widens it like a pencil's side. */
+export const pressureScale = (point: StrokePoint): number => {
+  if (point.pressure === undefined) return 1;
+  return (MIN_WIDTH_RATIO + (1 - MIN_WIDTH_RATIO) * point.pressure) * (1 + TILT_WIDENING * tiltAmount(point));
+};
+
+/** The direction the pen leans toward on the canvas, in radians, or null when it is held nearly upright. */
+export const tiltDirection = (point: StrokePoint): number | null => {
+  if (point.pressure === undefined || tiltAmount(point) < TILT_DIRECTION_THRESHOLD) return null;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  return Math.atan2(Math.tan(toRadians(point.tiltY ?? 0)), Math.tan(toRadians(point.tiltX ?? 0)));
+};
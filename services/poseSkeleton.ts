@@ -0,0 +1,313 @@
+import type { PoseBone, PoseBoneName, PoseJointName, PoseKeypoints, PoseProportionPreset, PoseSkeleton } from '../types';
+
+// POSE SKELETON
+// A 2D mannequin for placing a character. The pelvis is the root; every other
+// joint is the end of a bone, found by walking the bones from the pelvis out
+// (forward kinematics): a bone's direction is its parent's turned by its own
+// angle, and its length is its share of the figure's height, shortened by its
+// foreshortening. Bone lengths are in heads and come from the proportion
+// preset, so the same pose fits an adult or a chibi character.
+
+type Point = { x: number; y: number };
+type Size = { width: number; height: number };
+
+type BoneLength = 'spine' | 'neck' | 'head' | 'shoulder' | 'upperArm' | 'forearm' | 'hip' | 'thigh' | 'shin';
+
+interface BoneDefinition {
+  name: PoseBoneName;
+  parent: PoseBoneName | null; // Whose direction the angle turns from
+  from: PoseJointName;
+  to: PoseJointName;
+  length: BoneLength;
+}
+
+// Parents before children
+const POSE_BONES: BoneDefinition[] = [
+  { name: 'spine', parent: null, from: 'pelvis', to: 'chest', length: 'spine' },
+  { name: 'neck', parent: 'spine', from: 'chest', to: 'neck', length: 'neck' },
+  { name: 'head', parent: 'neck', from: 'neck', to: 'headTop', length: 'head' },
+  { name: 'leftShoulder', parent: 'spine', from: 'chest', to: 'leftShoulder', length: 'shoulder' },
+  { name: 'leftUpperArm', parent: 'leftShoulder', from: 'leftShoulder', to: 'leftElbow', length: 'upperArm' },
+  { name: 'leftForearm', parent: 'leftUpperArm', from: 'leftElbow', to: 'leftWrist', length: 'forearm' },
+  { name: 'rightShoulder', parent: 'spine', from: 'chest', to: 'rightShoulder', length: 'shoulder' },
+  { name: 'rightUpperArm', parent: 'rightShoulder', from: 'rightShoulder', to: 'rightElbow', length: 'upperArm' },
+  { name: 'rightForearm', parent: 'rightUpperArm', from: 'rightElbow', to: 'rightWrist', length: 'forearm' },
+  { name: 'leftHip', parent: 'spine', from: 'pelvis', to: 'leftHip', length: 'hip' },
+  { name: 'leftThigh', parent: 'leftHip', from: 'leftHip', to: 'leftKnee', length: 'thigh' },
+  { name: 'leftShin', parent: 'leftThigh', from: 'leftKnee', to: 'leftAnkle', length: 'shin' },
+  { name: 'rightHip', parent: 'spine', from: 'pelvis', to: 'rightHip', length: 'hip' },
+  { name: 'rightThigh', parent: 'rightHip', from: 'rightHip', to: 'rightKnee', length: 'thigh' },
+  { name: 'rightShin', parent: 'rightThigh', from: 'rightKnee', to: 'rightAnkle', length: 'shin' },
+];
+
+// Lengths in heads. Head, neck, spine, thigh and shin add up to a little less
+// than the figure's height in heads; the rest is the feet.
+const PRESET_LENGTHS: Record<PoseProportionPreset, Record<BoneLength, number>> = {
+  adult: { spine: 2.4, neck: 0.35, head: 1.05, shoulder: 0.9, upperArm: 1.4, forearm: 1.2, hip: 0.45, thigh: 1.8, shin: 1.7 },
+  heroic: { spine: 2.5, neck: 0.4, head: 1.05, shoulder: 1.05, upperArm: 1.5, forearm: 1.3, hip: 0.5, thigh: 2.0, shin: 1.85 },
+  teen: { spine: 2.1, neck: 0.3, head: 1.05, shoulder: 0.75, upperArm: 1.2, forearm: 1.0, hip: 0.4, thigh: 1.5, shin: 1.4 },
+  child: { spine: 1.6, neck: 0.2, head: 1.05, shoulder: 0.6, upperArm: 0.9, forearm: 0.75, hip: 0.35, thigh: 1.05, shin: 0.95 },
+  chibi: { spine: 0.8, neck: 0.1, head: 1.05, shoulder: 0.45, upperArm: 0.5, forearm: 0.4, hip: 0.25, thigh: 0.5, shin: 0.45 },
+};
+
+export const POSE_PRESET_OPTIONS: { id: PoseProportionPreset; label: string; heads: number }[] = [
+  { id: 'adult', label: '성인 (7.5등신)', heads: 7.5 },
+  { id: 'heroic', label: '영웅 (8등신)', heads: 8 },
+  { id: 'teen', label: '청소년 (6.5등신)', heads: 6.5 },
+  { id: 'child', label: '어린이 (5등신)', heads: 5 },
+  { id: 'chibi', label: 'SD (3등신)', heads: 3 },
+];
+
+export const POSE_BONE_LABELS: Record<PoseBoneName, string> = {
+  spine: '몸통',
+  neck: '목',
+  head: '머리',
+  leftShoulder: '왼쪽 어깨',
+  leftUpperArm: '왼쪽 위팔',
+  leftForearm: '왼쪽 아래팔',
+  rightShoulder: '오른쪽 어깨',
+  rightUpperArm: '오른쪽 위팔',
+  rightForearm: '오른쪽 아래팔',
+  leftHip: '왼쪽 골반',
+  leftThigh: '왼쪽 허벅지',
+  leftShin: '왼쪽 정강이',
+  rightHip: '오른쪽 골반',
+  rightThigh: '오른쪽 허벅지',
+  rightShin: '오른쪽 정강이',
+};
+
+// Standing at ease, facing the viewer: the character's left is on the right of the canvas
+export const DEFAULT_POSE_BONES: Record<PoseBoneName, PoseBone> = {
+  spine: { angle: 0, foreshortening: 0 },
+  neck: { angle: 0, foreshortening: 0 },
+  head: { angle: 0, foreshortening: 0 },
+  leftShoulder: { angle: 90, foreshortening: 0 },
+  leftUpperArm: { angle: 80, foreshortening: 0 },
+  leftForearm: { angle: 5, foreshortening: 0 },
+  rightShoulder: { angle: -90, foreshortening: 0 },
+  rightUpperArm: { angle: -80, foreshortening: 0 },
+  rightForearm: { angle: -5, foreshortening: 0 },
+  leftHip: { angle: 90, foreshortening: 0 },
+  leftThigh: { angle: 90, foreshortening: 0 },
+  leftShin: { angle: 0, foreshortening: 0 },
+  rightHip: { angle: -90, foreshortening: 0 },
+  rightThigh: { angle: -90, foreshortening: 0 },
+  rightShin: { angle: 0, foreshortening: 0 },
+};
+
+export const MAX_FORESHORTENING = 0.9;
+
+// HELPER FUNCTIONS
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Angles are clockwise from straight up, as the canvas's y axis points down
+const direction = (degrees: number): Point => ({ x: Math.sin(toRadians(degrees)), y: -Math.cos(toRadians(degrees)) });
+
+const angleOf = (from: Point, to: Point): number => (Math.atan2(to.x - from.x, from.y - to.y) * 180) / Math.PI;
+
+const normalizeAngle = (degrees: number): number => {
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+const presetHeads = (preset: PoseProportionPreset): number => POSE_PRESET_OPTIONS.find(option => option.id === preset)?.heads ?? 7.5;
+
+const headSize = (skeleton: PoseSkeleton): number => skeleton.height / presetHeads(skeleton.preset);
+
+const boneLength = (skeleton: PoseSkeleton, bone: BoneDefinition): number =>
+  PRESET_LENGTHS[skeleton.preset][bone.length] * headSize(skeleton);
+
+const boneDefinition = (name: PoseBoneName): BoneDefinition => POSE_BONES.find(bone => bone.name === name)!;
+
+// POSING
+/** Each joint's position and each bone's direction (clockwise from straight up), walking out from the pelvis. */
+const solveSkeleton = (skeleton: PoseSkeleton): { joints: Record<PoseJointName, Point>; angles: Record<PoseBoneName, number> } => {
+  const joints = { pelvis: { x: skeleton.x, y: skeleton.y } } as Record<PoseJointName, Point>;
+  const angles = {} as Record<PoseBoneName, number>;
+  POSE_BONES.forEach(bone => {
+    const { angle, foreshortening } = skeleton.bones[bone.name];
+    angles[bone.name] = (bone.parent ? angles[bone.parent] : 0) + angle;
+    const length = boneLength(skeleton, bone) * (1 - Math.min(MAX_FORESHORTENING, Math.abs(foreshortening)));
+    const start = joints[bone.from];
+    const unit = direction(angles[bone.name]);
+    joints[bone.to] = { x: start.x + unit.x * length, y: start.y + unit.y * length };
+  });
+  return { joints, angles };
+};
+
+export const skeletonJoints = (skeleton: PoseSkeleton): Record<PoseJointName, Point> => solveSkeleton(skeleton).joints;
+
+/**
+ * A new mannequin in the default pose, standing centered on `center`: the
+ * pelvis sits where the top of the head is half the height above the center.
+ */
+export const createSkeleton = (options: { characterName: string; preset: PoseProportionPreset; center: Point; height: number; color: string }): PoseSkeleton => {
+  const { characterName, preset, center, height, color } = options;
+  const head = height / presetHeads(preset);
+  const lengths = PRESET_LENGTHS[preset];
+  const aboveHips = (lengths.spine + lengths.neck + lengths.head) * head;
+  return {
+    id: Date.now(),
+    characterName,
+    preset,
+    x: center.x,
+    y: center.y - height / 2 + aboveHips,
+    height,
+    color,
+    bones: DEFAULT_POSE_BONES,
+  };
+};
+
+/**
+ * Turns a bone so its end points at `target`. With `foreshorten`, a target
+ * nearer than the bone's full length shortens the bone into depth, keeping
+ * the side (toward or away from the viewer) it was already on.
+ */
+export const pointBoneAt = (skeleton: PoseSkeleton, name: PoseBoneName, target: Point, foreshorten: boolean): PoseSkeleton => {
+  const bone = boneDefinition(name);
+  const { joints, angles } = solveSkeleton(skeleton);
+  const start = joints[bone.from];
+  if (Math.hypot(target.x - start.x, target.y - start.y) < 1) return skeleton;
+  const current = skeleton.bones[name];
+  const angle = normalizeAngle(angleOf(start, target) - (bone.parent ? angles[bone.parent] : 0));
+  let { foreshortening } = current;
+  if (foreshorten) {
+    const depth = Math.max(0, Math.min(MAX_FORESHORTENING, 1 - Math.hypot(target.x - start.x, target.y - start.y) / boneLength(skeleton, bone)));
+    foreshortening = current.foreshortening < 0 ? -depth : depth;
+  }
+  return { ...skeleton, bones: { ...skeleton.bones, [name]: { angle, foreshortening } } };
+};
+
+export const setSkeletonBone = (skeleton: PoseSkeleton, name: PoseBoneName, changes: Partial<PoseBone>): PoseSkeleton => ({
+  ...skeleton,
+  bones: { ...skeleton.bones, [name]: { ...skeleton.bones[name], ...changes } },
+});
+
+/** Mirrors the pose left to right about the pelvis, as if the character turned around. */
+export const mirrorSkeleton = (skeleton: PoseSkeleton): PoseSkeleton => {
+  const bones = {} as Record<PoseBoneName, PoseBone>;
+  POSE_BONES.forEach(({ name }) => {
+    const { angle, foreshortening } = skeleton.bones[name];
+    bones[name] = { angle: -angle, foreshortening };
+  });
+  return { ...skeleton, bones };
+};
+
+export const moveSkeleton = (skeleton: PoseSkeleton, dx: number, dy: number): PoseSkeleton => ({ ...skeleton, x: skeleton.x + dx, y: skeleton.y + dy });
+
+/** Scales mannequins with the canvas, as raster layers are stretched on resize; their height follows the vertical scale. */
+export const scaleSkeletons = (skeletons: PoseSkeleton[], scaleX: number, scaleY: number): PoseSkeleton[] =>
+  skeletons.map(skeleton => ({ ...skeleton, x: skeleton.x * scaleX, y: skeleton.y * scaleY, height: skeleton.height * scaleY }));
+
+/** The joint nearest to `point` within `tolerance`, topmost mannequin first. `bone` is null for the pelvis, which moves the whole figure. */
+export const findSkeletonJointAt = (skeletons: PoseSkeleton[], point: Point, tolerance: number): { skeletonId: number; bone: PoseBoneName | null } | null => {
+  for (let i = skeletons.length - 1; i >= 0; i--) {
+    const joints = skeletonJoints(skeletons[i]);
+    let best: { bone: PoseBoneName | null; distance: number } | null = null;
+    const consider = (bone: PoseBoneName | null, joint: Point) => {
+      const distance = Math.hypot(joint.x - point.x, joint.y - point.y);
+      if (distance <= tolerance && (!best || distance < best.distance)) best = { bone, distance };
+    };
+    consider(null, joints.pelvis);
+    POSE_BONES.forEach(bone => consider(bone.name, joints[bone.to]));
+    if (best) return { skeletonId: skeletons[i].id, bone: (best as { bone: PoseBoneName | null }).bone };
+  }
+  return null;
+};
+
+/** Where the handle that poses a bone sits: its end, or the pelvis for null. */
+export const skeletonHandles = (skeleton: PoseSkeleton): { bone: PoseBoneName | null; point: Point }[] => {
+  const joints = skeletonJoints(skeleton);
+  return [{ bone: null, point: joints.pelvis }, ...POSE_BONES.map(bone => ({ bone: bone.name, point: joints[bone.to] }))];
+};
+
+// DRAWING
+/**
+ * Draws a mannequin: the head as an oval along the head bone, the other bones
+ * as thick lines with round joints. Bones pointing toward the viewer are drawn
+ * wider and those pointing away dashed, so the guide shows depth too.
+ */
+export const drawSkeleton = (ctx: CanvasRenderingContext2D, skeleton: PoseSkeleton) => {
+  const { joints } = solveSkeleton(skeleton);
+  const head = headSize(skeleton);
+  const width = Math.max(2, head * 0.14);
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = skeleton.color;
+  ctx.fillStyle = skeleton.color;
+  ctx.lineCap = 'round';
+
+  POSE_BONES.forEach(bone => {
+    const start = joints[bone.from];
+    const end = joints[bone.to];
+    const { foreshortening } = skeleton.bones[bone.name];
+    if (bone.name === 'head') {
+      const length = Math.hypot(end.x - start.x, end.y - start.y);
+      ctx.beginPath();
+      ctx.ellipse((start.x + end.x) / 2, (start.y + end.y) / 2, head * 0.38, Math.max(length / 2, head * 0.2), Math.atan2(end.y - start.y, end.x - start.x) + Math.PI / 2, 0, 2 * Math.PI);
+      ctx.lineWidth = width;
+      ctx.setLineDash([]);
+      ctx.stroke();
+      return;
+    }
+    ctx.lineWidth = width * (1 + Math.max(0, foreshortening));
+    ctx.setLineDash(foreshortening < 0 ? [width * 2, width * 1.5] : []);
+    ctx.beginPath();
+    ctx.moveTo(start.x, start.y);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+  });
+
+  ctx.setLineDash([]);
+  (Object.keys(joints) as PoseJointName[]).forEach(name => {
+    if (name === 'headTop') return;
+    const joint = joints[name];
+    ctx.beginPath();
+    ctx.arc(joint.x, joint.y, width * 0.9, 0, 2 * Math.PI);
+    ctx.fill();
+  });
+
+  if (skeleton.characterName) { // Names the figure for the model, as settei are named
+    ctx.font = `${Math.max(12, Math.round(head * 0.3))}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    ctx.fillText(skeleton.characterName, joints.headTop.x, joints.headTop.y - width * 2);
+  }
+  ctx.restore();
+};
+
+/** Redraws a pose layer's canvas from its mannequins. */
+export const renderSkeletons = (ctx: CanvasRenderingContext2D, skeletons: PoseSkeleton[]) => {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  skeletons.forEach(skeleton => drawSkeleton(ctx, skeleton));
+};
+
+/** Draws mannequins onto a new transparent canvas, as the guide image sent for generation. */
+export const rasterizeSkeletons = (skeletons: PoseSkeleton[], size: Size): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (ctx) renderSkeletons(ctx, skeletons);
+  return canvas;
+};
+
+// EXPORT
+/** The mannequin's joints for the generation request, rounded to whole pixels. */
+export const skeletonKeypoints = (skeleton: PoseSkeleton): PoseKeypoints => {
+  const joints = skeletonJoints(skeleton);
+  const foreshortenings = new Map<PoseJointName, number>(
+    POSE_BONES.filter(bone => skeleton.bones[bone.name].foreshortening !== 0).map(bone => [bone.to, skeleton.bones[bone.name].foreshortening]),
+  );
+  return {
+    characterName: skeleton.characterName,
+    proportions: `${skeleton.preset}, ${presetHeads(skeleton.preset)} heads tall`,
+    keypoints: (Object.keys(joints) as PoseJointName[]).map(joint => ({
+      joint,
+      x: Math.round(joints[joint].x),
+      y: Math.round(joints[joint].y),
+      ...(foreshortenings.has(joint) ? { foreshortening: Math.round(foreshortenings.get(joint)! * 100) / 100 } : {}),
+    })),
+  };
+};
@@ -0,0 +1,404 @@
+import type {
+  CameraOptions,
+  CanvasDocument,
+  ChatMessage,
+  Cut,
+  GenerationRecipe,
+  HistoryItem,
+  OutputStyle,
+  PromptTemplateLibrary,
+  Sequence,
+  SerializedEditHistory,
+  SerializedLayer,
+  WorkMode,
+} from '../types';
+import { createZip, readZip, type ZipEntry } from './zip';
+import { mapEditHistoryImages } from './editHistory';
+import { createDefaultPromptLibrary, normalizePromptLibrary } from './promptTemplates';
+import { normalizeGuideSets } from './perspectiveGrid';
+import { resolveCharacterMarker } from './characterMarkers';
+
+// PROJECT FILES
+// A project is a ZIP archive holding `manifest.json` plus one file per image
+// (layer sketches, settei images and masks, the conti, generation history),
+// grouped per cut. The manifest refers to images by their path inside the
+// archive, so the archive stays readable with ordinary tools.
+
+export const PROJECT_FORMAT = 'layout-assistant-project';
+export const PROJECT_FORMAT_VERSION = 10;
+const MANIFEST_PATH = 'manifest.json';
+
+export interface ProjectSettings {
+  outputStyle: OutputStyle;
+  workMode: WorkMode;
+  panelWidths: [number, number, number];
+  promptTemplates: PromptTemplateLibrary;
+}
+
+export interface ProjectData {
+  settings: ProjectSettings;
+  sequence: Sequence; // Every cut with its canvas and history filled in, including the active one
+  analysisChatHistory: ChatMessage[];
+}
+
+// Same shapes as the in-memory types, with data URLs replaced by archive paths
+interface ManifestLayer extends Omit<SerializedLayer, 'setteiImages'> {
+  sketch: string | null;
+  setteiImages: { image: string; mask: string | null }[];
+}
+
+interface ManifestCanvas {
+  canvasDimensions: CanvasDocument['canvasDimensions'];
+  vanishingPoints: CanvasDocument['vanishingPoints'];
+  guideSets?: CanvasDocument['guideSets']; // Absent in files saved before guide sets
+  activeGuideSetId?: CanvasDocument['activeGuideSetId'];
+  lens?: string;
+  layerCounter: number;
+  layers: ManifestLayer[];
+  conti: { original: string; edited: string; opacity: number; isVisible: boolean } | null;
+  editHistory?: SerializedEditHistory; // Images are archive paths; only when the history was saved
+}
+
+interface ManifestRecipe extends Omit<GenerationRecipe, 'canvas' | 'editBaseImageUrl'> {
+  canvas: ManifestCanvas | null;
+  editBaseImage: string | null;
+}
+
+interface ManifestHistoryItem extends Omit<HistoryItem, 'imageUrl' | 'thumbnailUrl' | 'recipe'> {
+  image: string;
+  thumbnail: string;
+  recipe?: ManifestRecipe;
+}
+
+interface ManifestCut extends Omit<Cut, 'canvas' | 'history'> {
+  canvas: ManifestCanvas | null;
+  history: ManifestHistoryItem[];
+}
+
+interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  formatVersion: number;
+  savedAt: string;
+  settings: ProjectSettings;
+  activeCutId: number;
+  cuts: ManifestCut[];
+  analysisChatHistory: ChatMessage[];
+}
+
+// Version 1: a single cut, with camera and directives among the settings
+interface ProjectManifestV1 {
+  format: typeof PROJECT_FORMAT;
+  formatVersion: 1;
+  savedAt: string;
+  settings: Omit<ProjectSettings, 'promptTemplates'> & {
+    cameraOptions: CameraOptions;
+    directiveInput: string;
+    negativeDirectiveInput: string;
+  };
+  canvas: ManifestCanvas;
+  history: ManifestHistoryItem[];
+  analysisChatHistory: ChatMessage[];
+}
+
+// HELPER FUNCTIONS
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mimeType: string } => {
+  const match = dataUrl.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+  if (!match) {
+    throw new Error('이미지 데이터 URL 형식이 올바르지 않습니다.');
+  }
+  const [, mimeType, isBase64, payload] = match;
+  if (!isBase64) {
+    return { bytes: new TextEncoder().encode(decodeURIComponent(payload)), mimeType };
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return { bytes, mimeType };
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+// Applies `migrate` to every canvas of a manifest: each cut's and those kept in its generation recipes
+const mapManifestCanvases = (manifest: ProjectManifest, migrate: (canvas: ManifestCanvas) => ManifestCanvas): ProjectManifest => ({
+  ...manifest,
+  cuts: manifest.cuts.map(cut => ({
+    ...cut,
+    canvas: cut.canvas && migrate(cut.canvas),
+    history: cut.history.map(item => (
+      item.recipe?.canvas ? { ...item, recipe: { ...item.recipe, canvas: migrate(item.recipe.canvas) } } : item
+    )),
+  })),
+});
+
+const mimeTypeForPath = (path: string): string => {
+  const extension = path.split('.').pop()?.toLowerCase();
+  const entry = Object.entries(EXTENSIONS).find(([, ext]) => ext === extension);
+  return entry ? entry[0] : 'application/octet-stream';
+};
+
+// SAVE
+/**
+ * Packs the whole sequence into a project archive.
+ */
+export const createProjectFile = (project: ProjectData): Blob => {
+  const entries: ZipEntry[] = [];
+  const pathsByDataUrl = new Map<string, string>();
+
+  // Adds an image under `basePath` and returns its path, with the extension taken from the data URL.
+  // An image already in the archive (a settei image reused by generation recipes, say) is stored once.
+  const addImage = (basePath: string, dataUrl: string): string => {
+    const existing = pathsByDataUrl.get(dataUrl);
+    if (existing) return existing;
+    const { bytes, mimeType } = dataUrlToBytes(dataUrl);
+    const path = `${basePath}.${EXTENSIONS[mimeType] ?? 'bin'}`;
+    entries.push({ name: path, data: bytes });
+    pathsByDataUrl.set(dataUrl, path);
+    return path;
+  };
+
+  const packCanvas = (folder: string, canvas: CanvasDocument): ManifestCanvas => ({
+    canvasDimensions: canvas.canvasDimensions,
+    vanishingPoints: canvas.vanishingPoints,
+    guideSets: canvas.guideSets,
+    activeGuideSetId: canvas.activeGuideSetId,
+    lens: canvas.lens,
+    layerCounter: canvas.layerCounter,
+    layers: canvas.layers.map(({ setteiImages, ...layer }) => {
+      const sketch = canvas.layerSketches[layer.id];
+      return {
+        ...layer,
+        sketch: sketch ? addImage(`${folder}/layers/${layer.id}/sketch`, sketch) : null,
+        setteiImages: (setteiImages ?? []).map((settei, index) => ({
+          image: addImage(`${folder}/layers/${layer.id}/settei-${index + 1}`, settei.dataUrl),
+          mask: settei.maskDataUrl ? addImage(`${folder}/layers/${layer.id}/settei-${index + 1}-mask`, settei.maskDataUrl) : null,
+        })),
+      };
+    }),
+    conti: canvas.globalReference && {
+      original: addImage(`${folder}/conti/original`, canvas.globalReference.originalDataUrl),
+      edited: addImage(`${folder}/conti/conti`, canvas.globalReference.dataUrl),
+      opacity: canvas.globalReference.opacity,
+      isVisible: canvas.globalReference.isVisible,
+    },
+    editHistory: canvas.editHistory && mapEditHistoryImages(canvas.editHistory, (dataUrl, name) => addImage(`${folder}/edit-history/${name}`, dataUrl)),
+  });
+
+  const packRecipe = (folder: string, { canvas, editBaseImageUrl, ...recipe }: GenerationRecipe): ManifestRecipe => ({
+    ...recipe,
+    canvas: canvas && packCanvas(folder, canvas),
+    editBaseImage: editBaseImageUrl ? addImage(`${folder}/edit-base`, editBaseImageUrl) : null,
+  });
+
+  const cuts: ManifestCut[] = project.sequence.cuts.map(({ canvas, history, ...cut }) => {
+    const folder = `cuts/${cut.id}`;
+    return {
+      ...cut,
+      canvas: canvas && packCanvas(folder, canvas),
+      history: history.map(({ imageUrl, thumbnailUrl, recipe, ...item }) => {
+        const itemPath = `${folder}/history/${item.id}`;
+        return {
+          ...item,
+          image: addImage(itemPath, imageUrl),
+          thumbnail: addImage(`${itemPath}-thumbnail`, thumbnailUrl),
+          ...(recipe ? { recipe: packRecipe(`${itemPath}-inputs`, recipe) } : {}),
+        };
+      }),
+    };
+  });
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    formatVersion: PROJECT_FORMAT_VERSION,
+    savedAt: new Date().toISOString(),
+    settings: project.settings,
+    activeCutId: project.sequence.activeCutId,
+    cuts,
+    analysisChatHistory: project.analysisChatHistory,
+  };
+
+  entries.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+// OPEN
+/**
+ * Brings a manifest written by an older release up to the current format.
+ * Every format change must add a step here.
+ */
+const migrateManifest = (manifest: ProjectManifest | ProjectManifestV1): ProjectManifest => {
+  if (manifest.format !== PROJECT_FORMAT || typeof manifest.formatVersion !== 'number') {
+    throw new Error('레이아웃 어시스턴트 프로젝트 파일이 아닙니다.');
+  }
+  if (manifest.formatVersion > PROJECT_FORMAT_VERSION) {
+    throw new Error(`이 프로젝트는 더 최신 버전(v${manifest.formatVersion})에서 저장되었습니다. 앱을 업데이트한 뒤 다시 열어주세요.`);
+  }
+  if (manifest.formatVersion === 1) {
+    const { cameraOptions, directiveInput, negativeDirectiveInput, ...settings } = (manifest as ProjectManifestV1).settings;
+    const cutId = Date.now();
+    manifest = {
+      format: PROJECT_FORMAT,
+      formatVersion: 2,
+      savedAt: manifest.savedAt,
+      settings: settings as ProjectSettings, // The prompt templates are added by the version 3 step
+      activeCutId: cutId,
+      cuts: [{
+        id: cutId,
+        cutNumber: 'C001',
+        durationFrames: 72,
+        notes: '',
+        cameraOptions,
+        directiveInput,
+        negativeDirectiveInput,
+        canvas: (manifest as ProjectManifestV1).canvas,
+        history: (manifest as ProjectManifestV1).history,
+      }],
+      analysisChatHistory: manifest.analysisChatHistory,
+    };
+  }
+  if (manifest.formatVersion === 2) {
+    // Version 3 added optional generation recipes to history items; nothing to convert
+    manifest = { ...manifest, formatVersion: 3 };
+  }
+  if (manifest.formatVersion === 3) {
+    // Version 4 saves the prompt template library with the settings
+    manifest = { ...manifest, formatVersion: 4, settings: { ...manifest.settings, promptTemplates: createDefaultPromptLibrary() } };
+  }
+  if (manifest.formatVersion === 4) {
+    // Version 5 keeps perspective guide sets and the lens; the vanishing points become the first set
+    manifest = mapManifestCanvases({ ...manifest, formatVersion: 5 }, canvas => ({
+      ...canvas,
+      ...normalizeGuideSets(canvas),
+      lens: canvas.lens ?? '50mm',
+    }));
+  }
+  if (manifest.formatVersion === 5) {
+    // Version 6 added vector layers, saved as their shapes; older files have none, so nothing to convert
+    manifest = { ...manifest, formatVersion: 6 };
+  }
+  if (manifest.formatVersion === 6) {
+    // Version 7 added layer groups, locking and clipping; older layers sit at the top level, unlocked and unclipped
+    manifest = mapManifestCanvases({ ...manifest, formatVersion: 7 }, canvas => ({
+      ...canvas,
+      layers: canvas.layers.map(layer => ({ ...layer, parentId: null, isLocked: false, isClipped: false })),
+    }));
+  }
+  if (manifest.formatVersion === 7) {
+    // Version 8 saves the canvas edit history; older cuts start with an empty one (recipes never carry it)
+    manifest = {
+      ...manifest,
+      formatVersion: 8,
+      cuts: manifest.cuts.map(cut => ({ ...cut, canvas: cut.canvas && { ...cut.canvas, editHistory: { entries: [], currentId: null } } })),
+    };
+  }
+  if (manifest.formatVersion === 8) {
+    // Version 9 added pose layers, saved as their mannequins; older files have none, so nothing to convert
+    manifest = { ...manifest, formatVersion: 9 };
+  }
+  if (manifest.formatVersion === 9) {
+    // Version 10 gives character markers a box, facing, head and eye-line; older ones get them from their radius
+    manifest = mapManifestCanvases({ ...manifest, formatVersion: 10 }, canvas => ({
+      ...canvas,
+      layers: canvas.layers.map(layer => (
+        layer.points ? { ...layer, points: layer.points.map(point => resolveCharacterMarker(point, canvas.canvasDimensions)) } : layer
+      )),
+    }));
+  }
+  return manifest as ProjectManifest;
+};
+
+export const readProjectFile = async (file: Blob): Promise<ProjectData> => {
+  const files = await readZip(file);
+  const manifestBytes = files.get(MANIFEST_PATH);
+  if (!manifestBytes) {
+    throw new Error('프로젝트 파일에 manifest.json이 없습니다.');
+  }
+  const manifest = migrateManifest(JSON.parse(new TextDecoder().decode(manifestBytes)));
+
+  const readImage = (path: string): string => {
+    const bytes = files.get(path);
+    if (!bytes) {
+      throw new Error(`프로젝트 파일에서 이미지를 찾을 수 없습니다: ${path}`);
+    }
+    return bytesToDataUrl(bytes, mimeTypeForPath(path));
+  };
+
+  const unpackCanvas = (canvas: ManifestCanvas): CanvasDocument => {
+    const layerSketches: Record<number, string> = {};
+    const layers: SerializedLayer[] = canvas.layers.map(({ sketch, setteiImages, ...layer }) => {
+      if (sketch) {
+        layerSketches[layer.id] = readImage(sketch);
+      }
+      return {
+        ...layer,
+        setteiImages: setteiImages.map(settei => ({
+          dataUrl: readImage(settei.image),
+          ...(settei.mask ? { maskDataUrl: readImage(settei.mask) } : {}),
+        })),
+      };
+    });
+    const { conti } = canvas;
+
+    return {
+      layers,
+      layerSketches,
+      globalReference: conti && {
+        originalDataUrl: readImage(conti.original),
+        dataUrl: readImage(conti.edited),
+        opacity: conti.opacity,
+        isVisible: conti.isVisible,
+      },
+      vanishingPoints: canvas.vanishingPoints,
+      guideSets: canvas.guideSets,
+      activeGuideSetId: canvas.activeGuideSetId,
+      lens: canvas.lens,
+      canvasDimensions: canvas.canvasDimensions,
+      layerCounter: canvas.layerCounter,
+      editHistory: canvas.editHistory && mapEditHistoryImages(canvas.editHistory, readImage),
+    };
+  };
+
+  const unpackRecipe = ({ canvas, editBaseImage, ...recipe }: ManifestRecipe): GenerationRecipe => ({
+    ...recipe,
+    canvas: canvas && unpackCanvas(canvas),
+    editBaseImageUrl: editBaseImage ? readImage(editBaseImage) : null,
+  });
+
+  const cuts: Cut[] = manifest.cuts.map(({ canvas, history, ...cut }) => ({
+    ...cut,
+    canvas: canvas && unpackCanvas(canvas),
+    history: history.map(({ image, thumbnail, recipe, ...item }) => ({
+      ...item,
+      imageUrl: readImage(image),
+      thumbnailUrl: readImage(thumbnail),
+      ...(recipe ? { recipe: unpackRecipe(recipe) } : {}),
+    })),
+  }));
+  if (cuts.length === 0) {
+    throw new Error('프로젝트에 컷이 없습니다.');
+  }
+
+  return {
+    settings: { ...manifest.settings, promptTemplates: normalizePromptLibrary(manifest.settings.promptTemplates) },
+    sequence: {
+      activeCutId: cuts.some(cut => cut.id === manifest.activeCutId) ? manifest.activeCutId : cuts[0].id,
+      cuts,
+    },
+    analysisChatHistory: manifest.analysisChatHistory ?? [],
+  };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { renderPromptTemplate } from './promptTemplates';
+
+describe('renderPromptTemplate', () => {
+  it('inserts variables and renders unknown ones as empty text', () => {
+    expect(renderPromptTemplate('Hello {{name}}{{missing}}!', { name: 'Aoi' })).toBe('Hello Aoi!');
+  });
+
+  it('keeps the {{#if}} branch when the variable is true or non-empty', () => {
+    expect(renderPromptTemplate('{{#if on}}yes{{/if}}', { on: true })).toBe('yes');
+    expect(renderPromptTemplate('{{#if name}}yes{{/if}}', { name: 'Aoi' })).toBe('yes');
+  });
+
+  it('drops the {{#if}} branch when the variable is false, blank or missing', () => {
+    expect(renderPromptTemplate('a{{#if on}}yes{{/if}}b', { on: false })).toBe('ab');
+    expect(renderPromptTemplate('a{{#if name}}yes{{/if}}b', { name: '  ' })).toBe('ab');
+    expect(renderPromptTemplate('a{{#if missing}}yes{{/if}}b', {})).toBe('ab');
+  });
+
+  it('renders the {{else}} branch when the condition is false', () => {
+    const template = '{{#if on}}yes{{else}}no{{/if}}';
+    expect(renderPromptTemplate(template, { on: true })).toBe('yes');
+    expect(renderPromptTemplate(template, { on: false })).toBe('no');
+  });
+
+  it('handles nested blocks', () => {
+    const template = '{{#if outer}}A{{#if inner}}B{{else}}C{{/if}}{{else}}D{{#if inner}}E{{/if}}{{/if}}';
+    expect(renderPromptTemplate(template, { outer: true, inner: true })).toBe('AB');
+    expect(renderPromptTemplate(template, { outer: true, inner: false })).toBe('AC');
+    expect(renderPromptTemplate(template, { outer: false, inner: true })).toBe('DE');
+    expect(renderPromptTemplate(template, { outer: false, inner: false })).toBe('D');
+  });
+
+  it('accepts whitespace inside the tags', () => {
+    expect(renderPromptTemplate('{{ #if on }}{{ name }}{{ else }}-{{ /if }}', { on: true, name: 'Aoi' })).toBe('Aoi');
+  });
+
+  it('does not insert variables from a dropped branch', () => {
+    expect(renderPromptTemplate('{{#if on}}{{name}}{{/if}}', { on: false, name: 'Aoi' })).toBe('');
+  });
+
+  it('throws on unbalanced blocks', () => {
+    expect(() => renderPromptTemplate('{{#if on}}yes', { on: true })).toThrow();
+    expect(() => renderPromptTemplate('yes{{/if}}', {})).toThrow();
+    expect(() => renderPromptTemplate('yes{{else}}no', {})).toThrow();
+  });
+});
@@ -0,0 +1,279 @@
+import type { PromptTemplate, PromptTemplateKind, PromptTemplateLibrary } from '../types';
+
+// PROMPT TEMPLATES
+// The system instructions sent to the model are templates, so a master can
+// tune them per project without a redeploy. This module is shared by the
+// browser (editing, validation) and the API proxy (rendering).
+//
+// Syntax: `{{name}}` inserts a variable; `{{#if name}}...{{else}}...{{/if}}`
+// keeps one branch depending on whether the variable is true or non-empty.
+
+export type TemplateVariables = Record<string, string | boolean>;
+
+export const PROMPT_TEMPLATE_KINDS: {
+  kind: PromptTemplateKind;
+  label: string;
+  description: string;
+  variables: { name: string; description: string }[];
+}[] = [
+  {
+    kind: 'generation',
+    label: '이미지 생성',
+    description: '포즈생성기로 이미지를 만들 때의 시스템 지시입니다.',
+    variables: [
+      { name: 'styleRole', description: '렌더링 스타일의 역할 문장' },
+      { name: 'styleLineRules', description: '렌더링 스타일의 선 규칙 (목록)' },
+      { name: 'styleOutputRules', description: '렌더링 스타일의 출력 형식 규칙 (목록)' },
+      { name: 'styleSummary', description: '렌더링 스타일의 마지막 실행 단계' },
+      { name: 'outputStyle', description: '렌더링 스타일 ID (예: genga_style)' },
+      { name: 'workMode', description: "작업 모드 ('single' 또는 'multi')" },
+      { name: 'isEditing', description: '수정 작업이면 참' },
+      { name: 'hasConti', description: '콘티가 있으면 참' },
+      { name: 'multiCharacter', description: '멀티 캐릭터 모드면 참' },
+      { name: 'hasPoseSkeletons', description: '포즈 레이어의 마네킹이 있으면 참' },
+      { name: 'hasCharacterStaging', description: '캐릭터 포인트(배치 마커)가 있으면 참' },
+      { name: 'layerNames', description: '전송된 레이어(캐릭터) 이름, 쉼표로 구분' },
+      { name: 'cameraSettings', description: '카메라 설정 요약 (없으면 빈 값)' },
+      { name: 'canvasSize', description: '캔버스 크기 (예: 1000x619)' },
+    ],
+  },
+  {
+    kind: 'analysis',
+    label: '장면 분석',
+    description: 'AI 장면 분석 보고서를 만들 때의 지시입니다.',
+    variables: [
+      { name: 'layerNames', description: '전송된 레이어(캐릭터) 이름, 쉼표로 구분' },
+      { name: 'cameraSettings', description: '카메라 설정 요약 (없으면 빈 값)' },
+      { name: 'hasConti', description: '콘티가 있으면 참' },
+      { name: 'multiCharacter', description: '멀티 캐릭터 모드면 참' },
+      { name: 'canvasSize', description: '캔버스 크기 (예: 1000x619)' },
+      { name: 'hasPreviousCut', description: '연속성 비교용 이전 컷이 있으면 참' },
+    ],
+  },
+  {
+    kind: 'chat',
+    label: 'AI 대화',
+    description: '장면 분석 이후 AI와 대화할 때의 시스템 지시입니다.',
+    variables: [],
+  },
+  {
+    kind: 'edit',
+    label: '대화형 수정',
+    description: '생성된 이미지를 대화로 수정할 때의 시스템 지시입니다.',
+    variables: [
+      { name: 'cameraSettings', description: '카메라 설정 요약 (없으면 빈 값)' },
+      { name: 'hasReference', description: '스타일 참조 이미지가 있으면 참' },
+      { name: 'hasSketch', description: '스케치 힌트가 있으면 참' },
+    ],
+  },
+];
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateKind, string> = {
+  generation: `
+# ROLE
+
+{{styleRole}}
+
+{{#if isEditing}}This is an EDITING task. A base image is provided. Modify it according to the other inputs. Do not create a new image from scratch.{{else}}This is a GENERATION task. A blank canvas is provided as the base image. Create a new image on this canvas by combining the other inputs.{{/if}}
+
+---
+## CORE DIRECTIVE: RULE-BASED IMAGE SYNTHESIS
+---
+You will be given multiple input images with specific labels. Combine them according to the following non-negotiable rules.
+
+{{#if hasConti}}### RULE 1: THE CONTI IS ABSOLUTE LAW FOR POSE AND COMPOSITION
+- The image labeled **"ABSOLUTE POSE & COMPOSITION SOURCE (CONTI)"** dictates the final output's pose, character placement, and camera framing.
+- **ACTION:** Your primary, non-negotiable directive is to TRACE the pose and composition from the CONTI image with 100% accuracy. Do NOT deviate. Do NOT interpret. Do NOT get creative.
+- **CRITICAL:** The art style of the CONTI is IRRELEVANT. You MUST IGNORE IT COMPLETELY.
+- **FAILURE CONDITION:** FAILURE TO REPLICATE THE CONTI POSE IS A COMPLETE FAILURE OF YOUR TASK.
+- The images labeled **"LOW-PRIORITY SKETCH HINT"** are only suggestions. If a SKETCH contradicts the CONTI in any way, the **CONTI ALWAYS WINS.**{{else}}### RULE 1: THE SKETCH DEFINES POSE AND COMPOSITION
+- No CONTI is provided. The images labeled **"POSE SKETCH"** are the only pose source and govern pose, placement and framing.
+- **ACTION:** Follow each sketch's gesture, proportions and position on the canvas. Use the Sketch Bounding Box to place the drawing and the Perspective Data to keep it grounded.
+- **CRITICAL:** Sketches may be rough. Interpret them into correct anatomy, but do not change the pose they describe.{{/if}}{{#if hasPoseSkeletons}}
+- The images labeled **"POSE SKELETON"** are mannequin guides, with each figure's joints listed under **Pose Skeletons**. Match the joint positions, limb angles and head-to-body proportions{{#if hasConti}} wherever the CONTI leaves them open{{/if}}. A foreshortened limb points toward the viewer when drawn thick (positive foreshortening) and away when dashed (negative). Build the character's body over the skeleton; never draw the skeleton itself.{{/if}}{{#if hasCharacterStaging}}
+- **Character Staging** lists where each named character stands, nearest the camera first (depthOrder 1 is in front and overlaps the others). Fit the character inside its boundingBox with its head at **head**, facing the way **facing** gives (front, side or back, as painted in its SETTEI mask), and looking along its **eyeLine** toward the named character or point. Never draw the markers themselves.{{/if}}
+
+{{#if multiCharacter}}### RULE 2: THE SETTEI IS LAW FOR STYLE AND CHARACTER DESIGN (MULTIPLE CHARACTERS)
+- Several characters appear: {{layerNames}}. Each SETTEI and SKETCH is labeled with a character name in quotes; images with the same name belong to the same character.
+- **ACTION:** Draw every named character once, each with the design from its own SETTEI, at the position its sketch, points or the CONTI gives it.
+- **CRITICAL:** Never mix designs between characters: hair, costume and face details must stay with the character whose SETTEI shows them. Do not add unnamed characters.
+- **CRITICAL:** The poses in the SETTEI are for reference ONLY. You MUST IGNORE THEM COMPLETELY.
+- When a SETTEI RGB MASK is given, use its regions (R=front, G=side, B=back) to pick the design view that matches each character's facing.
+- Keep overlaps believable: nearer characters occlude farther ones, and scale follows the perspective.{{else}}### RULE 2: THE SETTEI IS LAW FOR STYLE AND CHARACTER DESIGN (SINGLE CHARACTER)
+- There is exactly ONE character in this scene. Every image labeled **"MANDATORY STYLE REFERENCE (SETTEI)"** shows that same character.
+- **ACTION:** You MUST apply the character design from the SETTEI onto the pose. Draw exactly one character. Do not add anyone else.
+- **CRITICAL:** The pose in the SETTEI is for reference ONLY. You MUST IGNORE IT COMPLETELY.
+- When a SETTEI RGB MASK is given, use its regions (R=front, G=side, B=back) to pick the design view that matches the character's facing.{{/if}}
+
+### RULE 3: LINE QUALITY FOLLOWS THE OUTPUT STYLE
+{{styleLineRules}}
+
+### RULE 4: OUTPUT FORMAT IS STRICT
+{{styleOutputRules}}
+
+### RULE 5: GAZE DIRECTION (EYE-LINE)
+- **DEFAULT BEHAVIOR:** Unless explicitly contradicted by the user's text prompt, all characters' gaze MUST align naturally with the direction their head is facing, as defined by the {{#if hasConti}}CONTI{{else}}SKETCH{{/if}}.
+- **PROMPT OVERRIDE:** If the text prompt provides specific instructions for the character's gaze (e.g., "looking at the camera"), those instructions take absolute precedence.
+
+---
+## EXECUTION SUMMARY
+---
+1.  {{#if hasConti}}**TRACE** the pose from the **CONTI**.{{else}}**BUILD** the pose from the **SKETCH**, placed within its bounding box.{{/if}}
+2.  {{#if multiCharacter}}**APPLY** each character's own **SETTEI** to that character only.{{else}}**APPLY** the style and design from the **SETTEI** to that one character.{{/if}}
+3.  **ADHERE** to the gaze direction rules.
+4.  {{styleSummary}}
+
+Precision is your only goal.
+`,
+  analysis: `
+SYSTEM PROMPT: You are a world-class animation director and layout artist.
+Your task is to analyze the provided scene information (storyboard, sketches, etc.) and answer with the JSON fields below. Write every text field in **KOREAN**.
+- **summary**: A concise, professional report that a human director can read. It should describe the scene's composition, character poses, and implied emotional tone based on the inputs. Use markdown for formatting.
+- **characters**: For each character{{#if layerNames}} ({{layerNames}}){{/if}}, its pose and the direction it faces.
+- **camera**: The shot type, angle type and lens the scene reads as, using only the allowed values ('none' when unclear), and why.
+- **perspective**: The horizon height and up to three vanishing points as fractions of the canvas (0 is left/top, 1 is right/bottom; points off the canvas may go beyond 0..1), and why. Use null for horizonY when no horizon can be read.
+- **compositionIssues**: Problems with staging, tangents, balance, readability or perspective, each with a severity and a concrete suggestion.
+- **continuityWarnings**: {{#if hasPreviousCut}}Breaks in continuity with the PREVIOUS CUT: screen direction, the 180-degree line, eye-lines, props and costume.{{else}}Leave this empty; no previous cut is given.{{/if}}
+
+Analyze the following scene components:
+`,
+  chat: 'You are a helpful assistant for an animation director. Respond concisely in Korean.',
+  edit: `You are an AI Inpainting and Outpainting Specialist. Your function is equivalent to a 'smart patch' or 'healing brush' tool in an advanced image editor. You will receive a base image, and your task is to modify it based on text instructions, potentially using a reference image for style and a sketch for composition guidance. Respond with the edited image and a brief, professional confirmation message in Korean.`,
+};
+
+// RENDERING
+const TOKEN_PATTERN = /\{\{\s*(?:#if\s+(\w+)|(else)|(\/if)|(\w+))\s*\}\}/g;
+
+const isTruthy = (value: string | boolean | undefined): boolean =>
+  typeof value === 'string' ? value.trim().length > 0 : !!value;
+
+/**
+ * Renders a template. Unknown variables render as empty text;
+ * unbalanced `{{#if}}` blocks throw.
+ */
+export const renderPromptTemplate = (template: string, variables: TemplateVariables): string => {
+  // One entry per open `{{#if}}`: whether its current branch is being output
+  const stack: { condition: boolean; inElse: boolean }[] = [];
+  const isActive = () => stack.every(frame => (frame.inElse ? !frame.condition : frame.condition));
+  let output = '';
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    if (isActive()) output += template.slice(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+    const [, ifName, elseToken, endToken, variableName] = match;
+
+    if (ifName) {
+      stack.push({ condition: isTruthy(variables[ifName]), inElse: false });
+    } else if (elseToken) {
+      const frame = stack[stack.length - 1];
+      if (!frame || frame.inElse) throw new Error('{{else}}에 짝이 맞는 {{#if}}가 없습니다.');
+      frame.inElse = true;
+    } else if (endToken) {
+      if (!stack.pop()) throw new Error('{{/if}}에 짝이 맞는 {{#if}}가 없습니다.');
+    } else if (variableName && isActive()) {
+      const value = variables[variableName];
+      output += typeof value === 'string' ? value : '';
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error('닫히지 않은 {{#if}} 블록이 있습니다.');
+  }
+  if (isActive()) output += template.slice(lastIndex);
+  return output;
+};
+
+/**
+ * Problems worth showing while a template is edited: syntax errors and variables the kind does not provide.
+ */
+export const validatePromptTemplate = (kind: PromptTemplateKind, template: string): string[] => {
+  const problems: string[] = [];
+  try {
+    renderPromptTemplate(template, {});
+  } catch (error) {
+    problems.push(error instanceof Error ? error.message : String(error));
+  }
+  const known = new Set(PROMPT_TEMPLATE_KINDS.find(k => k.kind === kind)?.variables.map(v => v.name) ?? []);
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    const name = match[1] ?? match[4];
+    if (name && !known.has(name)) unknown.add(name);
+  }
+  if (unknown.size > 0) {
+    problems.push(`알 수 없는 변수: ${[...unknown].join(', ')} (빈 값으로 바뀝니다)`);
+  }
+  if (!template.trim()) {
+    problems.push('템플릿이 비어 있습니다.');
+  }
+  return problems;
+};
+
+// LIBRARY
+// The built-in version 1 is marked by this timestamp and always follows the current default text
+const BUILT_IN_CREATED_AT = new Date(0).toISOString();
+
+export const createDefaultPromptLibrary = (): PromptTemplateLibrary => {
+  const entry = (kind: PromptTemplateKind): PromptTemplate => ({
+    activeVersion: 1,
+    versions: [{ version: 1, text: DEFAULT_PROMPT_TEMPLATES[kind], note: '기본값', createdAt: BUILT_IN_CREATED_AT }],
+  });
+  return { generation: entry('generation'), analysis: entry('analysis'), chat: entry('chat'), edit: entry('edit') };
+};
+
+/**
+ * Fills in whatever a stored or opened library lacks, so older data always yields a usable library.
+ */
+export const normalizePromptLibrary = (value: unknown): PromptTemplateLibrary => {
+  const library = createDefaultPromptLibrary();
+  if (!value || typeof value !== 'object') return library;
+  for (const { kind } of PROMPT_TEMPLATE_KINDS) {
+    const template = (value as Partial<PromptTemplateLibrary>)[kind];
+    const versions = Array.isArray(template?.versions)
+      ? template.versions.filter(v => typeof v?.version === 'number' && typeof v.text === 'string')
+      : [];
+    if (versions.length === 0) continue;
+    library[kind] = {
+      activeVersion: versions.some(v => v.version === template!.activeVersion) ? template!.activeVersion : versions[versions.length - 1].version,
+      versions: versions.map(v => (v.createdAt === BUILT_IN_CREATED_AT
+        ? { version: v.version, text: DEFAULT_PROMPT_TEMPLATES[kind], note: v.note ?? '', createdAt: BUILT_IN_CREATED_AT }
+        : { version: v.version, text: v.text, note: v.note ?? '', createdAt: v.createdAt ?? new Date().toISOString() })),
+    };
+  }
+  return library;
+};
+
+export const getTemplateVersion = (library: PromptTemplateLibrary, kind: PromptTemplateKind, version: number) =>
+  library[kind].versions.find(v => v.version === version) ?? null;
+
+export const getActiveTemplateVersion = (library: PromptTemplateLibrary, kind: PromptTemplateKind) =>
+  getTemplateVersion(library, kind, library[kind].activeVersion) ?? library[kind].versions[library[kind].versions.length - 1];
+
+/**
+ * The text to send for a kind, or undefined when it is the built-in default,
+ * so the proxy keeps using its own (possibly newer) default.
+ */
+export const getTemplateOverride = (library: PromptTemplateLibrary, kind: PromptTemplateKind): string | undefined => {
+  const { text } = getActiveTemplateVersion(library, kind);
+  return text === DEFAULT_PROMPT_TEMPLATES[kind] ? undefined : text;
+};
+
+/**
+ * Saves `text` as the next version of a kind and makes it active.
+ */
+export const addTemplateVersion = (library: PromptTemplateLibrary, kind: PromptTemplateKind, text: string, note: string): PromptTemplateLibrary => {
+  const { versions } = library[kind];
+  const version = Math.max(0, ...versions.map(v => v.version)) + 1;
+  return {
+    ...library,
+    [kind]: {
+      activeVersion: version,
+      versions: [...versions, { version, text, note, createdAt: new Date().toISOString() }],
+    },
+  };
+};
+
+export const setActiveTemplateVersion = (library: PromptTemplateLibrary, kind: PromptTemplateKind, version: number): PromptTemplateLibrary => ({
+  ...library,
+  [kind]: { ...library[kind], activeVersion: version },
+});
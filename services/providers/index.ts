@@ -0,0 +1,64 @@
+import type { ImageModelProvider } from './types';
+import { proxyProvider } from './proxyProvider';
+import { mockProvider } from './mockProvider';
+
+export type { ImageModelProvider } from './types';
+
+const PROVIDER_STORAGE_KEY = 'model_provider';
+const DEFAULT_PROVIDER_ID = 'proxy';
+
+const registry = new Map<string, ImageModelProvider>([
+    [proxyProvider.id, proxyProvider],
+    [mockProvider.id, mockProvider],
+]);
+
+/**
+ * Registers an additional backend. Registering an existing id replaces it.
+ */
+export const registerProvider = (provider: ImageModelProvider) => {
+    registry.set(provider.id, provider);
+};
+
+export const listProviders = (): ImageModelProvider[] => Array.from(registry.values());
+
+// Resolution order: localStorage override, then the MODEL_PROVIDER build env, then the API proxy.
+const resolveInitialProviderId = (): string => {
+    try {
+        const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+        if (stored && registry.has(stored)) {
+            return stored;
+        }
+    } catch (error) {
+        console.error("Failed to read model provider from localStorage:", error);
+    }
+    const fromEnv = process.env.MODEL_PROVIDER;
+    if (fromEnv && registry.has(fromEnv)) {
+        return fromEnv;
+    }
+    return DEFAULT_PROVIDER_ID;
+};
+
+let activeProviderId: string | null = null;
+
+export const getActiveProvider = (): ImageModelProvider => {
+    if (activeProviderId === null || !registry.has(activeProviderId)) {
+        activeProviderId = resolveInitialProviderId();
+    }
+    return registry.get(activeProviderId)!;
+};
+
+/**
+ * Switches the backend used by every `geminiService` call.
+ * The choice is remembered in localStorage so it survives reloads.
+ */
+export const setActiveProvider = (id: string) => {
+    if (!registry.has(id)) {
+        throw new Error(`Unknown model provider: ${id}`);
+    }
+    activeProviderId = id;
+    try {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+    } catch (error) {
+        console.error("Failed to save model provider to localStorage:", error);
+    }
+};
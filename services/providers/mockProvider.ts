@@ -0,0 +1,209 @@
+import type {
+  GenerateImageParams,
+  GenerateImageResult,
+  AnalyzeSceneParams,
+  EditImageWithChatParams,
+  AnalyzeSceneResult,
+  EditImageResult,
+  ImageModelProvider,
+} from './types';
+import type { ChatMessage } from '../../types';
+
+// A fully offline provider for developing the canvas and history flows.
+// Every response is derived only from its inputs, so the same request
+// always produces the same image and text.
+
+const MOCK_LATENCY_MS = 400;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+// FNV-1a, enough to turn a request into a stable visual fingerprint.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const loadImage = (dataUrl: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = reject;
+        img.src = dataUrl;
+    });
+};
+
+const renderPlaceholder = async (
+    width: number,
+    height: number,
+    sources: string[],
+    caption: string[],
+    fingerprint: number,
+): Promise<string> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width));
+    canvas.height = Math.max(1, Math.round(height));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not create a canvas context for the mock image.');
+    }
+
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    // Trace the inputs in grayscale so the result still lines up with the layout.
+    ctx.filter = 'grayscale(1) contrast(1.4)';
+    for (const src of sources) {
+        try {
+            const img = await loadImage(src);
+            ctx.globalAlpha = 0.6;
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        } catch (e) {
+            console.error("Mock provider could not load an input image:", e);
+        }
+    }
+    ctx.filter = 'none';
+    ctx.globalAlpha = 1;
+
+    const hue = fingerprint % 360;
+    ctx.strokeStyle = `hsl(${hue}, 70%, 45%)`;
+    ctx.lineWidth = Math.max(4, canvas.width * 0.006);
+    ctx.strokeRect(ctx.lineWidth / 2, ctx.lineWidth / 2, canvas.width - ctx.lineWidth, canvas.height - ctx.lineWidth);
+
+    const fontSize = Math.max(12, Math.round(canvas.width * 0.018));
+    ctx.font = `${fontSize}px monospace`;
+    ctx.textBaseline = 'top';
+    const padding = fontSize;
+    const boxHeight = (caption.length + 1) * fontSize * 1.3;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+    ctx.fillRect(padding, padding, canvas.width - padding * 2, boxHeight);
+    ctx.fillStyle = 'white';
+    caption.forEach((line, i) => {
+        ctx.fillText(line, padding * 1.5, padding * 1.5 + i * fontSize * 1.3, canvas.width - padding * 3);
+    });
+
+    return canvas.toDataURL('image/png');
+};
+
+const translate = async (text: string): Promise<string> => {
+    // The mock keeps the original text, which is also the Gemini fallback behaviour.
+    return text;
+};
+
+const generate = async (params: GenerateImageParams, signal?: AbortSignal): Promise<GenerateImageResult> => {
+    const fingerprint = hashString(JSON.stringify([
+        params.prompt,
+        params.negativePrompt,
+        params.outputStyle,
+        params.workMode,
+        params.cameraOptions,
+        params.seed ?? null,
+        params.poseImages.map(p => p.name),
+        params.systemInstructionTemplate ?? null,
+    ]));
+
+    const sources: string[] = [];
+    if (params.editBaseImage && !params.globalReferenceImage) sources.push(params.editBaseImage.imageDataUrl);
+    if (params.globalReferenceImage) sources.push(params.globalReferenceImage.imageDataUrl);
+    params.poseImages.forEach(p => { if (p.imageDataUrl) sources.push(p.imageDataUrl); });
+
+    await wait(MOCK_LATENCY_MS, signal);
+    const imageUrl = await renderPlaceholder(
+        params.canvasDimensions.width,
+        params.canvasDimensions.height,
+        sources,
+        [
+            `MOCK ${params.outputStyle} / ${params.workMode}`,
+            `seed: ${params.seed ?? '-'}  id: ${fingerprint.toString(16)}`,
+            `template: ${params.systemInstructionTemplate ? `custom #${hashString(params.systemInstructionTemplate).toString(16)}` : 'default'}`,
+            `layers: ${params.poseImages.map(p => p.name).join(', ') || '-'}`,
+            `prompt: ${params.prompt || '-'}`,
+        ],
+        fingerprint,
+    );
+    return { imageUrl, model: 'mock' };
+};
+
+const analyze = async (params: AnalyzeSceneParams): Promise<AnalyzeSceneResult> => {
+    await wait(MOCK_LATENCY_MS);
+    const layerLines = params.poseImages.length > 0
+        ? params.poseImages.map(p => `- **${p.name}**: 설정화 ${p.setteiImages?.length ?? 0}장, 캐릭터 포인트 ${p.points?.length ?? 0}개`).join('\n')
+        : '- 레이어 없음';
+    const { vanishingPoints } = params.perspectiveData;
+    return {
+        summary: [
+            '### 모의 분석 보고서',
+            `- 작업 모드: ${params.workMode === 'single' ? '단일 캐릭터' : '다중 캐릭터'}`,
+            `- 캔버스: ${params.canvasDimensions.width}x${params.canvasDimensions.height}`,
+            `- 콘티: ${params.globalReferenceImage ? '있음' : '없음'}`,
+            `- 소실점: ${vanishingPoints.length}개`,
+            `- 샷/앵글: ${params.cameraOptions.shotType} / ${params.cameraOptions.angleType}, 렌즈 ${params.cameraOptions.lens}`,
+            '',
+            '#### 레이어',
+            layerLines,
+        ].join('\n'),
+        characters: params.poseImages.map(p => ({ name: p.name, pose: '(모의) 서 있는 자세', facing: '정면' })),
+        camera: {
+            shotType: params.cameraOptions.shotType === 'none' ? 'medium_shot' : params.cameraOptions.shotType,
+            angleType: 'none',
+            lens: params.cameraOptions.lens === 'none' ? '50mm' : params.cameraOptions.lens,
+            reason: '(모의) 현재 카메라 설정을 기준으로 추정했습니다.',
+        },
+        perspective: {
+            horizonY: vanishingPoints.length > 0 ? vanishingPoints[0].y : 0.4,
+            vanishingPoints: vanishingPoints.length > 0 ? vanishingPoints.map(({ x, y }) => ({ x, y })) : [{ x: 0.5, y: 0.4 }],
+            reason: '(모의) 기존 소실점이 있으면 그대로, 없으면 화면 위쪽 40% 지점을 수평선으로 제안합니다.',
+        },
+        compositionIssues: params.sketchBoundingBox ? [] : [
+            { severity: 'warning', issue: '스케치가 없습니다.', suggestion: '레이어에 포즈를 스케치하거나 콘티를 추가하세요.' },
+        ],
+        continuityWarnings: params.previousCut ? [`(모의) ${params.previousCut.cutNumber}와 화면 방향이 이어지는지 확인하세요.`] : [],
+    };
+};
+
+const chat = async (history: ChatMessage[]): Promise<string> => {
+    await wait(MOCK_LATENCY_MS);
+    const lastUserMessage = [...history].reverse().find(m => m.role === 'user');
+    const text = lastUserMessage?.parts.map(p => p.text).join(' ') ?? '';
+    return `(모의 응답) "${text}" 요청을 확인했습니다.`;
+};
+
+const edit = async (params: EditImageWithChatParams): Promise<EditImageResult> => {
+    const fingerprint = hashString(JSON.stringify([params.newMessage, params.cameraOptions, params.chatHistory.length]));
+    const base = await loadImage(params.baseImageUrl);
+    const sources = [params.baseImageUrl];
+    if (params.sketchImageUrl) sources.push(params.sketchImageUrl);
+
+    await wait(MOCK_LATENCY_MS);
+    const newImageUrl = await renderPlaceholder(
+        base.width,
+        base.height,
+        sources,
+        [`MOCK EDIT  id: ${fingerprint.toString(16)}`, `instruction: ${params.newMessage}`],
+        fingerprint,
+    );
+    return { newImageUrl, textResponse: '(모의 응답) 수정 작업을 완료했습니다.' };
+};
+
+export const mockProvider: ImageModelProvider = {
+    id: 'mock',
+    label: 'Local Mock',
+    translate,
+    generate,
+    analyze,
+    chat,
+    edit,
+};
@@ -0,0 +1,97 @@
+import type {
+  GenerateImageParams,
+  GenerateImageResult,
+  AnalyzeSceneParams,
+  EditImageWithChatParams,
+  AnalyzeSceneResult,
+  EditImageResult,
+  ImageModelProvider,
+} from './types';
+import type { ChatMessage } from '../../types';
+import { apiRequest } from '../apiClient';
+
+// Talks to the API proxy in `server/`, which holds the Gemini key.
+const postJson = <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => apiRequest<T>(path, { body, signal });
+
+// HELPER FUNCTIONS
+const getImageDimensions = (dataUrl: string): Promise<{ width: number, height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.width, height: img.height });
+    img.onerror = reject;
+    img.src = dataUrl;
+  });
+};
+
+const createWhiteCanvasDataUrl = (width: number, height: number): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+        ctx.fillStyle = 'white';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+const translate = async (text: string): Promise<string> => {
+    try {
+        const result = await postJson<{ text: string }>('/translate', { text });
+        return result.text;
+    } catch (error) {
+        console.error("Translation to English failed, using original text:", error);
+        return text; // Fallback to original text on error
+    }
+};
+
+const generate = async (params: GenerateImageParams, signal?: AbortSignal): Promise<GenerateImageResult> => {
+    // An editing task is ONLY when an editBaseImage is provided AND there is no conti.
+    const isEditingTask = !!params.editBaseImage && !params.globalReferenceImage;
+    const finalParams = { ...params };
+
+    if (!isEditingTask) {
+        // The image editing model requires a base image to work on, so generation
+        // tasks get a blank white canvas. Canvas rendering is only available here in the browser.
+        let targetWidth = params.canvasDimensions.width;
+        let targetHeight = params.canvasDimensions.height;
+
+        if (params.globalReferenceImage) {
+            try {
+                // Match the blank canvas dimensions to the conti for best results.
+                const dims = await getImageDimensions(params.globalReferenceImage.imageDataUrl);
+                targetWidth = dims.width;
+                targetHeight = dims.height;
+            } catch (e) {
+                console.error("Could not get conti dimensions, using canvas dimensions.", e);
+            }
+        }
+
+        finalParams.baseCanvasDataUrl = createWhiteCanvasDataUrl(targetWidth, targetHeight);
+    }
+
+    return postJson<GenerateImageResult>('/generate', finalParams, signal);
+};
+
+const analyze = async (params: AnalyzeSceneParams): Promise<AnalyzeSceneResult> => {
+    return postJson<AnalyzeSceneResult>('/analyze', params);
+};
+
+const chat = async (history: ChatMessage[], systemInstructionTemplate?: string): Promise<string> => {
+    const result = await postJson<{ text: string }>('/chat', { history, systemInstructionTemplate });
+    return result.text;
+};
+
+const edit = async (params: EditImageWithChatParams): Promise<EditImageResult> => {
+    return postJson<EditImageResult>('/edit', params);
+};
+
+export const proxyProvider: ImageModelProvider = {
+    id: 'proxy',
+    label: 'Google Gemini (API proxy)',
+    translate,
+    generate,
+    analyze,
+    chat,
+    edit,
+};
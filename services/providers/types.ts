@@ -0,0 +1,81 @@
+import type {
+  PoseImage,
+  PerspectiveData,
+  ChatMessage,
+  CameraOptions,
+  OutputStyle,
+  SceneAnalysisResult,
+  WorkMode,
+} from '../../types';
+
+// TYPE DEFINITIONS
+export interface GenerateImageParams {
+  poseImages: PoseImage[];
+  globalReferenceImage: { imageDataUrl: string } | null;
+  editBaseImage: { imageDataUrl: string } | null;
+  prompt: string;
+  negativePrompt: string;
+  perspectiveData: PerspectiveData;
+  outputStyle: OutputStyle;
+  canvasDimensions: { width: number, height: number };
+  sketchBoundingBox: { x: number; y: number; width: number; height: number; } | null;
+  workMode: WorkMode;
+  cameraOptions: CameraOptions;
+  seed?: number;
+  chatHistory: ChatMessage[];
+  baseCanvasDataUrl?: string; // Blank canvas prepared by the client for generation tasks
+  systemInstructionTemplate?: string; // The project's template; the built-in default when absent
+}
+
+export interface AnalyzeSceneParams {
+    poseImages: PoseImage[];
+    globalReferenceImage: { imageDataUrl: string } | null;
+    editBaseImage: { imageDataUrl: string } | null;
+    prompt: string;
+    negativePrompt: string;
+    perspectiveData: PerspectiveData;
+    canvasDimensions: { width: number, height: number };
+    sketchBoundingBox: { x: number; y: number; width: number; height: number } | null;
+    workMode: WorkMode;
+    cameraOptions: CameraOptions;
+    systemInstructionTemplate?: string;
+    // The cut before this one in the sequence, for continuity warnings
+    previousCut?: { cutNumber: string; notes: string; cameraOptions: CameraOptions; imageDataUrl: string | null } | null;
+}
+
+export interface EditImageWithChatParams {
+  baseImageUrl: string;
+  referenceImageUrl?: string | null;
+  sketchImageUrl?: string | null;
+  chatHistory: ChatMessage[];
+  newMessage: string;
+  cameraOptions: CameraOptions;
+  systemInstructionTemplate?: string;
+}
+
+export interface GenerateImageResult {
+  imageUrl: string;
+  model: string; // The model that made the image, recorded with the result
+}
+
+export type AnalyzeSceneResult = SceneAnalysisResult;
+
+export interface EditImageResult {
+  newImageUrl: string;
+  textResponse: string;
+}
+
+/**
+ * A backend capable of serving every AI operation the app needs.
+ * `geminiService.ts` forwards each call to the currently active provider,
+ * so adding a new backend only requires implementing this interface.
+ */
+export interface ImageModelProvider {
+  id: string;
+  label: string;
+  translate: (text: string) => Promise<string>;
+  generate: (params: GenerateImageParams, signal?: AbortSignal) => Promise<GenerateImageResult>; // Aborting rejects with an AbortError
+  analyze: (params: AnalyzeSceneParams) => Promise<AnalyzeSceneResult>;
+  chat: (history: ChatMessage[], systemInstructionTemplate?: string) => Promise<string>;
+  edit: (params: EditImageWithChatParams) => Promise<EditImageResult>;
+}
@@ -0,0 +1,73 @@
+import type { SceneAnalysisResult } from '../types';
+import { shotFramingOptions, shotAngleOptions, lensOptions } from './cameraPresets';
+
+// SCENE ANALYSIS
+// The model answers with JSON following the schema in the API proxy. Models
+// drift from a schema now and then, so every answer goes through
+// `normalizeSceneAnalysis` before the app sees it.
+
+export const SHOT_TYPE_VALUES = shotFramingOptions.map(opt => opt.value);
+export const ANGLE_TYPE_VALUES = shotAngleOptions.map(opt => opt.value);
+export const LENS_VALUES = lensOptions.map(opt => opt.value);
+
+// Vanishing points far outside the frame are still useful, but beyond this they are noise
+const MAX_POINT_DISTANCE = 5;
+
+// HELPER FUNCTIONS
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const oneOf = (value: unknown, allowed: string[]): string => (typeof value === 'string' && allowed.includes(value) ? value : 'none');
+
+const fraction = (value: unknown, limit: number): number | null => (
+  typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit ? value : null
+);
+
+const list = (value: unknown): any[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Turns a model answer into a well-formed result. Throws only when there is no usable summary.
+ */
+export const normalizeSceneAnalysis = (raw: any): SceneAnalysisResult => {
+  const summary = text(raw?.summary);
+  if (!summary) {
+    throw new Error('Invalid JSON structure in analysis response.');
+  }
+  return {
+    summary,
+    characters: list(raw.characters)
+      .map(c => ({ name: text(c?.name), pose: text(c?.pose), facing: text(c?.facing) }))
+      .filter(c => c.name || c.pose),
+    camera: {
+      shotType: oneOf(raw.camera?.shotType, SHOT_TYPE_VALUES),
+      angleType: oneOf(raw.camera?.angleType, ANGLE_TYPE_VALUES),
+      lens: oneOf(raw.camera?.lens, LENS_VALUES),
+      reason: text(raw.camera?.reason),
+    },
+    perspective: {
+      horizonY: fraction(raw.perspective?.horizonY, MAX_POINT_DISTANCE),
+      vanishingPoints: list(raw.perspective?.vanishingPoints)
+        .map(vp => ({ x: fraction(vp?.x, MAX_POINT_DISTANCE), y: fraction(vp?.y, MAX_POINT_DISTANCE) }))
+        .filter((vp): vp is { x: number; y: number } => vp.x !== null && vp.y !== null)
+        .slice(0, 3),
+      reason: text(raw.perspective?.reason),
+    },
+    compositionIssues: list(raw.compositionIssues)
+      .map(issue => ({
+        severity: issue?.severity === 'warning' ? 'warning' as const : 'info' as const,
+        issue: text(issue?.issue),
+        suggestion: text(issue?.suggestion),
+      }))
+      .filter(issue => issue.issue),
+    continuityWarnings: list(raw.continuityWarnings).map(text).filter(Boolean),
+  };
+};
+
+/**
+ * The vanishing points to place for an analysis, as canvas fractions. A horizon
+ * without points becomes a single central vanishing point on it.
+ */
+export const suggestedVanishingPoints = ({ perspective }: SceneAnalysisResult): { x: number; y: number }[] => {
+  if (perspective.vanishingPoints.length > 0) return perspective.vanishingPoints;
+  if (perspective.horizonY !== null) return [{ x: 0.5, y: perspective.horizonY }];
+  return [];
+};
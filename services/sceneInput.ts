@@ -0,0 +1,140 @@
+import type { CanvasDocument, PerspectiveData, PoseImage } from '../types';
+import { normalizeGuideSets, perspectiveDataFor } from './perspectiveGrid';
+import { rasterizeVectorShapes } from './vectorShapes';
+import { rasterizeSkeletons, skeletonKeypoints } from './poseSkeleton';
+
+// SCENE INPUT
+// What a generation request needs from the layout canvas. DrawingCanvas
+// reports it for the cut on screen; `documentToSceneInput` derives the same
+// from a saved canvas, for cuts that are not open.
+
+export interface SceneInput {
+  poses: PoseImage[];
+  perspective: PerspectiveData;
+  dimensions: { width: number; height: number };
+  sketchBoundingBox: { x: number; y: number; width: number; height: number } | null;
+  globalReferenceImage: { imageDataUrl: string } | null;
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = (err) => reject(err);
+    img.src = src;
+  });
+};
+
+/**
+ * The box around every non-transparent pixel of the given canvases, or null when all are empty.
+ */
+export const getContentBoundingBox = (canvases: HTMLCanvasElement[]): { x: number, y: number, width: number, height: number } | null => {
+  let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1;
+  let hasContent = false;
+
+  for (const canvas of canvases) {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) continue;
+
+    try {
+      const data = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+      for (let y = 0; y < canvas.height; y++) {
+        for (let x = 0; x < canvas.width; x++) {
+          const alpha = data[(y * canvas.width + x) * 4 + 3];
+          if (alpha > 0) {
+            hasContent = true;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+          }
+        }
+      }
+    } catch (e) {
+      console.error("Error getting image data for bounding box:", e);
+    }
+  }
+
+  if (!hasContent) {
+    return null;
+  }
+
+  return {
+    x: minX,
+    y: minY,
+    width: maxX - minX + 1,
+    height: maxY - minY + 1,
+  };
+};
+
+export const documentToSceneInput = async (document: CanvasDocument): Promise<SceneInput> => {
+  const { width, height } = document.canvasDimensions;
+  const poses: PoseImage[] = [];
+  const sketchCanvases: HTMLCanvasElement[] = [];
+
+  for (const layer of document.layers.filter(l => l.isVisible)) {
+    const skeletons = layer.type === 'pose' ? layer.skeletons ?? [] : [];
+    if (skeletons.length > 0) { // A guide image of its own, not a sketch; it still places the characters
+      const skeletonCanvas = rasterizeSkeletons(skeletons, document.canvasDimensions);
+      sketchCanvases.push(skeletonCanvas);
+      poses.push({
+        name: layer.name,
+        imageDataUrl: '',
+        setteiImages: layer.setteiImages?.map(img => ({
+          imageUrl: img.dataUrl,
+          maskUrl: img.maskDataUrl,
+        })) || [],
+        points: layer.points,
+        skeletonImageDataUrl: skeletonCanvas.toDataURL('image/png'),
+        skeletons: skeletons.map(skeletonKeypoints),
+      });
+      continue;
+    }
+
+    let sketchDataUrl = '';
+    const savedSketch = document.layerSketches[layer.id];
+    let canvas: HTMLCanvasElement | null = null;
+    if (layer.type === 'vector') {
+      canvas = rasterizeVectorShapes(layer.shapes ?? [], document.canvasDimensions);
+    } else if (savedSketch && layer.type !== 'pose') {
+      canvas = window.document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d', { willReadFrequently: true })?.drawImage(await loadImage(savedSketch), 0, 0);
+    }
+    const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+    if (canvas && ctx) {
+      sketchCanvases.push(canvas);
+      // Same rule as the live canvas: a blank layer contributes no sketch
+      if (ctx.getImageData(0, 0, width, height).data.some(channel => channel !== 0)) {
+        sketchDataUrl = canvas.toDataURL('image/png');
+      }
+    }
+
+    const hasContent = sketchDataUrl || (layer.points && layer.points.length > 0) || (layer.setteiImages && layer.setteiImages.length > 0);
+    if (hasContent) {
+      poses.push({
+        name: layer.name,
+        imageDataUrl: sketchDataUrl,
+        setteiImages: layer.setteiImages?.map(img => ({
+          imageUrl: img.dataUrl,
+          maskUrl: img.maskDataUrl,
+        })) || [],
+        points: layer.points,
+      });
+    }
+  }
+
+  const { guideSets, activeGuideSetId } = normalizeGuideSets(document);
+  const activeGuideSet = guideSets.find(set => set.id === activeGuideSetId) ?? null;
+
+  return {
+    poses,
+    perspective: perspectiveDataFor(activeGuideSet, document.canvasDimensions, document.lens ?? 'none'),
+    dimensions: document.canvasDimensions,
+    sketchBoundingBox: getContentBoundingBox(sketchCanvases),
+    globalReferenceImage: document.globalReference && document.globalReference.isVisible
+      ? { imageDataUrl: document.globalReference.dataUrl }
+      : null,
+  };
+};
@@ -0,0 +1,372 @@
+import { squareToQuad } from './perspectiveSnap';
+
+// SELECTION TRANSFORM
+// Rectangle and lasso selections on sketch layers, and the pixels they lift
+// out for transforming. A floating selection is an image and the quad its
+// corners are drawn to (top left, top right, bottom right, bottom left), so
+// moving, scaling, rotating and flipping all come down to moving the corners;
+// a perspective distort is a quad that is no longer a parallelogram, drawn as
+// a mesh of triangles. Positions are canvas pixels.
+
+type Point = { x: number; y: number };
+
+export type SelectionTransformMode = 'scale' | 'free' | 'distort';
+
+export const SELECTION_TRANSFORM_MODE_OPTIONS: { id: SelectionTransformMode; label: string }[] = [
+  { id: 'scale', label: '크기' },
+  { id: 'free', label: '자유 변형' },
+  { id: 'distort', label: '원근 왜곡' },
+];
+
+export interface FloatingSelection {
+  layerId: number;
+  image: HTMLCanvasElement;
+  corners: Point[];
+  // Where the pixels were lifted from, to put them back on cancel; null when pasted
+  origin: Point | null;
+}
+
+/** Part of a floating selection under the pointer: a corner, the middle of the edge from that corner, the rotate handle, or the inside. */
+export type SelectionHandle =
+  | { kind: 'corner'; index: number }
+  | { kind: 'edge'; index: number }
+  | { kind: 'rotate' }
+  | { kind: 'move' };
+
+export const SELECTION_HANDLE_RADIUS = 5; // Screen pixels
+const ROTATE_HANDLE_OFFSET = 24; // Screen pixels outside the top edge
+const ROTATE_SNAP = Math.PI / 12;
+const MIN_SELECTION_SIZE = 2;
+const WARP_GRID = 12;
+const SEAM_OVERLAP = 0.6; // Canvas pixels each mesh triangle is grown by, so no gaps show between them
+
+// HELPER FUNCTIONS
+const add = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const sub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const mid = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+const centerOf = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+});
+
+const rotateAround = (point: Point, center: Point, angle: number): Point => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+// `p` as a * u + b * v, or null when u and v are parallel
+const inBasis = (p: Point, u: Point, v: Point): { a: number; b: number } | null => {
+  const det = u.x * v.y - v.x * u.y;
+  if (Math.abs(det) < 1e-9) return null;
+  return { a: (p.x * v.y - v.x * p.y) / det, b: (u.x * p.y - p.x * u.y) / det };
+};
+
+const tracePath = (ctx: CanvasRenderingContext2D, path: Point[]) => {
+  ctx.beginPath();
+  path.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.closePath();
+};
+
+const pathBounds = (path: Point[]) => {
+  const xs = path.map(p => p.x);
+  const ys = path.map(p => p.y);
+  const x = Math.floor(Math.min(...xs));
+  const y = Math.floor(Math.min(...ys));
+  return { x, y, width: Math.ceil(Math.max(...xs)) - x, height: Math.ceil(Math.max(...ys)) - y };
+};
+
+// SELECTIONS
+export const rectanglePath = (a: Point, b: Point): Point[] => [
+  { x: a.x, y: a.y },
+  { x: b.x, y: a.y },
+  { x: b.x, y: b.y },
+  { x: a.x, y: b.y },
+];
+
+/** Whether a finished marquee encloses anything; a click without a drag does not. */
+export const isUsableSelection = (path: Point[]): boolean => {
+  if (path.length < 3) return false;
+  const bounds = pathBounds(path);
+  return bounds.width >= MIN_SELECTION_SIZE && bounds.height >= MIN_SELECTION_SIZE;
+};
+
+export const pointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** The pixels of `source` inside the selection, cut to its bounds, and where they sit on the canvas. */
+export const copySelectionPixels = (source: HTMLCanvasElement, path: Point[]): { image: HTMLCanvasElement; origin: Point } | null => {
+  const bounds = pathBounds(path);
+  const x = Math.max(0, bounds.x);
+  const y = Math.max(0, bounds.y);
+  const width = Math.min(source.width, bounds.x + bounds.width) - x;
+  const height = Math.min(source.height, bounds.y + bounds.height) - y;
+  if (width <= 0 || height <= 0) return null;
+
+  const image = document.createElement('canvas');
+  image.width = width;
+  image.height = height;
+  const ctx = image.getContext('2d');
+  if (!ctx) return null;
+  ctx.translate(-x, -y);
+  tracePath(ctx, path);
+  ctx.clip();
+  ctx.drawImage(source, 0, 0);
+  return { image, origin: { x, y } };
+};
+
+export const clearSelectionPixels = (ctx: CanvasRenderingContext2D, path: Point[]) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-out';
+  ctx.globalAlpha = 1;
+  tracePath(ctx, path);
+  ctx.fill();
+  ctx.restore();
+};
+
+/** Pixels placed with their top left at `origin`, ready to be transformed. */
+export const floatSelection = (layerId: number, image: HTMLCanvasElement, origin: Point, lifted: boolean): FloatingSelection => ({
+  layerId,
+  image,
+  corners: rectanglePath(origin, { x: origin.x + image.width, y: origin.y + image.height }),
+  origin: lifted ? origin : null,
+});
+
+/** Takes the selected pixels off the layer's canvas into a floating selection. */
+export const liftSelection = (layerId: number, canvas: HTMLCanvasElement, path: Point[]): FloatingSelection | null => {
+  const copied = copySelectionPixels(canvas, path);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!copied || !ctx) return null;
+  clearSelectionPixels(ctx, path);
+  return floatSelection(layerId, copied.image, copied.origin, true);
+};
+
+// DRAWING
+// The affine map taking triangle s0 s1 s2 onto d0 d1 d2, as canvas transform arguments
+const triangleTransform = (s: Point[], d: Point[]): [number, number, number, number, number, number] | null => {
+  const u = sub(s[1], s[0]);
+  const v = sub(s[2], s[0]);
+  const p = sub(d[1], d[0]);
+  const q = sub(d[2], d[0]);
+  const det = u.x * v.y - v.x * u.y;
+  if (Math.abs(det) < 1e-9) return null;
+  const a = (p.x * v.y - q.x * u.y) / det;
+  const c = (q.x * u.x - p.x * v.x) / det;
+  const b = (p.y * v.y - q.y * u.y) / det;
+  const dd = (q.y * u.x - p.y * v.x) / det;
+  return [a, b, c, dd, d[0].x - a * s[0].x - c * s[0].y, d[0].y - b * s[0].x - dd * s[0].y];
+};
+
+const isParallelogram = ([a, b, c, d]: Point[]): boolean =>
+  Math.hypot(a.x + c.x - b.x - d.x, a.y + c.y - b.y - d.y) < 0.5;
+
+export const drawFloatingSelection = (ctx: CanvasRenderingContext2D, floating: FloatingSelection) => {
+  const { image, corners } = floating;
+  const { width, height } = image;
+  ctx.save();
+  ctx.globalAlpha = 1;
+  ctx.globalCompositeOperation = 'source-over';
+
+  if (isParallelogram(corners)) {
+    const transform = triangleTransform(
+      [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: 0, y: height }],
+      [corners[0], corners[1], corners[3]],
+    );
+    if (transform) {
+      ctx.transform(...transform);
+      ctx.drawImage(image, 0, 0);
+    }
+    ctx.restore();
+    return;
+  }
+
+  // A perspective distort: each grid cell is drawn as two affine triangles
+  const map = squareToQuad(corners);
+  const grow = (triangle: Point[]): Point[] => {
+    const center = centerOf(triangle);
+    return triangle.map(p => {
+      const length = Math.hypot(p.x - center.x, p.y - center.y) || 1;
+      return { x: p.x + ((p.x - center.x) / length) * SEAM_OVERLAP, y: p.y + ((p.y - center.y) / length) * SEAM_OVERLAP };
+    });
+  };
+  for (let row = 0; row < WARP_GRID; row++) {
+    for (let column = 0; column < WARP_GRID; column++) {
+      const cell = [[column, row], [column + 1, row], [column + 1, row + 1], [column, row + 1]].map(([i, j]) => ({ u: i / WARP_GRID, v: j / WARP_GRID }));
+      const source = cell.map(({ u, v }) => ({ x: u * width, y: v * height }));
+      const target = cell.map(({ u, v }) => map(u, v));
+      for (const [i, j, k] of [[0, 1, 2], [0, 2, 3]]) {
+        const transform = triangleTransform([source[i], source[j], source[k]], [target[i], target[j], target[k]]);
+        if (!transform) continue;
+        ctx.save();
+        tracePath(ctx, grow([target[i], target[j], target[k]]));
+        ctx.clip();
+        ctx.transform(...transform);
+        ctx.drawImage(image, 0, 0);
+        ctx.restore();
+      }
+    }
+  }
+  ctx.restore();
+};
+
+/** The floating selection drawn into an image of its own bounds, for the clipboard. */
+export const renderFloatingSelection = (floating: FloatingSelection): { image: HTMLCanvasElement; origin: Point } | null => {
+  const bounds = pathBounds(floating.corners);
+  if (bounds.width <= 0 || bounds.height <= 0) return null;
+  const image = document.createElement('canvas');
+  image.width = bounds.width;
+  image.height = bounds.height;
+  const ctx = image.getContext('2d');
+  if (!ctx) return null;
+  ctx.translate(-bounds.x, -bounds.y);
+  drawFloatingSelection(ctx, floating);
+  return { image, origin: { x: bounds.x, y: bounds.y } };
+};
+
+/** The marquee outline: a dashed black line over a white one, so it shows on any drawing. */
+export const drawSelectionOutline = (ctx: CanvasRenderingContext2D, path: Point[], zoom: number) => {
+  if (path.length < 2) return;
+  ctx.save();
+  ctx.lineWidth = 1 / zoom;
+  tracePath(ctx, path);
+  ctx.strokeStyle = '#fff';
+  ctx.stroke();
+  ctx.setLineDash([4 / zoom, 4 / zoom]);
+  ctx.strokeStyle = '#000';
+  ctx.stroke();
+  ctx.restore();
+};
+
+// HANDLES
+const rotateHandle = (corners: Point[], zoom: number): Point => {
+  const top = mid(corners[0], corners[1]);
+  const outward = sub(top, centerOf(corners));
+  const length = Math.hypot(outward.x, outward.y);
+  const direction = length > 1e-6 ? { x: outward.x / length, y: outward.y / length } : { x: 0, y: -1 };
+  return { x: top.x + (direction.x * ROTATE_HANDLE_OFFSET) / zoom, y: top.y + (direction.y * ROTATE_HANDLE_OFFSET) / zoom };
+};
+
+const edgeHandles = (corners: Point[]): Point[] => corners.map((corner, i) => mid(corner, corners[(i + 1) % 4]));
+
+export const drawTransformFrame = (ctx: CanvasRenderingContext2D, corners: Point[], zoom: number) => {
+  const rotate = rotateHandle(corners, zoom);
+  const size = (SELECTION_HANDLE_RADIUS * 2) / zoom;
+  ctx.save();
+  ctx.strokeStyle = '#3b82f6';
+  ctx.fillStyle = '#fff';
+  ctx.lineWidth = 1 / zoom;
+  tracePath(ctx, corners);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo((corners[0].x + corners[1].x) / 2, (corners[0].y + corners[1].y) / 2);
+  ctx.lineTo(rotate.x, rotate.y);
+  ctx.stroke();
+  ctx.lineWidth = 1.5 / zoom;
+  [...corners, ...edgeHandles(corners)].forEach(p => {
+    ctx.fillRect(p.x - size / 2, p.y - size / 2, size, size);
+    ctx.strokeRect(p.x - size / 2, p.y - size / 2, size, size);
+  });
+  ctx.beginPath();
+  ctx.arc(rotate.x, rotate.y, SELECTION_HANDLE_RADIUS / zoom, 0, 2 * Math.PI);
+  ctx.fill();
+  ctx.stroke();
+  ctx.restore();
+};
+
+export const findSelectionHandle = (corners: Point[], point: Point, zoom: number): SelectionHandle | null => {
+  const radius = (SELECTION_HANDLE_RADIUS + 2) / zoom;
+  const near = (p: Point) => Math.hypot(p.x - point.x, p.y - point.y) <= radius;
+  if (near(rotateHandle(corners, zoom))) return { kind: 'rotate' };
+  const corner = corners.findIndex(near);
+  if (corner >= 0) return { kind: 'corner', index: corner };
+  const edge = edgeHandles(corners).findIndex(near);
+  if (edge >= 0) return { kind: 'edge', index: edge };
+  return pointInPolygon(point, corners) ? { kind: 'move' } : null;
+};
+
+// TRANSFORMS
+// Scales the quad about `anchor` along its own axes (top edge and left edge)
+const scaleCorners = (corners: Point[], anchor: Point, scaleU: number, scaleV: number): Point[] => {
+  const u = sub(corners[1], corners[0]);
+  const v = sub(corners[3], corners[0]);
+  return corners.map(corner => {
+    const local = inBasis(sub(corner, anchor), u, v);
+    if (!local) return corner;
+    return {
+      x: anchor.x + local.a * scaleU * u.x + local.b * scaleV * v.x,
+      y: anchor.y + local.a * scaleU * u.y + local.b * scaleV * v.y,
+    };
+  });
+};
+
+/**
+ * The corners after dragging `handle` from `from` to `to`, starting from the
+ * corners the drag began with. In every mode the inside moves and the rotate
+ * handle rotates (in 15° steps with `constrain`). Scale resizes from the
+ * opposite corner or edge, keeping the proportions with `constrain`; free
+ * transform also shears, by dragging an edge sideways; distort moves each
+ * corner on its own, for perspective.
+ */
+export const transformCorners = (
+  corners: Point[],
+  handle: SelectionHandle,
+  from: Point,
+  to: Point,
+  mode: SelectionTransformMode,
+  constrain: boolean,
+): Point[] => {
+  const delta = sub(to, from);
+  if (handle.kind === 'move') return corners.map(corner => add(corner, delta));
+
+  if (handle.kind === 'rotate') {
+    const center = centerOf(corners);
+    let angle = Math.atan2(to.y - center.y, to.x - center.x) - Math.atan2(from.y - center.y, from.x - center.x);
+    if (constrain) angle = Math.round(angle / ROTATE_SNAP) * ROTATE_SNAP;
+    return corners.map(corner => rotateAround(corner, center, angle));
+  }
+
+  if (handle.kind === 'edge' && mode !== 'scale') {
+    const next = (handle.index + 1) % 4;
+    return corners.map((corner, i) => (i === handle.index || i === next ? add(corner, delta) : corner));
+  }
+
+  if (handle.kind === 'corner' && mode === 'distort') {
+    return corners.map((corner, i) => (i === handle.index ? add(corner, delta) : corner));
+  }
+
+  const u = sub(corners[1], corners[0]);
+  const v = sub(corners[3], corners[0]);
+  const anchor = handle.kind === 'corner'
+    ? corners[(handle.index + 2) % 4]
+    : mid(corners[(handle.index + 2) % 4], corners[(handle.index + 3) % 4]);
+  const start = inBasis(sub(from, anchor), u, v);
+  const end = inBasis(sub(to, anchor), u, v);
+  if (!start || !end) return corners;
+  let scaleU = Math.abs(start.a) > 1e-6 ? end.a / start.a : 1;
+  let scaleV = Math.abs(start.b) > 1e-6 ? end.b / start.b : 1;
+  if (handle.kind === 'edge') {
+    // The top and bottom edges resize along the left edge, the others along the top
+    if (handle.index % 2 === 0) scaleU = 1;
+    else scaleV = 1;
+  } else if (constrain) {
+    const scale = Math.max(Math.abs(scaleU), Math.abs(scaleV));
+    scaleU = Math.sign(scaleU || 1) * scale;
+    scaleV = Math.sign(scaleV || 1) * scale;
+  }
+  return scaleCorners(corners, anchor, scaleU, scaleV);
+};
+
+/** Mirrors the pixels within their quad by swapping its corners. */
+export const flipCorners = ([tl, tr, br, bl]: Point[], axis: 'horizontal' | 'vertical'): Point[] =>
+  axis === 'horizontal' ? [tr, tl, bl, br] : [bl, br, tr, tl];
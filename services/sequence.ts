@@ -0,0 +1,73 @@
+import type { CameraOptions, Cut } from '../types';
+
+// SEQUENCE HELPERS
+// Cut defaults and the seconds+frames notation used on timesheets.
+
+export const FRAMES_PER_SECOND = 24;
+
+export const DEFAULT_CAMERA_OPTIONS: CameraOptions = {
+  shotType: 'none',
+  angleType: 'none',
+  lens: '50mm',
+  verticalAngle: 0,
+  horizontalAngle: 0,
+  rollAngle: 0,
+  horizontalShift: 0,
+  verticalShift: 0,
+  dolly: 0,
+  zoomLevel: 1.0,
+};
+
+export const DEFAULT_NEGATIVE_DIRECTIVE = '배경 삭제, 컬러링 금지,창작금지.콘티 랜더링 금지';
+
+export const createCut = (cutNumber: string): Cut => ({
+  id: Date.now() + Math.floor(Math.random() * 1000),
+  cutNumber,
+  durationFrames: 3 * FRAMES_PER_SECOND,
+  notes: '',
+  cameraOptions: { ...DEFAULT_CAMERA_OPTIONS },
+  directiveInput: '',
+  negativeDirectiveInput: DEFAULT_NEGATIVE_DIRECTIVE,
+  canvas: null,
+  history: [],
+});
+
+// A cut is pending until it has at least one generated image
+export const isCutPending = (cut: Cut): boolean => cut.history.length === 0;
+
+/**
+ * The number after the highest numbered cut, keeping its prefix and padding ("C012" -> "C013").
+ */
+export const nextCutNumber = (cuts: Cut[]): string => {
+  let best: { prefix: string; value: number; width: number } | null = null;
+  for (const cut of cuts) {
+    const match = cut.cutNumber.match(/^(.*?)(\d+)$/);
+    if (match && (!best || Number(match[2]) > best.value)) {
+      best = { prefix: match[1], value: Number(match[2]), width: match[2].length };
+    }
+  }
+  if (!best) {
+    return `C${String(cuts.length + 1).padStart(3, '0')}`;
+  }
+  return `${best.prefix}${String(best.value + 1).padStart(best.width, '0')}`;
+};
+
+// 76 frames -> "3+4"
+export const formatDuration = (frames: number): string =>
+  `${Math.floor(frames / FRAMES_PER_SECOND)}+${frames % FRAMES_PER_SECOND}`;
+
+/**
+ * Parses "3+4" (seconds+frames), "3" (seconds) or "k76" (frames). Returns null for anything else.
+ */
+export const parseDuration = (text: string): number | null => {
+  const trimmed = text.trim();
+  const framesOnly = trimmed.match(/^k(\d+)$/i);
+  if (framesOnly) {
+    return Number(framesOnly[1]);
+  }
+  const match = trimmed.match(/^(\d+)(?:\+(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * FRAMES_PER_SECOND + Number(match[2] ?? 0);
+};
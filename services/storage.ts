@@ -0,0 +1,706 @@
+import type { CanvasDocument, Cut, GenerationRecipe, HistoryItem, Sequence, SerializedEditHistory, SerializedGlobalReference, SerializedLayer } from '../types';
+import { mapEditHistoryImages } from './editHistory';
+
+// LOCAL PERSISTENCE
+// The autosaved canvas and the generation history live in IndexedDB, with
+// every image stored as a Blob. localStorage caps out at a few megabytes, which
+// a handful of settei images and history entries used to exceed.
+// The canvas and history stores hold the active cut; the sequence store holds
+// the cut list, including the saved state of every other cut.
+// The canvas a generation was made from is kept with its history item, and
+// consecutive generations mostly share its images, so recipe images are
+// stored once each in the blob store, keyed by a hash of their content.
+// The canvas's edit history is kept apart from it, one record per step, so an
+// autosave writes only the steps made or dropped since the last one.
+
+const DB_NAME = 'layout-assistant';
+const DB_VERSION = 4;
+const CANVAS_STORE = 'canvas';
+const HISTORY_STORE = 'history';
+const SEQUENCE_STORE = 'sequence';
+const BLOB_STORE = 'blobs';
+const EDIT_HISTORY_STORE = 'editHistory';
+const CURRENT_CANVAS_KEY = 'current';
+const CURRENT_SEQUENCE_KEY = 'current';
+const EDIT_HISTORY_CURSOR_KEY = 'cursor';
+
+// Keys written by earlier releases; moved into IndexedDB on first open
+const LEGACY_CANVAS_KEY = 'character-poser-canvas';
+const LEGACY_HISTORY_KEY = 'character-poser-history';
+
+// Stored shapes: the serialized types with data URLs replaced by Blobs
+interface StoredLayer<Image = Blob> extends Omit<SerializedLayer, 'setteiImages'> {
+  setteiImages?: { image: Image; mask?: Image }[];
+}
+
+interface StoredCanvasDocument<Image = Blob> extends Omit<CanvasDocument, 'layers' | 'layerSketches' | 'globalReference' | 'editHistory'> {
+  layers: StoredLayer<Image>[];
+  layerSketches: Record<number, Image>;
+  globalReference: (Omit<SerializedGlobalReference, 'originalDataUrl' | 'dataUrl'> & { original: Image; edited: Image }) | null;
+  editHistory?: SerializedEditHistory<Image>;
+}
+
+// The key of an image in the blob store: a hash of its content
+type BlobRef = string;
+
+type EditEntry<Image = string> = SerializedEditHistory<Image>['entries'][number];
+
+// Stored next to the steps: which step is shown, and the steps in order
+interface EditHistoryCursor {
+  currentId: number | null;
+  entryIds: number[];
+}
+
+interface StoredRecipe extends Omit<GenerationRecipe, 'canvas' | 'editBaseImageUrl'> {
+  canvas: StoredCanvasDocument<BlobRef | Blob> | null; // Blobs in records written before the blob store
+  editBaseImage: Blob | null;
+}
+
+interface StoredHistoryItem extends Omit<HistoryItem, 'imageUrl' | 'thumbnailUrl' | 'recipe'> {
+  image: Blob;
+  thumbnail: Blob;
+  recipe?: StoredRecipe;
+}
+
+interface StoredCut extends Omit<Cut, 'canvas' | 'history'> {
+  canvas: StoredCanvasDocument | null;
+  history: StoredHistoryItem[];
+}
+
+interface StoredSequence {
+  activeCutId: number;
+  cuts: StoredCut[];
+}
+
+export interface StorageUsage {
+  usage: number; // Bytes used by this origin
+  quota: number; // Bytes the browser allows this origin
+}
+
+type StorageListener = (error: Error | null) => void;
+
+const listeners = new Set<StorageListener>();
+
+// A history item ready to store, with the recipe images it refers to
+interface PreparedHistoryItem {
+  item: StoredHistoryItem;
+  blobs: Map<BlobRef, Blob>;
+}
+
+// History items never change once made, so each is converted once, however
+// many stores it is written to
+const preparedItems = new WeakMap<HistoryItem, Promise<PreparedHistoryItem>>();
+// The items the history store holds, by ID, as last written or loaded.
+// null: unknown (nothing loaded yet, or a write failed), so the next save rewrites it all.
+let storedHistory: Map<number, HistoryItem> | null = null;
+// The recipe images the sequence store referred to at its last save
+let storedSequenceRefs = new Set<BlobRef>();
+// The steps the edit history store holds, by ID, as last written or loaded. null: unknown.
+let storedEditEntries: Map<number, EditEntry> | null = null;
+
+// HELPER FUNCTIONS
+const dataUrlToBlob = (dataUrl: string): Blob => {
+  const commaIndex = dataUrl.indexOf(',');
+  const header = dataUrl.slice(0, commaIndex);
+  const payload = dataUrl.slice(commaIndex + 1);
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  if (!header.endsWith(';base64')) {
+    return new Blob([decodeURIComponent(payload)], { type: mimeType });
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+// Decodes off the main thread, unlike atob
+const dataUrlToBlobAsync = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+// 53-bit hash for pages without crypto.subtle (plain http on another machine)
+const hashBytes = (bytes: Uint8Array): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < bytes.length; i++) {
+    h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+    h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+};
+
+const hashBlob = async (blob: Blob): Promise<BlobRef> => {
+  const buffer = await blob.arrayBuffer();
+  if (!crypto.subtle) {
+    return `${blob.size}-${hashBytes(new Uint8Array(buffer))}`;
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', buffer));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB 트랜잭션이 중단되었습니다.'));
+  });
+};
+
+const notify = (error: Error | null) => {
+  listeners.forEach(listener => listener(error));
+};
+
+const toStoredCanvas = <Image = Blob>(
+  document: CanvasDocument,
+  convert: (dataUrl: string) => Image = dataUrlToBlob as (dataUrl: string) => Image,
+): StoredCanvasDocument<Image> => ({
+  ...document,
+  layers: document.layers.map(({ setteiImages, ...layer }) => ({
+    ...layer,
+    setteiImages: setteiImages?.map(settei => ({
+      image: convert(settei.dataUrl),
+      ...(settei.maskDataUrl ? { mask: convert(settei.maskDataUrl) } : {}),
+    })),
+  })),
+  layerSketches: Object.fromEntries(
+    Object.entries(document.layerSketches)
+      .filter(([, dataUrl]) => !!dataUrl)
+      .map(([id, dataUrl]) => [id, convert(dataUrl)])
+  ),
+  globalReference: document.globalReference && {
+    opacity: document.globalReference.opacity,
+    isVisible: document.globalReference.isVisible,
+    original: convert(document.globalReference.originalDataUrl),
+    edited: convert(document.globalReference.dataUrl),
+  },
+  editHistory: document.editHistory && mapEditHistoryImages(document.editHistory, convert),
+});
+
+// Swaps every image of a stored canvas. Images are visited in the same order every time.
+const mapStoredCanvasImages = <A, B>(stored: StoredCanvasDocument<A>, convert: (image: A) => B): StoredCanvasDocument<B> => ({
+  ...stored,
+  layers: stored.layers.map(({ setteiImages, ...layer }) => ({
+    ...layer,
+    setteiImages: setteiImages?.map(settei => ({
+      image: convert(settei.image),
+      ...(settei.mask !== undefined ? { mask: convert(settei.mask) } : {}),
+    })),
+  })),
+  layerSketches: Object.fromEntries(Object.entries(stored.layerSketches).map(([id, image]) => [id, convert(image)])),
+  globalReference: stored.globalReference && {
+    ...stored.globalReference,
+    original: convert(stored.globalReference.original),
+    edited: convert(stored.globalReference.edited),
+  },
+  editHistory: stored.editHistory && mapEditHistoryImages(stored.editHistory, image => convert(image)),
+});
+
+/**
+ * The canvas with each image replaced by its blob store key, and the images
+ * by key. An image used several times is converted and hashed once.
+ */
+const toStoredRecipeCanvas = async (canvas: CanvasDocument): Promise<{ canvas: StoredCanvasDocument<BlobRef>; blobs: Map<BlobRef, Blob> }> => {
+  const withDataUrls = toStoredCanvas(canvas, dataUrl => dataUrl);
+  const refsByDataUrl = new Map<string, Promise<{ ref: BlobRef; blob: Blob }>>();
+  mapStoredCanvasImages(withDataUrls, dataUrl => {
+    if (!refsByDataUrl.has(dataUrl)) {
+      refsByDataUrl.set(dataUrl, dataUrlToBlobAsync(dataUrl).then(async blob => ({ ref: await hashBlob(blob), blob })));
+    }
+  });
+  const entries = new Map<string, { ref: BlobRef; blob: Blob }>();
+  await Promise.all([...refsByDataUrl].map(async ([dataUrl, entry]) => { entries.set(dataUrl, await entry); }));
+  return {
+    canvas: mapStoredCanvasImages(withDataUrls, dataUrl => entries.get(dataUrl)!.ref),
+    blobs: new Map([...entries.values()].map(({ ref, blob }) => [ref, blob])),
+  };
+};
+
+const canvasRefs = (canvas: StoredCanvasDocument<BlobRef | Blob> | null | undefined): BlobRef[] => {
+  const refs: BlobRef[] = [];
+  if (canvas) {
+    mapStoredCanvasImages(canvas, image => { if (typeof image === 'string') refs.push(image); });
+  }
+  return refs;
+};
+
+const editHistoryFromBlobs = async (stored: SerializedEditHistory<Blob>): Promise<SerializedEditHistory> => {
+  const dataUrls: Promise<string>[] = [];
+  mapEditHistoryImages(stored, blob => dataUrls.push(blobToDataUrl(blob)));
+  const resolved = await Promise.all(dataUrls);
+  let next = 0; // Images are visited in the same order both times
+  return mapEditHistoryImages(stored, () => resolved[next++]);
+};
+
+// Converts the steps' images to Blobs off the main thread
+const toStoredEditEntries = async (entries: EditEntry[]): Promise<EditEntry<Blob>[]> => {
+  const history: SerializedEditHistory = { entries, currentId: null };
+  const blobs: Promise<Blob>[] = [];
+  mapEditHistoryImages(history, dataUrl => blobs.push(dataUrlToBlobAsync(dataUrl)));
+  const resolved = await Promise.all(blobs);
+  let next = 0; // Images are visited in the same order both times
+  return mapEditHistoryImages(history, () => resolved[next++]).entries;
+};
+
+const fromStoredCanvas = async (stored: StoredCanvasDocument): Promise<CanvasDocument> => {
+  const layers = await Promise.all(stored.layers.map(async ({ setteiImages, ...layer }) => ({
+    ...layer,
+    setteiImages: setteiImages && await Promise.all(setteiImages.map(async settei => ({
+      dataUrl: await blobToDataUrl(settei.image),
+      ...(settei.mask ? { maskDataUrl: await blobToDataUrl(settei.mask) } : {}),
+    }))),
+  })));
+  const sketchEntries = await Promise.all(
+    Object.entries(stored.layerSketches).map(async ([id, blob]) => [id, await blobToDataUrl(blob)] as const)
+  );
+  const { globalReference } = stored;
+
+  return {
+    ...stored,
+    layers,
+    layerSketches: Object.fromEntries(sketchEntries),
+    globalReference: globalReference && {
+      opacity: globalReference.opacity,
+      isVisible: globalReference.isVisible,
+      originalDataUrl: await blobToDataUrl(globalReference.original),
+      dataUrl: await blobToDataUrl(globalReference.edited),
+    },
+    editHistory: stored.editHistory && await editHistoryFromBlobs(stored.editHistory),
+  };
+};
+
+const prepareHistoryItem = async ({ imageUrl, thumbnailUrl, recipe, ...item }: HistoryItem): Promise<PreparedHistoryItem> => {
+  let storedRecipe: StoredRecipe | null = null;
+  let blobs = new Map<BlobRef, Blob>();
+  if (recipe) {
+    const { canvas, editBaseImageUrl, ...rest } = recipe;
+    const recipeCanvas = canvas ? await toStoredRecipeCanvas(canvas) : null;
+    blobs = recipeCanvas?.blobs ?? blobs;
+    storedRecipe = {
+      ...rest,
+      canvas: recipeCanvas?.canvas ?? null,
+      editBaseImage: editBaseImageUrl ? await dataUrlToBlobAsync(editBaseImageUrl) : null,
+    };
+  }
+  return {
+    item: {
+      ...item,
+      image: await dataUrlToBlobAsync(imageUrl),
+      thumbnail: await dataUrlToBlobAsync(thumbnailUrl),
+      ...(storedRecipe ? { recipe: storedRecipe } : {}),
+    },
+    blobs,
+  };
+};
+
+const toStoredHistoryItem = (item: HistoryItem): Promise<PreparedHistoryItem> => {
+  let prepared = preparedItems.get(item);
+  if (!prepared) {
+    prepared = prepareHistoryItem(item);
+    preparedItems.set(item, prepared);
+    prepared.catch(() => preparedItems.delete(item));
+  }
+  return prepared;
+};
+
+const fromStoredRecipe = async ({ canvas, editBaseImage, ...recipe }: StoredRecipe, blobs: Map<BlobRef, Blob>): Promise<GenerationRecipe> => {
+  // A canvas whose images are gone from the blob store is dropped, as if it had never been recorded
+  const isComplete = canvasRefs(canvas).every(ref => blobs.has(ref));
+  return {
+    ...recipe,
+    canvas: canvas && isComplete
+      ? await fromStoredCanvas(mapStoredCanvasImages(canvas, image => (typeof image === 'string' ? blobs.get(image)! : image)))
+      : null,
+    editBaseImageUrl: editBaseImage ? await blobToDataUrl(editBaseImage) : null,
+  };
+};
+
+// `blobs` holds the recipe images the items refer to (see readBlobs)
+const fromStoredHistoryItem = async ({ image, thumbnail, recipe, ...item }: StoredHistoryItem, blobs: Map<BlobRef, Blob>): Promise<HistoryItem> => ({
+  ...item,
+  imageUrl: await blobToDataUrl(image),
+  thumbnailUrl: await blobToDataUrl(thumbnail),
+  ...(recipe ? { recipe: await fromStoredRecipe(recipe, blobs) } : {}),
+});
+
+const toStoredCut = async ({ canvas, history, ...cut }: Cut): Promise<{ cut: StoredCut; blobs: Map<BlobRef, Blob> }> => {
+  const prepared = await Promise.all(history.map(toStoredHistoryItem));
+  return {
+    cut: { ...cut, canvas: canvas && toStoredCanvas(canvas), history: prepared.map(p => p.item) },
+    blobs: mergeBlobs(prepared),
+  };
+};
+
+const fromStoredCut = async ({ canvas, history, ...cut }: StoredCut, blobs: Map<BlobRef, Blob>): Promise<Cut> => ({
+  ...cut,
+  canvas: canvas && await fromStoredCanvas(canvas),
+  history: await Promise.all(history.map(item => fromStoredHistoryItem(item, blobs))),
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CANVAS_STORE)) {
+        db.createObjectStore(CANVAS_STORE);
+      }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SEQUENCE_STORE)) {
+        db.createObjectStore(SEQUENCE_STORE);
+      }
+      if (!db.objectStoreNames.contains(BLOB_STORE)) {
+        db.createObjectStore(BLOB_STORE);
+      }
+      if (!db.objectStoreNames.contains(EDIT_HISTORY_STORE)) {
+        db.createObjectStore(EDIT_HISTORY_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('다른 탭에서 이전 버전의 저장소를 사용 중입니다. 다른 탭을 닫고 새로고침해주세요.'));
+  });
+};
+
+const mergeBlobs = (prepared: { blobs: Map<BlobRef, Blob> }[]): Map<BlobRef, Blob> =>
+  new Map(prepared.flatMap(({ blobs }) => [...blobs]));
+
+// Adds the images the blob store does not hold yet
+const putBlobs = (transaction: IDBTransaction, blobs: Map<BlobRef, Blob>) => {
+  const store = transaction.objectStore(BLOB_STORE);
+  blobs.forEach((blob, ref) => {
+    const request = store.getKey(ref);
+    request.onsuccess = () => {
+      if (request.result === undefined) {
+        store.put(blob, ref);
+      }
+    };
+  });
+};
+
+// Deletes the images no item in the history or sequence store refers to
+const deleteUnusedBlobs = (transaction: IDBTransaction) => {
+  const history = transaction.objectStore(HISTORY_STORE).getAll() as IDBRequest<StoredHistoryItem[]>;
+  const sequence = transaction.objectStore(SEQUENCE_STORE).get(CURRENT_SEQUENCE_KEY) as IDBRequest<StoredSequence | undefined>;
+  const keys = transaction.objectStore(BLOB_STORE).getAllKeys();
+  // Requests complete in the order they were made, so all three results are in
+  keys.onsuccess = () => {
+    const items = [...history.result, ...(sequence.result?.cuts.flatMap(cut => cut.history) ?? [])];
+    const used = new Set(items.flatMap(item => canvasRefs(item.recipe?.canvas)));
+    keys.result.forEach(key => {
+      if (!used.has(key as BlobRef)) {
+        transaction.objectStore(BLOB_STORE).delete(key);
+      }
+    });
+  };
+};
+
+// Reads the recipe images that `items` refer to
+const readBlobs = async (db: IDBDatabase, items: StoredHistoryItem[]): Promise<Map<BlobRef, Blob>> => {
+  const refs = [...new Set(items.flatMap(item => canvasRefs(item.recipe?.canvas)))];
+  const store = db.transaction(BLOB_STORE).objectStore(BLOB_STORE);
+  const blobs = await Promise.all(refs.map(ref => requestToPromise<Blob | undefined>(store.get(ref))));
+  return new Map(refs.flatMap((ref, i) => (blobs[i] ? [[ref, blobs[i]!] as const] : [])));
+};
+
+/**
+ * Copies the localStorage entries of earlier releases into IndexedDB, then
+ * removes them. A legacy entry that cannot be parsed is dropped, as the old
+ * loader did.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  let legacyCanvas: CanvasDocument | null = null;
+  let legacyHistory: HistoryItem[] | null = null;
+  try {
+    const canvasJSON = localStorage.getItem(LEGACY_CANVAS_KEY);
+    const historyJSON = localStorage.getItem(LEGACY_HISTORY_KEY);
+    legacyCanvas = canvasJSON ? JSON.parse(canvasJSON) : null;
+    const parsedHistory = historyJSON ? JSON.parse(historyJSON) : null;
+    legacyHistory = Array.isArray(parsedHistory) ? parsedHistory : null;
+  } catch (e) {
+    console.error("이전 저장 데이터 읽기 실패", e);
+  }
+
+  if (legacyCanvas || legacyHistory) {
+    const prepared = await Promise.all((legacyHistory ?? []).map(toStoredHistoryItem));
+    const transaction = db.transaction([CANVAS_STORE, HISTORY_STORE, BLOB_STORE], 'readwrite');
+    if (legacyCanvas) {
+      transaction.objectStore(CANVAS_STORE).put(toStoredCanvas(legacyCanvas), CURRENT_CANVAS_KEY);
+    }
+    prepared.forEach(({ item }) => transaction.objectStore(HISTORY_STORE).put(item));
+    putBlobs(transaction, mergeBlobs(prepared));
+    await transactionDone(transaction);
+  }
+
+  localStorage.removeItem(LEGACY_CANVAS_KEY);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openDatabase().then(async db => {
+      try {
+        await migrateFromLocalStorage(db);
+      } catch (e) {
+        // Keep the legacy entries so the next start can retry
+        console.error("localStorage 데이터 이전 실패", e);
+      }
+      // Ask the browser not to evict the data under storage pressure
+      navigator.storage?.persist?.().catch(() => undefined);
+      return db;
+    });
+    databasePromise.catch(() => { databasePromise = null; });
+  }
+  return databasePromise;
+};
+
+let lastWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Runs writes one at a time, in call order, and reports each outcome to
+ * storage listeners. `prepare` converts the data and returns the transaction
+ * body; it runs in turn as well, so a slow conversion cannot reorder writes.
+ */
+const write = (storeNames: string[], prepare: () => Promise<(transaction: IDBTransaction) => void>): Promise<void> => {
+  const task = lastWrite.then(async () => {
+    try {
+      const action = await prepare();
+      const db = await getDatabase();
+      const transaction = db.transaction(storeNames, 'readwrite');
+      action(transaction);
+      await transactionDone(transaction);
+      notify(null);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      notify(error);
+      throw error;
+    }
+  });
+  lastWrite = task.catch(() => undefined);
+  return task;
+};
+
+// CANVAS
+// The edit history saved apart from the canvas, or undefined when there is none
+const loadEditHistory = async (db: IDBDatabase): Promise<SerializedEditHistory | undefined> => {
+  const store = db.transaction(EDIT_HISTORY_STORE).objectStore(EDIT_HISTORY_STORE);
+  const cursor = await requestToPromise<EditHistoryCursor | undefined>(store.get(EDIT_HISTORY_CURSOR_KEY));
+  if (!cursor) {
+    storedEditEntries = new Map();
+    return undefined;
+  }
+  const stored = await Promise.all(cursor.entryIds.map(id => requestToPromise<EditEntry<Blob> | undefined>(store.get(id))));
+  const history = await editHistoryFromBlobs({ entries: stored.filter((entry): entry is EditEntry<Blob> => !!entry), currentId: cursor.currentId });
+  storedEditEntries = new Map(history.entries.map(entry => [entry.id, entry]));
+  return history;
+};
+
+// Writes the steps that are not stored yet, deletes the ones that are gone and moves the cursor
+const writeEditHistory = async (history: SerializedEditHistory | null): Promise<(transaction: IDBTransaction) => void> => {
+  const previous = storedEditEntries;
+  const entries = history?.entries ?? [];
+  const ids = new Set(entries.map(entry => entry.id));
+  const removed = previous ? [...previous.keys()].filter(id => !ids.has(id)) : [];
+  const changed = entries.filter(entry => previous?.get(entry.id) !== entry);
+  const stored = await toStoredEditEntries(changed);
+  storedEditEntries = null;
+  return transaction => {
+    const store = transaction.objectStore(EDIT_HISTORY_STORE);
+    if (!previous) {
+      store.clear();
+    }
+    removed.forEach(id => store.delete(id));
+    stored.forEach(entry => store.put(entry, entry.id));
+    if (history) {
+      const cursor: EditHistoryCursor = { currentId: history.currentId, entryIds: entries.map(entry => entry.id) };
+      store.put(cursor, EDIT_HISTORY_CURSOR_KEY);
+    } else {
+      store.delete(EDIT_HISTORY_CURSOR_KEY);
+    }
+    transaction.addEventListener('complete', () => { storedEditEntries = new Map(entries.map(entry => [entry.id, entry])); });
+  };
+};
+
+export const loadCanvasDocument = async (): Promise<CanvasDocument | null> => {
+  const db = await getDatabase();
+  const stored = await requestToPromise<StoredCanvasDocument | undefined>(
+    db.transaction(CANVAS_STORE).objectStore(CANVAS_STORE).get(CURRENT_CANVAS_KEY)
+  );
+  if (!stored) {
+    return null;
+  }
+  const document = await fromStoredCanvas(stored);
+  const editHistory = await loadEditHistory(db);
+  if (!editHistory && document.editHistory) {
+    // Saved before the edit history store, with the history inline: move it
+    // there before the next canvas save drops it
+    saveCanvasEditHistory(document.editHistory).catch(e => console.error("편집 기록 이전 실패", e));
+  }
+  return editHistory ? { ...document, editHistory } : document;
+};
+
+/**
+ * Saves the canvas together with its edit history: `document.editHistory`,
+ * or none when it is absent.
+ */
+export const saveCanvasDocument = (document: CanvasDocument): Promise<void> => {
+  // Convert before awaiting, so the document is captured as it is now
+  const stored = toStoredCanvas({ ...document, editHistory: undefined });
+  return write([CANVAS_STORE, EDIT_HISTORY_STORE], async () => {
+    const writeHistory = await writeEditHistory(document.editHistory ?? null);
+    return transaction => {
+      transaction.objectStore(CANVAS_STORE).put(stored, CURRENT_CANVAS_KEY);
+      writeHistory(transaction);
+    };
+  });
+};
+
+/**
+ * Saves the canvas and leaves the stored edit history as it is; the editor
+ * saves that on its own schedule with saveCanvasEditHistory.
+ */
+export const saveCanvasContent = (document: CanvasDocument): Promise<void> => {
+  const stored = toStoredCanvas({ ...document, editHistory: undefined });
+  return write([CANVAS_STORE], async () => transaction => transaction.objectStore(CANVAS_STORE).put(stored, CURRENT_CANVAS_KEY));
+};
+
+/**
+ * Makes the stored edit history match `history` (null: none). Only the steps
+ * made or dropped since the last save are written.
+ */
+export const saveCanvasEditHistory = (history: SerializedEditHistory | null): Promise<void> =>
+  write([EDIT_HISTORY_STORE], () => writeEditHistory(history));
+
+export const clearCanvasDocument = (): Promise<void> =>
+  write([CANVAS_STORE, EDIT_HISTORY_STORE], async () => {
+    const writeHistory = await writeEditHistory(null);
+    return transaction => {
+      transaction.objectStore(CANVAS_STORE).delete(CURRENT_CANVAS_KEY);
+      writeHistory(transaction);
+    };
+  });
+
+// HISTORY
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  const db = await getDatabase();
+  const stored = await requestToPromise<StoredHistoryItem[]>(
+    db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE).getAll()
+  );
+  const blobs = await readBlobs(db, stored);
+  const items = await Promise.all(stored.map(item => fromStoredHistoryItem(item, blobs)));
+  storedHistory = new Map(items.map(item => [item.id, item]));
+  return items;
+};
+
+/**
+ * Makes the stored history match `items`. Only the items added or removed
+ * since the last save are written.
+ */
+export const saveHistory = (items: HistoryItem[]): Promise<void> => write([HISTORY_STORE, SEQUENCE_STORE, BLOB_STORE], async () => {
+  const previous = storedHistory;
+  const ids = new Set(items.map(item => item.id));
+  const removed = previous ? [...previous.keys()].filter(id => !ids.has(id)) : [];
+  const prepared = await Promise.all(items.filter(item => previous?.get(item.id) !== item).map(toStoredHistoryItem));
+  // Unknown until the write commits, so a failed one makes the next save rewrite everything
+  storedHistory = null;
+  return transaction => {
+    const store = transaction.objectStore(HISTORY_STORE);
+    if (!previous) {
+      store.clear();
+    }
+    removed.forEach(id => store.delete(id));
+    prepared.forEach(({ item }) => store.put(item));
+    putBlobs(transaction, mergeBlobs(prepared));
+    if (!previous || removed.length > 0) {
+      deleteUnusedBlobs(transaction);
+    }
+    transaction.addEventListener('complete', () => { storedHistory = new Map(items.map(item => [item.id, item])); });
+  };
+});
+
+export const clearHistory = (): Promise<void> => write([HISTORY_STORE, SEQUENCE_STORE, BLOB_STORE], async () => {
+  storedHistory = null;
+  return transaction => {
+    transaction.objectStore(HISTORY_STORE).clear();
+    deleteUnusedBlobs(transaction);
+    transaction.addEventListener('complete', () => { storedHistory = new Map(); });
+  };
+});
+
+// SEQUENCE
+export const loadSequence = async (): Promise<Sequence | null> => {
+  const db = await getDatabase();
+  const stored = await requestToPromise<StoredSequence | undefined>(
+    db.transaction(SEQUENCE_STORE).objectStore(SEQUENCE_STORE).get(CURRENT_SEQUENCE_KEY)
+  );
+  if (!stored) {
+    return null;
+  }
+  const blobs = await readBlobs(db, stored.cuts.flatMap(cut => cut.history));
+  storedSequenceRefs = new Set(blobs.keys());
+  return { activeCutId: stored.activeCutId, cuts: await Promise.all(stored.cuts.map(cut => fromStoredCut(cut, blobs))) };
+};
+
+export const saveSequence = (sequence: Sequence): Promise<void> => write([HISTORY_STORE, SEQUENCE_STORE, BLOB_STORE], async () => {
+  const cuts = await Promise.all(sequence.cuts.map(toStoredCut));
+  const stored: StoredSequence = { activeCutId: sequence.activeCutId, cuts: cuts.map(({ cut }) => cut) };
+  const blobs = mergeBlobs(cuts);
+  // Images can only have become unused when a ref of the last save is gone
+  const dropsRefs = [...storedSequenceRefs].some(ref => !blobs.has(ref));
+  return transaction => {
+    transaction.objectStore(SEQUENCE_STORE).put(stored, CURRENT_SEQUENCE_KEY);
+    putBlobs(transaction, blobs);
+    if (dropsRefs) {
+      deleteUnusedBlobs(transaction);
+    }
+    transaction.addEventListener('complete', () => { storedSequenceRefs = new Set(blobs.keys()); });
+  };
+});
+
+export const clearSequence = (): Promise<void> => write([HISTORY_STORE, SEQUENCE_STORE, BLOB_STORE], async () => transaction => {
+  transaction.objectStore(SEQUENCE_STORE).delete(CURRENT_SEQUENCE_KEY);
+  deleteUnusedBlobs(transaction);
+  transaction.addEventListener('complete', () => { storedSequenceRefs = new Set(); });
+});
+
+// USAGE
+/**
+ * How much of the origin's quota is in use, or null when the browser does not say.
+ */
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage === undefined || quota === undefined ? null : { usage, quota };
+};
+
+/**
+ * Calls `listener` after every write, with the error when the write failed.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToStorageWrites = (listener: StorageListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import type { StrokePoint } from '../types';
+import { correctStroke } from './strokeStabilizer';
+
+// A stroke along y = bow * sin(PI * x / 200) from (0, 0) to (200, 0), with a hand's wobble
+const bentStroke = (bow: number, wobble: number): StrokePoint[] =>
+  Array.from({ length: 101 }, (_, i) => {
+    const x = i * 2;
+    return { x, y: bow * Math.sin((Math.PI * x) / 200) + (i % 2 === 0 ? wobble : -wobble), pressure: 0.5 };
+  });
+
+// How far the stroke turns from one segment to the next, at most
+const maxTurn = (points: StrokePoint[]): number => {
+  let turn = 0;
+  for (let i = 2; i < points.length; i++) {
+    const a = Math.atan2(points[i - 1].y - points[i - 2].y, points[i - 1].x - points[i - 2].x);
+    const b = Math.atan2(points[i].y - points[i - 1].y, points[i].x - points[i - 1].x);
+    turn = Math.max(turn, Math.abs(b - a));
+  }
+  return turn;
+};
+
+describe('correctStroke', () => {
+  it('straightens a stroke that stays close to its chord', () => {
+    const corrected = correctStroke(bentStroke(1, 0), 0.5);
+    expect(corrected.every(point => Math.abs(point.y) < 1e-9)).toBe(true);
+  });
+
+  it('smooths a gentle single bend that simplifies to its two ends', () => {
+    const stroke = bentStroke(5, 1);
+    const corrected = correctStroke(stroke, 1);
+    expect(corrected).not.toBe(stroke);
+    expect(corrected[0]).toMatchObject({ x: stroke[0].x, y: stroke[0].y });
+    expect(corrected[corrected.length - 1]).toBe(stroke[stroke.length - 1]);
+    // The bend is kept, the wobble is gone
+    expect(Math.max(...corrected.map(point => point.y))).toBeGreaterThan(4);
+    expect(maxTurn(corrected)).toBeLessThan(maxTurn(stroke) / 4);
+    expect(corrected.every(point => point.pressure === 0.5)).toBe(true);
+  });
+
+  it('leaves strokes too short to correct alone', () => {
+    const stroke = [{ x: 0, y: 0 }, { x: 5, y: 5 }];
+    expect(correctStroke(stroke, 1)).toBe(stroke);
+  });
+});
@@ -0,0 +1,221 @@
+import type { StrokePoint } from '../types';
+
+// STROKE STABILIZER
+// Steadies pen strokes as they are drawn, and optionally cleans them up once
+// the pen is lifted. The lazy brush ('rope') trails the pointer on a string and
+// only moves when it is pulled taut, so small wobbles never reach the line;
+// the moving average follows every movement but evens it out over the last
+// few samples. Line correction straightens strokes that were meant to be
+// straight and redraws the rest as a smooth curve through their main turns.
+
+export type StabilizerMode = 'off' | 'rope' | 'average';
+
+export interface StabilizerSettings {
+  mode: StabilizerMode;
+  strength: number; // 0 to 1
+  lineCorrection: boolean;
+}
+
+export const DEFAULT_STABILIZER_SETTINGS: StabilizerSettings = {
+  mode: 'off',
+  strength: 0.5,
+  lineCorrection: false,
+};
+
+export const STABILIZER_MODE_OPTIONS: { id: StabilizerMode; label: string }[] = [
+  { id: 'off', label: '끔' },
+  { id: 'rope', label: '로프' },
+  { id: 'average', label: '평균' },
+];
+
+export interface Stabilizer {
+  /** Takes a raw sample and returns the points to add to the stroke, possibly none. */
+  push: (point: StrokePoint) => StrokePoint[];
+  /** The points that bring the stroke to where the pen was lifted. */
+  finish: () => StrokePoint[];
+  /** Where the lazy brush is while the pointer pulls it, or null in the other modes. */
+  brushPosition: () => StrokePoint | null;
+}
+
+const MAX_ROPE_LENGTH = 60; // Screen pixels at full strength
+const MAX_AVERAGE_WINDOW = 24; // Samples at full strength
+const STRAIGHT_TOLERANCE = 0.015; // Largest bow of a straight stroke, relative to its length
+const MIN_STRAIGHT_LENGTH = 20;
+const MAX_CORRECTION_EPSILON = 6; // Canvas pixels of wobble dropped at full strength
+const RESAMPLE_SPACING = 2;
+
+// HELPER FUNCTIONS
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpOptional = (a: number | undefined, b: number | undefined, t: number): number | undefined =>
+  a === undefined || b === undefined ? (a ?? b) : lerp(a, b, t);
+
+// The position from `position`, and the pen state (pressure, tilt) between `a` and `b`
+const withPenState = (position: { x: number; y: number }, a: StrokePoint, b: StrokePoint, t: number): StrokePoint => {
+  const point: StrokePoint = { x: position.x, y: position.y };
+  const pressure = lerpOptional(a.pressure, b.pressure, t);
+  const tiltX = lerpOptional(a.tiltX, b.tiltX, t);
+  const tiltY = lerpOptional(a.tiltY, b.tiltY, t);
+  if (pressure !== undefined) point.pressure = pressure;
+  if (tiltX !== undefined) point.tiltX = tiltX;
+  if (tiltY !== undefined) point.tiltY = tiltY;
+  return point;
+};
+
+const averageOf = (points: StrokePoint[]): StrokePoint => {
+  const last = points[points.length - 1];
+  const mean = (key: 'x' | 'y' | 'pressure' | 'tiltX' | 'tiltY') =>
+    points.reduce((sum, point) => sum + (point[key] ?? 0), 0) / points.length;
+  if (last.pressure === undefined) return { x: mean('x'), y: mean('y') };
+  return { x: mean('x'), y: mean('y'), pressure: mean('pressure'), tiltX: mean('tiltX'), tiltY: mean('tiltY') };
+};
+
+/**
+ * A stabilizer for one stroke, starting at `start`. `zoom` keeps the rope the
+ * same length on screen however far the canvas is zoomed.
+ */
+export const createStabilizer = (settings: StabilizerSettings, start: StrokePoint, zoom: number): Stabilizer => {
+  if (settings.mode === 'rope') {
+    const ropeLength = (settings.strength * MAX_ROPE_LENGTH) / zoom;
+    let brush: StrokePoint = start;
+    let pointer: StrokePoint = start;
+    return {
+      push: point => {
+        pointer = point;
+        const distance = Math.hypot(point.x - brush.x, point.y - brush.y);
+        if (distance <= ropeLength) return [];
+        const t = (distance - ropeLength) / distance;
+        brush = withPenState({ x: lerp(brush.x, point.x, t), y: lerp(brush.y, point.y, t) }, point, point, 0);
+        return [brush];
+      },
+      finish: () => {
+        if (pointer === brush) return [];
+        brush = pointer;
+        return [pointer];
+      },
+      brushPosition: () => brush,
+    };
+  }
+
+  if (settings.mode === 'average') {
+    const windowSize = 1 + Math.round(settings.strength * (MAX_AVERAGE_WINDOW - 1));
+    const recent: StrokePoint[] = [start];
+    return {
+      push: point => {
+        recent.push(point);
+        if (recent.length > windowSize) recent.shift();
+        return [averageOf(recent)];
+      },
+      // Shrinks the window so the line eases into the last sample
+      finish: () => {
+        const tail: StrokePoint[] = [];
+        while (recent.length > 1) {
+          recent.shift();
+          tail.push(averageOf(recent));
+        }
+        return tail;
+      },
+      brushPosition: () => null,
+    };
+  }
+
+  return { push: point => [point], finish: () => [], brushPosition: () => null };
+};
+
+const distanceToChord = (point: StrokePoint, a: StrokePoint, b: StrokePoint): number => {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0) return Math.hypot(point.x - a.x, point.y - a.y);
+  return Math.abs((b.x - a.x) * (a.y - point.y) - (a.x - point.x) * (b.y - a.y)) / length;
+};
+
+// Ramer-Douglas-Peucker: the indices of the points that matter at this tolerance
+const keyPointIndices = (points: StrokePoint[], epsilon: number): number[] => {
+  const keep = new Set([0, points.length - 1]);
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = epsilon;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToChord(points[i], points[first], points[last]);
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest >= 0) {
+      keep.add(farthest);
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+  return Array.from(keep).sort((a, b) => a - b);
+};
+
+// The inner point furthest from the chord, or the middle one when the stroke lies on it
+const apexIndex = (points: StrokePoint[]): number => {
+  const first = points[0];
+  const last = points[points.length - 1];
+  let apex = Math.floor((points.length - 1) / 2);
+  let apexDistance = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToChord(points[i], first, last);
+    if (distance > apexDistance) {
+      apex = i;
+      apexDistance = distance;
+    }
+  }
+  return apex;
+};
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number): number =>
+  0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+
+/**
+ * The line correction pass for a finished stroke. A stroke that stays within a
+ * small bow of its chord becomes a straight line; any other is reduced to its
+ * main turns (more of the wobble is dropped at higher strength), at least its
+ * apex, and redrawn as a smooth curve through them. Pressure and tilt are carried along.
+ */
+export const correctStroke = (points: StrokePoint[], strength: number): StrokePoint[] => {
+  if (points.length < 3) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const chord = Math.hypot(last.x - first.x, last.y - first.y);
+
+  // Samples from index `from` to `to` of the original stroke along `position`, keeping its pen state
+  const resample = (from: number, to: number, position: (t: number) => { x: number; y: number }, length: number): StrokePoint[] => {
+    const steps = Math.max(1, Math.ceil(length / RESAMPLE_SPACING));
+    return Array.from({ length: steps }, (_, i) => {
+      const index = lerp(from, to, i / steps);
+      const before = Math.floor(index);
+      return withPenState(position(i / steps), points[before], points[Math.min(to, before + 1)], index - before);
+    });
+  };
+
+  if (chord >= MIN_STRAIGHT_LENGTH && points.every(point => distanceToChord(point, first, last) <= chord * STRAIGHT_TOLERANCE)) {
+    return [
+      ...resample(0, points.length - 1, t => ({ x: lerp(first.x, last.x, t), y: lerp(first.y, last.y, t) }), chord),
+      last,
+    ];
+  }
+
+  const epsilon = 1 + strength * (MAX_CORRECTION_EPSILON - 1);
+  const keys = keyPointIndices(points, epsilon);
+  // A gentle bend never strays past the tolerance; it is still redrawn as a curve, through its apex
+  if (keys.length < 3) keys.splice(1, 0, apexIndex(points));
+
+  const corrected: StrokePoint[] = [];
+  for (let i = 0; i < keys.length - 1; i++) {
+    const p0 = points[keys[Math.max(0, i - 1)]];
+    const p1 = points[keys[i]];
+    const p2 = points[keys[i + 1]];
+    const p3 = points[keys[Math.min(keys.length - 1, i + 2)]];
+    const length = Math.hypot(p2.x - p1.x, p2.y - p1.y);
+    corrected.push(...resample(keys[i], keys[i + 1], t => ({
+      x: catmullRom(p0.x, p1.x, p2.x, p3.x, t),
+      y: catmullRom(p0.y, p1.y, p2.y, p3.y, t),
+    }), length));
+  }
+  corrected.push(last);
+  return corrected;
+};
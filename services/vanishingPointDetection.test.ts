@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { findVanishingPoints, type GrayscaleImage } from './vanishingPointDetection';
+
+const WIDTH = 400;
+const HEIGHT = 300;
+
+// Black strokes `thickness` pixels wide on white paper
+const drawLines = (lines: [number, number, number, number][], thickness: number): GrayscaleImage => {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT).fill(255);
+  const half = (thickness - 1) / 2;
+  for (const [x1, y1, x2, y2] of lines) {
+    const steps = Math.ceil(Math.hypot(x2 - x1, y2 - y1) * 2);
+    for (let s = 0; s <= steps; s++) {
+      const x = x1 + ((x2 - x1) * s) / steps;
+      const y = y1 + ((y2 - y1) * s) / steps;
+      for (let oy = -half; oy <= half; oy++) {
+        for (let ox = -half; ox <= half; ox++) {
+          const px = Math.round(x + ox);
+          const py = Math.round(y + oy);
+          if (px >= 0 && py >= 0 && px < WIDTH && py < HEIGHT) data[py * WIDTH + px] = 0;
+        }
+      }
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+};
+
+// One-point perspective: lines radiating from (200, 120) and a back wall facing the camera
+const onePointScene = (rayCount: number, thickness: number) => {
+  const rays = Array.from({ length: rayCount }, (_, k): [number, number, number, number] => {
+    const angle = (2 * Math.PI * k) / rayCount + 0.1;
+    return [200 + Math.cos(angle) * 40, 120 + Math.sin(angle) * 40, 200 + Math.cos(angle) * 600, 120 + Math.sin(angle) * 600];
+  });
+  const wall: [number, number, number, number][] = [[140, 75, 260, 75], [140, 165, 260, 165], [140, 75, 140, 165], [260, 75, 260, 165]];
+  return drawLines([...rays, ...wall], thickness);
+};
+
+// Two-point perspective: two fans of lines converging left and right of the frame on the same eye level
+const twoPointScene = () => {
+  const fan = (vx: number, toX: number) => Array.from({ length: 8 }, (_, k): [number, number, number, number] => {
+    const y = 20 + k * 37;
+    return [vx + (toX - vx) * 0.45, 140 + (y - 140) * 0.45, toX, y];
+  });
+  return drawLines([...fan(-200, 380), ...fan(600, 20)], 1);
+};
+
+describe('findVanishingPoints', () => {
+  it('finds nothing on a blank image', () => {
+    expect(findVanishingPoints(drawLines([], 1)).vanishingPoints).toEqual([]);
+  });
+
+  it('keeps two distinct points apart and levels the horizon through them', () => {
+    const { vanishingPoints, horizon } = findVanishingPoints(twoPointScene());
+    expect(vanishingPoints).toHaveLength(2);
+    const [left, right] = [...vanishingPoints].sort((a, b) => a.x - b.x);
+    expect(left.x).toBeCloseTo(-0.5, 1);
+    expect(right.x).toBeCloseTo(1.5, 1);
+    expect(horizon!.leftY).toBeCloseTo(140 / HEIGHT, 1);
+    expect(horizon!.rightY).toBeCloseTo(140 / HEIGHT, 1);
+  });
+
+  for (const thickness of [1, 3, 5, 7]) {
+    for (const rayCount of [10, 16, 24]) {
+      it(`proposes exactly one point for one-point perspective (${rayCount} lines, ${thickness}px strokes)`, () => {
+        const { vanishingPoints, horizon } = findVanishingPoints(onePointScene(rayCount, thickness));
+        expect(vanishingPoints).toHaveLength(1);
+        expect(vanishingPoints[0].x).toBeCloseTo(0.5, 1);
+        expect(vanishingPoints[0].y).toBeCloseTo(0.4, 1);
+        expect(horizon).not.toBeNull();
+        expect(horizon!.leftY).toBe(horizon!.rightY);
+        expect(horizon!.leftY).toBeCloseTo(0.4, 1);
+      });
+    }
+  }
+});
@@ -0,0 +1,418 @@
+// VANISHING POINT DETECTION
+// Finds straight lines in an image and groups them by where they converge:
+//   1. Sobel gradients, thinned by non-maximum suppression, give edge pixels;
+//      their direction comes from the locally smoothed structure tensor.
+//   2. Each edge pixel votes in a Hough accumulator, only near its own gradient
+//      direction, and the strongest peaks become candidate lines.
+//   3. Each line is trimmed to its longest run of supporting edge pixels, and
+//      short runs and duplicates (the two sides of one stroke) are dropped.
+//   4. Intersections of segment pairs are scored by how many segments (weighted
+//      by length) point at them; the best one wins, its segments are removed,
+//      and the search repeats for up to three vanishing points. A point found
+//      close to an earlier one (the other side of thick strokes) is merged into it.
+// Pure computation, no DOM access: it runs inside a Web Worker.
+
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // One luminance byte per pixel
+}
+
+export interface DetectedSegment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  vanishingPointIndex: number | null; // The proposed point this segment converges on
+}
+
+export interface VanishingPointProposal {
+  // Fractions of the image; points off the image lie outside 0..1
+  vanishingPoints: { x: number; y: number; support: number }[]; // support: share of segment length pointing at it
+  horizon: { leftY: number; rightY: number } | null; // Where the horizon crosses the left and right edges
+  segments: DetectedSegment[];
+}
+
+// TUNING
+const EDGE_QUANTILE = 0.99; // Edges must reach a share of the strongest gradients...
+const EDGE_SHARE = 0.25;
+const MIN_EDGE_MAGNITUDE = 40; // ...and never be faint texture
+const VOTE_SPREAD_DEGREES = 3;
+const MAX_LINES = 60;
+const MIN_SEGMENT_FRACTION = 0.06; // Of the image diagonal
+const MAX_GAP_PIXELS = 6;
+const JUNCTION_PIXELS = 20; // Segments end a little short of the corners they meet at
+const INLIER_DEGREES = 2;
+const MIN_INLIERS = 3;
+const MAX_VANISHING_POINTS = 3;
+const MAX_DISTANCE_FRACTION = 3; // Points further than this many diagonals away act as parallel lines
+const MERGE_FRACTION = 0.05; // Points closer than this share of the diagonal (or of their distance from the center) are one point
+
+// HELPER FUNCTIONS
+const blur = (gray: Float32Array, width: number, height: number): Float32Array => {
+  const out = Float32Array.from(gray); // Border pixels stay unblurred
+  const kernel = [1, 2, 1, 2, 4, 2, 1, 2, 1];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let sum = 0;
+      for (let ky = -1; ky <= 1; ky++) {
+        for (let kx = -1; kx <= 1; kx++) {
+          sum += gray[(y + ky) * width + x + kx] * kernel[(ky + 1) * 3 + kx + 1];
+        }
+      }
+      out[y * width + x] = sum / 16;
+    }
+  }
+  return out;
+};
+
+interface EdgeMap {
+  isEdge: Uint8Array;
+  angle: Float32Array; // Gradient direction (the line normal), radians in [0, PI)
+  count: number;
+}
+
+const detectEdges = (gray: Float32Array, width: number, height: number): EdgeMap => {
+  const magnitude = new Float32Array(gray.length);
+  let jxx = new Float32Array(gray.length);
+  let jyy = new Float32Array(gray.length);
+  let jxy = new Float32Array(gray.length);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = -gray[i - width - 1] - 2 * gray[i - 1] - gray[i + width - 1] + gray[i - width + 1] + 2 * gray[i + 1] + gray[i + width + 1];
+      const gy = -gray[i - width - 1] - 2 * gray[i - width] - gray[i - width + 1] + gray[i + width - 1] + 2 * gray[i + width] + gray[i + width + 1];
+      magnitude[i] = Math.hypot(gx, gy);
+      jxx[i] = gx * gx;
+      jyy[i] = gy * gy;
+      jxy[i] = gx * gy;
+    }
+  }
+
+  // Single-pixel gradients on aliased strokes swing by 10° and more; the smoothed
+  // structure tensor gives the direction of the stroke as a whole
+  for (let pass = 0; pass < 2; pass++) {
+    jxx = blur(jxx, width, height);
+    jyy = blur(jyy, width, height);
+    jxy = blur(jxy, width, height);
+  }
+  const angle = new Float32Array(gray.length);
+  for (let i = 0; i < gray.length; i++) {
+    let a = 0.5 * Math.atan2(2 * jxy[i], jxx[i] - jyy[i]);
+    if (a < 0) a += Math.PI;
+    angle[i] = a >= Math.PI ? 0 : a;
+  }
+
+  // Relative to the strongest gradients, so pencil sketches and photos both work
+  const nonZero = magnitude.filter(m => m > 0).sort();
+  const threshold = Math.max(MIN_EDGE_MAGNITUDE, nonZero.length > 0 ? nonZero[Math.floor(nonZero.length * EDGE_QUANTILE)] * EDGE_SHARE : Infinity);
+
+  // Non-maximum suppression along the gradient keeps edges one pixel wide
+  const isEdge = new Uint8Array(gray.length);
+  let count = 0;
+  // The outermost pixels have no full neighbourhood, so they never count as edges
+  for (let y = 2; y < height - 2; y++) {
+    for (let x = 2; x < width - 2; x++) {
+      const i = y * width + x;
+      const m = magnitude[i];
+      if (m < threshold) continue;
+      const dx = Math.round(Math.cos(angle[i]));
+      const dy = Math.round(Math.sin(angle[i]));
+      if (m >= magnitude[i + dy * width + dx] && m >= magnitude[i - dy * width - dx]) {
+        isEdge[i] = 1;
+        count++;
+      }
+    }
+  }
+  return { isEdge, angle, count };
+};
+
+interface HoughLine {
+  theta: number;
+  rho: number;
+}
+
+const findLines = (edges: EdgeMap, width: number, height: number): HoughLine[] => {
+  const thetaBins = 180;
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const rhoBins = diagonal * 2 + 1;
+  const accumulator = new Uint32Array(thetaBins * rhoBins);
+  const cos = Float64Array.from({ length: thetaBins }, (_, t) => Math.cos((t * Math.PI) / thetaBins));
+  const sin = Float64Array.from({ length: thetaBins }, (_, t) => Math.sin((t * Math.PI) / thetaBins));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!edges.isEdge[i]) continue;
+      const center = Math.round((edges.angle[i] * thetaBins) / Math.PI);
+      for (let d = -VOTE_SPREAD_DEGREES; d <= VOTE_SPREAD_DEGREES; d++) {
+        const t = (center + d + thetaBins) % thetaBins;
+        const rho = Math.round(x * cos[t] + y * sin[t]);
+        accumulator[t * rhoBins + rho + diagonal]++;
+      }
+    }
+  }
+
+  const minVotes = Math.max(20, Math.round(diagonal * MIN_SEGMENT_FRACTION));
+  const peaks: { t: number; r: number; votes: number }[] = [];
+  for (let t = 0; t < thetaBins; t++) {
+    for (let r = 0; r < rhoBins; r++) {
+      const votes = accumulator[t * rhoBins + r];
+      if (votes < minVotes) continue;
+      let isPeak = true;
+      for (let dt = -2; dt <= 2 && isPeak; dt++) {
+        const nt = t + dt;
+        if (nt < 0 || nt >= thetaBins) continue;
+        for (let dr = -4; dr <= 4; dr++) {
+          const nr = r + dr;
+          if ((dt !== 0 || dr !== 0) && nr >= 0 && nr < rhoBins && accumulator[nt * rhoBins + nr] > votes) {
+            isPeak = false;
+            break;
+          }
+        }
+      }
+      if (isPeak) peaks.push({ t, r, votes });
+    }
+  }
+
+  return peaks
+    .sort((a, b) => b.votes - a.votes)
+    .slice(0, MAX_LINES * 2)
+    .map(({ t, r }) => ({ theta: (t * Math.PI) / thetaBins, rho: r - diagonal }));
+};
+
+interface Segment {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  length: number;
+}
+
+// The longest run of edge pixels along a line, allowing short gaps
+const traceSegment = ({ theta, rho }: HoughLine, edges: EdgeMap, width: number, height: number): Segment | null => {
+  const nx = Math.cos(theta);
+  const ny = Math.sin(theta);
+  const dx = -ny;
+  const dy = nx;
+  const x0 = nx * rho;
+  const y0 = ny * rho;
+  const diagonal = Math.hypot(width, height);
+
+  const isSupported = (px: number, py: number): boolean => {
+    for (let o = -1; o <= 1; o++) {
+      const x = Math.round(px + nx * o);
+      const y = Math.round(py + ny * o);
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      const i = y * width + x;
+      if (!edges.isEdge[i]) continue;
+      const diff = Math.abs(edges.angle[i] - theta);
+      if (Math.min(diff, Math.PI - diff) < (5 * Math.PI) / 180) return true;
+    }
+    return false;
+  };
+
+  let best: { start: number; end: number } | null = null;
+  let runStart: number | null = null;
+  let lastHit = -Infinity;
+  for (let s = -diagonal; s <= diagonal; s++) {
+    const px = x0 + dx * s;
+    const py = y0 + dy * s;
+    if (px < 0 || py < 0 || px >= width || py >= height) continue;
+    if (!isSupported(px, py)) continue;
+    if (runStart === null || s - lastHit > MAX_GAP_PIXELS) runStart = s;
+    lastHit = s;
+    if (!best || lastHit - runStart > best.end - best.start) best = { start: runStart, end: lastHit };
+  }
+  if (!best || best.end - best.start < diagonal * MIN_SEGMENT_FRACTION) return null;
+  return {
+    x1: x0 + dx * best.start,
+    y1: y0 + dy * best.start,
+    x2: x0 + dx * best.end,
+    y2: y0 + dy * best.end,
+    length: best.end - best.start,
+  };
+};
+
+const intersect = (a: Segment, b: Segment): { x: number; y: number } | null => {
+  const d = (a.x1 - a.x2) * (b.y1 - b.y2) - (a.y1 - a.y2) * (b.x1 - b.x2);
+  if (Math.abs(d) < 1e-9) return null;
+  const p = a.x1 * a.y2 - a.y1 * a.x2;
+  const q = b.x1 * b.y2 - b.y1 * b.x2;
+  return {
+    x: (p * (b.x1 - b.x2) - (a.x1 - a.x2) * q) / d,
+    y: (p * (b.y1 - b.y2) - (a.y1 - a.y2) * q) / d,
+  };
+};
+
+// Angle between a segment and the direction from its midpoint to a point, in degrees.
+// A segment cannot converge on a point it runs through (a corner where lines meet),
+// so points alongside the segment count as fully off.
+const deviation = (segment: Segment, point: { x: number; y: number }): number => {
+  const mx = (segment.x1 + segment.x2) / 2;
+  const my = (segment.y1 + segment.y2) / 2;
+  const along = ((point.x - mx) * (segment.x2 - segment.x1) + (point.y - my) * (segment.y2 - segment.y1)) / segment.length;
+  if (Math.abs(along) < segment.length / 2 + JUNCTION_PIXELS) return 90;
+  const a = Math.atan2(segment.y2 - segment.y1, segment.x2 - segment.x1);
+  const b = Math.atan2(point.y - my, point.x - mx);
+  let diff = Math.abs(a - b) % Math.PI;
+  if (diff > Math.PI / 2) diff = Math.PI - diff;
+  return (diff * 180) / Math.PI;
+};
+
+const direction = (segment: Segment): number => {
+  const a = Math.atan2(segment.y2 - segment.y1, segment.x2 - segment.x1);
+  return a < 0 ? a + Math.PI : a;
+};
+
+const angleBetween = (a: Segment, b: Segment): number => {
+  const diff = Math.abs(direction(a) - direction(b));
+  return (Math.min(diff, Math.PI - diff) * 180) / Math.PI;
+};
+
+// Both sides of a drawn stroke come out as separate lines; keep the longer of each such pair
+const removeDuplicates = (segments: Segment[]): Segment[] => {
+  const kept: Segment[] = [];
+  for (const segment of segments) {
+    const isDuplicate = kept.some(other => {
+      if (angleBetween(segment, other) > INLIER_DEGREES * 2) return false;
+      const mx = (segment.x1 + segment.x2) / 2;
+      const my = (segment.y1 + segment.y2) / 2;
+      const distance = Math.abs((other.x2 - other.x1) * (other.y1 - my) - (other.x1 - mx) * (other.y2 - other.y1)) / other.length;
+      return distance < MAX_GAP_PIXELS;
+    });
+    if (!isDuplicate) kept.push(segment);
+  }
+  return kept;
+};
+
+const findConvergence = (segments: Segment[], width: number, height: number): { x: number; y: number; inliers: number[] } | null => {
+  const maxDistance = Math.hypot(width, height) * MAX_DISTANCE_FRACTION;
+  let best: { x: number; y: number; score: number } | null = null;
+
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      // Nearly parallel pairs meet at badly conditioned points
+      if (angleBetween(segments[i], segments[j]) < INLIER_DEGREES) continue;
+      const point = intersect(segments[i], segments[j]);
+      if (!point || Math.hypot(point.x - width / 2, point.y - height / 2) > maxDistance) continue;
+      let score = 0;
+      for (const segment of segments) {
+        const angle = deviation(segment, point);
+        if (angle < INLIER_DEGREES) score += segment.length * (1 - angle / INLIER_DEGREES);
+      }
+      if (!best || score > best.score) best = { ...point, score };
+    }
+  }
+  if (!best) return null;
+
+  const inliers = segments.flatMap((segment, index) => (deviation(segment, best!) < INLIER_DEGREES ? [index] : []));
+  return inliers.length >= MIN_INLIERS ? { x: best.x, y: best.y, inliers } : null;
+};
+
+// A point more than a frame away, above or below rather than beside it, is the vertical
+// (third) vanishing point, which does not lie on the horizon
+const isVerticalPoint = ({ x, y }: { x: number; y: number }): boolean => Math.abs(y - 0.5) > 1 && Math.abs(y - 0.5) > Math.abs(x - 0.5);
+
+// The horizon runs through the pair of points closest to level; a lone point gets a level horizon
+const findHorizon = (allPoints: { x: number; y: number }[]): { leftY: number; rightY: number } | null => {
+  const points = allPoints.filter(point => !isVerticalPoint(point));
+  if (points.length === 0) return null;
+  if (points.length === 1) return { leftY: points[0].y, rightY: points[0].y };
+
+  let pair: [{ x: number; y: number }, { x: number; y: number }] | null = null;
+  let bestSlope = Infinity;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const dx = points[j].x - points[i].x;
+      if (Math.abs(dx) < 1e-6) continue;
+      const slope = Math.abs((points[j].y - points[i].y) / dx);
+      if (slope < bestSlope) {
+        bestSlope = slope;
+        pair = [points[i], points[j]];
+      }
+    }
+  }
+  // Steeper than 30° is a vertical vanishing point pair, not a horizon
+  if (!pair || bestSlope > Math.tan(Math.PI / 6)) {
+    const levelest = points.reduce((a, b) => (Math.abs(a.y - 0.5) < Math.abs(b.y - 0.5) ? a : b));
+    return { leftY: levelest.y, rightY: levelest.y };
+  }
+  const [a, b] = pair;
+  const slope = (b.y - a.y) / (b.x - a.x);
+  return { leftY: a.y - slope * a.x, rightY: a.y + slope * (1 - a.x) };
+};
+
+// Distant points are located less precisely, so the tolerance grows with the distance from the center
+const isSamePoint = (a: { x: number; y: number }, b: { x: number; y: number }, width: number, height: number): boolean => {
+  const reach = Math.max(Math.hypot(width, height), Math.hypot(a.x - width / 2, a.y - height / 2));
+  return Math.hypot(a.x - b.x, a.y - b.y) < reach * MERGE_FRACTION;
+};
+
+/**
+ * Reduces RGBA pixels (as in ImageData) to the luminance the detection works on.
+ * Transparent pixels read as white paper.
+ */
+export const toGrayscaleImage = ({ width, height, data }: { width: number; height: number; data: Uint8ClampedArray }): GrayscaleImage => {
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    gray[i] = luminance * alpha + 255 * (1 - alpha);
+  }
+  return { width, height, data: gray };
+};
+
+/**
+ * Proposes up to three vanishing points and a horizon for an image.
+ * Returns no points when the image has too few straight lines.
+ */
+export const findVanishingPoints = (image: GrayscaleImage): VanishingPointProposal => {
+  const { width, height } = image;
+  const gray = blur(Float32Array.from(image.data), width, height);
+  const edges = detectEdges(gray, width, height);
+  if (edges.count === 0) {
+    return { vanishingPoints: [], horizon: null, segments: [] };
+  }
+
+  const traced = findLines(edges, width, height)
+    .map(line => traceSegment(line, edges, width, height))
+    .filter((segment): segment is Segment => segment !== null)
+    .sort((a, b) => b.length - a.length);
+  const segments = removeDuplicates(traced).slice(0, MAX_LINES);
+
+  const totalLength = segments.reduce((sum, segment) => sum + segment.length, 0);
+  const assignment: (number | null)[] = segments.map(() => null);
+  const points: { x: number; y: number; length: number }[] = []; // In pixels, with the length of their segments
+  let remaining = segments.map((_, index) => index);
+
+  while (points.length < MAX_VANISHING_POINTS && remaining.length >= MIN_INLIERS) {
+    const found = findConvergence(remaining.map(index => segments[index]), width, height);
+    if (!found) break;
+    const inlierIndices = found.inliers.map(i => remaining[i]);
+    const length = inlierIndices.reduce((sum, index) => sum + segments[index].length, 0);
+    const sameIndex = points.findIndex(point => isSamePoint(point, found, width, height));
+    if (sameIndex >= 0) {
+      // Weighted by support, so the merged point stays near the stronger one
+      const same = points[sameIndex];
+      const total = same.length + length;
+      points[sameIndex] = { x: (same.x * same.length + found.x * length) / total, y: (same.y * same.length + found.y * length) / total, length: total };
+    }
+    const pointIndex = sameIndex >= 0 ? sameIndex : points.push({ x: found.x, y: found.y, length }) - 1;
+    inlierIndices.forEach(index => { assignment[index] = pointIndex; });
+    remaining = remaining.filter(index => assignment[index] === null);
+  }
+
+  const vanishingPoints = points.map(point => ({ x: point.x / width, y: point.y / height, support: point.length / totalLength }));
+  return {
+    vanishingPoints,
+    horizon: findHorizon(vanishingPoints),
+    segments: segments.map((segment, index) => ({
+      x1: segment.x1 / width,
+      y1: segment.y1 / height,
+      x2: segment.x2 / width,
+      y2: segment.y2 / height,
+      vanishingPointIndex: assignment[index],
+    })),
+  };
+};
@@ -0,0 +1,55 @@
+import { toGrayscaleImage, type VanishingPointProposal } from './vanishingPointDetection';
+
+// Detection runs on a downscaled copy; line positions do not need more detail
+const MAX_DETECTION_SIZE = 640;
+
+/**
+ * Detects vanishing points in an image in a Web Worker, so the canvas stays responsive.
+ * Positions in the result are fractions of the image. Aborting terminates the worker.
+ */
+export const detectVanishingPoints = (image: HTMLImageElement, signal?: AbortSignal): Promise<VanishingPointProposal> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const scale = Math.min(1, MAX_DETECTION_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      reject(new Error('캔버스를 만들 수 없습니다.'));
+      return;
+    }
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    // Only luminance crosses to the worker, a quarter of the RGBA pixels
+    const { data, width, height } = toGrayscaleImage(ctx.getImageData(0, 0, canvas.width, canvas.height));
+
+    const worker = new Worker(new URL('./vanishingPointWorker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', handleAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<{ proposal?: VanishingPointProposal; error?: string }>) => {
+      finish();
+      if (event.data.proposal) {
+        resolve(event.data.proposal);
+      } else {
+        reject(new Error(event.data.error || '소실점 감지에 실패했습니다.'));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || '소실점 감지에 실패했습니다.'));
+    };
+    worker.postMessage({ width, height, data }, [data.buffer]);
+  });
+};
@@ -0,0 +1,10 @@
+import { findVanishingPoints, type GrayscaleImage } from './vanishingPointDetection';
+
+// Web Worker entry for vanishing point detection (see `vanishingPointDetector.ts`).
+self.addEventListener('message', (event: MessageEvent<GrayscaleImage>) => {
+  try {
+    self.postMessage({ proposal: findVanishingPoints(event.data) });
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
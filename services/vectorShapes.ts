@@ -0,0 +1,303 @@
+import type { StrokePoint, VectorShape } from '../types';
+import { pressureScale, strokeHasPressure } from './pointerInput';
+
+type Point = { x: number; y: number };
+type Size = { width: number; height: number };
+
+const CURVE_SAMPLES = 32;
+const ELLIPSE_SAMPLES = 48;
+
+// PATH DRAWING
+export const drawPath = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+  if (points.length === 0) return;
+
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+
+  if (points.length < 3) {
+    // If 1 point, draw a dot. If 2, a straight line.
+    const toPoint = points.length > 1 ? points[1] : points[0];
+    ctx.lineTo(toPoint.x, toPoint.y);
+  } else {
+    // Draw a smooth curve through the points
+    let i = 1;
+    for (; i < points.length - 2; i++) {
+      const xc = (points[i].x + points[i + 1].x) / 2;
+      const yc = (points[i].y + points[i + 1].y) / 2;
+      ctx.quadraticCurveTo(points[i].x, points[i].y, xc, yc);
+    }
+    // For the last 2 points, finish the curve
+    ctx.quadraticCurveTo(
+      points[i].x,
+      points[i].y,
+      points[i + 1].x,
+      points[i + 1].y
+    );
+  }
+
+  ctx.stroke();
+};
+
+// Pen tablet strokes: the width follows the recorded pressure and tilt rather than the drawing speed
+const drawPressurePath = (ctx: CanvasRenderingContext2D, points: StrokePoint[], baseSize: number) => {
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  const widthAt = (point: StrokePoint) => Math.max(baseSize * 0.1, baseSize * pressureScale(point));
+
+  if (points.length < 3) {
+    ctx.lineWidth = widthAt(points[points.length - 1]);
+    drawPath(ctx, points);
+    return;
+  }
+
+  const segment = (from: Point, width: number, draw: () => void) => {
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineWidth = width;
+    draw();
+    ctx.stroke();
+  };
+
+  let midPoint = { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 };
+  segment(points[0], widthAt(points[0]), () => ctx.lineTo(midPoint.x, midPoint.y));
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const p1 = points[i];
+    const nextMidPoint = { x: (p1.x + points[i + 1].x) / 2, y: (p1.y + points[i + 1].y) / 2 };
+    segment(midPoint, widthAt(p1), () => ctx.quadraticCurveTo(p1.x, p1.y, nextMidPoint.x, nextMidPoint.y));
+    midPoint = nextMidPoint;
+  }
+
+  const last = points[points.length - 1];
+  segment(midPoint, widthAt(last), () => ctx.lineTo(last.x, last.y));
+};
+
+export const drawVariableWidthPath = (
+  ctx: CanvasRenderingContext2D,
+  points: StrokePoint[],
+  baseSize: number,
+  sensitivity: number
+) => {
+  if (points.length > 0 && strokeHasPressure(points)) {
+    drawPressurePath(ctx, points, baseSize);
+    return;
+  }
+
+  if (sensitivity === 0 || points.length < 2) {
+    drawPath(ctx, points);
+    return;
+  }
+
+  // --- Increased smoothing factors ---
+  const widthSmoothingFactor = 0.8; // More smoothing
+  const velocitySensitivity = 25; // More responsive
+
+  let lastWidth = baseSize;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (points.length < 3) {
+    ctx.lineWidth = baseSize;
+    drawPath(ctx, points); // Use original for short lines
+    return;
+  }
+
+  let p1 = points[0];
+  let p2 = points[1];
+  let midPoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+
+  ctx.beginPath();
+  ctx.moveTo(p1.x, p1.y);
+  ctx.lineTo(midPoint.x, midPoint.y);
+
+  for (let i = 1; i < points.length - 1; i++) {
+    p1 = points[i];
+    p2 = points[i + 1];
+    const nextMidPoint = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+
+    // Calculate velocity at p1
+    const distance = Math.hypot(p1.x - points[i - 1].x, p1.y - points[i - 1].y);
+    const velocity = Math.min(distance / velocitySensitivity, 1.0);
+
+    const targetWidth = baseSize - (baseSize * 0.9) * velocity * sensitivity;
+    const currentWidth = lastWidth * widthSmoothingFactor + targetWidth * (1 - widthSmoothingFactor);
+
+    // Stroke the previous segment with the calculated width
+    ctx.lineWidth = Math.max(baseSize * 0.1, currentWidth);
+    ctx.quadraticCurveTo(p1.x, p1.y, nextMidPoint.x, nextMidPoint.y);
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.moveTo(nextMidPoint.x, nextMidPoint.y);
+
+    lastWidth = currentWidth;
+    midPoint = nextMidPoint;
+  }
+
+  // Draw last line segment
+  ctx.lineWidth = lastWidth;
+  ctx.lineTo(points[points.length - 1].x, points[points.length - 1].y);
+  ctx.stroke();
+};
+
+// VECTOR SHAPES
+// Shapes are kept in canvas pixels. Their points by kind are listed with VectorShape in types.ts.
+
+const ellipseBox = ([a, b]: Point[]) => ({
+  cx: (a.x + b.x) / 2,
+  cy: (a.y + b.y) / 2,
+  rx: Math.abs(b.x - a.x) / 2,
+  ry: Math.abs(b.y - a.y) / 2,
+});
+
+const bezierPoint = ([p0, p1, p2, p3]: Point[], t: number): Point => {
+  const u = 1 - t;
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+  };
+};
+
+/** The shape as a polyline, for hit testing and bounds. */
+const shapeOutline = (shape: VectorShape): Point[] => {
+  switch (shape.kind) {
+    case 'curve':
+      return Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => bezierPoint(shape.points, i / CURVE_SAMPLES));
+    case 'ellipse': {
+      const { cx, cy, rx, ry } = ellipseBox(shape.points);
+      return Array.from({ length: ELLIPSE_SAMPLES + 1 }, (_, i) => {
+        const angle = (i / ELLIPSE_SAMPLES) * 2 * Math.PI;
+        return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+      });
+    }
+    case 'polygon':
+      return shape.points.length > 0 ? [...shape.points, shape.points[0]] : [];
+    default:
+      return shape.points;
+  }
+};
+
+export const drawVectorShape = (ctx: CanvasRenderingContext2D, shape: VectorShape) => {
+  const { points } = shape;
+  if (points.length === 0) return;
+  ctx.save();
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = shape.color;
+  ctx.lineWidth = shape.width;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (shape.kind) {
+    case 'stroke':
+      drawVariableWidthPath(ctx, points, shape.width, shape.sensitivity ?? 0);
+      break;
+    case 'line':
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      ctx.lineTo(points[1].x, points[1].y);
+      ctx.stroke();
+      break;
+    case 'curve':
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      ctx.bezierCurveTo(points[1].x, points[1].y, points[2].x, points[2].y, points[3].x, points[3].y);
+      ctx.stroke();
+      break;
+    case 'ellipse': {
+      const { cx, cy, rx, ry } = ellipseBox(points);
+      if (rx > 0 && ry > 0) {
+        ctx.beginPath();
+        ctx.ellipse(cx, cy, rx, ry, 0, 0, 2 * Math.PI);
+        ctx.stroke();
+      }
+      break;
+    }
+    case 'polygon':
+      ctx.beginPath();
+      points.forEach((point, index) => (index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+      ctx.closePath();
+      ctx.stroke();
+      break;
+  }
+  ctx.restore();
+};
+
+/** Redraws a vector layer's canvas from its shapes. */
+export const renderVectorShapes = (ctx: CanvasRenderingContext2D, shapes: VectorShape[]) => {
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  shapes.forEach(shape => drawVectorShape(ctx, shape));
+};
+
+/** Rasterizes shapes onto a new transparent canvas, as sent for generation. */
+export const rasterizeVectorShapes = (shapes: VectorShape[], size: Size): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (ctx) renderVectorShapes(ctx, shapes);
+  return canvas;
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const distanceToShape = (shape: VectorShape, point: Point): number => {
+  const outline = shapeOutline(shape);
+  if (outline.length === 1) return Math.hypot(point.x - outline[0].x, point.y - outline[0].y);
+  let min = Infinity;
+  for (let i = 1; i < outline.length; i++) {
+    min = Math.min(min, distanceToSegment(point, outline[i - 1], outline[i]));
+  }
+  return min;
+};
+
+/** The topmost shape whose line passes within `tolerance` of the point. */
+export const findShapeAt = (shapes: VectorShape[], point: Point, tolerance: number): VectorShape | null => {
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    if (distanceToShape(shapes[i], point) <= tolerance + shapes[i].width / 2) return shapes[i];
+  }
+  return null;
+};
+
+/** Shapes touched by a brush of the given radius dragged along `path`. */
+export const shapesTouchedBy = (shapes: VectorShape[], path: Point[], radius: number): Set<number> => {
+  const touched = new Set<number>();
+  shapes.forEach(shape => {
+    if (path.some(point => distanceToShape(shape, point) <= radius + shape.width / 2)) touched.add(shape.id);
+  });
+  return touched;
+};
+
+/** The points that can be dragged to reshape; freehand strokes and outlines only move as a whole. */
+export const shapeHandles = (shape: VectorShape): Point[] =>
+  shape.kind === 'stroke' || shape.kind === 'polygon' ? [] : shape.points;
+
+export const shapeBounds = (shape: VectorShape): { x: number; y: number; width: number; height: number } => {
+  const outline = shapeOutline(shape);
+  const xs = outline.map(p => p.x);
+  const ys = outline.map(p => p.y);
+  const pad = shape.width / 2;
+  const x = Math.min(...xs) - pad;
+  const y = Math.min(...ys) - pad;
+  return { x, y, width: Math.max(...xs) + pad - x, height: Math.max(...ys) + pad - y };
+};
+
+export const moveShape = (shape: VectorShape, dx: number, dy: number): VectorShape => ({
+  ...shape,
+  points: shape.points.map(p => ({ ...p, x: p.x + dx, y: p.y + dy })),
+});
+
+export const moveShapeHandle = (shape: VectorShape, index: number, point: Point): VectorShape => ({
+  ...shape,
+  points: shape.points.map((p, i) => (i === index ? { x: point.x, y: point.y } : p)),
+});
+
+/** Scales shapes with the canvas, as raster layers are stretched on resize. */
+export const scaleShapes = (shapes: VectorShape[], scaleX: number, scaleY: number): VectorShape[] =>
+  shapes.map(shape => ({ ...shape, points: shape.points.map(p => ({ ...p, x: p.x * scaleX, y: p.y * scaleY })) }));
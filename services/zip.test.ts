@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from './zip';
+
+describe('createZip', () => {
+    it('writes entries that readZip reads back', async () => {
+        const data = new TextEncoder().encode('{"ok":true}');
+        const files = await readZip(createZip([{ name: 'manifest.json', data }, { name: 'cuts/1/레이어.png', data: new Uint8Array([1, 2, 3]) }]));
+        expect(new TextDecoder().decode(files.get('manifest.json'))).toBe('{"ok":true}');
+        expect([...files.get('cuts/1/레이어.png')!]).toEqual([1, 2, 3]);
+    });
+
+    it('accepts 65535 entries', () => {
+        const entries = Array.from({ length: 0xffff }, (_, i) => ({ name: String(i), data: new Uint8Array(0) }));
+        expect(() => createZip(entries)).not.toThrow();
+    });
+
+    it('throws instead of overflowing the 16-bit entry count', () => {
+        const entries = Array.from({ length: 0x10000 }, (_, i) => ({ name: String(i), data: new Uint8Array(0) }));
+        expect(() => createZip(entries)).toThrow(/65535/);
+    });
+});
@@ -0,0 +1,175 @@
+// Minimal ZIP container used by project files.
+// Entries are written uncompressed (the payload is mostly PNG/JPEG, which
+// does not deflate further); reading also accepts deflated entries so archives
+// re-packed by other tools still open.
+// There is no ZIP64 support: an archive holds at most 65535 entries and 4 GB.
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const MAX_ENTRIES = 0xffff; // Entry counts are 16-bit
+const MAX_OFFSET = 0xffffffff; // Sizes and offsets are 32-bit
+const TOO_LARGE_MESSAGE = 'ZIP 파일은 4GB를 넘을 수 없습니다. 생성 기록이나 컷 일부를 정리한 뒤 다시 저장해주세요.';
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Packs `entries` into an archive. Throws instead of writing a corrupt one
+ * when they exceed what a ZIP without ZIP64 can hold.
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+    if (entries.length > MAX_ENTRIES) {
+        throw new Error(`ZIP 파일에는 최대 ${MAX_ENTRIES}개의 항목만 담을 수 있습니다 (${entries.length}개).`);
+    }
+    const encoder = new TextEncoder();
+    const stamp = toDosDateTime(new Date());
+    const chunks: Uint8Array[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const entry of entries) {
+        const nameBytes = encoder.encode(entry.name);
+        const size = entry.data.length;
+        if (nameBytes.length > 0xffff) {
+            throw new Error(`ZIP 항목 이름이 너무 깁니다: ${entry.name.slice(0, 80)}…`);
+        }
+        // The local header's offset must fit, and so must everything up to the end of this entry
+        if (offset + 30 + nameBytes.length + size > MAX_OFFSET) {
+            throw new Error(TOO_LARGE_MESSAGE);
+        }
+        const crc = crc32(entry.data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_FILE_HEADER, true);
+        local.setUint16(4, 20, true); // version needed to extract
+        local.setUint16(6, UTF8_FLAG, true);
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, stamp.time, true);
+        local.setUint16(12, stamp.date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, size, true);
+        local.setUint32(22, size, true);
+        local.setUint16(26, nameBytes.length, true);
+        local.setUint16(28, 0, true);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+        central.setUint16(4, 20, true); // version made by
+        central.setUint16(6, 20, true);
+        central.setUint16(8, UTF8_FLAG, true);
+        central.setUint16(10, 0, true);
+        central.setUint16(12, stamp.time, true);
+        central.setUint16(14, stamp.date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, size, true);
+        central.setUint32(24, size, true);
+        central.setUint16(28, nameBytes.length, true);
+        central.setUint32(42, offset, true);
+
+        chunks.push(new Uint8Array(local.buffer), nameBytes, entry.data);
+        centralDirectory.push(new Uint8Array(central.buffer), nameBytes);
+        offset += 30 + nameBytes.length + size;
+    }
+
+    const centralSize = centralDirectory.reduce((sum, chunk) => sum + chunk.length, 0);
+    if (offset + centralSize + 22 > MAX_OFFSET) {
+        throw new Error(TOO_LARGE_MESSAGE);
+    }
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    return new Blob([...chunks, ...centralDirectory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads every file entry of a ZIP archive. Throws when the archive is
+ * malformed or uses a compression method other than stored/deflate.
+ */
+export const readZip = async (blob: Blob): Promise<Map<string, Uint8Array>> => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const decoder = new TextDecoder();
+
+    let endOffset = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset < 0) {
+        throw new Error('ZIP 파일 형식이 올바르지 않습니다.');
+    }
+
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let cursor = view.getUint32(endOffset + 16, true);
+    const files = new Map<string, Uint8Array>();
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(cursor, true) !== CENTRAL_DIRECTORY_HEADER) {
+            throw new Error('ZIP 중앙 디렉터리가 손상되었습니다.');
+        }
+        const method = view.getUint16(cursor + 10, true);
+        const compressedSize = view.getUint32(cursor + 20, true);
+        const nameLength = view.getUint16(cursor + 28, true);
+        const extraLength = view.getUint16(cursor + 30, true);
+        const commentLength = view.getUint16(cursor + 32, true);
+        const localOffset = view.getUint32(cursor + 42, true);
+        const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+        cursor += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue; // directory entry
+
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === 0) {
+            files.set(name, data);
+        } else if (method === 8) {
+            files.set(name, await inflateRaw(data));
+        } else {
+            throw new Error(`지원하지 않는 ZIP 압축 방식입니다 (${name}).`);
+        }
+    }
+    return files;
+};
@@ -1,10 +1,21 @@
+// Which way a character faces, as the settei RGB mask paints it: R front, G side, B back
+export type CharacterFacing = 'front' | 'side' | 'back';
+
+// A character's placement marker. Positions are percentages of the canvas
+// width (x) and height (y). The staging fields are absent on markers placed
+// before they existed.
 export interface CharacterPoint {
   id: number;
   x: number; // Percentage
   y: number; // Percentage
   characterName: string;
-  radius: number; // Percentage of canvas width
+  radius: number; // Percentage of canvas width; sizes the marker's glow, and the box of a marker placed before boxes existed
   color: string;
+  bbox?: { x: number; y: number; width: number; height: number }; // The character's extent, from its top left
+  facing?: CharacterFacing;
+  head?: { x: number; y: number };
+  eyeLineTarget?: { x: number; y: number; characterName?: string } | null; // Where the character looks; a named target follows that character's head
+  depth?: number; // Staging order from the camera: 1 is nearest
 }
 
 export interface PoseImage {
@@ -12,6 +23,51 @@ export interface PoseImage {
   imageDataUrl: string; // The sketch data URL, can be empty string
   setteiImages?: { imageUrl: string; maskUrl?: string }[] | null;
   points?: CharacterPoint[];
+  skeletonImageDataUrl?: string; // The mannequins of its pose layers, drawn as a guide
+  skeletons?: PoseKeypoints[];
+}
+
+// A 2D mannequin on a pose layer, in canvas pixels. Each bone is posed by its
+// angle to its parent bone; its foreshortening is the share of its length lost
+// to depth, positive when it points toward the viewer.
+export type PoseProportionPreset = 'adult' | 'heroic' | 'teen' | 'child' | 'chibi';
+
+export type PoseBoneName =
+  | 'spine' | 'neck' | 'head'
+  | 'leftShoulder' | 'leftUpperArm' | 'leftForearm'
+  | 'rightShoulder' | 'rightUpperArm' | 'rightForearm'
+  | 'leftHip' | 'leftThigh' | 'leftShin'
+  | 'rightHip' | 'rightThigh' | 'rightShin';
+
+// The pelvis and the end of every bone. Left and right are the character's own.
+export type PoseJointName =
+  | 'pelvis' | 'chest' | 'neck' | 'headTop'
+  | 'leftShoulder' | 'leftElbow' | 'leftWrist'
+  | 'rightShoulder' | 'rightElbow' | 'rightWrist'
+  | 'leftHip' | 'leftKnee' | 'leftAnkle'
+  | 'rightHip' | 'rightKnee' | 'rightAnkle';
+
+export interface PoseBone {
+  angle: number; // Degrees clockwise from the parent bone's direction (the spine's from straight up)
+  foreshortening: number; // -0.9 to 0.9
+}
+
+export interface PoseSkeleton {
+  id: number;
+  characterName: string;
+  preset: PoseProportionPreset;
+  x: number; // The pelvis
+  y: number;
+  height: number; // Standing height with no foreshortening
+  color: string;
+  bones: Record<PoseBoneName, PoseBone>;
+}
+
+// A mannequin as sent for generation: where its joints ended up, in canvas pixels
+export interface PoseKeypoints {
+  characterName: string;
+  proportions: string; // e.g. "adult, 7.5 heads tall"
+  keypoints: { joint: PoseJointName; x: number; y: number; foreshortening?: number }[]; // Foreshortening of the bone ending at the joint
 }
 
 export interface VanishingPoint {
@@ -20,8 +76,25 @@ export interface VanishingPoint {
   y: number;
 }
 
+export type PerspectiveMode = 'linear' | 'curvilinear4' | 'curvilinear5';
+
 export interface PerspectiveData {
   vanishingPoints: VanishingPoint[];
+  horizonY?: number; // Eye level at the canvas center, as a fraction of the height
+  mode?: PerspectiveMode;
+}
+
+// A named set of perspective guides, saved with the layer stack. Positions are canvas pixels.
+export interface PerspectiveGuideSet {
+  id: number;
+  name: string;
+  mode: PerspectiveMode; // A linear set is 1-, 2- or 3-point by its number of vanishing points
+  vanishingPoints: VanishingPoint[]; // Linear sets only; the first two lie on the horizon
+  horizonY: number; // Eye level at the canvas center
+  density: number; // Guide lines per vanishing point
+  showGroundPlane: boolean;
+  isVisible: boolean;
+  isLocked: boolean;
 }
 
 export interface HistoryItem {
@@ -30,6 +103,8 @@ export interface HistoryItem {
   thumbnailUrl: string;
   prompt: string;
   negativePrompt: string;
+  seed?: number; // Absent for edits and for results made before seeds were recorded
+  recipe?: GenerationRecipe; // Absent for chat edits and for results made before recipes were recorded
 }
 
 export interface ChatMessage {
@@ -68,4 +143,185 @@ export interface GuestRecord {
   ipAddress: string;
   loginTime: string; // Last login attempt/request time
   status: GuestStatus; // 'pending', 'allowed', 'blocked'
-}
\ No newline at end of file
+}
+export type OutputStyle = 'genga_style' | 'clean_lineart' | 'douga_cleanup' | 'rough_layout' | 'shadow_separation';
+
+export type WorkMode = 'single' | 'multi';
+
+// Serialized layout canvas. This is what DrawingCanvas persists between
+// sessions and what a project file carries; images are data URLs.
+export interface SerializedSetteiImage {
+  dataUrl: string;
+  maskDataUrl?: string;
+}
+
+// A sketch layer is a raster canvas; a vector layer keeps editable shapes and
+// is only rasterized for display and generation. A pose layer holds mannequins
+// and is drawn from them. A group holds other layers (those whose parentId is
+// its ID) and has no pixels of its own.
+export type LayerType = 'sketch' | 'vector' | 'pose' | 'group';
+
+export type VectorShapeKind = 'stroke' | 'line' | 'curve' | 'ellipse' | 'polygon';
+
+// A sampled point of a drawn stroke, in canvas pixels. Pen tablet samples also
+// carry the pressure after the tool's pressure curve (0 to 1) and the pen's
+// tilt in degrees, as Pointer Events report it.
+export interface StrokePoint {
+  x: number;
+  y: number;
+  pressure?: number;
+  tiltX?: number;
+  tiltY?: number;
+}
+
+// A shape on a vector layer, in canvas pixels. Its points by kind: stroke, the
+// sampled pen path; line, start and end; curve, start, two control points and
+// end; ellipse, opposite corners of its box; polygon, a closed outline (such
+// as an ellipse drawn in perspective).
+export interface VectorShape {
+  id: number;
+  kind: VectorShapeKind;
+  points: StrokePoint[];
+  color: string;
+  width: number;
+  sensitivity?: number; // Strokes only: how much drawing speed thins the line
+}
+
+export interface SerializedLayer {
+  id: number;
+  name: string;
+  isVisible: boolean;
+  blendMode: GlobalCompositeOperation;
+  opacity: number;
+  type: LayerType;
+  points?: CharacterPoint[];
+  setteiImages?: SerializedSetteiImage[];
+  shapes?: VectorShape[]; // Vector layers only
+  skeletons?: PoseSkeleton[]; // Pose layers only
+  parentId?: number | null; // The group the layer is in; absent in documents saved before groups
+  isLocked?: boolean;
+  isClipped?: boolean; // Drawn only over the pixels of the layer below it
+  isCollapsed?: boolean; // Groups only, in the layer panel
+}
+
+export interface SerializedGlobalReference {
+  originalDataUrl: string;
+  dataUrl: string; // The conti as edited in ContiEditorModal
+  opacity: number;
+  isVisible: boolean;
+}
+
+// The canvas edit history as saved with a document. `Image` is a PNG data URL
+// here; storage and project files swap it for a Blob or an archive path.
+export interface SerializedPixelPatch<Image = string> {
+  x: number;
+  y: number;
+  image: Image;
+}
+
+// A layer as an edit changed it: whole when it was added or removed, otherwise
+// only the properties that changed. null: the layer did not exist.
+export type SerializedLayerRecord<Image = string> = Partial<Omit<SerializedLayer, 'setteiImages'>> & {
+  setteiImages?: { dataUrl: Image; maskDataUrl?: Image }[];
+};
+
+export interface SerializedLayerChange<Image = string> {
+  id: number;
+  before: SerializedLayerRecord<Image> | null;
+  after: SerializedLayerRecord<Image> | null;
+  sketch?: SerializedPixelPatch<Image> | null; // The pixels of a sketch layer that was added or removed
+}
+
+export type SerializedEditCommand<Image = string> =
+  | { kind: 'pixels'; layerId: number; before: SerializedPixelPatch<Image>; after: SerializedPixelPatch<Image> }
+  | { kind: 'layers'; changes: SerializedLayerChange<Image>[]; orderBefore: number[] | null; orderAfter: number[] | null }
+  | { kind: 'guides'; before: PerspectiveGuideSet[]; after: PerspectiveGuideSet[] }
+  | { kind: 'batch'; commands: SerializedEditCommand<Image>[] };
+
+// The entries form a tree: an entry made after undoing starts a branch from its parent.
+export interface SerializedEditHistory<Image = string> {
+  entries: { id: number; parentId: number | null; label: string; time: number; thumbnail?: Image; command: SerializedEditCommand<Image> }[];
+  currentId: number | null; // The entry the canvas shows; null: none applied
+}
+
+export interface CanvasDocument {
+  layers: SerializedLayer[];
+  layerSketches: Record<number, string>; // PNG data URL per sketch layer ID
+  globalReference: SerializedGlobalReference | null;
+  vanishingPoints: VanishingPoint[]; // The active guide set's, for readers that predate guide sets
+  guideSets?: PerspectiveGuideSet[]; // Absent in documents saved before guide sets
+  activeGuideSetId?: number | null;
+  lens?: string;
+  canvasDimensions: { width: number; height: number };
+  layerCounter: number;
+  editHistory?: SerializedEditHistory; // Only when the history is saved with the document
+}
+
+// One cut of the episode's sequence. The active cut's canvas, camera,
+// directives and history are live in App/DrawingCanvas; the copies here are
+// only current for the other cuts.
+export interface Cut {
+  id: number;
+  cutNumber: string; // e.g. "C012"
+  durationFrames: number; // At 24 fps
+  notes: string;
+  cameraOptions: CameraOptions;
+  directiveInput: string;
+  negativeDirectiveInput: string;
+  canvas: CanvasDocument | null; // null until the cut has been drawn
+  history: HistoryItem[];
+}
+
+export interface Sequence {
+  activeCutId: number;
+  cuts: Cut[];
+}
+
+// Everything that went into a generation besides the seed, enough to put the inputs back and run it again
+export interface GenerationRecipe {
+  model: string;
+  outputStyle: OutputStyle;
+  workMode: WorkMode;
+  cameraOptions: CameraOptions;
+  perspectiveData: PerspectiveData; // Normalized, as sent
+  canvasDimensions: { width: number; height: number };
+  sketchBoundingBox: { x: number; y: number; width: number; height: number } | null;
+  directiveInput: string;
+  negativeDirectiveInput: string;
+  translatedPrompt: string; // The English prompts actually sent
+  translatedNegativePrompt: string;
+  chatHistory: ChatMessage[];
+  inputLayers: { id: number; name: string }[]; // Layers of `canvas` that were sent as poses
+  canvas: CanvasDocument | null;
+  editBaseImageUrl: string | null;
+  promptTemplate?: { version: number; text: string }; // The generation template in use; absent in older recipes
+}
+
+// System instruction templates, editable by a master and saved with the project
+export type PromptTemplateKind = 'generation' | 'analysis' | 'chat' | 'edit';
+
+export interface PromptTemplateVersion {
+  version: number;
+  text: string;
+  note: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface PromptTemplate {
+  activeVersion: number;
+  versions: PromptTemplateVersion[];
+}
+
+export type PromptTemplateLibrary = Record<PromptTemplateKind, PromptTemplate>;
+
+// Structured result of an AI scene analysis. Shot, angle and lens use the
+// camera panel's values ('none' when undetermined); positions are fractions
+// of the canvas and may lie outside 0..1 for off-canvas vanishing points.
+export interface SceneAnalysisResult {
+  summary: string; // Korean markdown, also the first message of the AI chat
+  characters: { name: string; pose: string; facing: string }[];
+  camera: { shotType: string; angleType: string; lens: string; reason: string };
+  perspective: { horizonY: number | null; vanishingPoints: { x: number; y: number }[]; reason: string };
+  compositionIssues: { severity: 'info' | 'warning'; issue: string; suggestion: string }[];
+  continuityWarnings: string[];
+}
@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // The API proxy (server/index.ts) holds the Gemini key.
+          '/api': env.API_PROXY_URL || 'http://localhost:8787',
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER)
       },
       resolve: {
         alias: {
@@ -20,4 +23,4 @@ export default defineConfig(({ mode }) => {
         }
       }
     };
-});
\ No newline at end of file
+});